@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, externalEuint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract EtCloudFhe is SepoliaConfig {
@@ -9,28 +9,125 @@ contract EtCloudFhe is SepoliaConfig {
     struct EncryptedImage {
         uint256 id;
         address owner;
-        euint32 encryptedData;
+        // FHE-encrypted first 32 bits of the SHA-256 of the plaintext stack. It identifies
+        // the upload only; the voxels themselves live in the blobs and tiles
+        euint32 encryptedFingerprint;
         uint256 timestamp;
+        string resolution;
+        string description;
+        bool reconstructionRequested;
         bool isProcessed;
     }
     
-    // Structure for reconstruction results
-    struct ReconstructionResult {
-        uint256 imageId;
-        euint32 encryptedResult;
-        uint256 timestamp;
+    // Tile grid a stack is partitioned into; voxels of each tile are uploaded as euint32 handles
+    struct TileManifest {
+        uint32 width;
+        uint32 height;
+        uint32 depth;
+        uint32 tileWidth;
+        uint32 tileHeight;
+        uint32 tileDepth;
+        uint8 dtype;
+        uint8 valueBits;
+        int256 valueOffset;
+        uint256 valueScale;
+        uint32 tileCount;
+        uint32 tilesCompleted;
+    }
+    
+    // Off-chain ciphertext blob, addressed by the SHA-256 of its bytes
+    struct BlobCommitment {
+        bytes32 hash;
+        uint64 size;
+    }
+    
+    // Reconstruction job lifecycle; the order matches JOB_STATES in frontend/web/src/jobState.ts
+    enum JobState { None, Queued, Aligning, Filtering, BackProjecting, Reconstructed, Failed, Cancelled }
+    
+    struct JobTransition {
+        JobState state;
+        uint64 timestamp;
+    }
+    
+    // How one tilt image maps onto the tilt axis, in 1/ALIGNMENT_SCALE pixels and degrees
+    struct AlignmentTransform {
+        int32 shiftX;
+        int32 shiftY;
+        int32 rotation;
+    }
+    
+    struct AlignmentRecord {
+        int32 tiltAxisAngle;
+        AlignmentTransform[] transforms;
     }
     
+    // Fourier shell correlation of two half-set reconstructions, shells evenly spaced up to Nyquist
+    struct FscCurve {
+        uint32 pixelSpacing;
+        int32[] correlation;
+    }
+    
+    // Ciphertexts one encrypted input can carry (2048 bits of euint32)
+    uint256 public constant MAX_TILE_BATCH = 64;
+    
+    // Result voxels, and weighted input voxels summed across them, one result write may carry.
+    // A euint32 term costs a scalar mul and an add (390k HCU), and a voxel's adds form one
+    // chain (125k HCU deep each); 32 terms stay under the 20M per-tx and 5M depth limits.
+    uint256 public constant MAX_RESULT_BATCH = 64;
+    uint256 public constant MAX_RESULT_TERMS = 32;
+    
+    // A 256-bit blob data key, as euint32 words
+    uint256 public constant BLOB_KEY_WORDS = 8;
+    
+    // Alignment values and tilt angles are fixed point with three decimals
+    uint256 public constant ALIGNMENT_SCALE = 1000;
+    
+    // FSC correlations and the pixel spacing, in Å, they were measured at are fixed point with three decimals
+    uint256 public constant FSC_SCALE = 1000;
+    uint256 public constant MAX_FSC_SHELLS = 1024;
+    
+    // Pixel spacings, in Å, are fixed point with three decimals
+    uint256 public constant PIXEL_SPACING_SCALE = 1000;
+    
     // Contract state
     uint256 public imageCount;
     mapping(uint256 => EncryptedImage) public encryptedImages;
-    mapping(uint256 => ReconstructionResult) public reconstructionResults;
     mapping(address => uint256[]) public userImages;
+    mapping(uint256 => TileManifest) private resultManifests;
+    mapping(uint256 => uint256) private resultAttempts;
+    // image => attempt => tile => voxels; every new result manifest starts a fresh attempt
+    mapping(uint256 => mapping(uint256 => mapping(uint256 => euint32[]))) private resultVoxels;
+    // Result tiles whose last voxel a following write is still to extend, by image, attempt and tile
+    mapping(uint256 => mapping(uint256 => mapping(uint256 => bool))) private openResultVoxels;
+    mapping(uint256 => JobTransition[]) private jobHistory;
+    mapping(uint256 => AlignmentRecord) private alignments;
+    mapping(uint256 => int32[]) private tiltAngles;
+    mapping(uint256 => uint32[3]) private pixelSpacings;
+    mapping(uint256 => FscCurve) private fscCurves;
+    // Curve each result carries, keyed by image and result attempt like resultVoxels
+    mapping(uint256 => mapping(uint256 => FscCurve)) private resultFscCurves;
+    address public jobWorker;
+    mapping(uint256 => TileManifest) private tileManifests;
+    mapping(uint256 => mapping(uint256 => euint32[])) private tileVoxels;
+    mapping(uint256 => BlobCommitment[]) private blobCommitments;
+    mapping(uint256 => euint32[]) private blobKeys;
     
     // Events
-    event ImageUploaded(uint256 indexed id, address indexed owner, uint256 timestamp);
+    event ImageUploaded(uint256 indexed id, address indexed owner, uint256 timestamp, string resolution, string description);
     event ReconstructionRequested(uint256 indexed id);
     event ReconstructionCompleted(uint256 indexed id, uint256 timestamp);
+    event TileManifestRecorded(uint256 indexed id, uint32 tileCount);
+    event TileBatchUploaded(uint256 indexed id, uint32 indexed tileIndex, uint32 start, uint32 count);
+    event TileCompleted(uint256 indexed id, uint32 indexed tileIndex);
+    event BlobsCommitted(uint256 indexed id, uint256 firstIndex, uint256 count);
+    event BlobKeySet(uint256 indexed id);
+    event JobStateChanged(uint256 indexed id, JobState state, uint256 timestamp);
+    event ResultManifestRecorded(uint256 indexed id, uint32 tileCount);
+    event ResultBatchWritten(uint256 indexed id, uint32 indexed tileIndex, uint32 start, uint32 count);
+    event AlignmentRecorded(uint256 indexed id, int32 tiltAxisAngle, uint32 imageCount);
+    event TiltAnglesRecorded(uint256 indexed id, uint32 imageCount);
+    event PixelSpacingRecorded(uint256 indexed id);
+    event FscCurveRecorded(uint256 indexed id, uint32 shellCount);
     
     // Modifier to restrict access to image owner
     modifier onlyImageOwner(uint256 imageId) {
@@ -38,65 +135,413 @@ contract EtCloudFhe is SepoliaConfig {
         _;
     }
     
-    /// @notice Upload encrypted ET image data
-    function uploadEncryptedImage(euint32 encryptedData) external {
+    modifier onlyJobWorker() {
+        require(msg.sender == jobWorker, "Not job worker");
+        _;
+    }
+    
+    constructor() {
+        jobWorker = msg.sender;
+    }
+    
+    /// @notice Hand the job worker role to another account
+    function setJobWorker(address worker) external onlyJobWorker {
+        jobWorker = worker;
+    }
+    
+    /// @notice Register an image by its FHE-encrypted content fingerprint, produced client-side
+    /// by the relayer SDK; the stack is uploaded afterwards as blobs and tiles
+    function uploadEncryptedImage(
+        externalEuint32 fingerprintInput,
+        bytes calldata inputProof,
+        string calldata resolution,
+        string calldata description
+    ) external {
+        euint32 encryptedFingerprint = FHE.fromExternal(fingerprintInput, inputProof);
+        FHE.allowThis(encryptedFingerprint);
+        FHE.allow(encryptedFingerprint, msg.sender);
+        
         imageCount++;
         uint256 newId = imageCount;
         
         encryptedImages[newId] = EncryptedImage({
             id: newId,
             owner: msg.sender,
-            encryptedData: encryptedData,
+            encryptedFingerprint: encryptedFingerprint,
             timestamp: block.timestamp,
+            resolution: resolution,
+            description: description,
+            reconstructionRequested: false,
             isProcessed: false
         });
         
         userImages[msg.sender].push(newId);
-        emit ImageUploaded(newId, msg.sender, block.timestamp);
+        emit ImageUploaded(newId, msg.sender, block.timestamp, resolution, description);
+    }
+    
+    /// @notice Record how an image's stack is partitioned into tiles; voxel values are
+    /// stored as round((value - valueOffset) / valueScale), both 18-decimal fixed point,
+    /// clamped to valueBits (8 or 16) bits; the worker's weighted sums of wider voxels would overflow euint32
+    function setTileManifest(
+        uint256 imageId,
+        uint32[3] calldata shape,
+        uint32[3] calldata tileShape,
+        uint8 dtype,
+        uint8 valueBits,
+        int256 valueOffset,
+        uint256 valueScale
+    ) external onlyImageOwner(imageId) {
+        require(tileManifests[imageId].tileCount == 0, "Tile manifest already set");
+        require(valueBits == 8 || valueBits == 16, "Tiles must be 8 or 16 bits");
+        TileManifest memory manifest = _buildManifest(shape, tileShape, dtype, valueBits, valueOffset, valueScale);
+        tileManifests[imageId] = manifest;
+        emit TileManifestRecorded(imageId, manifest.tileCount);
+    }
+    
+    /// @notice Append a batch of encrypted voxels to a tile; edge tiles are zero-padded to full size
+    function uploadTileVoxels(
+        uint256 imageId,
+        uint32 tileIndex,
+        externalEuint32[] calldata voxels,
+        bytes calldata inputProof
+    ) external onlyImageOwner(imageId) {
+        TileManifest storage manifest = tileManifests[imageId];
+        require(manifest.tileCount > 0, "No tile manifest");
+        require(tileIndex < manifest.tileCount, "Tile index out of range");
+        require(voxels.length > 0 && voxels.length <= MAX_TILE_BATCH, "Invalid batch size");
+        
+        euint32[] storage tile = tileVoxels[imageId][tileIndex];
+        uint256 tileSize = uint256(manifest.tileWidth) * manifest.tileHeight * manifest.tileDepth;
+        uint256 start = tile.length;
+        require(start + voxels.length <= tileSize, "Tile overflow");
+        
+        for (uint256 i = 0; i < voxels.length; i++) {
+            euint32 voxel = FHE.fromExternal(voxels[i], inputProof);
+            FHE.allowThis(voxel);
+            FHE.allow(voxel, msg.sender);
+            tile.push(voxel);
+        }
+        
+        emit TileBatchUploaded(imageId, tileIndex, uint32(start), uint32(voxels.length));
+        if (tile.length == tileSize) {
+            manifest.tilesCompleted++;
+            emit TileCompleted(imageId, tileIndex);
+        }
+    }
+    
+    /// @notice Append hash commitments of ciphertext blobs held in the off-chain store
+    function commitBlobs(
+        uint256 imageId,
+        bytes32[] calldata hashes,
+        uint64[] calldata sizes
+    ) external onlyImageOwner(imageId) {
+        require(hashes.length > 0 && hashes.length == sizes.length, "Invalid commitments");
+        
+        BlobCommitment[] storage commitments = blobCommitments[imageId];
+        uint256 firstIndex = commitments.length;
+        for (uint256 i = 0; i < hashes.length; i++) {
+            require(hashes[i] != bytes32(0) && sizes[i] > 0, "Empty blob");
+            commitments.push(BlobCommitment({ hash: hashes[i], size: sizes[i] }));
+        }
+        emit BlobsCommitted(imageId, firstIndex, hashes.length);
+    }
+    
+    /// @notice Store the data key the blobs were encrypted with, readable only by the owner
+    function setBlobKey(
+        uint256 imageId,
+        externalEuint32[] calldata keyWords,
+        bytes calldata inputProof
+    ) external onlyImageOwner(imageId) {
+        require(blobKeys[imageId].length == 0, "Blob key already set");
+        require(keyWords.length == BLOB_KEY_WORDS, "Invalid key length");
+        
+        for (uint256 i = 0; i < keyWords.length; i++) {
+            euint32 word = FHE.fromExternal(keyWords[i], inputProof);
+            FHE.allowThis(word);
+            FHE.allow(word, msg.sender);
+            blobKeys[imageId].push(word);
+        }
+        emit BlobKeySet(imageId);
+    }
+    
+    /// @notice Record the shift and rotation aligning each image of the tilt series, replacing any earlier record
+    function setAlignment(
+        uint256 imageId,
+        int32 tiltAxisAngle,
+        AlignmentTransform[] calldata transforms
+    ) external onlyImageOwner(imageId) {
+        require(!_isActiveJob(_jobState(imageId)), "Reconstruction in progress");
+        TileManifest storage manifest = tileManifests[imageId];
+        require(manifest.tileCount > 0, "No tile manifest");
+        require(transforms.length == manifest.depth, "One transform per image required");
+        
+        AlignmentRecord storage record = alignments[imageId];
+        record.tiltAxisAngle = tiltAxisAngle;
+        delete record.transforms;
+        for (uint256 i = 0; i < transforms.length; i++) {
+            record.transforms.push(transforms[i]);
+        }
+        emit AlignmentRecorded(imageId, tiltAxisAngle, uint32(transforms.length));
+    }
+    
+    /// @notice Record the tilt angle of each image of the series, in 1/ALIGNMENT_SCALE degrees
+    function setTiltAngles(uint256 imageId, int32[] calldata angles) external onlyImageOwner(imageId) {
+        require(!_isActiveJob(_jobState(imageId)), "Reconstruction in progress");
+        TileManifest storage manifest = tileManifests[imageId];
+        require(manifest.tileCount > 0, "No tile manifest");
+        require(angles.length == manifest.depth, "One angle per image required");
+        
+        tiltAngles[imageId] = angles;
+        emit TiltAnglesRecorded(imageId, uint32(angles.length));
+    }
+    
+    /// @notice Record the size of the stack's pixels along x, y and z, in 1/PIXEL_SPACING_SCALE Å; 0 where the file did not say
+    function setPixelSpacing(uint256 imageId, uint32[3] calldata spacing) external onlyImageOwner(imageId) {
+        require(!_isActiveJob(_jobState(imageId)), "Reconstruction in progress");
+        pixelSpacings[imageId] = spacing;
+        emit PixelSpacingRecorded(imageId);
+    }
+    
+    /// @notice Record the resolution curve measured on the image's half-set reconstructions, replacing any earlier one.
+    ///         The next reconstruction result to complete carries it.
+    function setFscCurve(
+        uint256 imageId,
+        uint32 pixelSpacing,
+        int32[] calldata correlation
+    ) external onlyImageOwner(imageId) {
+        require(!_isActiveJob(_jobState(imageId)), "Reconstruction in progress");
+        require(correlation.length >= 2 && correlation.length <= MAX_FSC_SHELLS, "Invalid shell count");
+        
+        FscCurve storage curve = fscCurves[imageId];
+        curve.pixelSpacing = pixelSpacing;
+        curve.correlation = correlation;
+        emit FscCurveRecorded(imageId, uint32(correlation.length));
     }
     
     /// @notice Request 3D reconstruction for an image
     function requestReconstruction(uint256 imageId) external onlyImageOwner(imageId) {
-        require(!encryptedImages[imageId].isProcessed, "Image already processed");
-        
-        // Prepare encrypted data for processing
-        bytes32[] memory ciphertexts = new bytes32[](1);
-        ciphertexts[0] = FHE.toBytes32(encryptedImages[imageId].encryptedData);
+        TileManifest storage manifest = tileManifests[imageId];
+        require(manifest.tileCount > 0, "No tile manifest");
+        require(manifest.tilesCompleted == manifest.tileCount, "Tiles not fully uploaded");
         
-        // Request reconstruction processing
-        uint256 reqId = FHE.requestDecryption(ciphertexts, this.processReconstruction.selector);
+        // The job worker picks the request up from the event and writes the result back
+        _transitionJob(imageId, JobState.Queued);
         emit ReconstructionRequested(imageId);
     }
     
-    /// @notice Process reconstruction results
-    function processReconstruction(
-        uint256 requestId,
-        bytes memory cleartexts,
-        bytes memory proof
-    ) external {
-        // Verify decryption proof
-        FHE.checkSignatures(requestId, cleartexts, proof);
-        
-        // Process reconstruction results
-        euint32 encryptedResult = FHE.asEuint32(abi.decode(cleartexts, (uint32)));
+    /// @notice Report the pipeline stage a job has reached, or that it failed
+    function advanceJob(uint256 imageId, JobState next) external onlyJobWorker {
+        require(
+            next == JobState.Aligning ||
+            next == JobState.Filtering ||
+            next == JobState.BackProjecting ||
+            next == JobState.Failed,
+            "Not a worker transition"
+        );
+        _transitionJob(imageId, next);
+    }
+    
+    /// @notice Cancel a queued or running reconstruction; it can be requested again later
+    function cancelReconstruction(uint256 imageId) external onlyImageOwner(imageId) {
+        _transitionJob(imageId, JobState.Cancelled);
+    }
+    
+    /// @notice Record the tile grid of the reconstructed volume, starting a fresh result
+    function setResultManifest(
+        uint256 imageId,
+        uint32[3] calldata shape,
+        uint32[3] calldata tileShape,
+        uint8 dtype,
+        uint8 valueBits,
+        int256 valueOffset,
+        uint256 valueScale
+    ) external onlyJobWorker {
+        require(_isActiveJob(_jobState(imageId)), "Job not running");
+        TileManifest memory manifest = _buildManifest(shape, tileShape, dtype, valueBits, valueOffset, valueScale);
+        resultManifests[imageId] = manifest;
+        resultAttempts[imageId]++;
+        emit ResultManifestRecorded(imageId, manifest.tileCount);
+    }
+    
+    /// @notice Append result voxels to a result tile. Voxel i is the sum of the next
+    ///         termCounts[i] terms, each an input voxel of this image times a plaintext
+    ///         weight; arithmetic wraps modulo 2^32, so weights may encode negatives.
+    ///         With extendLast the first voxel's terms are added to the tile's last
+    ///         voxel instead, so one voxel can sum more terms than a write carries.
+    ///         leaveOpen marks the batch's last voxel as continued by the next write;
+    ///         a tile is complete once full with its last voxel closed.
+    function writeResultVoxels(
+        uint256 imageId,
+        uint32 tileIndex,
+        bool extendLast,
+        bool leaveOpen,
+        uint32[] calldata termCounts,
+        uint32[] calldata sourceTiles,
+        uint32[] calldata sourceVoxels,
+        uint32[] calldata weights
+    ) external onlyJobWorker {
+        require(_isActiveJob(_jobState(imageId)), "Job not running");
+        TileManifest storage manifest = resultManifests[imageId];
+        require(manifest.tileCount > 0, "No result manifest");
+        require(tileIndex < manifest.tileCount, "Tile index out of range");
+        require(termCounts.length > 0 && termCounts.length <= MAX_RESULT_BATCH, "Invalid batch size");
+        require(
+            sourceTiles.length == sourceVoxels.length &&
+            sourceTiles.length == weights.length &&
+            sourceTiles.length <= MAX_RESULT_TERMS,
+            "Invalid terms"
+        );
         
-        // Store reconstruction result
-        reconstructionResults[requestId] = ReconstructionResult({
-            imageId: requestId,
-            encryptedResult: encryptedResult,
-            timestamp: block.timestamp
-        });
+        uint256 attempt = resultAttempts[imageId];
+        euint32[] storage tile = resultVoxels[imageId][attempt][tileIndex];
+        uint256 tileSize = uint256(manifest.tileWidth) * manifest.tileHeight * manifest.tileDepth;
+        uint256 filled = tile.length;
+        bool wasOpen = openResultVoxels[imageId][attempt][tileIndex];
+        require(extendLast == wasOpen, extendLast ? "No voxel to extend" : "Last voxel left open");
+        uint256 start = extendLast ? filled - 1 : filled;
+        require(start + termCounts.length <= tileSize, "Tile overflow");
         
-        // Mark image as processed
-        encryptedImages[requestId].isProcessed = true;
+        address owner = encryptedImages[imageId].owner;
+        uint256 term = 0;
+        for (uint256 i = 0; i < termCounts.length; i++) {
+            bool extending = extendLast && i == 0;
+            euint32 voxel = extending ? tile[start] : FHE.asEuint32(0);
+            for (uint256 end = term + termCounts[i]; term < end; term++) {
+                euint32[] storage source = tileVoxels[imageId][sourceTiles[term]];
+                require(sourceVoxels[term] < source.length, "Source voxel out of range");
+                euint32 value = source[sourceVoxels[term]];
+                voxel = FHE.add(voxel, weights[term] == 1 ? value : FHE.mul(value, weights[term]));
+            }
+            FHE.allowThis(voxel);
+            FHE.allow(voxel, owner);
+            if (extending) {
+                tile[start] = voxel;
+            } else {
+                tile.push(voxel);
+            }
+        }
+        require(term == sourceTiles.length, "Unused terms");
         
-        emit ReconstructionCompleted(requestId, block.timestamp);
+        openResultVoxels[imageId][attempt][tileIndex] = leaveOpen;
+        emit ResultBatchWritten(imageId, tileIndex, uint32(start), uint32(termCounts.length));
+        // A full tile is done once its last voxel has had its final write; nothing can follow
+        if (tile.length == tileSize && !leaveOpen) {
+            manifest.tilesCompleted++;
+        }
+    }
+    
+    /// @notice Finish a job once every result tile has been written
+    function completeReconstruction(uint256 imageId) external onlyJobWorker {
+        TileManifest storage manifest = resultManifests[imageId];
+        require(manifest.tileCount > 0 && manifest.tilesCompleted == manifest.tileCount, "Result incomplete");
+        resultFscCurves[imageId][resultAttempts[imageId]] = fscCurves[imageId];
+        _transitionJob(imageId, JobState.Reconstructed);
+        emit ReconstructionCompleted(imageId, block.timestamp);
+    }
+    
+    /// @notice Tile grid of the reconstructed volume; tileCount is 0 before the worker records one
+    function getResultManifest(uint256 imageId) external view returns (TileManifest memory) {
+        return resultManifests[imageId];
+    }
+    
+    /// @notice Number of result voxels written so far for a result tile
+    function getResultVoxelCount(uint256 imageId, uint32 tileIndex) external view returns (uint256) {
+        return resultVoxels[imageId][resultAttempts[imageId]][tileIndex].length;
+    }
+    
+    /// @notice Encrypted result voxel handles of a tile in x, y, z order, starting at `start`
+    function getResultVoxels(
+        uint256 imageId,
+        uint32 tileIndex,
+        uint256 start,
+        uint256 count
+    ) external view returns (euint32[] memory voxels) {
+        euint32[] storage tile = resultVoxels[imageId][resultAttempts[imageId]][tileIndex];
+        uint256 end = start + count > tile.length ? tile.length : start + count;
+        voxels = new euint32[](end > start ? end - start : 0);
+        for (uint256 i = 0; i < voxels.length; i++) {
+            voxels[i] = tile[start + i];
+        }
+    }
+    
+    /// @notice Get the tile manifest of an image; tileCount is 0 when none was recorded
+    function getTileManifest(uint256 imageId) external view returns (TileManifest memory) {
+        return tileManifests[imageId];
+    }
+    
+    /// @notice Number of encrypted voxels uploaded so far for a tile
+    function getTileVoxelCount(uint256 imageId, uint32 tileIndex) external view returns (uint256) {
+        return tileVoxels[imageId][tileIndex].length;
+    }
+    
+    /// @notice Encrypted voxel handles of a tile in x, y, z order, starting at `start`
+    function getTileVoxels(
+        uint256 imageId,
+        uint32 tileIndex,
+        uint256 start,
+        uint256 count
+    ) external view returns (euint32[] memory voxels) {
+        euint32[] storage tile = tileVoxels[imageId][tileIndex];
+        uint256 end = start + count > tile.length ? tile.length : start + count;
+        voxels = new euint32[](end > start ? end - start : 0);
+        for (uint256 i = 0; i < voxels.length; i++) {
+            voxels[i] = tile[start + i];
+        }
+    }
+    
+    /// @notice Number of ciphertext blobs committed for an image
+    function getBlobCount(uint256 imageId) external view returns (uint256) {
+        return blobCommitments[imageId].length;
+    }
+    
+    /// @notice Blob commitments of an image in upload order, starting at `start`
+    function getBlobCommitments(
+        uint256 imageId,
+        uint256 start,
+        uint256 count
+    ) external view returns (BlobCommitment[] memory commitments) {
+        BlobCommitment[] storage all = blobCommitments[imageId];
+        uint256 end = start + count > all.length ? all.length : start + count;
+        commitments = new BlobCommitment[](end > start ? end - start : 0);
+        for (uint256 i = 0; i < commitments.length; i++) {
+            commitments[i] = all[start + i];
+        }
+    }
+    
+    /// @notice Encrypted data key of an image's blobs
+    function getBlobKey(uint256 imageId) external view onlyImageOwner(imageId) returns (euint32[] memory) {
+        return blobKeys[imageId];
+    }
+    
+    /// @notice Alignment of an image's tilt series; no transforms when none was recorded
+    function getAlignment(uint256 imageId) external view returns (
+        int32 tiltAxisAngle,
+        AlignmentTransform[] memory transforms
+    ) {
+        AlignmentRecord storage record = alignments[imageId];
+        return (record.tiltAxisAngle, record.transforms);
     }
     
-    /// @notice Get encrypted reconstruction result
-    function getReconstructionResult(uint256 imageId) external view onlyImageOwner(imageId) returns (euint32) {
-        require(encryptedImages[imageId].isProcessed, "Reconstruction not completed");
-        return reconstructionResults[imageId].encryptedResult;
+    /// @notice Tilt angles of an image's series; empty when none were recorded
+    function getTiltAngles(uint256 imageId) external view returns (int32[] memory) {
+        return tiltAngles[imageId];
+    }
+    
+    /// @notice Pixel size of an image's stack in 1/PIXEL_SPACING_SCALE Å; zeros when none was recorded
+    function getPixelSpacing(uint256 imageId) external view returns (uint32[3] memory) {
+        return pixelSpacings[imageId];
+    }
+    
+    /// @notice Resolution curve of an image; no shells when none was recorded
+    function getFscCurve(uint256 imageId) external view returns (uint32 pixelSpacing, int32[] memory correlation) {
+        FscCurve storage curve = fscCurves[imageId];
+        return (curve.pixelSpacing, curve.correlation);
+    }
+    
+    /// @notice Resolution curve of the image's reconstruction result; no shells until a result completes with one
+    function getResultFscCurve(uint256 imageId) external view returns (uint32 pixelSpacing, int32[] memory correlation) {
+        FscCurve storage curve = resultFscCurves[imageId][resultAttempts[imageId]];
+        return (curve.pixelSpacing, curve.correlation);
     }
     
     /// @notice Get user's image IDs
@@ -105,8 +550,102 @@ contract EtCloudFhe is SepoliaConfig {
     }
     
     /// @notice Get image metadata
-    function getImageMetadata(uint256 imageId) external view returns (address owner, uint256 timestamp, bool isProcessed) {
+    function getImageMetadata(uint256 imageId) external view returns (
+        address owner,
+        uint256 timestamp,
+        string memory resolution,
+        string memory description,
+        bool reconstructionRequested,
+        bool isProcessed
+    ) {
         EncryptedImage storage image = encryptedImages[imageId];
-        return (image.owner, image.timestamp, image.isProcessed);
+        return (
+            image.owner,
+            image.timestamp,
+            image.resolution,
+            image.description,
+            image.reconstructionRequested,
+            image.isProcessed
+        );
+    }
+    
+    /// @notice Current reconstruction job state of an image
+    function getJobState(uint256 imageId) external view returns (JobState) {
+        return _jobState(imageId);
+    }
+    
+    /// @notice Every job state an image has been through, oldest first
+    function getJobHistory(uint256 imageId) external view returns (JobTransition[] memory) {
+        return jobHistory[imageId];
+    }
+    
+    function _jobState(uint256 imageId) private view returns (JobState) {
+        JobTransition[] storage history = jobHistory[imageId];
+        return history.length == 0 ? JobState.None : history[history.length - 1].state;
+    }
+    
+    function _isActiveJob(JobState state) private pure returns (bool) {
+        return state >= JobState.Queued && state <= JobState.BackProjecting;
+    }
+    
+    // Failed and cancelled jobs may be queued again; stages, then completion, only move forward
+    // one at a time, and an active job may fail or be cancelled at any stage
+    function _canTransition(JobState from, JobState to) private pure returns (bool) {
+        if (to == JobState.Queued) {
+            return from == JobState.None || from == JobState.Failed || from == JobState.Cancelled;
+        }
+        if (!_isActiveJob(from)) {
+            return false;
+        }
+        if (to == JobState.Failed || to == JobState.Cancelled) {
+            return true;
+        }
+        return uint8(to) == uint8(from) + 1;
+    }
+    
+    function _transitionJob(uint256 imageId, JobState next) private {
+        require(_canTransition(_jobState(imageId), next), "Invalid job transition");
+        jobHistory[imageId].push(JobTransition({ state: next, timestamp: uint64(block.timestamp) }));
+        
+        EncryptedImage storage image = encryptedImages[imageId];
+        image.reconstructionRequested = next != JobState.Failed && next != JobState.Cancelled;
+        image.isProcessed = next == JobState.Reconstructed;
+        emit JobStateChanged(imageId, next, block.timestamp);
+    }
+    
+    function _buildManifest(
+        uint32[3] calldata shape,
+        uint32[3] calldata tileShape,
+        uint8 dtype,
+        uint8 valueBits,
+        int256 valueOffset,
+        uint256 valueScale
+    ) private pure returns (TileManifest memory) {
+        require(shape[0] > 0 && shape[1] > 0 && shape[2] > 0, "Empty stack");
+        require(tileShape[0] > 0 && tileShape[1] > 0 && tileShape[2] > 0, "Empty tile");
+        require(valueBits == 8 || valueBits == 16 || valueBits == 32, "Invalid value width");
+        require(valueScale > 0, "Invalid value scale");
+        
+        uint256 tileCount = _ceilDiv(shape[0], tileShape[0]) * _ceilDiv(shape[1], tileShape[1]) * _ceilDiv(shape[2], tileShape[2]);
+        require(tileCount <= type(uint32).max, "Too many tiles");
+        
+        return TileManifest({
+            width: shape[0],
+            height: shape[1],
+            depth: shape[2],
+            tileWidth: tileShape[0],
+            tileHeight: tileShape[1],
+            tileDepth: tileShape[2],
+            dtype: dtype,
+            valueBits: valueBits,
+            valueOffset: valueOffset,
+            valueScale: valueScale,
+            tileCount: uint32(tileCount),
+            tilesCompleted: 0
+        });
+    }
+    
+    function _ceilDiv(uint256 a, uint256 b) private pure returns (uint256) {
+        return (a + b - 1) / b;
     }
 }
\ No newline at end of file
@@ -5,6 +5,9 @@ import readline from "readline";
 import { ethers as hardhatEthers } from "hardhat";
 import { Wallet, JsonRpcProvider } from "ethers";
 
+// Predeployed on Sepolia and most public chains.
+const CANONICAL_MULTICALL3 = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
 
 const WORD_LIBRARY = [
 
@@ -337,13 +340,23 @@ async function main() {
 
   console.log("Deployer account:", wallet.address);
 
-  // Deploy the plain UniversalAdapter contract
-  const UniversalAdapterFactory = await hardhatEthers.getContractFactory("UniversalAdapter", wallet);
-  const factory = await UniversalAdapterFactory.deploy();
+  // Deploy the EtCloudFhe contract
+  const EtCloudFheFactory = await hardhatEthers.getContractFactory("EtCloudFhe", wallet);
+  const factory = await EtCloudFheFactory.deploy();
   await factory.waitForDeployment();
 
   const deployedAddress = (factory as any).target || (factory as any).address;
-  console.log("UniversalAdapter contract deployed at:", deployedAddress);
+  console.log("EtCloudFhe contract deployed at:", deployedAddress);
+
+  // Batched reads go through Multicall3; deploy one where the canonical instance is missing
+  let multicallAddress = CANONICAL_MULTICALL3;
+  if ((await provider.getCode(CANONICAL_MULTICALL3)) === "0x") {
+    const Multicall3Factory = await hardhatEthers.getContractFactory("Multicall3", wallet);
+    const multicall = await Multicall3Factory.deploy();
+    await multicall.waitForDeployment();
+    multicallAddress = await multicall.getAddress();
+    console.log("Multicall3 deployed at:", multicallAddress);
+  }
 
   // Write config for the frontend
   const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
@@ -354,6 +367,8 @@ async function main() {
       network: rpc,
       contractAddress: deployedAddress,
       deployer: wallet.address,
+      multicallAddress,
+      storeUrl: process.env.STORE_URL ?? "http://127.0.0.1:8787",
     };
     fs.writeFileSync(
       path.join(frontendConfigDir, "config.json"),
@@ -368,16 +383,16 @@ async function main() {
         "..",
         "artifacts",
         "contracts",
-        "UniversalAdapter.sol",
-        "UniversalAdapter.json"
+        "EtCloudFhe.sol",
+        "EtCloudFhe.json"
       );
       const targetAbiPath = path.join(frontendConfigDir, "abi");
       if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-      fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-      console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
+      fs.copyFileSync(artifactPath, path.join(targetAbiPath, "EtCloudFhe.json"));
+      console.log("Copied ABI to frontend/web/src/abi/EtCloudFhe.json");
     } catch (e) {
       console.warn(
-        "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
+        "Failed to copy ABI automatically. Please copy artifacts/.../EtCloudFhe.json manually to frontend/web/src/abi/EtCloudFhe.json",
         e
       );
     }
@@ -1,19 +1,51 @@
 // App.tsx
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { ethers } from "ethers";
-import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  applyEventsToList,
+  cancelReconstruction,
+  ETImageData,
+  getFscCurve,
+  getResultFscCurve,
+  listImagesPage,
+  mergeImages,
+  recordAlignment,
+  recordFscCurve,
+  recordPixelSpacing,
+  recordTiltAngles,
+  requestReconstruction,
+  uploadImage as uploadImageRecord,
+  watchImageEvents
+} from "./imageRepository";
+import { downloadVerifiedBlobs, uploadEncryptedBlobs } from "./ciphertextStore";
+import { decryptResultVolume } from "./resultDecryption";
+import { encryptUint32, fingerprintUint32 } from "./fhe";
+import { canTransition, isActive } from "./jobState";
+import { LoadedStack, readStackFile, STACK_FILE_ACCEPT } from "./formats";
+import type { ImageStack } from "./formats/stack";
+import type { AlignmentRecord } from "./reconstruction/alignment";
+import { formatResolution, ResolutionEstimate } from "./reconstruction/fsc";
+import { analyseTiltSeries } from "./seriesAnalysis";
+import { uploadStackTiles } from "./tileUpload";
+import {
+  chooseScaling,
+  DEFAULT_ENCRYPTED_WIDTH,
+  EncryptedWidth,
+  quantizationReport,
+  RECONSTRUCTION_WIDTHS
+} from "./quantization";
+import { DEFAULT_TILE_SHAPE, tileCount, tileGrid } from "./tiling";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import VirtualGrid from "./components/VirtualGrid";
+import JobHistory from "./components/JobHistory";
+import FscChart from "./components/FscChart";
+import ResultViewer from "./components/ResultViewer";
+import TiltSeriesPreview from "./components/TiltSeriesPreview";
 import "./App.css";
 
-interface ETImageData {
-  id: string;
-  encryptedData: string;
-  timestamp: number;
-  owner: string;
-  resolution: string;
-  status: "uploaded" | "processing" | "reconstructed";
-}
+// Card height plus the grid gap; cards are laid out at a fixed height so the list can be virtualized.
+const IMAGE_ROW_HEIGHT = 420;
 
 const App: React.FC = () => {
   // State management
@@ -22,6 +54,9 @@ const App: React.FC = () => {
   const [images, setImages] = useState<ETImageData[]>([]);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const loadingMoreRef = useRef(false);
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [walletSelectorOpen, setWalletSelectorOpen] = useState(false);
@@ -30,10 +65,23 @@ const App: React.FC = () => {
     status: "pending" | "success" | "error";
     message: string;
   }>({ visible: false, status: "pending", message: "" });
-  const [newImageData, setNewImageData] = useState({
+  const [newImageData, setNewImageData] = useState<UploadFormData>({
     resolution: "",
-    description: ""
+    description: "",
+    file: null,
+    stack: null,
+    bits: DEFAULT_ENCRYPTED_WIDTH,
+    reconstruct: false,
+    alignment: null,
+    fsc: null
   });
+  const [fscView, setFscView] = useState<{ imageId: string; estimate: ResolutionEstimate | null } | null>(null);
+  // Decrypted results live only in this state; closing the view drops them
+  const [decrypted, setDecrypted] = useState<{
+    imageId: string;
+    volume: ImageStack;
+    fsc: ResolutionEstimate | null;
+  } | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [activeTab, setActiveTab] = useState("all");
   const [showTeamInfo, setShowTeamInfo] = useState(false);
@@ -51,8 +99,22 @@ const App: React.FC = () => {
   const processingCount = images.filter(i => i.status === "processing").length;
   const reconstructedCount = images.filter(i => i.status === "reconstructed").length;
 
+  // Cards follow the contract's events, so uploads and reconstructions show up without a refresh.
+  // The subscription starts before the first page is read so no event falls in between.
   useEffect(() => {
-    loadImages().finally(() => setLoading(false));
+    let stop: (() => void) | undefined;
+    let cancelled = false;
+    watchImageEvents(events => setImages(prev => applyEventsToList(prev, events)))
+      .then(unsubscribe => {
+        if (cancelled) unsubscribe();
+        else stop = unsubscribe;
+      })
+      .catch(e => console.error("Error watching images:", e))
+      .finally(() => loadImages());
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
   }, []);
 
   // Wallet connection handlers
@@ -84,54 +146,9 @@ const App: React.FC = () => {
   const loadImages = async () => {
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      // Check contract availability using FHE
-      const isAvailable = await contract.isAvailable();
-      if (!isAvailable) {
-        console.error("Contract is not available");
-        return;
-      }
-      
-      const keysBytes = await contract.getData("et_image_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing image keys:", e);
-        }
-      }
-      
-      const list: ETImageData[] = [];
-      
-      for (const key of keys) {
-        try {
-          const imageBytes = await contract.getData(`et_image_${key}`);
-          if (imageBytes.length > 0) {
-            try {
-              const imageData = JSON.parse(ethers.toUtf8String(imageBytes));
-              list.push({
-                id: key,
-                encryptedData: imageData.data,
-                timestamp: imageData.timestamp,
-                owner: imageData.owner,
-                resolution: imageData.resolution,
-                status: imageData.status || "uploaded"
-              });
-            } catch (e) {
-              console.error(`Error parsing image data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading image ${key}:`, e);
-        }
-      }
-      
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setImages(list);
+      const page = await listImagesPage();
+      setImages(page.images);
+      setNextCursor(page.nextCursor);
     } catch (e) {
       console.error("Error loading images:", e);
     } finally {
@@ -140,6 +157,24 @@ const App: React.FC = () => {
     }
   };
 
+  // Append the next, older page once the list is scrolled to its end. Memoized on the
+  // cursor, so the grid re-checks its end with each new page and never calls a stale one
+  const loadMoreImages = useCallback(async () => {
+    if (!nextCursor || loadingMoreRef.current) return;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+    try {
+      const page = await listImagesPage(nextCursor);
+      setImages(prev => mergeImages(prev, page.images));
+      setNextCursor(page.nextCursor);
+    } catch (e) {
+      console.error("Error loading more images:", e);
+    } finally {
+      loadingMoreRef.current = false;
+      setLoadingMore(false);
+    }
+  }, [nextCursor]);
+
   // Upload new ET image
   const uploadImage = async () => {
     if (!provider) { 
@@ -155,47 +190,72 @@ const App: React.FC = () => {
     });
     
     try {
-      // Simulate FHE encryption
-      const encryptedData = `FHE-ET-${btoa(JSON.stringify(newImageData))}`;
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
+      if (!newImageData.stack) {
+        throw new Error("No ET image file loaded");
       }
       
-      const imageId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      const imageData = {
-        data: encryptedData,
-        timestamp: Math.floor(Date.now() / 1000),
-        owner: account,
-        resolution: newImageData.resolution,
-        status: "uploaded"
-      };
+      // The image record holds only an encrypted fingerprint of the stack; the
+      // voxels themselves are encrypted into the blobs uploaded below
+      const fingerprint = await fingerprintUint32(newImageData.stack.stack.data);
+      const encryptedFingerprint = await encryptUint32([fingerprint], account);
       
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `et_image_${imageId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(imageData))
+      setTransactionStatus({
+        visible: true,
+        status: "pending",
+        message: "Submitting encrypted ET image to EtCloudFhe..."
+      });
+      
+      const imageId = await uploadImageRecord(
+        encryptedFingerprint,
+        newImageData.resolution,
+        newImageData.description
       );
       
-      const keysBytes = await contract.getData("et_image_keys");
-      let keys: string[] = [];
+      const { data } = newImageData.stack.stack;
+      const bytes = new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+      await uploadEncryptedBlobs(imageId, bytes, account, ({ done, total }) => {
+        setTransactionStatus({
+          visible: true,
+          status: "pending",
+          message: `Stored ${done} of ${total} ciphertext blobs off-chain...`
+        });
+      });
       
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
+      // The blobs hold the stack for its owner. The FHE worker can only read euint32
+      // voxels, so those go on chain just for stacks meant to be reconstructed
+      if (newImageData.reconstruct) {
+        await uploadStackTiles(imageId, newImageData.stack.stack, account, ({ tilesDone, tileCount }) => {
+          setTransactionStatus({
+            visible: true,
+            status: "pending",
+            message: `Uploaded ${tilesDone} of ${tileCount} encrypted tiles...`
+          });
+        }, DEFAULT_TILE_SHAPE, newImageData.bits);
       }
       
-      keys.push(imageId);
+      // The worker reconstructs from the tilt geometry. Alignment needs the plaintext
+      // series, so it is measured here and only its result is published
+      const { stack } = newImageData.stack;
+      if (newImageData.reconstruct && stack.tiltAngles && stack.depth > 1) {
+        setTransactionStatus({
+          visible: true,
+          status: "pending",
+          message: "Aligning tilt series..."
+        });
+        await recordTiltAngles(imageId, stack.tiltAngles);
+        // The decrypted result takes its voxel size from the stack's pixels
+        if (stack.pixelSpacing.x > 0) await recordPixelSpacing(imageId, stack.pixelSpacing);
+        await recordAlignment(imageId, newImageData.alignment ?? (await analyseTiltSeries(stack)).alignment);
+      }
       
-      await contract.setData(
-        "et_image_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
-      );
+      if (newImageData.fsc) {
+        setTransactionStatus({
+          visible: true,
+          status: "pending",
+          message: "Recording resolution curve..."
+        });
+        await recordFscCurve(imageId, newImageData.fsc);
+      }
       
       setTransactionStatus({
         visible: true,
@@ -210,7 +270,13 @@ const App: React.FC = () => {
         setShowUploadModal(false);
         setNewImageData({
           resolution: "",
-          description: ""
+          description: "",
+          file: null,
+          stack: null,
+          bits: DEFAULT_ENCRYPTED_WIDTH,
+          reconstruct: false,
+          alignment: null,
+          fsc: null
         });
       }, 2000);
     } catch (e: any) {
@@ -232,7 +298,7 @@ const App: React.FC = () => {
     }
   };
 
-  // Process image with FHE reconstruction
+  // Request FHE reconstruction
   const processImage = async (imageId: string) => {
     if (!provider) {
       alert("Please connect wallet first");
@@ -242,34 +308,11 @@ const App: React.FC = () => {
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Processing ET image with FHE 3D reconstruction..."
+      message: "Requesting FHE 3D reconstruction..."
     });
 
     try {
-      // Simulate FHE computation time
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const imageBytes = await contract.getData(`et_image_${imageId}`);
-      if (imageBytes.length === 0) {
-        throw new Error("Image not found");
-      }
-      
-      const imageData = JSON.parse(ethers.toUtf8String(imageBytes));
-      
-      const updatedImage = {
-        ...imageData,
-        status: "processing"
-      };
-      
-      await contract.setData(
-        `et_image_${imageId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedImage))
-      );
+      await requestReconstruction(imageId);
       
       setTransactionStatus({
         visible: true,
@@ -295,8 +338,8 @@ const App: React.FC = () => {
     }
   };
 
-  // Complete reconstruction
-  const completeReconstruction = async (imageId: string) => {
+  // Cancel a queued or running reconstruction
+  const cancelImageJob = async (imageId: string) => {
     if (!provider) {
       alert("Please connect wallet first");
       return;
@@ -305,42 +348,18 @@ const App: React.FC = () => {
     setTransactionStatus({
       visible: true,
       status: "pending",
-      message: "Finalizing FHE 3D reconstruction..."
+      message: "Cancelling reconstruction..."
     });
 
     try {
-      await new Promise(resolve => setTimeout(resolve, 3000));
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const imageBytes = await contract.getData(`et_image_${imageId}`);
-      if (imageBytes.length === 0) {
-        throw new Error("Image not found");
-      }
-      
-      const imageData = JSON.parse(ethers.toUtf8String(imageBytes));
-      
-      const updatedImage = {
-        ...imageData,
-        status: "reconstructed"
-      };
-      
-      await contract.setData(
-        `et_image_${imageId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(updatedImage))
-      );
+      await cancelReconstruction(imageId);
       
       setTransactionStatus({
         visible: true,
         status: "success",
-        message: "3D reconstruction completed!"
+        message: "Reconstruction cancelled"
       });
       
-      await loadImages();
-      
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
@@ -348,9 +367,100 @@ const App: React.FC = () => {
       setTransactionStatus({
         visible: true,
         status: "error",
-        message: "Reconstruction failed: " + (e.message || "Unknown error")
+        message: "Cancellation failed: " + (e.message || "Unknown error")
+      });
+      
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  // Decrypt the reconstructed volume in the browser under a permit the owner signs
+  const decryptResult = async (imageId: string) => {
+    if (!provider) {
+      alert("Please connect wallet first");
+      return;
+    }
+
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Sign the decryption request in your wallet..."
+    });
+
+    try {
+      const signer = await provider.getSigner();
+      const volume = await decryptResultVolume(imageId, signer, ({ tilesDone, tileCount }) => {
+        setTransactionStatus({
+          visible: true,
+          status: "pending",
+          message: `Decrypted ${tilesDone} of ${tileCount} result tiles...`
+        });
+      });
+      setDecrypted({ imageId, volume, fsc: await getResultFscCurve(imageId) });
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+    } catch (e: any) {
+      const errorMessage = e.message?.includes("user rejected")
+        ? "Decryption request rejected by user"
+        : "Decryption failed: " + (e.message || "Unknown error");
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: errorMessage
+      });
+      setTimeout(() => {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+      }, 3000);
+    }
+  };
+
+  // Check the off-chain ciphertext against the contract's hash commitments
+  const verifyImage = async (imageId: string) => {
+    setTransactionStatus({
+      visible: true,
+      status: "pending",
+      message: "Downloading ciphertext blobs..."
+    });
+
+    try {
+      const blobs = await downloadVerifiedBlobs(imageId, ({ done, total }) => {
+        setTransactionStatus({
+          visible: true,
+          status: "pending",
+          message: `Verified ${done} of ${total} ciphertext blobs...`
+        });
       });
       
+      setTransactionStatus({
+        visible: true,
+        status: "success",
+        message: `${blobs.length} ciphertext blobs match their on-chain commitments`
+      });
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Verification failed: " + (e.message || "Unknown error")
+      });
+    }
+    
+    setTimeout(() => {
+      setTransactionStatus({ visible: false, status: "pending", message: "" });
+    }, 3000);
+  };
+
+  // Resolution curves are recorded at upload, measured on the plaintext half-sets, and each
+  // reconstruction result keeps the one it was made with; until there is a result, show the upload's
+  const showFscCurve = async (imageId: string) => {
+    try {
+      setFscView({ imageId, estimate: (await getResultFscCurve(imageId)) ?? (await getFscCurve(imageId)) });
+    } catch (e: any) {
+      setTransactionStatus({
+        visible: true,
+        status: "error",
+        message: "Failed to load resolution curve: " + (e.message || "Unknown error")
+      });
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 3000);
@@ -513,8 +623,8 @@ const App: React.FC = () => {
             </button>
           </div>
           
-          <div className="images-list">
-            {filteredImages.length === 0 ? (
+          {filteredImages.length === 0 ? (
+            <div className="images-list">
               <div className="no-images">
                 <div className="no-images-icon"></div>
                 <p>No encrypted ET images found</p>
@@ -525,19 +635,28 @@ const App: React.FC = () => {
                   Upload First Image
                 </button>
               </div>
-            ) : (
-              filteredImages.map(image => (
-                <div className="image-card" key={image.id}>
+            </div>
+          ) : (
+            <VirtualGrid
+              className="images-viewport"
+              items={filteredImages}
+              getKey={image => image.id}
+              rowHeight={IMAGE_ROW_HEIGHT}
+              minColumnWidth={300}
+              gap={24}
+              onEndReached={loadMoreImages}
+              renderItem={image => (
+                <div className="image-card">
                   <div className="image-header">
                     <div className="image-id">#{image.id.substring(0, 6)}</div>
-                    <div className={`status-badge ${image.status}`}>
-                      {image.status}
-                    </div>
                   </div>
                   <div className="image-details">
                     <div className="detail">
                       <span>Resolution:</span>
-                      <span>{image.resolution}</span>
+                      <span>
+                        {image.resolution}
+                        <button className="detail-link" onClick={() => showFscCurve(image.id)}>FSC</button>
+                      </span>
                     </div>
                     <div className="detail">
                       <span>Owner:</span>
@@ -548,8 +667,9 @@ const App: React.FC = () => {
                       <span>{new Date(image.timestamp * 1000).toLocaleDateString()}</span>
                     </div>
                   </div>
+                  <JobHistory job={image.job} />
                   <div className="image-actions">
-                    {isOwner(image.owner) && image.status === "uploaded" && (
+                    {isOwner(image.owner) && canTransition(image.job.state, "queued") && (
                       <button 
                         className="action-btn"
                         onClick={() => processImage(image.id)}
@@ -557,19 +677,40 @@ const App: React.FC = () => {
                         Start FHE Processing
                       </button>
                     )}
-                    {isOwner(image.owner) && image.status === "processing" && (
+                    {isOwner(image.owner) && isActive(image.job.state) && (
+                      <button 
+                        className="action-btn"
+                        onClick={() => cancelImageJob(image.id)}
+                      >
+                        Cancel Reconstruction
+                      </button>
+                    )}
+                    {isOwner(image.owner) && image.job.state === "reconstructed" && (
                       <button 
                         className="action-btn"
-                        onClick={() => completeReconstruction(image.id)}
+                        onClick={() => decryptResult(image.id)}
                       >
-                        Complete Reconstruction
+                        Decrypt Result
+                      </button>
+                    )}
+                    {isOwner(image.owner) && (
+                      <button 
+                        className="action-btn"
+                        onClick={() => verifyImage(image.id)}
+                      >
+                        Verify Ciphertext
                       </button>
                     )}
                   </div>
                 </div>
-              ))
-            )}
-          </div>
+              )}
+            />
+          )}
+          {(loadingMore || nextCursor) && (
+            <div className="images-footer">
+              {loadingMore ? "Loading more images..." : `${images.length} images loaded`}
+            </div>
+          )}
         </div>
       </div>
   
@@ -583,6 +724,41 @@ const App: React.FC = () => {
         />
       )}
       
+      {decrypted && (
+        <div className="modal-overlay">
+          <div className="upload-modal viewer-modal">
+            <div className="modal-header">
+              <h2>Decrypted result of #{decrypted.imageId.substring(0, 6)}</h2>
+              <button onClick={() => setDecrypted(null)} className="close-modal">&times;</button>
+            </div>
+            <div className="modal-body">
+              <ResultViewer
+                key={decrypted.imageId}
+                volume={decrypted.volume}
+                name={`result-${decrypted.imageId.substring(0, 6)}`}
+              />
+              {decrypted.fsc && <FscChart estimate={decrypted.fsc} />}
+            </div>
+          </div>
+        </div>
+      )}
+      
+      {fscView && (
+        <div className="modal-overlay">
+          <div className="upload-modal">
+            <div className="modal-header">
+              <h2>Resolution of #{fscView.imageId.substring(0, 6)}</h2>
+              <button onClick={() => setFscView(null)} className="close-modal">&times;</button>
+            </div>
+            <div className="modal-body">
+              {fscView.estimate
+                ? <FscChart estimate={fscView.estimate} />
+                : <p className="file-status">No resolution curve was recorded for this image</p>}
+            </div>
+          </div>
+        </div>
+      )}
+      
       {walletSelectorOpen && (
         <WalletSelector
           isOpen={walletSelectorOpen}
@@ -637,12 +813,25 @@ const App: React.FC = () => {
   );
 };
 
+interface UploadFormData {
+  resolution: string;
+  description: string;
+  file: File | null;
+  stack: LoadedStack | null;
+  bits: EncryptedWidth;
+  /** Also upload the stack as encrypted tiles, so the FHE worker can reconstruct it. */
+  reconstruct: boolean;
+  /** Measured on the plaintext series while it is loaded, and published with the upload. */
+  alignment: AlignmentRecord | null;
+  fsc: ResolutionEstimate | null;
+}
+
 interface ModalUploadProps {
   onSubmit: () => void; 
   onClose: () => void; 
   uploading: boolean;
-  imageData: any;
-  setImageData: (data: any) => void;
+  imageData: UploadFormData;
+  setImageData: React.Dispatch<React.SetStateAction<UploadFormData>>;
 }
 
 const ModalUpload: React.FC<ModalUploadProps> = ({ 
@@ -660,12 +849,64 @@ const ModalUpload: React.FC<ModalUploadProps> = ({
     });
   };
 
+  const [reading, setReading] = useState(false);
+  const [estimating, setEstimating] = useState(false);
+  const [fileError, setFileError] = useState("");
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] ?? null;
+    setImageData(data => ({ ...data, file, stack: null, alignment: null, fsc: null }));
+    setFileError("");
+    if (!file) return;
+
+    setReading(true);
+    let loaded: LoadedStack;
+    try {
+      loaded = await readStackFile(file);
+      const spacing = loaded.stack.pixelSpacing.x;
+      setImageData(data => ({
+        ...data,
+        stack: loaded,
+        reconstruct: !!loaded.stack.tiltAngles && loaded.stack.depth > 1,
+        resolution: spacing > 0 ? `${spacing.toFixed(2)} Å/px` : data.resolution
+      }));
+    } catch (err: any) {
+      setFileError(err.message || "Failed to read file");
+      return;
+    } finally {
+      setReading(false);
+    }
+
+    // Tilt series get a resolution from the FSC of their even and odd tilts
+    const { stack } = loaded;
+    if (!stack.tiltAngles || stack.depth < 2) return;
+    setEstimating(true);
+    try {
+      const { alignment, fsc } = await analyseTiltSeries(stack);
+      setImageData(data => data.stack !== loaded ? data : {
+        ...data,
+        alignment,
+        fsc,
+        resolution: formatResolution(fsc.resolutions[0], fsc.pixelSpacing)
+      });
+    } catch (err: any) {
+      setFileError("Resolution estimate failed: " + (err.message || "Unknown error"));
+    } finally {
+      setEstimating(false);
+    }
+  };
+
   const handleSubmit = () => {
     if (!imageData.resolution) {
       alert("Please specify image resolution");
       return;
     }
     
+    if (!imageData.stack) {
+      alert("Please select a readable ET image file");
+      return;
+    }
+    
     onSubmit();
   };
 
@@ -705,13 +946,44 @@ const ModalUpload: React.FC<ModalUploadProps> = ({
             />
           </div>
           
+          <div className="form-group">
+            <label>
+              <input
+                type="checkbox"
+                checked={imageData.reconstruct}
+                onChange={e => setImageData({ ...imageData, reconstruct: e.target.checked })}
+              />
+              {" "}Upload encrypted tiles for FHE reconstruction
+            </label>
+          </div>
+          
+          <div className="form-group">
+            <label>Encrypted voxel width</label>
+            <select
+              value={imageData.bits}
+              disabled={!imageData.reconstruct}
+              onChange={e => setImageData({ ...imageData, bits: Number(e.target.value) as EncryptedWidth })}
+            >
+              {RECONSTRUCTION_WIDTHS.map(bits => (
+                <option key={bits} value={bits}>{bits} bits</option>
+              ))}
+            </select>
+          </div>
+          
           <div className="file-upload">
             <label>ET Image File *</label>
-            <div className="upload-area">
+            <label className="upload-area">
               <div className="upload-icon"></div>
               <p>Drag & drop your ET image file here or click to browse</p>
-              <input type="file" accept=".mrc,.tiff,.ser" />
-            </div>
+              <input type="file" accept={STACK_FILE_ACCEPT} onChange={handleFileChange} />
+              {imageData.file && <p className="file-name">{imageData.file.name}</p>}
+            </label>
+            {reading && <p className="file-status">Reading file...</p>}
+            {estimating && <p className="file-status">Estimating resolution from half-set FSC...</p>}
+            {fileError && <p className="file-status error">{fileError}</p>}
+            {imageData.stack && <StackSummary loaded={imageData.stack} bits={imageData.reconstruct ? imageData.bits : null} />}
+            {imageData.stack && <TiltSeriesPreview stack={imageData.stack.stack} />}
+            {imageData.fsc && <FscChart estimate={imageData.fsc} />}
           </div>
         </div>
         
@@ -724,7 +996,7 @@ const ModalUpload: React.FC<ModalUploadProps> = ({
           </button>
           <button 
             onClick={handleSubmit} 
-            disabled={uploading}
+            disabled={uploading || reading || estimating}
             className="submit-btn"
           >
             {uploading ? "Encrypting with FHE..." : "Upload Securely"}
@@ -735,4 +1007,67 @@ const ModalUpload: React.FC<ModalUploadProps> = ({
   );
 };
 
+const formatError = (value: number) => value.toPrecision(3);
+
+// `bits` is null when the stack goes up as blobs only, with no tiles to quantize
+const StackSummary: React.FC<{ loaded: LoadedStack; bits: EncryptedWidth | null }> = ({ loaded, bits }) => {
+  const { stack } = loaded;
+  const angles = stack.tiltAngles;
+  const tiles = tileCount(tileGrid([stack.width, stack.height, stack.depth], DEFAULT_TILE_SHAPE));
+  const report = useMemo(
+    () => (bits === null ? null : quantizationReport(stack, chooseScaling(stack, bits))),
+    [stack, bits]
+  );
+  return (
+    <div className="stack-summary">
+      <div className="detail">
+        <span>Dimensions:</span>
+        <span>{stack.width} × {stack.height} × {stack.depth}</span>
+      </div>
+      <div className="detail">
+        <span>Voxel type:</span>
+        <span>{stack.dtype}</span>
+      </div>
+      {stack.pixelSpacing.x > 0 && (
+        <div className="detail">
+          <span>Pixel spacing:</span>
+          <span>{stack.pixelSpacing.x.toFixed(2)} Å</span>
+        </div>
+      )}
+      {angles && angles.length > 0 && (
+        <div className="detail">
+          <span>Tilt range:</span>
+          <span>{Math.min(...angles).toFixed(1)}° to {Math.max(...angles).toFixed(1)}°</span>
+        </div>
+      )}
+      <div className="detail">
+        <span>Encrypted tiles:</span>
+        <span>{report ? `${tiles} of ${DEFAULT_TILE_SHAPE.join(" × ")}` : "none, blobs only"}</span>
+      </div>
+      {report && (
+        <>
+          <div className="detail">
+            <span>Quantization step:</span>
+            <span>{formatError(report.step)}</span>
+          </div>
+          <div className="detail">
+            <span>Quantization error:</span>
+            <span>
+              {report.errorBound === 0
+                ? "exact"
+                : `±${formatError(report.errorBound)} (RMS ${formatError(report.rmsError)})`}
+            </span>
+          </div>
+          {report.nonFinite > 0 && (
+            <div className="detail">
+              <span>Non-finite voxels:</span>
+              <span>{report.nonFinite} stored as 0</span>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
 export default App;
\ No newline at end of file
@@ -0,0 +1,53 @@
+// blobCrypto.ts
+
+/** The data key is 256 bits, stored on chain as eight euint32 words. */
+export const BLOB_KEY_WORDS = 8;
+
+const IV_BYTES = 12;
+
+export function generateKeyWords(): number[] {
+  return Array.from(crypto.getRandomValues(new Uint32Array(BLOB_KEY_WORDS)));
+}
+
+const importKey = (keyWords: readonly number[]) => {
+  if (keyWords.length !== BLOB_KEY_WORDS) {
+    throw new Error(`Expected ${BLOB_KEY_WORDS} key words, got ${keyWords.length}`);
+  }
+  const raw = new DataView(new ArrayBuffer(BLOB_KEY_WORDS * 4));
+  keyWords.forEach((word, i) => raw.setUint32(i * 4, word));
+  return crypto.subtle.importKey("raw", raw.buffer, "AES-GCM", false, ["encrypt", "decrypt"]);
+};
+
+// Binding the blob index as associated data stops blobs being reordered undetected.
+const blobAad = (index: number) => {
+  const aad = new DataView(new ArrayBuffer(8));
+  aad.setBigUint64(0, BigInt(index));
+  return aad.buffer;
+};
+
+/** AES-256-GCM encrypts blob `index`; the result is the IV followed by ciphertext and tag. */
+export async function encryptBlob(keyWords: readonly number[], index: number, plaintext: Uint8Array): Promise<Uint8Array> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await importKey(keyWords);
+  const sealed = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: blobAad(index) },
+    key,
+    plaintext as Uint8Array<ArrayBuffer>
+  );
+
+  const blob = new Uint8Array(IV_BYTES + sealed.byteLength);
+  blob.set(iv);
+  blob.set(new Uint8Array(sealed), IV_BYTES);
+  return blob;
+}
+
+/** Reverses encryptBlob; fails when the key, the index or the bytes differ from those it sealed. */
+export async function decryptBlob(keyWords: readonly number[], index: number, blob: Uint8Array): Promise<Uint8Array> {
+  const key = await importKey(keyWords);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: blob.subarray(0, IV_BYTES) as Uint8Array<ArrayBuffer>, additionalData: blobAad(index) },
+    key,
+    blob.subarray(IV_BYTES) as Uint8Array<ArrayBuffer>
+  );
+  return new Uint8Array(plaintext);
+}
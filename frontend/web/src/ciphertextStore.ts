@@ -0,0 +1,107 @@
+// ciphertextStore.ts
+import { encryptBlob, generateKeyWords } from "./blobCrypto";
+import { config } from "./contract";
+import { encryptUint32 } from "./fhe";
+import { BlobCommitment, commitBlobs, getBlobCommitments, setBlobKey } from "./imageRepository";
+
+/** Plaintext bytes per blob; each blob is committed on chain separately. */
+export const BLOB_CHUNK_BYTES = 8 * 1024 * 1024;
+
+const DEFAULT_STORE_URL = "http://127.0.0.1:8787";
+const COMMIT_BATCH = 256;
+
+export interface BlobProgress {
+  done: number;
+  total: number;
+}
+
+const storeUrl = () => ((config as { storeUrl?: string }).storeUrl ?? DEFAULT_STORE_URL).replace(/\/$/, "");
+
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", data as BufferSource));
+  return "0x" + Array.from(digest, byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/** Stores `data` in the ciphertext store and checks the store addressed it by the same hash. */
+export async function putBlob(data: Uint8Array): Promise<BlobCommitment> {
+  const hash = await sha256Hex(data);
+  const response = await fetch(`${storeUrl()}/blobs`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream", "X-Content-SHA256": hash },
+    body: data as BodyInit
+  });
+  if (!response.ok) {
+    throw new Error(`Ciphertext store rejected blob: ${response.status} ${await response.text()}`);
+  }
+
+  const stored: BlobCommitment = await response.json();
+  if (stored.hash !== hash || stored.size !== data.length) {
+    throw new Error(`Ciphertext store returned ${stored.hash} for blob ${hash}`);
+  }
+  return stored;
+}
+
+/** Fetches a blob and verifies it against its on-chain commitment. */
+export async function getBlob(commitment: BlobCommitment): Promise<Uint8Array> {
+  const response = await fetch(`${storeUrl()}/blobs/${commitment.hash}`);
+  if (!response.ok) {
+    throw new Error(`Blob ${commitment.hash} unavailable: ${response.status}`);
+  }
+
+  const data = new Uint8Array(await response.arrayBuffer());
+  if (data.length !== commitment.size) {
+    throw new Error(`Blob ${commitment.hash} is ${data.length} bytes, commitment says ${commitment.size}`);
+  }
+  const hash = await sha256Hex(data);
+  if (hash !== commitment.hash) {
+    throw new Error(`Blob ${commitment.hash} failed verification: content hashes to ${hash}`);
+  }
+  return data;
+}
+
+/**
+ * Encrypts `data` in BLOB_CHUNK_BYTES pieces under a fresh data key, puts
+ * each piece in the ciphertext store and commits the hashes on chain. The
+ * data key goes on chain first, FHE-encrypted for the uploader, so blobs are
+ * never committed that nobody can decrypt.
+ */
+export async function uploadEncryptedBlobs(
+  imageId: string,
+  data: Uint8Array,
+  account: string,
+  onProgress?: (progress: BlobProgress) => void
+): Promise<BlobCommitment[]> {
+  const keyWords = generateKeyWords();
+  await setBlobKey(imageId, await encryptUint32(keyWords, account));
+  const total = Math.max(1, Math.ceil(data.length / BLOB_CHUNK_BYTES));
+  const commitments: BlobCommitment[] = [];
+  let pending: BlobCommitment[] = [];
+
+  for (let index = 0; index < total; index++) {
+    const chunk = data.subarray(index * BLOB_CHUNK_BYTES, (index + 1) * BLOB_CHUNK_BYTES);
+    const stored = await putBlob(await encryptBlob(keyWords, index, chunk));
+    commitments.push(stored);
+    pending.push(stored);
+    if (pending.length === COMMIT_BATCH || index === total - 1) {
+      await commitBlobs(imageId, pending);
+      pending = [];
+    }
+    onProgress?.({ done: index + 1, total });
+  }
+
+  return commitments;
+}
+
+/** Downloads every blob of `imageId`, verifying each against its commitment. */
+export async function downloadVerifiedBlobs(
+  imageId: string,
+  onProgress?: (progress: BlobProgress) => void
+): Promise<Uint8Array[]> {
+  const commitments = await getBlobCommitments(imageId);
+  const blobs: Uint8Array[] = [];
+  for (const commitment of commitments) {
+    blobs.push(await getBlob(commitment));
+    onProgress?.({ done: blobs.length, total: commitments.length });
+  }
+  return blobs;
+}
@@ -0,0 +1,67 @@
+import { Chart as ChartJS, Legend, LinearScale, LineElement, PointElement, Tooltip } from "chart.js";
+import { Line } from "react-chartjs-2";
+import { formatResolution, ResolutionEstimate } from "../reconstruction/fsc";
+
+ChartJS.register(LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+interface FscChartProps {
+  estimate: ResolutionEstimate;
+}
+
+const THRESHOLD_COLORS = ["#f59e0b", "#94a3b8"];
+
+/** FSC curve against spatial frequency, with the threshold lines it is read at. */
+export default function FscChart({ estimate }: FscChartProps) {
+  const { curve, pixelSpacing, resolutions } = estimate;
+  // Frequencies in 1/Å when the pixel spacing is known, else in cycles per pixel
+  const unit = pixelSpacing > 0 ? pixelSpacing : 1;
+  const points = curve.frequency.map((f, i) => ({ x: f / unit, y: curve.correlation[i] })).slice(1);
+  const nyquist = curve.frequency[curve.frequency.length - 1] / unit;
+
+  const data = {
+    datasets: [
+      {
+        label: "FSC",
+        data: points,
+        borderColor: "#38bdf8",
+        backgroundColor: "#38bdf8",
+        pointRadius: 0,
+        borderWidth: 2
+      },
+      ...resolutions.map((resolution, i) => ({
+        label: `${resolution.threshold}: ${formatResolution(resolution, pixelSpacing)}`,
+        data: [{ x: 0, y: resolution.threshold }, { x: nyquist, y: resolution.threshold }],
+        borderColor: THRESHOLD_COLORS[i % THRESHOLD_COLORS.length],
+        backgroundColor: THRESHOLD_COLORS[i % THRESHOLD_COLORS.length],
+        borderDash: [6, 4],
+        pointRadius: 0,
+        borderWidth: 1
+      }))
+    ]
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    animation: false as const,
+    scales: {
+      x: {
+        type: "linear" as const,
+        min: 0,
+        max: nyquist,
+        title: { display: true, text: pixelSpacing > 0 ? "Spatial frequency (1/Å)" : "Spatial frequency (1/px)" }
+      },
+      y: {
+        min: Math.min(0, ...curve.correlation),
+        max: 1,
+        title: { display: true, text: "Correlation" }
+      }
+    }
+  };
+
+  return (
+    <div className="fsc-chart">
+      <Line data={data} options={options} />
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useRef } from "react";
+import { applyWindow, DisplayWindow, Histogram } from "../viewer/windowing";
+
+const PLOT_WIDTH = 256;
+const PLOT_HEIGHT = 64;
+// Steps of the min and max sliders across the histogram's range
+const WINDOW_STEPS = 1000;
+// The gamma slider runs from 1 / GAMMA_LIMIT to GAMMA_LIMIT on a log scale
+const GAMMA_LIMIT = 5;
+
+interface HistogramPanelProps {
+  histogram: Histogram;
+  displayWindow: DisplayWindow;
+  onChange: (displayWindow: DisplayWindow) => void;
+  onAutoContrast: () => void;
+  onFullRange: () => void;
+}
+
+/**
+ * Intensity histogram with the display window drawn over it, and the
+ * controls that set the window: min, max, gamma and inversion.
+ */
+export default function HistogramPanel(props: HistogramPanelProps) {
+  const { histogram, displayWindow, onChange, onAutoContrast, onFullRange } = props;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const { counts, min, max } = histogram;
+  const span = max > min ? max - min : 1;
+  const step = span / WINDOW_STEPS;
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+    context.clearRect(0, 0, PLOT_WIDTH, PLOT_HEIGHT);
+
+    // Counts on a log scale, so the background peak does not hide the tails
+    const peak = Math.log1p(Math.max(...counts));
+    const barWidth = PLOT_WIDTH / counts.length;
+    counts.forEach((count, i) => {
+      const value = min + ((i + 0.5) * span) / counts.length;
+      const inside = value >= displayWindow.min && value <= displayWindow.max;
+      const height = peak > 0 ? (Math.log1p(count) / peak) * PLOT_HEIGHT : 0;
+      context.fillStyle = inside ? "#4a6fa5" : "#b0bec5";
+      context.fillRect(i * barWidth, PLOT_HEIGHT - height, Math.ceil(barWidth), height);
+    });
+
+    context.strokeStyle = "rgba(255, 213, 79, 0.9)";
+    context.lineWidth = 1.5;
+    context.beginPath();
+    for (let x = 0; x <= PLOT_WIDTH; x++) {
+      const y = PLOT_HEIGHT * (1 - applyWindow(min + (x / PLOT_WIDTH) * span, displayWindow));
+      if (x === 0) context.moveTo(x, y);
+      else context.lineTo(x, y);
+    }
+    context.stroke();
+  }, [counts, min, span, displayWindow]);
+
+  const setMin = (value: number) => onChange({ ...displayWindow, min: Math.min(value, displayWindow.max - step) });
+  const setMax = (value: number) => onChange({ ...displayWindow, max: Math.max(value, displayWindow.min + step) });
+  const gammaPosition = Math.log(displayWindow.gamma) / Math.log(GAMMA_LIMIT);
+
+  return (
+    <div className="histogram-panel">
+      <canvas ref={canvasRef} width={PLOT_WIDTH} height={PLOT_HEIGHT} />
+      <label className="slice-control">
+        <span>Min: {displayWindow.min.toPrecision(4)}</span>
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={displayWindow.min}
+          onChange={e => setMin(Number(e.target.value))}
+        />
+      </label>
+      <label className="slice-control">
+        <span>Max: {displayWindow.max.toPrecision(4)}</span>
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={displayWindow.max}
+          onChange={e => setMax(Number(e.target.value))}
+        />
+      </label>
+      <label className="slice-control">
+        <span>Gamma: {displayWindow.gamma.toFixed(2)}</span>
+        <input
+          type="range"
+          min={-1}
+          max={1}
+          step={0.01}
+          value={gammaPosition}
+          onChange={e => onChange({ ...displayWindow, gamma: Math.pow(GAMMA_LIMIT, Number(e.target.value)) })}
+        />
+      </label>
+      <div className="histogram-actions">
+        <label>
+          <input
+            type="checkbox"
+            checked={displayWindow.invert}
+            onChange={e => onChange({ ...displayWindow, invert: e.target.checked })}
+          />
+          Invert
+        </label>
+        <button className="cancel-btn" onClick={onAutoContrast}>Auto contrast</button>
+        <button className="cancel-btn" onClick={onFullRange}>Full range</button>
+      </div>
+    </div>
+  );
+}
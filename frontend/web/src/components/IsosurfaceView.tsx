@@ -0,0 +1,216 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { ImageStack } from "../formats/stack";
+import { OrbitView } from "../viewer/camera";
+import {
+  decimateMesh,
+  extractIsosurface,
+  Mesh,
+  smoothMesh,
+  triangleCount,
+  vertexCount
+} from "../viewer/isosurface";
+import { downloadMesh, MESH_FORMATS } from "../viewer/meshExport";
+import { createMeshRenderer, MeshRenderer } from "../viewer/meshRenderer";
+import { valueRange, volumeShape } from "../viewer/slices";
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 8;
+// Degrees of rotation per pixel dragged
+const ORBIT_SPEED = 0.5;
+const MAX_SMOOTHING = 20;
+// Decimation grid cell sizes in voxels; 0 keeps every vertex
+const DECIMATION_CELLS = [0, 1, 2, 4];
+// Steps of the threshold slider across the volume's value range
+const THRESHOLD_STEPS = 200;
+
+const DEFAULT_ORBIT: OrbitView = { yaw: 30, pitch: 20, zoom: 1 };
+
+interface IsosurfaceViewProps {
+  volume: ImageStack;
+  name: string;
+}
+
+interface SurfaceSettings {
+  threshold: number;
+  smoothing: number;
+  decimation: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+function buildSurface(volume: ImageStack, { threshold, smoothing, decimation }: SurfaceSettings): Mesh {
+  let mesh = extractIsosurface(volume, threshold);
+  if (smoothing > 0) mesh = smoothMesh(mesh, smoothing);
+  if (decimation > 0) mesh = decimateMesh(mesh, decimation);
+  return mesh;
+}
+
+/**
+ * Isosurface of a decrypted volume at a chosen threshold, smoothed and
+ * decimated on request, previewed in place and exported as STL or OBJ. The
+ * mesh is built and saved entirely in the page.
+ */
+export default function IsosurfaceView({ volume, name }: IsosurfaceViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<MeshRenderer | null>(null);
+  const drag = useRef<{ x: number; y: number } | null>(null);
+  const range = useMemo(() => valueRange(volume.data), [volume]);
+  const [settings, setSettings] = useState<SurfaceSettings>(() => ({
+    threshold: (range[0] + range[1]) / 2,
+    smoothing: 4,
+    decimation: 0
+  }));
+  const [mesh, setMesh] = useState<Mesh | null>(null);
+  const [building, setBuilding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [orbit, setOrbit] = useState<OrbitView>(DEFAULT_ORBIT);
+  const spacing = volume.pixelSpacing.x > 0 ? volume.pixelSpacing.x : 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    try {
+      rendererRef.current = createMeshRenderer(canvas);
+    } catch (err: any) {
+      setError(err.message);
+      return;
+    }
+    return () => {
+      rendererRef.current?.dispose();
+      rendererRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (mesh) rendererRef.current?.setMesh(mesh, volumeShape(volume));
+  }, [mesh, volume]);
+
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => rendererRef.current?.render(orbit));
+    return () => cancelAnimationFrame(frame);
+  });
+
+  // React's wheel listeners are passive, and zooming must not scroll the page
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const wheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const factor = e.deltaY < 0 ? 1.2 : 1 / 1.2;
+      setOrbit(o => ({ ...o, zoom: clamp(o.zoom * factor, MIN_ZOOM, MAX_ZOOM) }));
+    };
+    canvas.addEventListener("wheel", wheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", wheel);
+  }, []);
+
+  const build = () => {
+    setBuilding(true);
+    // Lets the "Building" state paint before the main thread is busy
+    setTimeout(() => {
+      try {
+        setMesh(buildSurface(volume, settings));
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setBuilding(false);
+      }
+    }, 0);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = drag.current;
+    if (!start) return;
+    drag.current = { x: e.clientX, y: e.clientY };
+    setOrbit(o => ({
+      ...o,
+      yaw: o.yaw - (e.clientX - start.x) * ORBIT_SPEED,
+      pitch: clamp(o.pitch + (e.clientY - start.y) * ORBIT_SPEED, -89, 89)
+    }));
+  };
+
+  if (error) return <p className="file-status error">Surface extraction failed: {error}</p>;
+
+  const step = (range[1] - range[0]) / THRESHOLD_STEPS || 1;
+
+  return (
+    <div className="volume-view">
+      <canvas
+        ref={canvasRef}
+        className="volume-canvas"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => (drag.current = null)}
+      />
+      <div className="volume-controls">
+        <label className="slice-control">
+          <span>Threshold: {settings.threshold.toPrecision(4)}</span>
+          <input
+            type="range"
+            min={range[0]}
+            max={range[1]}
+            step={step}
+            value={settings.threshold}
+            onChange={e => setSettings(s => ({ ...s, threshold: Number(e.target.value) }))}
+          />
+        </label>
+        <label className="slice-control">
+          <span>Smoothing: {settings.smoothing} iterations</span>
+          <input
+            type="range"
+            min={0}
+            max={MAX_SMOOTHING}
+            value={settings.smoothing}
+            onChange={e => setSettings(s => ({ ...s, smoothing: Number(e.target.value) }))}
+          />
+        </label>
+        <label className="slice-control">
+          <span>Decimation</span>
+          <select
+            value={settings.decimation}
+            onChange={e => setSettings(s => ({ ...s, decimation: Number(e.target.value) }))}
+          >
+            {DECIMATION_CELLS.map(cell => (
+              <option key={cell} value={cell}>
+                {cell === 0 ? "Off" : `${cell} voxel grid`}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button className="submit-btn" onClick={build} disabled={building}>
+          {building ? "Building surface..." : "Build surface"}
+        </button>
+        {mesh && (
+          <>
+            <div className="detail">
+              <span>Mesh:</span>
+              <span>
+                {vertexCount(mesh).toLocaleString()} vertices, {triangleCount(mesh).toLocaleString()} triangles
+              </span>
+            </div>
+            <div className="detail">
+              <span>Units:</span>
+              <span>{spacing > 0 ? "Å" : "voxels"}</span>
+            </div>
+            <div className="mesh-export">
+              {MESH_FORMATS.map(format => (
+                <button
+                  key={format}
+                  className="cancel-btn"
+                  disabled={triangleCount(mesh) === 0}
+                  onClick={() => downloadMesh(mesh, format, name, spacing || 1)}
+                >
+                  Export {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { JOB_STATE_LABELS, ReconstructionJob } from "../jobState";
+
+interface JobHistoryProps {
+  job: ReconstructionJob;
+  /** Most recent transitions shown; older ones collapse into a count. */
+  limit?: number;
+}
+
+/** Timeline of a reconstruction job's transitions, newest last. */
+export default function JobHistory({ job, limit = 4 }: JobHistoryProps) {
+  if (job.history.length === 0) {
+    return <div className="job-history empty">{JOB_STATE_LABELS.none}</div>;
+  }
+
+  const shown = job.history.slice(-limit);
+  const hidden = job.history.length - shown.length;
+
+  return (
+    <ol className="job-history">
+      {hidden > 0 && <li className="job-step earlier">{hidden} earlier</li>}
+      {shown.map((step, i) => (
+        <li key={hidden + i} className={`job-step ${step.state}${i === shown.length - 1 ? " current" : ""}`}>
+          <span className="job-state">{JOB_STATE_LABELS[step.state]}</span>
+          <time dateTime={new Date(step.timestamp * 1000).toISOString()}>
+            {new Date(step.timestamp * 1000).toLocaleString()}
+          </time>
+        </li>
+      ))}
+    </ol>
+  );
+}
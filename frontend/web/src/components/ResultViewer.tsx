@@ -0,0 +1,70 @@
+import { useMemo, useState } from "react";
+import type { ImageStack } from "../formats/stack";
+import { valueRange } from "../viewer/slices";
+import {
+  AUTO_CONTRAST_PERCENTILES,
+  DisplayWindow,
+  histogram,
+  linearWindow,
+  percentileRange
+} from "../viewer/windowing";
+import HistogramPanel from "./HistogramPanel";
+import IsosurfaceView from "./IsosurfaceView";
+import SliceViewer from "./SliceViewer";
+import VolumeView from "./VolumeView";
+
+type ViewerTab = "slices" | "volume" | "surface";
+
+const VIEWER_TABS: { tab: ViewerTab; label: string }[] = [
+  { tab: "slices", label: "Slices" },
+  { tab: "volume", label: "Volume" },
+  { tab: "surface", label: "Surface" }
+];
+
+interface ResultViewerProps {
+  volume: ImageStack;
+  name: string;
+}
+
+/**
+ * Slice, volume and surface views of a decrypted result. One display window,
+ * opened at the auto-contrast percentiles, applies to both the slice and the
+ * volume view; the surface view thresholds raw values instead.
+ */
+export default function ResultViewer({ volume, name }: ResultViewerProps) {
+  const [tab, setTab] = useState<ViewerTab>("slices");
+  const range = useMemo(() => valueRange(volume.data), [volume]);
+  const counts = useMemo(() => histogram(volume.data, range), [volume, range]);
+  const autoContrast = useMemo(
+    () => linearWindow(percentileRange(volume.data, AUTO_CONTRAST_PERCENTILES)),
+    [volume]
+  );
+  const [displayWindow, setDisplayWindow] = useState<DisplayWindow>(autoContrast);
+
+  // Auto contrast and full range keep the gamma and inversion already chosen
+  const resetWindow = ({ min, max }: DisplayWindow) => setDisplayWindow(w => ({ ...w, min, max }));
+
+  return (
+    <div className="result-viewer">
+      <div className="tabs viewer-tabs">
+        {VIEWER_TABS.map(({ tab: value, label }) => (
+          <button key={value} className={tab === value ? "active" : ""} onClick={() => setTab(value)}>
+            {label}
+          </button>
+        ))}
+      </div>
+      {tab !== "surface" && (
+        <HistogramPanel
+          histogram={counts}
+          displayWindow={displayWindow}
+          onChange={setDisplayWindow}
+          onAutoContrast={() => resetWindow(autoContrast)}
+          onFullRange={() => resetWindow(linearWindow(range))}
+        />
+      )}
+      {tab === "slices" && <SliceViewer volume={volume} displayWindow={displayWindow} />}
+      {tab === "volume" && <VolumeView volume={volume} displayWindow={displayWindow} />}
+      {tab === "surface" && <IsosurfaceView volume={volume} name={name} />}
+    </div>
+  );
+}
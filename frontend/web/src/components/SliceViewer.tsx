@@ -0,0 +1,241 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { ImageStack } from "../formats/stack";
+import type { Shape3 } from "../tiling";
+import {
+  AXIS_NAMES,
+  extractSlice,
+  greyscale,
+  PLANE_AXES,
+  SlicePlane,
+  volumeShape
+} from "../viewer/slices";
+import type { DisplayWindow } from "../viewer/windowing";
+
+// Side of each pane in CSS pixels; the volume's longest side fits it at zoom 1
+const PANE_SIZE = 256;
+const MAX_ZOOM = 32;
+// Pointer travel, in pixels, below which a press counts as a click rather than a pan
+const CLICK_SLOP = 3;
+
+interface SliceViewerProps {
+  volume: ImageStack;
+  displayWindow: DisplayWindow;
+}
+
+interface SlicePaneProps {
+  volume: ImageStack;
+  plane: SlicePlane;
+  cursor: Shape3;
+  center: [number, number, number];
+  scale: number;
+  displayWindow: DisplayWindow;
+  onCursor: (plane: SlicePlane, u: number, v: number) => void;
+  onSlice: (plane: SlicePlane, index: number) => void;
+  onPan: (plane: SlicePlane, du: number, dv: number) => void;
+  onZoom: (factor: number) => void;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+function SlicePane(props: SlicePaneProps) {
+  const { volume, plane, cursor, center, scale, displayWindow, onCursor, onSlice, onPan, onZoom } = props;
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drag = useRef<{ x: number; y: number; moved: boolean } | null>(null);
+  const { u, v, normal } = PLANE_AXES[plane];
+  const shape = volumeShape(volume);
+  const index = cursor[normal];
+
+  // The slice is drawn once at its own resolution and scaled onto the pane
+  const image = useMemo(() => {
+    const slice = extractSlice(volume, plane, index);
+    const canvas = document.createElement("canvas");
+    canvas.width = slice.width;
+    canvas.height = slice.height;
+    const pixels = greyscale(slice, displayWindow);
+    canvas.getContext("2d")?.putImageData(new ImageData(pixels, slice.width, slice.height), 0, 0);
+    return canvas;
+  }, [volume, plane, index, displayWindow]);
+
+  // Pane pixel of a position along the plane's u or v axis, in voxels
+  const screenU = (p: number) => (p - center[u]) * scale + PANE_SIZE / 2;
+  const screenV = (p: number) => (p - center[v]) * scale + PANE_SIZE / 2;
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+    context.fillStyle = "black";
+    context.fillRect(0, 0, PANE_SIZE, PANE_SIZE);
+    context.imageSmoothingEnabled = false;
+    context.drawImage(image, screenU(0), screenV(0), image.width * scale, image.height * scale);
+
+    const x = Math.round(screenU(cursor[u] + 0.5)) + 0.5;
+    const y = Math.round(screenV(cursor[v] + 0.5)) + 0.5;
+    context.strokeStyle = "rgba(255, 213, 79, 0.8)";
+    context.lineWidth = 1;
+    context.beginPath();
+    context.moveTo(x, 0);
+    context.lineTo(x, PANE_SIZE);
+    context.moveTo(0, y);
+    context.lineTo(PANE_SIZE, y);
+    context.stroke();
+  });
+
+  // React's wheel listeners are passive, and zooming must not scroll the page
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const wheel = (e: WheelEvent) => {
+      e.preventDefault();
+      onZoom(e.deltaY < 0 ? 1.2 : 1 / 1.2);
+    };
+    canvas.addEventListener("wheel", wheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", wheel);
+  }, [onZoom]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { x: e.clientX, y: e.clientY, moved: false };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = drag.current;
+    if (!start) return;
+    const dx = e.clientX - start.x;
+    const dy = e.clientY - start.y;
+    if (!start.moved && Math.hypot(dx, dy) < CLICK_SLOP) return;
+    drag.current = { x: e.clientX, y: e.clientY, moved: true };
+    onPan(plane, -dx / scale, -dy / scale);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = drag.current;
+    drag.current = null;
+    if (!start || start.moved) return;
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const px = ((e.clientX - bounds.left) * PANE_SIZE) / bounds.width;
+    const py = ((e.clientY - bounds.top) * PANE_SIZE) / bounds.height;
+    onCursor(
+      plane,
+      clamp(Math.floor((px - PANE_SIZE / 2) / scale + center[u]), 0, shape[u] - 1),
+      clamp(Math.floor((py - PANE_SIZE / 2) / scale + center[v]), 0, shape[v] - 1)
+    );
+  };
+
+  return (
+    <div className="slice-pane">
+      <canvas
+        ref={canvasRef}
+        width={PANE_SIZE}
+        height={PANE_SIZE}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+      />
+      <label className="slice-control">
+        <span>
+          {plane.toUpperCase()} · {AXIS_NAMES[normal]} {index + 1} of {shape[normal]}
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={shape[normal] - 1}
+          value={index}
+          onChange={e => onSlice(plane, Number(e.target.value))}
+        />
+      </label>
+    </div>
+  );
+}
+
+/**
+ * Synchronized XY, XZ and YZ slices through a decrypted volume. Clicking a
+ * pane moves the crosshair, and with it the slices the other panes show;
+ * dragging pans and the wheel zooms all three together.
+ */
+export default function SliceViewer({ volume, displayWindow }: SliceViewerProps) {
+  const shape = volumeShape(volume);
+  const middle = (): [number, number, number] => [shape[0] / 2, shape[1] / 2, shape[2] / 2];
+  const [cursor, setCursor] = useState<Shape3>(() => shape.map(n => Math.floor(n / 2)) as Shape3);
+  const [center, setCenter] = useState(middle);
+  const [zoom, setZoom] = useState(1);
+  const scale = (PANE_SIZE / Math.max(...shape)) * zoom;
+
+  const moveCursor = (plane: SlicePlane, u: number, v: number) => {
+    const axes = PLANE_AXES[plane];
+    setCursor(c => {
+      const next: Shape3 = [...c];
+      next[axes.u] = u;
+      next[axes.v] = v;
+      return next;
+    });
+  };
+
+  const moveSlice = (plane: SlicePlane, index: number) => {
+    const { normal } = PLANE_AXES[plane];
+    setCursor(c => {
+      const next: Shape3 = [...c];
+      next[normal] = index;
+      return next;
+    });
+  };
+
+  const pan = (plane: SlicePlane, du: number, dv: number) => {
+    const axes = PLANE_AXES[plane];
+    setCenter(c => {
+      const next: [number, number, number] = [...c];
+      next[axes.u] = clamp(next[axes.u] + du, 0, shape[axes.u]);
+      next[axes.v] = clamp(next[axes.v] + dv, 0, shape[axes.v]);
+      return next;
+    });
+  };
+
+  const zoomBy = useCallback((factor: number) => setZoom(z => clamp(z * factor, 1, MAX_ZOOM)), []);
+
+  const resetView = () => {
+    setZoom(1);
+    setCenter(middle());
+  };
+
+  const [x, y, z] = cursor;
+  const value = volume.data[(z * volume.height + y) * volume.width + x];
+  const paneProps = {
+    volume,
+    cursor,
+    center,
+    scale,
+    displayWindow,
+    onCursor: moveCursor,
+    onSlice: moveSlice,
+    onPan: pan,
+    onZoom: zoomBy
+  };
+
+  return (
+    <div className="slice-viewer">
+      <div className="slice-panes">
+        <SlicePane plane="xy" {...paneProps} />
+        <SlicePane plane="yz" {...paneProps} />
+        <SlicePane plane="xz" {...paneProps} />
+        <div className="slice-readout">
+          <div className="detail">
+            <span>Dimensions:</span>
+            <span>{shape.join(" × ")}</span>
+          </div>
+          <div className="detail">
+            <span>Cursor:</span>
+            <span>({x}, {y}, {z})</span>
+          </div>
+          <div className="detail">
+            <span>Value:</span>
+            <span>{value.toPrecision(4)}</span>
+          </div>
+          <div className="detail">
+            <span>Zoom:</span>
+            <span>{zoom.toFixed(1)}×</span>
+          </div>
+          <button className="cancel-btn" onClick={resetView}>Reset view</button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { ImageStack } from "../formats/stack";
+import { extractSlice, greyscale, valueRange } from "../viewer/slices";
+import { tiltSeriesPreview } from "../viewer/tiltPreview";
+import { linearWindow } from "../viewer/windowing";
+
+interface TiltSeriesPreviewProps {
+  stack: ImageStack;
+}
+
+interface PreviewImageProps {
+  images: ImageStack;
+  index: number;
+  onClick?: () => void;
+}
+
+// Each image is stretched over its own value range, as tilts differ in exposure and thickness
+function PreviewImage({ images, index, onClick }: PreviewImageProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+    const slice = extractSlice(images, "xy", index);
+    const pixels = greyscale(slice, linearWindow(valueRange(slice.data)));
+    context.putImageData(new ImageData(pixels, slice.width, slice.height), 0, 0);
+  }, [images, index]);
+
+  return <canvas ref={canvasRef} width={images.width} height={images.height} onClick={onClick} />;
+}
+
+/**
+ * Downsampled montage of a parsed stack with a scrub slider, drawn from the
+ * file in the page before anything is encrypted or sent. Tilt series run in
+ * angle order, starting at the least tilted image.
+ */
+export default function TiltSeriesPreview({ stack }: TiltSeriesPreviewProps) {
+  const preview = useMemo(() => tiltSeriesPreview(stack), [stack]);
+  const [position, setPosition] = useState(preview.start);
+  const { images, order, labels } = preview;
+  const current = order[Math.min(position, order.length - 1)];
+
+  useEffect(() => setPosition(preview.start), [preview]);
+
+  return (
+    <div className="tilt-preview">
+      <div className="tilt-preview-current">
+        <PreviewImage images={images} index={current} />
+        <span className="tilt-label">{labels[current]}</span>
+      </div>
+      <label className="slice-control">
+        <span>
+          Image {position + 1} of {order.length}
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={order.length - 1}
+          value={position}
+          onChange={e => setPosition(Number(e.target.value))}
+        />
+      </label>
+      <div className="tilt-montage">
+        {order.map((index, k) => (
+          <figure key={index} className={k === position ? "selected" : undefined}>
+            <PreviewImage images={images} index={index} onClick={() => setPosition(k)} />
+            <figcaption>{labels[index]}</figcaption>
+          </figure>
+        ))}
+      </div>
+    </div>
+  );
+}
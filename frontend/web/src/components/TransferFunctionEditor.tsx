@@ -0,0 +1,107 @@
+import React, { useRef, useState } from "react";
+import { normalizeTransferFunction, TransferPoint } from "../viewer/transferFunction";
+
+const EDITOR_WIDTH = 256;
+const EDITOR_HEIGHT = 80;
+const POINT_RADIUS = 5;
+
+interface TransferFunctionEditorProps {
+  points: TransferPoint[];
+  onChange: (points: TransferPoint[]) => void;
+}
+
+const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+
+/**
+ * Opacity curve over the displayed value range. Dragging a point moves it,
+ * clicking the background adds one, and double-clicking a point removes it;
+ * the selected point's colour is picked below the curve.
+ */
+export default function TransferFunctionEditor({ points, onChange }: TransferFunctionEditorProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [selected, setSelected] = useState(0);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const current = points[Math.min(selected, points.length - 1)];
+
+  const toPoint = (e: React.PointerEvent) => {
+    const bounds = svgRef.current!.getBoundingClientRect();
+    return {
+      value: clamp((e.clientX - bounds.left) / bounds.width),
+      opacity: clamp(1 - (e.clientY - bounds.top) / bounds.height)
+    };
+  };
+
+  // Keeps the moved or added point selected once the points are re-sorted
+  const update = (next: TransferPoint[], moved: TransferPoint) => {
+    const sorted = normalizeTransferFunction(next);
+    const index = sorted.findIndex(point => point.value === moved.value && point.opacity === moved.opacity);
+    setSelected(index);
+    if (dragging !== null) setDragging(index);
+    onChange(sorted);
+  };
+
+  const handleBackgroundDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.target !== svgRef.current) return;
+    const { value, opacity } = toPoint(e);
+    const added = { value, opacity, color: current.color };
+    update([...points, added], added);
+  };
+
+  const handlePointDown = (index: number) => (e: React.PointerEvent<SVGCircleElement>) => {
+    svgRef.current!.setPointerCapture(e.pointerId);
+    setSelected(index);
+    setDragging(index);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragging === null) return;
+    const moved = { ...points[dragging], ...toPoint(e) };
+    update(points.map((point, i) => (i === dragging ? moved : point)), moved);
+  };
+
+  const removePoint = (index: number) => {
+    if (points.length <= 2) return;
+    setSelected(0);
+    onChange(points.filter((_, i) => i !== index));
+  };
+
+  const setColor = (color: string) => onChange(points.map(point => (point === current ? { ...point, color } : point)));
+
+  const x = (point: TransferPoint) => point.value * EDITOR_WIDTH;
+  const y = (point: TransferPoint) => (1 - point.opacity) * EDITOR_HEIGHT;
+  const gradient = points.map(point => `${point.color} ${point.value * 100}%`).join(", ");
+
+  return (
+    <div className="transfer-editor">
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${EDITOR_WIDTH} ${EDITOR_HEIGHT}`}
+        preserveAspectRatio="none"
+        onPointerDown={handleBackgroundDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragging(null)}
+      >
+        <polyline points={points.map(point => `${x(point)},${y(point)}`).join(" ")} />
+        {points.map((point, i) => (
+          <circle
+            key={i}
+            cx={x(point)}
+            cy={y(point)}
+            r={POINT_RADIUS}
+            fill={point.color}
+            className={point === current ? "selected" : undefined}
+            onPointerDown={handlePointDown(i)}
+            onDoubleClick={() => removePoint(i)}
+          />
+        ))}
+      </svg>
+      <div className="transfer-gradient" style={{ background: `linear-gradient(to right, ${gradient})` }} />
+      <label className="slice-control">
+        <span>
+          Point at {(current.value * 100).toFixed(0)}%, opacity {current.opacity.toFixed(2)}
+        </span>
+        <input type="color" value={current.color} onChange={e => setColor(e.target.value)} />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import React, { useEffect, useRef, useState } from "react";
+
+interface VirtualGridProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  /** Height of every row, gap included. */
+  rowHeight: number;
+  minColumnWidth: number;
+  gap: number;
+  /** Rows rendered beyond each edge of the viewport. */
+  overscan?: number;
+  /** Called whenever the rendered rows reach the end of `items`. */
+  onEndReached?: () => void;
+  className?: string;
+}
+
+/**
+ * Responsive grid that only mounts the rows in and around its scroll
+ * viewport, so lists of thousands of cards stay cheap to render.
+ */
+export default function VirtualGrid<T>({
+  items,
+  getKey,
+  renderItem,
+  rowHeight,
+  minColumnWidth,
+  gap,
+  overscan = 2,
+  onEndReached,
+  className
+}: VirtualGridProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [viewport, setViewport] = useState({ width: 0, height: 0, scrollTop: 0 });
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+
+    const measure = () => setViewport({ width: el.clientWidth, height: el.clientHeight, scrollTop: el.scrollTop });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(el);
+    el.addEventListener("scroll", measure, { passive: true });
+    return () => {
+      observer.disconnect();
+      el.removeEventListener("scroll", measure);
+    };
+  }, []);
+
+  const columns = Math.max(1, Math.floor((viewport.width + gap) / (minColumnWidth + gap)));
+  const rowCount = Math.ceil(items.length / columns);
+  const firstRow = Math.max(0, Math.floor(viewport.scrollTop / rowHeight) - overscan);
+  const lastRow = Math.min(rowCount, Math.ceil((viewport.scrollTop + viewport.height) / rowHeight) + overscan);
+  const visible = items.slice(firstRow * columns, lastRow * columns);
+
+  // Pass a memoized callback: each new one re-checks the end of the list
+  useEffect(() => {
+    if (viewport.height > 0 && lastRow >= rowCount) onEndReached?.();
+  }, [lastRow, rowCount, viewport.height, onEndReached]);
+
+  return (
+    <div ref={containerRef} className={className} style={{ overflowY: "auto" }}>
+      <div style={{ position: "relative", height: rowCount * rowHeight }}>
+        <div
+          style={{
+            position: "absolute",
+            top: firstRow * rowHeight,
+            left: 0,
+            right: 0,
+            display: "grid",
+            gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+            gridAutoRows: rowHeight - gap,
+            gap
+          }}
+        >
+          {visible.map(item => (
+            <React.Fragment key={getKey(item)}>{renderItem(item)}</React.Fragment>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
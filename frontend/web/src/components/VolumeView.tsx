@@ -0,0 +1,173 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import type { ImageStack } from "../formats/stack";
+import { AXIS_NAMES, valueRange } from "../viewer/slices";
+import { DEFAULT_TRANSFER_FUNCTION, sampleTransferFunction, TransferPoint } from "../viewer/transferFunction";
+import {
+  createVolumeRenderer,
+  DEFAULT_VIEW,
+  RENDER_MODES,
+  RenderMode,
+  ViewParams,
+  VolumeRenderer
+} from "../viewer/volumeRenderer";
+import type { DisplayWindow } from "../viewer/windowing";
+import TransferFunctionEditor from "./TransferFunctionEditor";
+
+const MODE_LABELS: Record<RenderMode, string> = {
+  mip: "Maximum intensity",
+  composite: "Alpha compositing"
+};
+
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 8;
+// Degrees of rotation per pixel dragged
+const ORBIT_SPEED = 0.5;
+
+interface VolumeViewProps {
+  volume: ImageStack;
+  displayWindow: DisplayWindow;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Ray-cast rendering of a decrypted volume: drag to orbit, wheel to zoom,
+ * with a transfer function editor and a clipping box below the view.
+ */
+export default function VolumeView({ volume, displayWindow }: VolumeViewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rendererRef = useRef<VolumeRenderer | null>(null);
+  const drag = useRef<{ x: number; y: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<ViewParams>(DEFAULT_VIEW);
+  const [transfer, setTransfer] = useState<TransferPoint[]>(DEFAULT_TRANSFER_FUNCTION);
+  const range = useMemo(() => valueRange(volume.data), [volume]);
+  const shape = [volume.width, volume.height, volume.depth];
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    try {
+      rendererRef.current = createVolumeRenderer(canvas);
+    } catch (err: any) {
+      setError(err.message);
+      return;
+    }
+    return () => {
+      rendererRef.current?.dispose();
+      rendererRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    try {
+      rendererRef.current?.setVolume(volume, range);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  }, [volume, range]);
+
+  useEffect(() => {
+    rendererRef.current?.setTransferFunction(sampleTransferFunction(transfer));
+  }, [transfer]);
+
+  useEffect(() => {
+    rendererRef.current?.setWindow(displayWindow);
+  }, [displayWindow]);
+
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => rendererRef.current?.render(view));
+    return () => cancelAnimationFrame(frame);
+  });
+
+  // React's wheel listeners are passive, and zooming must not scroll the page
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const wheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const factor = e.deltaY < 0 ? 1.2 : 1 / 1.2;
+      setView(v => ({ ...v, zoom: clamp(v.zoom * factor, MIN_ZOOM, MAX_ZOOM) }));
+    };
+    canvas.addEventListener("wheel", wheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", wheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = drag.current;
+    if (!start) return;
+    drag.current = { x: e.clientX, y: e.clientY };
+    setView(v => ({
+      ...v,
+      yaw: v.yaw - (e.clientX - start.x) * ORBIT_SPEED,
+      pitch: clamp(v.pitch + (e.clientY - start.y) * ORBIT_SPEED, -89, 89)
+    }));
+  };
+
+  const setClip = (end: "min" | "max", axis: number, fraction: number) =>
+    setView(v => {
+      const clip = { min: [...v.clip.min], max: [...v.clip.max] } as ViewParams["clip"];
+      clip[end][axis] = fraction;
+      // Each axis keeps at least one voxel between its clipping planes
+      const gap = 1 / shape[axis];
+      if (end === "min") clip.max[axis] = Math.max(clip.max[axis], fraction + gap);
+      else clip.min[axis] = Math.min(clip.min[axis], fraction - gap);
+      return { ...v, clip };
+    });
+
+  if (error) return <p className="file-status error">Volume rendering is unavailable: {error}</p>;
+
+  return (
+    <div className="volume-view">
+      <canvas
+        ref={canvasRef}
+        className="volume-canvas"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => (drag.current = null)}
+      />
+      <div className="volume-controls">
+        <label className="slice-control">
+          <span>Mode</span>
+          <select value={view.mode} onChange={e => setView(v => ({ ...v, mode: e.target.value as RenderMode }))}>
+            {RENDER_MODES.map(mode => (
+              <option key={mode} value={mode}>
+                {MODE_LABELS[mode]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <TransferFunctionEditor points={transfer} onChange={setTransfer} />
+        {AXIS_NAMES.map((name, axis) => (
+          <div key={name} className="clip-control">
+            <span>Clip {name}</span>
+            {(["min", "max"] as const).map(end => (
+              <input
+                key={end}
+                type="range"
+                min={0}
+                max={shape[axis]}
+                value={Math.round(view.clip[end][axis] * shape[axis])}
+                onChange={e => setClip(end, axis, clamp(Number(e.target.value) / shape[axis], 0, 1))}
+              />
+            ))}
+          </div>
+        ))}
+        <button
+          className="cancel-btn"
+          onClick={() => {
+            setView(DEFAULT_VIEW);
+            setTransfer(DEFAULT_TRANSFER_FUNCTION);
+          }}
+        >
+          Reset view
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,17 @@
 // contract.ts
 import { ethers } from "ethers";
-import abiJson from "./abi/UniversalAdapter.json";
+import abiJson from "./abi/EtCloudFhe.json";
 import configJson from "./config.json";
+import type { EtCloudFhe } from "../../../types/contracts/EtCloudFhe";
 
 export const ABI = (abiJson as any).abi || abiJson;
 export const config = configJson;
 
+export const HARDHAT_CHAIN_ID = 31337;
+
+// A deployment against a local Hardhat node runs FHE in mock mode.
+export const isLocalNetwork = /^https?:\/\/(127\.0\.0\.1|localhost)(:\d+)?/.test(config.network);
+
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
     return await fn();
@@ -50,10 +56,19 @@ const getTestnetProvider = async () => {
   throw new Error("All RPC providers failed");
 };
 
-export async function getContractReadOnly() {
+export function getLocalProvider() {
+  return new ethers.JsonRpcProvider(config.network, {
+    name: "hardhat",
+    chainId: HARDHAT_CHAIN_ID
+  });
+}
+
+export async function getContractReadOnly(): Promise<EtCloudFhe | null> {
+  // Empty until deploy/deploy.ts writes the address of a deployment
+  if (!config.contractAddress) return null;
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const provider = isLocalNetwork ? getLocalProvider() : await getTestnetProvider();
+    const contract = new ethers.Contract(config.contractAddress, ABI, provider) as unknown as EtCloudFhe;
     
     const code = await retry(() => provider.getCode(config.contractAddress));
     if (code === "0x") {
@@ -67,14 +82,17 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
+export async function getContractWithSigner(): Promise<EtCloudFhe> {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
+  if (!config.contractAddress) {
+    throw new Error("No EtCloudFhe deployment configured; run deploy/deploy.ts");
+  }
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const contract = new ethers.Contract(config.contractAddress, ABI, signer) as unknown as EtCloudFhe;
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -0,0 +1,157 @@
+// fhe.ts
+import { ethers } from "ethers";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { config, getLocalProvider, isLocalNetwork } from "./contract";
+
+export interface EncryptedInput {
+  handles: string[];
+  inputProof: string;
+}
+
+const RELAYER_SDK_URL = "https://cdn.zama.ai/relayer-sdk-js/0.2.0/relayer-sdk-js.umd.cjs";
+
+// Gateway contracts the Hardhat fhevm plugin signs mock proofs for.
+const MOCK_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+interface RelayerMetadata {
+  chainId: number;
+  gatewayChainId: number;
+  ACLAddress: string;
+  KMSVerifierAddress: string;
+  InputVerifierAddress: string;
+}
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+
+// The SDK's wasm workers only load from its UMD build, which sets window.relayerSDK.
+const loadRelayerSdk = () => new Promise<void>((resolve, reject) => {
+  if ((window as any).relayerSDK) {
+    resolve();
+    return;
+  }
+  const script = document.createElement("script");
+  script.src = RELAYER_SDK_URL;
+  script.type = "text/javascript";
+  script.onload = () => resolve();
+  script.onerror = () => reject(new Error(`Failed to load relayer SDK from ${RELAYER_SDK_URL}`));
+  document.head.appendChild(script);
+});
+
+const createRelayerInstance = async (): Promise<FhevmInstance> => {
+  if (!(window as any).ethereum) {
+    throw new Error("No injected wallet");
+  }
+  await loadRelayerSdk();
+  const { initSDK, createInstance, SepoliaConfig } = await import("@zama-fhe/relayer-sdk/bundle");
+  await initSDK();
+  return createInstance({ ...SepoliaConfig, network: (window as any).ethereum });
+};
+
+const createMockInstance = async (): Promise<FhevmInstance> => {
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const provider = getLocalProvider();
+  const metadata: RelayerMetadata = await provider.send("fhevm_relayer_metadata", []);
+
+  const instance = await MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: metadata.chainId,
+    gatewayChainId: metadata.gatewayChainId,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+    verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS
+  });
+  return instance as unknown as FhevmInstance;
+};
+
+/**
+ * Shared FHE instance: the relayer SDK on Sepolia, or the fhevm mock when
+ * the frontend is configured against a local Hardhat node.
+ */
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  if (!instancePromise) {
+    instancePromise = (isLocalNetwork ? createMockInstance() : createRelayerInstance()).catch(e => {
+      instancePromise = null;
+      throw e;
+    });
+  }
+  return instancePromise;
+}
+
+/** Encrypts `values` as euint32 inputs bound to EtCloudFhe and `userAddress`. */
+export async function encryptUint32(values: readonly number[], userAddress: string): Promise<EncryptedInput> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(config.contractAddress, userAddress);
+  for (const value of values) {
+    input.add32(value);
+  }
+
+  const { handles, inputProof } = await input.encrypt();
+  return {
+    handles: handles.map(handle => ethers.hexlify(handle)),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+// How long one signed decryption permit stays valid; a whole result is decrypted under one
+const DECRYPTION_PERMIT_DAYS = 1;
+
+/** euint32 handles one user-decryption request may carry: 2048 encrypted bits. */
+export const USER_DECRYPT_BATCH = 64;
+
+export interface UserDecryption {
+  /** Cleartexts of `handles`, in order, requested USER_DECRYPT_BATCH at a time. */
+  decrypt: (handles: readonly string[]) => Promise<bigint[]>;
+}
+
+/**
+ * Has `signer` sign the EIP-712 permit letting a fresh keypair decrypt
+ * EtCloudFhe handles the account is allowed to read. The relayer re-encrypts
+ * each value under the keypair's public key, so cleartexts only exist here,
+ * next to the private key, which is held in memory and never stored.
+ */
+export async function createUserDecryption(signer: ethers.Signer): Promise<UserDecryption> {
+  const instance = await getFhevmInstance();
+  const userAddress = await signer.getAddress();
+  const contracts = [config.contractAddress];
+  const { publicKey, privateKey } = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+
+  const eip712 = instance.createEIP712(publicKey, contracts, startTimestamp, DECRYPTION_PERMIT_DAYS);
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  return {
+    decrypt: async handles => {
+      const values: bigint[] = [];
+      for (let start = 0; start < handles.length; start += USER_DECRYPT_BATCH) {
+        const batch = handles.slice(start, start + USER_DECRYPT_BATCH);
+        const results = await instance.userDecrypt(
+          batch.map(handle => ({ handle, contractAddress: config.contractAddress })),
+          privateKey,
+          publicKey,
+          signature.replace("0x", ""),
+          contracts,
+          userAddress,
+          startTimestamp,
+          DECRYPTION_PERMIT_DAYS
+        );
+        for (const handle of batch) values.push(BigInt(results[handle] as bigint | string));
+      }
+      return values;
+    }
+  };
+}
+
+/**
+ * First 32 bits of the SHA-256 digest of `data`: the content fingerprint an
+ * image is registered under. It identifies the upload, it does not hold it.
+ */
+export async function fingerprintUint32(data: ArrayBuffer | ArrayBufferView): Promise<number> {
+  const digest = await crypto.subtle.digest("SHA-256", data as BufferSource);
+  return new DataView(digest).getUint32(0);
+}
@@ -0,0 +1,8 @@
+// formats/compression.ts
+
+/** Inflates zlib-wrapped Deflate data (TIFF compression 8, HDF5 gzip filter). */
+export async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  // slice() copies into a plain ArrayBuffer, which Blob accepts under both the DOM and Node typings
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -0,0 +1,282 @@
+// formats/emd.ts
+import { Hdf5AttributeValue, Hdf5Dataset, Hdf5File, parseHdf5, readHdf5Dataset } from "./hdf5";
+import { allocateVoxels, ImageStack, PixelSpacing, VoxelArray } from "./stack";
+
+/** Which layout convention located the tilt series inside the HDF5 container. */
+export type Hdf5Flavor = "velox" | "emd" | "nexus" | "hdf5";
+
+export interface EmdFile {
+  flavor: Hdf5Flavor;
+  /** Path of the dataset the stack was read from. */
+  datasetPath: string;
+  hdf5: Hdf5File;
+  stack: ImageStack;
+}
+
+/** Indices into the dataset shape of the image (z), row (y) and column (x) axes; z is -1 for a single image. */
+type StackAxes = [number, number, number];
+
+interface StackSource {
+  flavor: Hdf5Flavor;
+  dataset: Hdf5Dataset;
+  axes: StackAxes;
+  tiltAngles?: number[];
+  pixelSpacing?: Partial<PixelSpacing>;
+  /** Images to keep, e.g. NeXus projections without the dark and flat fields. */
+  frames?: number[];
+}
+
+const VELOX_IMAGE_DATA = /^\/Data\/Image\/[^/]+\/Data$/;
+const EMD_GROUP_TYPE_DATA = 1;
+const NEXUS_PROJECTION_KEY = 0;
+
+const ANGSTROM_PER_UNIT: Record<string, number> = {
+  m: 1e10,
+  meter: 1e10,
+  metre: 1e10,
+  mm: 1e7,
+  um: 1e4,
+  "µm": 1e4,
+  micron: 1e4,
+  micrometer: 1e4,
+  nm: 10,
+  nanometer: 10,
+  a: 1,
+  "å": 1,
+  angstrom: 1,
+  pm: 0.01
+};
+
+// EMD writes units like "[n_m]"; NeXus and Velox use plain names.
+const normalizeUnits = (units: string) => units.replace(/[[\]_\s]/g, "").toLowerCase().replace(/s$/, "");
+
+const toAngstrom = (value: number, units: string): number => {
+  const factor = ANGSTROM_PER_UNIT[normalizeUnits(units)];
+  return factor ? Math.abs(value) * factor : 0;
+};
+
+const isAngleUnit = (units: string) => /^(deg|rad)/.test(normalizeUnits(units));
+const toDegrees = (values: number[], units: string) =>
+  normalizeUnits(units).startsWith("rad") ? values.map(v => (v * 180) / Math.PI) : values;
+
+const attributeString = (value: Hdf5AttributeValue | undefined): string => {
+  const first = Array.isArray(value) ? value[0] : value;
+  return first === undefined ? "" : String(first);
+};
+
+const readNumbers = async (file: Hdf5File, dataset: Hdf5Dataset): Promise<number[]> =>
+  Array.from(await readHdf5Dataset(file, dataset) as ArrayLike<number>);
+
+const findDataset = (file: Hdf5File, path: string): Hdf5Dataset | undefined => {
+  const object = file.objects.get(path);
+  return object?.kind === "dataset" && object.dtype ? object : undefined;
+};
+
+const imageAxes = (dataset: Hdf5Dataset): StackAxes | null => {
+  const rank = dataset.shape.length;
+  if (rank === 2) return [-1, 0, 1];
+  if (rank === 3) return [0, 1, 2];
+  return null;
+};
+
+const largest = (datasets: Hdf5Dataset[]) =>
+  datasets.reduce<Hdf5Dataset | undefined>((best, d) =>
+    !best || d.shape.reduce((a, b) => a * b, 1) > best.shape.reduce((a, b) => a * b, 1) ? d : best, undefined);
+
+/** Velox stores each image series as Data (rows x columns x frames) with per-frame JSON metadata beside it. */
+const findVelox = async (file: Hdf5File): Promise<StackSource | null> => {
+  const dataset = largest(file.datasets.filter(d =>
+    VELOX_IMAGE_DATA.test(d.path) && d.dtype && (d.shape.length === 2 || d.shape.length === 3)));
+  if (!dataset) return null;
+
+  const source: StackSource = { flavor: "velox", dataset, axes: dataset.shape.length === 3 ? [2, 0, 1] : [-1, 0, 1] };
+  const metadata = findDataset(file, dataset.path.replace(/Data$/, "Metadata"));
+  if (!metadata || metadata.shape.length !== 2) return source;
+
+  const [length, frameCount] = metadata.shape;
+  const bytes = await readHdf5Dataset(file, metadata);
+  const frames = Array.from({ length: frameCount }, (_, f) => {
+    const column = new Uint8Array(length);
+    for (let i = 0; i < length; i++) column[i] = bytes[i * frameCount + f];
+    const end = column.indexOf(0);
+    try {
+      return JSON.parse(new TextDecoder().decode(column.subarray(0, end < 0 ? length : end)));
+    } catch {
+      return null;
+    }
+  });
+
+  const alphas = frames.map(frame => parseFloat(frame?.Stage?.AlphaTilt));
+  if (alphas.every(Number.isFinite)) source.tiltAngles = toDegrees(alphas, "rad");
+
+  const result = frames[0]?.BinaryResult;
+  if (result?.PixelSize) {
+    source.pixelSpacing = {
+      x: toAngstrom(parseFloat(result.PixelSize.width), result.PixelUnitX ?? "m"),
+      y: toAngstrom(parseFloat(result.PixelSize.height), result.PixelUnitY ?? "m")
+    };
+  }
+  return source;
+};
+
+/** Berkeley EMD data groups hold `data` plus one calibration dataset per axis, dim1..dimN. */
+const findEmd = async (file: Hdf5File): Promise<StackSource | null> => {
+  for (const object of file.objects.values()) {
+    if (object.kind !== "group" || object.attributes.emd_group_type !== EMD_GROUP_TYPE_DATA) continue;
+    const dataset = findDataset(file, `${object.path}/data`);
+    const rank = dataset?.shape.length ?? 0;
+    if (!dataset || (rank !== 2 && rank !== 3)) continue;
+
+    const dims = dataset.shape.map((_, i) => {
+      const dim = findDataset(file, `${object.path}/dim${i + 1}`);
+      return {
+        dataset: dim,
+        name: normalizeUnits(attributeString(dim?.attributes.name)),
+        units: attributeString(dim?.attributes.units)
+      };
+    });
+
+    const angleAxis = rank === 3
+      ? dims.findIndex(dim => isAngleUnit(dim.units) || /angle|tilt/.test(dim.name))
+      : -1;
+    const z = rank === 3 ? (angleAxis >= 0 ? angleAxis : 0) : -1;
+    let [y, x] = [0, 1, 2].filter(axis => axis < rank && axis !== z);
+    if (dims[y].name === "x" || dims[x].name === "y") [y, x] = [x, y];
+
+    const source: StackSource = { flavor: "emd", dataset, axes: [z, y, x] };
+    const spacing = async (axis: number) => {
+      const dim = dims[axis];
+      if (!dim.dataset) return 0;
+      const values = await readNumbers(file, dim.dataset);
+      return values.length > 1 ? toAngstrom(values[1] - values[0], dim.units) : 0;
+    };
+    source.pixelSpacing = { x: await spacing(x), y: await spacing(y) };
+    if (z >= 0 && dims[z].dataset && isAngleUnit(dims[z].units)) {
+      source.tiltAngles = toDegrees(await readNumbers(file, dims[z].dataset!), dims[z].units);
+    }
+    return source;
+  }
+  return null;
+};
+
+/** NeXus NXdata groups name their plotted dataset in `signal`; NXtomo adds rotation angles and image keys. */
+const findNexus = async (file: Hdf5File): Promise<StackSource | null> => {
+  for (const object of file.objects.values()) {
+    if (object.kind !== "group" || attributeString(object.attributes.NX_class) !== "NXdata") continue;
+    const signal = attributeString(object.attributes.signal) || "data";
+    const dataset = findDataset(file, `${object.path}/${signal}`);
+    const axes = dataset && imageAxes(dataset);
+    if (!dataset || !axes) continue;
+
+    const source: StackSource = { flavor: "nexus", dataset, axes };
+    const depth = axes[0] >= 0 ? dataset.shape[axes[0]] : 1;
+    const named = (name: string) => findDataset(file, `${object.path}/${name}`)
+      ?? file.datasets.find(d => d.path.endsWith(`/${name}`) && d.dtype);
+
+    const imageKey = named("image_key");
+    if (imageKey && imageKey.shape[0] === depth) {
+      const keys = await readNumbers(file, imageKey);
+      source.frames = keys.flatMap((key, i) => (key === NEXUS_PROJECTION_KEY ? [i] : []));
+    }
+
+    const angles = named("rotation_angle");
+    if (angles && angles.shape[0] === depth) {
+      source.tiltAngles = toDegrees(await readNumbers(file, angles), attributeString(angles.attributes.units));
+    }
+
+    const pixelSize = async (name: string) => {
+      const dataset = named(name);
+      if (!dataset) return 0;
+      const [value] = await readNumbers(file, dataset);
+      return toAngstrom(value, attributeString(dataset.attributes.units) || "m");
+    };
+    source.pixelSpacing = { x: await pixelSize("x_pixel_size"), y: await pixelSize("y_pixel_size") };
+    return source;
+  }
+  return null;
+};
+
+/** Any other HDF5 file: the largest 2D or 3D numeric dataset, images along the first axis. */
+const findLargest = async (file: Hdf5File): Promise<StackSource | null> => {
+  const dataset = largest(file.datasets.filter(d => d.dtype && imageAxes(d) && d.shape.every(n => n > 1)));
+  if (!dataset) return null;
+
+  const axes = imageAxes(dataset)!;
+  const source: StackSource = { flavor: "hdf5", dataset, axes };
+  const depth = axes[0] >= 0 ? dataset.shape[axes[0]] : 1;
+  const angles = file.datasets.find(d =>
+    d.dtype && d.shape.length === 1 && d.shape[0] === depth && /(angle|tilt)[^/]*$/i.test(d.path));
+  if (angles) {
+    source.tiltAngles = toDegrees(await readNumbers(file, angles), attributeString(angles.attributes.units));
+  }
+  return source;
+};
+
+/** Reorders a C-ordered dataset so x runs fastest, then y, then z. */
+const toStackOrder = (data: VoxelArray, source: StackSource): VoxelArray => {
+  const { shape } = source.dataset;
+  const [zAxis, yAxis, xAxis] = source.axes;
+  if (zAxis <= 0 && yAxis === shape.length - 2 && xAxis === shape.length - 1) return data;
+
+  const strides = shape.map((_, i) => shape.slice(i + 1).reduce((a, b) => a * b, 1));
+  const depth = zAxis >= 0 ? shape[zAxis] : 1;
+  const zStride = zAxis >= 0 ? strides[zAxis] : 0;
+  const out = allocateVoxels(source.dataset.dtype!, data.length);
+  let i = 0;
+  for (let z = 0; z < depth; z++) {
+    for (let y = 0; y < shape[yAxis]; y++) {
+      for (let x = 0; x < shape[xAxis]; x++) {
+        out[i++] = data[z * zStride + y * strides[yAxis] + x * strides[xAxis]];
+      }
+    }
+  }
+  return out;
+};
+
+const readStack = async (file: Hdf5File, source: StackSource): Promise<ImageStack> => {
+  const { dataset, axes } = source;
+  const width = dataset.shape[axes[2]];
+  const height = dataset.shape[axes[1]];
+  const depth = axes[0] >= 0 ? dataset.shape[axes[0]] : 1;
+  let data = toStackOrder(await readHdf5Dataset(file, dataset), source);
+  let tiltAngles = source.tiltAngles?.length === depth ? source.tiltAngles : undefined;
+  let frameCount = depth;
+
+  if (source.frames && source.frames.length > 0 && source.frames.length < depth) {
+    const size = width * height;
+    const kept = allocateVoxels(dataset.dtype!, size * source.frames.length);
+    source.frames.forEach((frame, i) => kept.set(data.subarray(frame * size, (frame + 1) * size), i * size));
+    data = kept;
+    tiltAngles = tiltAngles && source.frames.map(frame => tiltAngles![frame]);
+    frameCount = source.frames.length;
+  }
+
+  return {
+    width,
+    height,
+    depth: frameCount,
+    dtype: dataset.dtype!,
+    data,
+    pixelSpacing: { x: source.pixelSpacing?.x ?? 0, y: source.pixelSpacing?.y ?? 0, z: 0 },
+    tiltAngles
+  };
+};
+
+/**
+ * Imports a tilt series from an HDF5 container: Velox .emd, Berkeley EMD,
+ * NeXus/NXtomo, or failing those the largest image-shaped dataset.
+ */
+export async function parseEmd(buffer: ArrayBuffer): Promise<EmdFile> {
+  const hdf5 = parseHdf5(buffer);
+  const source = await findVelox(hdf5) ?? await findEmd(hdf5) ?? await findNexus(hdf5) ?? await findLargest(hdf5);
+  if (!source) {
+    throw new Error("No 2D or 3D numeric dataset found in HDF5 file");
+  }
+
+  return {
+    flavor: source.flavor,
+    datasetPath: source.dataset.path,
+    hdf5,
+    stack: await readStack(hdf5, source)
+  };
+}
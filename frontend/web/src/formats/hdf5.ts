@@ -0,0 +1,1083 @@
+// formats/hdf5.ts
+import { inflate } from "./compression";
+import { allocateVoxels, halfToFloat32, readVoxels, VoxelArray, VoxelDtype } from "./stack";
+
+const SIGNATURE = [0x89, 0x48, 0x44, 0x46, 0x0d, 0x0a, 0x1a, 0x0a];
+const UNDEFINED_ADDRESS = -1;
+
+const MSG_DATASPACE = 0x01;
+const MSG_LINK_INFO = 0x02;
+const MSG_DATATYPE = 0x03;
+const MSG_LINK = 0x06;
+const MSG_LAYOUT = 0x08;
+const MSG_FILTER_PIPELINE = 0x0b;
+const MSG_ATTRIBUTE = 0x0c;
+const MSG_CONTINUATION = 0x10;
+const MSG_SYMBOL_TABLE = 0x11;
+const MSG_ATTRIBUTE_INFO = 0x15;
+
+const MSG_FLAG_SHARED = 0x02;
+
+const CLASS_FIXED_POINT = 0;
+const CLASS_FLOATING_POINT = 1;
+const CLASS_STRING = 3;
+const CLASS_ENUM = 8;
+const CLASS_VARIABLE_LENGTH = 9;
+
+const LAYOUT_COMPACT = 0;
+const LAYOUT_CONTIGUOUS = 1;
+const LAYOUT_CHUNKED = 2;
+
+const CHUNK_INDEX_SINGLE = 1;
+const CHUNK_INDEX_IMPLICIT = 2;
+const CHUNK_INDEX_FIXED_ARRAY = 3;
+
+const FILTER_DEFLATE = 1;
+const FILTER_SHUFFLE = 2;
+const FILTER_FLETCHER32 = 3;
+
+const FILTER_NAMES: Record<number, string> = {
+  1: "deflate",
+  2: "shuffle",
+  3: "fletcher32",
+  4: "szip",
+  5: "nbit",
+  6: "scaleoffset",
+  307: "bzip2",
+  32000: "lzf",
+  32001: "blosc",
+  32004: "lz4",
+  32008: "bitshuffle",
+  32015: "zstd"
+};
+
+const HEAP_ID_MANAGED = 0;
+const HEAP_ID_TINY = 2;
+
+export type Hdf5AttributeValue = number | number[] | string | string[];
+
+export interface Hdf5Datatype {
+  typeClass: number;
+  size: number;
+  littleEndian: boolean;
+  signed: boolean;
+  /** Element type of variable-length sequences and the integer type of enums. */
+  base?: Hdf5Datatype;
+  /** Variable-length type holding strings rather than sequences. */
+  isString?: boolean;
+}
+
+interface Hdf5Filter {
+  id: number;
+  name: string;
+  clientData: number[];
+}
+
+interface Hdf5Layout {
+  layoutClass: number;
+  address: number;
+  size: number;
+  /** Bytes of a compact dataset. */
+  compactOffset: number;
+  /** Chunk shape in elements, without the trailing element-size dimension. */
+  chunkShape: number[];
+  chunkIndex: number;
+  /** Extra fields of layout v4 chunk indexes. */
+  filteredChunkSize: number;
+  filterMask: number;
+  pageBits: number;
+}
+
+export interface Hdf5Object {
+  path: string;
+  kind: "group" | "dataset";
+  attributes: Record<string, Hdf5AttributeValue>;
+}
+
+export interface Hdf5Dataset extends Hdf5Object {
+  kind: "dataset";
+  shape: number[];
+  datatype: Hdf5Datatype;
+  /** Voxel type the values load as, or null when they are not numeric. */
+  dtype: VoxelDtype | null;
+  layout: Hdf5Layout;
+  filters: Hdf5Filter[];
+}
+
+export interface Hdf5Group extends Hdf5Object {
+  kind: "group";
+  children: string[];
+}
+
+export interface Hdf5File {
+  superblockVersion: number;
+  /** Every group and dataset reachable from the root, keyed by absolute path. */
+  objects: Map<string, Hdf5Group | Hdf5Dataset>;
+  datasets: Hdf5Dataset[];
+}
+
+interface Message {
+  type: number;
+  flags: number;
+  at: number;
+  size: number;
+}
+
+interface Link {
+  name: string;
+  address: number;
+}
+
+interface ChunkRef {
+  /** Element offset of the chunk in each dimension. */
+  offset: number[];
+  address: number;
+  size: number;
+  filterMask: number;
+}
+
+class Cursor {
+  constructor(private ctx: Context, public at: number) {}
+
+  get view() { return this.ctx.view; }
+
+  uint8() { return this.view.getUint8(this.at++); }
+  uint16() { const v = this.view.getUint16(this.at, true); this.at += 2; return v; }
+  uint32() { const v = this.view.getUint32(this.at, true); this.at += 4; return v; }
+  skip(bytes: number) { this.at += bytes; return this; }
+
+  /** Little-endian unsigned integer of 1-8 bytes. */
+  uint(bytes: number) {
+    let value = 0;
+    for (let i = bytes - 1; i >= 0; i--) value = value * 256 + this.view.getUint8(this.at + i);
+    this.at += bytes;
+    return value;
+  }
+
+  offset() {
+    let undefinedAddress = true;
+    for (let i = 0; i < this.ctx.offsetSize; i++) {
+      if (this.view.getUint8(this.at + i) !== 0xff) undefinedAddress = false;
+    }
+    const value = this.uint(this.ctx.offsetSize);
+    return undefinedAddress ? UNDEFINED_ADDRESS : this.ctx.baseAddress + value;
+  }
+
+  length() { return this.uint(this.ctx.lengthSize); }
+
+  signature(expected: string) {
+    const text = this.string(4);
+    if (text !== expected) {
+      throw new Error(`Corrupt HDF5 file: expected ${expected} at ${this.at - 4}, found ${JSON.stringify(text)}`);
+    }
+  }
+
+  string(length: number) {
+    let text = "";
+    for (let i = 0; i < length; i++) text += String.fromCharCode(this.view.getUint8(this.at + i));
+    this.at += length;
+    return text;
+  }
+
+  cString(maxLength = Infinity) {
+    const bytes: number[] = [];
+    for (let i = 0; i < maxLength && this.at + i < this.view.byteLength; i++) {
+      const byte = this.view.getUint8(this.at + i);
+      if (byte === 0) break;
+      bytes.push(byte);
+    }
+    return new TextDecoder().decode(new Uint8Array(bytes));
+  }
+}
+
+interface Context {
+  buffer: ArrayBuffer;
+  view: DataView;
+  offsetSize: number;
+  lengthSize: number;
+  baseAddress: number;
+}
+
+const bytesToEncode = (max: number) => Math.floor(Math.log2(Math.max(max, 1)) / 8) + 1;
+const product = (values: number[]) => values.reduce((a, b) => a * b, 1);
+const align8 = (n: number) => Math.ceil(n / 8) * 8;
+
+const findSuperblock = (view: DataView): number => {
+  for (let at = 0; at + SIGNATURE.length <= view.byteLength; at = at === 0 ? 512 : at * 2) {
+    if (SIGNATURE.every((byte, i) => view.getUint8(at + i) === byte)) return at;
+  }
+  throw new Error("Not an HDF5 file: signature not found");
+};
+
+const readMessages = (ctx: Context, address: number): Message[] => {
+  const messages: Message[] = [];
+  const blocks: { at: number; end: number }[] = [];
+  const c = new Cursor(ctx, address);
+  let v2 = false;
+  let trackCreationOrder = false;
+
+  if (c.string(4) === "OHDR") {
+    v2 = true;
+    c.uint8();
+    const flags = c.uint8();
+    if (flags & 0x20) c.skip(16);
+    if (flags & 0x10) c.skip(4);
+    trackCreationOrder = (flags & 0x04) !== 0;
+    const chunkSize = c.uint(1 << (flags & 0x03));
+    blocks.push({ at: c.at, end: c.at + chunkSize });
+  } else {
+    c.at = address;
+    if (c.uint8() !== 1) {
+      throw new Error(`Unsupported HDF5 object header at ${address}`);
+    }
+    c.skip(1 + 2 + 4);
+    const chunkSize = c.uint32();
+    // The v1 prefix is padded to 16 bytes.
+    blocks.push({ at: address + 16, end: address + 16 + chunkSize });
+  }
+
+  for (let b = 0; b < blocks.length; b++) {
+    const block = blocks[b];
+    const m = new Cursor(ctx, block.at);
+    const prefixBytes = v2 ? 4 + (trackCreationOrder ? 2 : 0) : 8;
+    while (m.at + prefixBytes <= block.end) {
+      let type: number;
+      let size: number;
+      let flags: number;
+      if (v2) {
+        type = m.uint8();
+        size = m.uint16();
+        flags = m.uint8();
+        if (trackCreationOrder) m.skip(2);
+      } else {
+        type = m.uint16();
+        size = m.uint16();
+        flags = m.uint8();
+        m.skip(3);
+      }
+      const at = m.at;
+      m.at += size;
+      if (type === MSG_CONTINUATION) {
+        const cont = new Cursor(ctx, at);
+        const blockAt = cont.offset();
+        const blockLength = cont.length();
+        // v2 continuation blocks are framed by an OCHK signature and a checksum.
+        blocks.push(v2 ? { at: blockAt + 4, end: blockAt + blockLength - 4 } : { at: blockAt, end: blockAt + blockLength });
+      } else if (type !== 0) {
+        messages.push({ type, flags, at, size });
+      }
+    }
+  }
+  return messages;
+};
+
+/** Resolves a shared message to the same message in the object header it points at. */
+const resolveShared = (ctx: Context, message: Message): Message => {
+  if (!(message.flags & MSG_FLAG_SHARED)) return message;
+  const c = new Cursor(ctx, message.at);
+  const version = c.uint8();
+  const type = c.uint8();
+  if (version === 1) c.skip(6);
+  if (version === 3 && type !== 2) {
+    throw new Error("HDF5 shared message heaps are not supported");
+  }
+  const target = readMessages(ctx, c.offset()).find(m => m.type === message.type);
+  if (!target) {
+    throw new Error(`Shared HDF5 message of type ${message.type} not found`);
+  }
+  return resolveShared(ctx, target);
+};
+
+const parseDatatype = (ctx: Context, at: number): Hdf5Datatype => {
+  const c = new Cursor(ctx, at);
+  const classAndVersion = c.uint8();
+  const typeClass = classAndVersion & 0x0f;
+  const bits = c.uint8() | (c.uint8() << 8) | (c.uint8() << 16);
+  const size = c.uint32();
+  const datatype: Hdf5Datatype = {
+    typeClass,
+    size,
+    littleEndian: (bits & 0x01) === 0,
+    signed: typeClass === CLASS_FIXED_POINT ? (bits & 0x08) !== 0 : true
+  };
+
+  if (typeClass === CLASS_ENUM) {
+    datatype.base = parseDatatype(ctx, c.at);
+  } else if (typeClass === CLASS_VARIABLE_LENGTH) {
+    datatype.isString = (bits & 0x0f) === 1;
+    datatype.base = parseDatatype(ctx, c.at);
+  }
+  return datatype;
+};
+
+/** Current dimensions of a dataspace; empty for scalars, null for the null dataspace. */
+const parseDataspace = (ctx: Context, at: number): number[] | null => {
+  const c = new Cursor(ctx, at);
+  const version = c.uint8();
+  const rank = c.uint8();
+  c.uint8();
+  if (version === 1) {
+    c.skip(5);
+  } else if (c.uint8() === 2) {
+    return null;
+  }
+  return Array.from({ length: rank }, () => c.length());
+};
+
+const numericDtype = (datatype: Hdf5Datatype): VoxelDtype | null => {
+  if (datatype.typeClass === CLASS_ENUM && datatype.base) return numericDtype(datatype.base);
+  if (datatype.typeClass === CLASS_FLOATING_POINT) {
+    if (datatype.size === 2 || datatype.size === 4) return "float32";
+    if (datatype.size === 8) return "float64";
+  } else if (datatype.typeClass === CLASS_FIXED_POINT) {
+    switch (datatype.size) {
+      case 1: return datatype.signed ? "int8" : "uint8";
+      case 2: return datatype.signed ? "int16" : "uint16";
+      case 4: return datatype.signed ? "int32" : "uint32";
+      case 8: return "float64";
+    }
+  }
+  return null;
+};
+
+/** Decodes `count` packed elements of a numeric datatype. */
+const decodeElements = (bytes: Uint8Array, datatype: Hdf5Datatype, count: number): VoxelArray => {
+  const type = datatype.typeClass === CLASS_ENUM && datatype.base ? datatype.base : datatype;
+  const dtype = numericDtype(type);
+  if (!dtype) {
+    throw new Error(`HDF5 datatype class ${type.typeClass} of ${type.size} bytes is not numeric`);
+  }
+  const buffer = bytes.buffer as ArrayBuffer;
+
+  if (type.typeClass === CLASS_FLOATING_POINT && type.size === 2) {
+    return halfToFloat32(readVoxels(buffer, bytes.byteOffset, "uint16", count, type.littleEndian) as Uint16Array);
+  }
+  if (type.typeClass === CLASS_FIXED_POINT && type.size === 8) {
+    // 64-bit integers load as float64; counts and labels stay exact below 2^53.
+    const view = new DataView(buffer, bytes.byteOffset, count * 8);
+    const out = new Float64Array(count);
+    for (let i = 0; i < count; i++) {
+      out[i] = Number(type.signed ? view.getBigInt64(i * 8, type.littleEndian) : view.getBigUint64(i * 8, type.littleEndian));
+    }
+    return out;
+  }
+  return readVoxels(buffer, bytes.byteOffset, dtype, count, type.littleEndian);
+};
+
+const readGlobalHeapObject = (ctx: Context, collection: number, index: number): Uint8Array => {
+  const c = new Cursor(ctx, collection);
+  c.signature("GCOL");
+  c.skip(4);
+  const end = collection + c.length();
+  while (c.at + 8 + ctx.lengthSize <= end) {
+    const objectIndex = c.uint16();
+    c.skip(6);
+    const size = c.length();
+    if (objectIndex === index) return new Uint8Array(ctx.buffer, c.at, size);
+    if (objectIndex === 0) break;
+    c.at += align8(size);
+  }
+  throw new Error(`HDF5 global heap object ${index} not found in collection at ${collection}`);
+};
+
+const decodeAttribute = (ctx: Context, datatype: Hdf5Datatype, shape: number[], at: number): Hdf5AttributeValue | undefined => {
+  const count = product(shape);
+  const scalar = shape.length === 0;
+
+  if (datatype.typeClass === CLASS_STRING) {
+    const strings = Array.from({ length: count }, (_, i) =>
+      new Cursor(ctx, at + i * datatype.size).cString(datatype.size).trimEnd());
+    return scalar ? strings[0] : strings;
+  }
+
+  if (datatype.typeClass === CLASS_VARIABLE_LENGTH && datatype.isString) {
+    const c = new Cursor(ctx, at);
+    const strings: string[] = [];
+    for (let i = 0; i < count; i++) {
+      const length = c.uint32();
+      const collection = c.offset();
+      const index = c.uint32();
+      strings.push(length === 0 || collection === UNDEFINED_ADDRESS
+        ? ""
+        : new TextDecoder().decode(readGlobalHeapObject(ctx, collection, index).subarray(0, length)));
+    }
+    return scalar ? strings[0] : strings;
+  }
+
+  if (!numericDtype(datatype)) return undefined;
+  const values = Array.from(decodeElements(new Uint8Array(ctx.buffer, at, count * datatype.size), datatype, count));
+  return scalar ? values[0] : values;
+};
+
+const parseAttribute = (ctx: Context, at: number): [string, Hdf5AttributeValue | undefined] => {
+  const c = new Cursor(ctx, at);
+  const version = c.uint8();
+  const flags = c.uint8();
+  const nameSize = c.uint16();
+  const datatypeSize = c.uint16();
+  const dataspaceSize = c.uint16();
+  if (version >= 3) c.skip(1);
+  const pad = version === 1 ? align8 : (n: number) => n;
+
+  const name = new Cursor(ctx, c.at).cString(nameSize);
+  c.at += pad(nameSize);
+  // Shared datatypes or dataspaces in attributes are rare enough to skip.
+  if (flags & 0x03) return [name, undefined];
+  const datatype = parseDatatype(ctx, c.at);
+  c.at += pad(datatypeSize);
+  const shape = parseDataspace(ctx, c.at);
+  c.at += pad(dataspaceSize);
+
+  return [name, shape ? decodeAttribute(ctx, datatype, shape, c.at) : undefined];
+};
+
+interface FractalHeap {
+  address: number;
+  heapOffsetSize: number;
+  heapLengthSize: number;
+  tableWidth: number;
+  startingBlockSize: number;
+  maxDirectBlockSize: number;
+  rootBlock: number;
+  rootRows: number;
+  filtered: boolean;
+}
+
+const readFractalHeap = (ctx: Context, address: number): FractalHeap => {
+  const c = new Cursor(ctx, address);
+  c.signature("FRHP");
+  c.uint8();
+  c.uint16();
+  const filterInfoLength = c.uint16();
+  c.uint8();
+  const maxManagedSize = c.uint32();
+  c.length();
+  c.offset();
+  c.length();
+  c.offset();
+  c.skip(ctx.lengthSize * 8);
+  const tableWidth = c.uint16();
+  const startingBlockSize = c.length();
+  const maxDirectBlockSize = c.length();
+  const maxHeapBits = c.uint16();
+  c.uint16();
+  const rootBlock = c.offset();
+  const rootRows = c.uint16();
+
+  return {
+    address,
+    heapOffsetSize: Math.ceil(maxHeapBits / 8),
+    heapLengthSize: Math.min(Math.ceil(Math.log2(maxDirectBlockSize) / 8), bytesToEncode(maxManagedSize)),
+    tableWidth,
+    startingBlockSize,
+    maxDirectBlockSize,
+    rootBlock,
+    rootRows,
+    filtered: filterInfoLength > 0
+  };
+};
+
+const blockSizeOfRow = (heap: FractalHeap, row: number) =>
+  row < 2 ? heap.startingBlockSize : heap.startingBlockSize * 2 ** (row - 1);
+
+/** File address of the managed object at `heapOffset`. */
+const locateManagedObject = (ctx: Context, heap: FractalHeap, heapOffset: number): number => {
+  if (heap.filtered) {
+    throw new Error("Filtered HDF5 fractal heaps are not supported");
+  }
+  if (heap.rootRows === 0) return heap.rootBlock + heapOffset;
+
+  const maxDirectRows = Math.log2(heap.maxDirectBlockSize) - Math.log2(heap.startingBlockSize) + 2;
+  let block = heap.rootBlock;
+  let rows = heap.rootRows;
+  let blockOffset = 0;
+
+  for (;;) {
+    const c = new Cursor(ctx, block);
+    c.signature("FHIB");
+    c.skip(1 + ctx.offsetSize + heap.heapOffsetSize);
+    let childOffset = blockOffset;
+    let found = false;
+    for (let row = 0; row < rows && !found; row++) {
+      const size = blockSizeOfRow(heap, row);
+      for (let col = 0; col < heap.tableWidth; col++) {
+        const child = c.offset();
+        if (heapOffset < childOffset + size) {
+          if (row < maxDirectRows) return child + (heapOffset - childOffset);
+          block = child;
+          rows = Math.log2(size) - Math.log2(heap.startingBlockSize * heap.tableWidth) + 1;
+          blockOffset = childOffset;
+          found = true;
+          break;
+        }
+        childOffset += size;
+      }
+    }
+    if (!found) {
+      throw new Error(`HDF5 fractal heap offset ${heapOffset} is out of range`);
+    }
+  }
+};
+
+/** Address and length of the object a fractal heap ID refers to. */
+const resolveHeapId = (ctx: Context, heap: FractalHeap, id: Uint8Array): { at: number; size: number } => {
+  const type = (id[0] >> 4) & 0x03;
+  if (type === HEAP_ID_TINY) {
+    return { at: id.byteOffset + 1, size: (id[0] & 0x0f) + 1 };
+  }
+  if (type !== HEAP_ID_MANAGED) {
+    throw new Error("Huge HDF5 fractal heap objects are not supported");
+  }
+  const c = new Cursor(ctx, id.byteOffset + 1);
+  const heapOffset = c.uint(heap.heapOffsetSize);
+  const size = c.uint(heap.heapLengthSize);
+  return { at: locateManagedObject(ctx, heap, heapOffset), size };
+};
+
+/** Records of a v2 B-tree, in no particular order. */
+const readBtreeV2Records = (ctx: Context, address: number): number[] => {
+  const c = new Cursor(ctx, address);
+  c.signature("BTHD");
+  c.skip(2);
+  const nodeSize = c.uint32();
+  const recordSize = c.uint16();
+  const depth = c.uint16();
+  c.skip(2);
+  const root = c.offset();
+  const rootRecords = c.uint16();
+
+  const maxLeafRecords = Math.floor((nodeSize - 10) / recordSize);
+  const records: number[] = [];
+  const visit = (node: number, count: number, level: number) => {
+    const n = new Cursor(ctx, node);
+    n.signature(level === 0 ? "BTLF" : "BTIN");
+    n.skip(2);
+    for (let i = 0; i < count; i++) records.push(n.at + i * recordSize);
+    if (level === 0) return;
+    if (level > 1) {
+      throw new Error("HDF5 v2 B-trees deeper than two levels are not supported");
+    }
+    n.at += count * recordSize;
+    for (let i = 0; i <= count; i++) {
+      const child = n.offset();
+      visit(child, n.uint(bytesToEncode(maxLeafRecords)), level - 1);
+    }
+  };
+  if (root !== UNDEFINED_ADDRESS) visit(root, rootRecords, depth);
+  return records;
+};
+
+/** Messages kept in a fractal heap and indexed by name in a v2 B-tree. */
+const readDenseMessages = (ctx: Context, heapAddress: number, nameIndex: number, heapIdOffset: number, heapIdSize: number) => {
+  const heap = readFractalHeap(ctx, heapAddress);
+  return readBtreeV2Records(ctx, nameIndex).map(record =>
+    resolveHeapId(ctx, heap, new Uint8Array(ctx.buffer, record + heapIdOffset, heapIdSize)).at);
+};
+
+const parseLink = (ctx: Context, at: number): Link | null => {
+  const c = new Cursor(ctx, at);
+  c.uint8();
+  const flags = c.uint8();
+  const linkType = flags & 0x08 ? c.uint8() : 0;
+  if (flags & 0x04) c.skip(8);
+  if (flags & 0x10) c.skip(1);
+  const nameLength = c.uint(1 << (flags & 0x03));
+  const name = new TextDecoder().decode(new Uint8Array(ctx.buffer, c.at, nameLength));
+  c.at += nameLength;
+  // Soft and external links have no object of their own to walk.
+  return linkType === 0 ? { name, address: c.offset() } : null;
+};
+
+const readSymbolTableLinks = (ctx: Context, btree: number, localHeap: number): Link[] => {
+  const heap = new Cursor(ctx, localHeap);
+  heap.signature("HEAP");
+  heap.skip(4);
+  heap.length();
+  heap.length();
+  const names = heap.offset();
+
+  const links: Link[] = [];
+  const visit = (node: number) => {
+    const c = new Cursor(ctx, node);
+    c.signature("TREE");
+    c.uint8();
+    const level = c.uint8();
+    const entries = c.uint16();
+    c.skip(2 * ctx.offsetSize);
+    for (let i = 0; i < entries; i++) {
+      c.length();
+      const child = c.offset();
+      if (level > 0) {
+        visit(child);
+        continue;
+      }
+      const snod = new Cursor(ctx, child);
+      snod.signature("SNOD");
+      snod.skip(2);
+      const symbols = snod.uint16();
+      for (let s = 0; s < symbols; s++) {
+        const nameOffset = snod.uint(ctx.offsetSize);
+        const address = snod.offset();
+        snod.skip(24);
+        links.push({ name: new Cursor(ctx, names + nameOffset).cString(), address });
+      }
+    }
+  };
+  visit(btree);
+  return links;
+};
+
+const readGroupLinks = (ctx: Context, messages: Message[]): Link[] => {
+  const links: Link[] = [];
+  for (const message of messages) {
+    if (message.type === MSG_SYMBOL_TABLE) {
+      const c = new Cursor(ctx, message.at);
+      links.push(...readSymbolTableLinks(ctx, c.offset(), c.offset()));
+    } else if (message.type === MSG_LINK) {
+      const link = parseLink(ctx, message.at);
+      if (link) links.push(link);
+    } else if (message.type === MSG_LINK_INFO) {
+      const c = new Cursor(ctx, message.at);
+      c.uint8();
+      if (c.uint8() & 0x01) c.skip(8);
+      const heap = c.offset();
+      const nameIndex = c.offset();
+      if (heap !== UNDEFINED_ADDRESS) {
+        // Link name index records are a 4-byte hash followed by a 7-byte heap ID.
+        for (const at of readDenseMessages(ctx, heap, nameIndex, 4, 7)) {
+          const link = parseLink(ctx, at);
+          if (link) links.push(link);
+        }
+      }
+    }
+  }
+  return links;
+};
+
+const readAttributes = (ctx: Context, messages: Message[]): Record<string, Hdf5AttributeValue> => {
+  const attributes: Record<string, Hdf5AttributeValue> = {};
+  const add = ([name, value]: [string, Hdf5AttributeValue | undefined]) => {
+    if (value !== undefined) attributes[name] = value;
+  };
+
+  for (const message of messages) {
+    if (message.type === MSG_ATTRIBUTE) {
+      add(parseAttribute(ctx, message.at));
+    } else if (message.type === MSG_ATTRIBUTE_INFO) {
+      const c = new Cursor(ctx, message.at);
+      c.uint8();
+      if (c.uint8() & 0x01) c.skip(2);
+      const heap = c.offset();
+      const nameIndex = c.offset();
+      if (heap !== UNDEFINED_ADDRESS) {
+        // Attribute name index records start with an 8-byte heap ID.
+        for (const at of readDenseMessages(ctx, heap, nameIndex, 0, 8)) add(parseAttribute(ctx, at));
+      }
+    }
+  }
+  return attributes;
+};
+
+const parseLayout = (ctx: Context, at: number, rank: number): Hdf5Layout => {
+  const c = new Cursor(ctx, at);
+  const version = c.uint8();
+  const layout: Hdf5Layout = {
+    layoutClass: LAYOUT_CONTIGUOUS,
+    address: UNDEFINED_ADDRESS,
+    size: 0,
+    compactOffset: 0,
+    chunkShape: [],
+    chunkIndex: 0,
+    filteredChunkSize: 0,
+    filterMask: 0,
+    pageBits: 0
+  };
+
+  if (version < 3) {
+    const dimensionality = c.uint8();
+    layout.layoutClass = c.uint8();
+    c.skip(5);
+    if (layout.layoutClass !== LAYOUT_COMPACT) layout.address = c.offset();
+    const dims = Array.from({ length: dimensionality }, () => c.uint32());
+    if (layout.layoutClass === LAYOUT_CHUNKED) layout.chunkShape = dims.slice(0, rank);
+    if (layout.layoutClass === LAYOUT_COMPACT) {
+      layout.size = c.uint32();
+      layout.compactOffset = c.at;
+    }
+    return layout;
+  }
+
+  layout.layoutClass = c.uint8();
+  switch (layout.layoutClass) {
+    case LAYOUT_COMPACT:
+      layout.size = c.uint16();
+      layout.compactOffset = c.at;
+      break;
+    case LAYOUT_CONTIGUOUS:
+      layout.address = c.offset();
+      layout.size = c.length();
+      break;
+    case LAYOUT_CHUNKED:
+      if (version === 3) {
+        const dimensionality = c.uint8();
+        layout.address = c.offset();
+        layout.chunkShape = Array.from({ length: dimensionality }, () => c.uint32()).slice(0, rank);
+      } else {
+        const flags = c.uint8();
+        const dimensionality = c.uint8();
+        const encodedLength = c.uint8();
+        layout.chunkShape = Array.from({ length: dimensionality }, () => c.uint(encodedLength)).slice(0, rank);
+        layout.chunkIndex = c.uint8();
+        if (layout.chunkIndex === CHUNK_INDEX_SINGLE && flags & 0x02) {
+          layout.filteredChunkSize = c.length();
+          layout.filterMask = c.uint32();
+        } else if (layout.chunkIndex === CHUNK_INDEX_FIXED_ARRAY) {
+          layout.pageBits = c.uint8();
+        } else if (layout.chunkIndex === 4) {
+          c.skip(5);
+        } else if (layout.chunkIndex === 5) {
+          c.skip(6);
+        }
+        layout.address = c.offset();
+      }
+      break;
+    default:
+      throw new Error(`Unsupported HDF5 layout class ${layout.layoutClass}`);
+  }
+  return layout;
+};
+
+const parseFilters = (ctx: Context, at: number): Hdf5Filter[] => {
+  const c = new Cursor(ctx, at);
+  const version = c.uint8();
+  const count = c.uint8();
+  if (version === 1) c.skip(6);
+
+  const filters: Hdf5Filter[] = [];
+  for (let i = 0; i < count; i++) {
+    const id = c.uint16();
+    const nameLength = version === 1 || id >= 256 ? c.uint16() : 0;
+    c.uint16();
+    const valueCount = c.uint16();
+    const name = nameLength ? new Cursor(ctx, c.at).cString(nameLength) : "";
+    c.at += version === 1 ? align8(nameLength) : nameLength;
+    const clientData = Array.from({ length: valueCount }, () => c.uint32());
+    if (version === 1 && valueCount % 2 === 1) c.skip(4);
+    filters.push({ id, name: name || FILTER_NAMES[id] || `filter ${id}`, clientData });
+  }
+  return filters;
+};
+
+const chunkGrid = (shape: number[], chunkShape: number[]) =>
+  shape.map((n, i) => Math.ceil(n / chunkShape[i]));
+
+/** Element offset of the chunk at linear index `index` of the chunk grid. */
+const chunkOffset = (index: number, grid: number[], chunkShape: number[]): number[] => {
+  const offset = new Array<number>(grid.length);
+  for (let d = grid.length - 1; d >= 0; d--) {
+    offset[d] = (index % grid[d]) * chunkShape[d];
+    index = Math.floor(index / grid[d]);
+  }
+  return offset;
+};
+
+const btreeV1Chunks = (ctx: Context, address: number, rank: number): ChunkRef[] => {
+  const chunks: ChunkRef[] = [];
+  const visit = (node: number) => {
+    const c = new Cursor(ctx, node);
+    c.signature("TREE");
+    c.uint8();
+    const level = c.uint8();
+    const entries = c.uint16();
+    c.skip(2 * ctx.offsetSize);
+    for (let i = 0; i < entries; i++) {
+      const size = c.uint32();
+      const filterMask = c.uint32();
+      const offset = Array.from({ length: rank + 1 }, () => c.uint(8)).slice(0, rank);
+      const child = c.offset();
+      if (level > 0) visit(child);
+      else chunks.push({ offset, address: child, size, filterMask });
+    }
+  };
+  visit(address);
+  return chunks;
+};
+
+const fixedArrayChunks = (ctx: Context, dataset: Hdf5Dataset, grid: number[]): ChunkRef[] => {
+  const header = new Cursor(ctx, dataset.layout.address);
+  header.signature("FAHD");
+  header.uint8();
+  const clientId = header.uint8();
+  const entrySize = header.uint8();
+  const pageBits = header.uint8();
+  const maxEntries = header.length();
+  const dataBlock = header.offset();
+
+  const c = new Cursor(ctx, dataBlock);
+  c.signature("FADB");
+  c.skip(2 + ctx.offsetSize);
+
+  // Large arrays are split into pages of 2^pageBits entries, each followed by a checksum.
+  const pageSize = 2 ** pageBits;
+  const paged = maxEntries > pageSize;
+  const pageCount = Math.ceil(maxEntries / pageSize);
+  let pageBitmap: Uint8Array | null = null;
+  if (paged) {
+    pageBitmap = new Uint8Array(ctx.buffer, c.at, Math.ceil(pageCount / 8));
+    c.at += pageBitmap.length + 4;
+  }
+  const entriesStart = c.at;
+  const pageBytes = pageSize * entrySize + 4;
+
+  const chunks: ChunkRef[] = [];
+  const unfilteredSize = product(dataset.layout.chunkShape) * dataset.datatype.size;
+  for (let i = 0; i < maxEntries; i++) {
+    const page = Math.floor(i / pageSize);
+    if (pageBitmap && !(pageBitmap[page >> 3] & (0x80 >> (page & 7)))) continue;
+    c.at = paged ? entriesStart + page * pageBytes + (i % pageSize) * entrySize : entriesStart + i * entrySize;
+    const address = c.offset();
+    let size = unfilteredSize;
+    let filterMask = 0;
+    if (clientId === 1) {
+      size = c.uint(entrySize - ctx.offsetSize - 4);
+      filterMask = c.uint32();
+    }
+    if (address !== UNDEFINED_ADDRESS) {
+      chunks.push({ offset: chunkOffset(i, grid, dataset.layout.chunkShape), address, size, filterMask });
+    }
+  }
+  return chunks;
+};
+
+const listChunks = (ctx: Context, dataset: Hdf5Dataset): ChunkRef[] => {
+  const { layout, shape } = dataset;
+  if (layout.address === UNDEFINED_ADDRESS) return [];
+  const grid = chunkGrid(shape, layout.chunkShape);
+  const chunkBytes = product(layout.chunkShape) * dataset.datatype.size;
+
+  switch (layout.chunkIndex) {
+    case 0:
+      return btreeV1Chunks(ctx, layout.address, shape.length);
+    case CHUNK_INDEX_SINGLE:
+      return [{
+        offset: shape.map(() => 0),
+        address: layout.address,
+        size: layout.filteredChunkSize || chunkBytes,
+        filterMask: layout.filterMask
+      }];
+    case CHUNK_INDEX_IMPLICIT:
+      return Array.from({ length: product(grid) }, (_, i) => ({
+        offset: chunkOffset(i, grid, layout.chunkShape),
+        address: layout.address + i * chunkBytes,
+        size: chunkBytes,
+        filterMask: 0
+      }));
+    case CHUNK_INDEX_FIXED_ARRAY:
+      return fixedArrayChunks(ctx, dataset, grid);
+    default:
+      throw new Error(`${dataset.path} uses an extensible chunk index, which is not supported; re-save it with fixed dimensions`);
+  }
+};
+
+const unshuffle = (data: Uint8Array, elementSize: number): Uint8Array => {
+  const count = Math.floor(data.length / elementSize);
+  const out = new Uint8Array(data.length);
+  for (let b = 0; b < elementSize; b++) {
+    for (let i = 0; i < count; i++) out[i * elementSize + b] = data[b * count + i];
+  }
+  out.set(data.subarray(count * elementSize), count * elementSize);
+  return out;
+};
+
+const decodeChunk = async (ctx: Context, dataset: Hdf5Dataset, chunk: ChunkRef): Promise<Uint8Array> => {
+  let data: Uint8Array = new Uint8Array(ctx.buffer, chunk.address, chunk.size);
+  // Filters apply in pipeline order on write, so undo them in reverse.
+  for (let i = dataset.filters.length - 1; i >= 0; i--) {
+    if (chunk.filterMask & (1 << i)) continue;
+    const filter = dataset.filters[i];
+    switch (filter.id) {
+      case FILTER_DEFLATE:
+        data = await inflate(data);
+        break;
+      case FILTER_SHUFFLE:
+        data = unshuffle(data, filter.clientData[0] ?? dataset.datatype.size);
+        break;
+      case FILTER_FLETCHER32:
+        data = data.subarray(0, data.length - 4);
+        break;
+      default:
+        throw new Error(`HDF5 filter ${filter.name} is not supported`);
+    }
+  }
+  return data;
+};
+
+/** Copies a decoded chunk into the C-ordered dataset, clipping at the far edges. */
+const placeChunk = (out: VoxelArray, shape: number[], chunk: VoxelArray, chunkShape: number[], offset: number[]) => {
+  const rank = shape.length;
+  const last = rank - 1;
+  const rowLength = Math.min(chunkShape[last], shape[last] - offset[last]);
+  if (rowLength <= 0) return;
+
+  const strides = new Array<number>(rank);
+  const chunkStrides = new Array<number>(rank);
+  strides[last] = 1;
+  chunkStrides[last] = 1;
+  for (let d = last - 1; d >= 0; d--) {
+    strides[d] = strides[d + 1] * shape[d + 1];
+    chunkStrides[d] = chunkStrides[d + 1] * chunkShape[d + 1];
+  }
+
+  const extent = chunkShape.map((n, d) => Math.min(n, shape[d] - offset[d]));
+  if (extent.some(n => n <= 0)) return;
+  const index = new Array<number>(rank).fill(0);
+  for (;;) {
+    let src = 0;
+    let dst = 0;
+    for (let d = 0; d < rank; d++) {
+      src += index[d] * chunkStrides[d];
+      dst += (offset[d] + index[d]) * strides[d];
+    }
+    out.set(chunk.subarray(src, src + rowLength), dst);
+
+    let d = last - 1;
+    while (d >= 0 && ++index[d] >= extent[d]) index[d--] = 0;
+    if (d < 0) break;
+  }
+};
+
+const describeObject = (ctx: Context, path: string, messages: Message[]): Hdf5Group | Hdf5Dataset => {
+  const attributes = readAttributes(ctx, messages);
+  const find = (type: number) => {
+    const message = messages.find(m => m.type === type);
+    return message && resolveShared(ctx, message);
+  };
+
+  const layoutMessage = find(MSG_LAYOUT);
+  if (!layoutMessage) {
+    return { path, kind: "group", attributes, children: [] };
+  }
+
+  const dataspace = find(MSG_DATASPACE);
+  const datatypeMessage = find(MSG_DATATYPE);
+  if (!dataspace || !datatypeMessage) {
+    throw new Error(`HDF5 dataset ${path} has no dataspace or datatype`);
+  }
+  const shape = parseDataspace(ctx, dataspace.at) ?? [];
+  const datatype = parseDatatype(ctx, datatypeMessage.at);
+  const filterMessage = find(MSG_FILTER_PIPELINE);
+
+  return {
+    path,
+    kind: "dataset",
+    attributes,
+    shape,
+    datatype,
+    dtype: numericDtype(datatype),
+    layout: parseLayout(ctx, layoutMessage.at, shape.length),
+    filters: filterMessage ? parseFilters(ctx, filterMessage.at) : []
+  };
+};
+
+const contexts = new WeakMap<Hdf5File, Context>();
+
+/** Walks the group hierarchy of an HDF5 file held in memory; dataset values are read on demand. */
+export function parseHdf5(buffer: ArrayBuffer): Hdf5File {
+  const view = new DataView(buffer);
+  const start = findSuperblock(view);
+  const ctx: Context = { buffer, view, offsetSize: 8, lengthSize: 8, baseAddress: 0 };
+  const c = new Cursor(ctx, start + SIGNATURE.length);
+  const superblockVersion = c.uint8();
+
+  let rootAddress: number;
+  if (superblockVersion <= 1) {
+    c.skip(4);
+    ctx.offsetSize = c.uint8();
+    ctx.lengthSize = c.uint8();
+    c.skip(1 + 4 + 4);
+    if (superblockVersion === 1) c.skip(4);
+    ctx.baseAddress = c.uint(ctx.offsetSize);
+    c.skip(3 * ctx.offsetSize);
+    c.skip(ctx.offsetSize);
+    rootAddress = c.offset();
+  } else if (superblockVersion <= 3) {
+    ctx.offsetSize = c.uint8();
+    ctx.lengthSize = c.uint8();
+    c.uint8();
+    ctx.baseAddress = c.uint(ctx.offsetSize);
+    c.skip(2 * ctx.offsetSize);
+    rootAddress = c.offset();
+  } else {
+    throw new Error(`Unsupported HDF5 superblock version ${superblockVersion}`);
+  }
+
+  const objects = new Map<string, Hdf5Group | Hdf5Dataset>();
+  const described = new Map<number, Hdf5Group | Hdf5Dataset>();
+  const walk = (path: string, address: number) => {
+    // Hard links can make the hierarchy a graph; describe each object once and alias it elsewhere.
+    const seen = described.get(address);
+    if (seen) {
+      objects.set(path, { ...seen, path });
+      return;
+    }
+
+    const messages = readMessages(ctx, address);
+    const object = describeObject(ctx, path, messages);
+    described.set(address, object);
+    objects.set(path, object);
+    if (object.kind === "dataset") return;
+
+    for (const link of readGroupLinks(ctx, messages)) {
+      const childPath = path === "/" ? `/${link.name}` : `${path}/${link.name}`;
+      object.children.push(childPath);
+      walk(childPath, link.address);
+    }
+  };
+  walk("/", rootAddress);
+
+  const file: Hdf5File = {
+    superblockVersion,
+    objects,
+    datasets: [...objects.values()].filter((o): o is Hdf5Dataset => o.kind === "dataset")
+  };
+  contexts.set(file, ctx);
+  return file;
+}
+
+/** Reads every value of a numeric dataset, C-ordered (last dimension fastest). */
+export async function readHdf5Dataset(file: Hdf5File, dataset: Hdf5Dataset): Promise<VoxelArray> {
+  const ctx = contexts.get(file);
+  if (!ctx) {
+    throw new Error("HDF5 file was not opened with parseHdf5");
+  }
+  if (!dataset.dtype) {
+    throw new Error(`HDF5 dataset ${dataset.path} is not numeric`);
+  }
+
+  const count = product(dataset.shape);
+  const { layout, datatype } = dataset;
+  switch (layout.layoutClass) {
+    case LAYOUT_COMPACT:
+      return decodeElements(new Uint8Array(ctx.buffer, layout.compactOffset, count * datatype.size), datatype, count);
+    case LAYOUT_CONTIGUOUS:
+      if (layout.address === UNDEFINED_ADDRESS) return allocateVoxels(dataset.dtype, count);
+      if (layout.address + count * datatype.size > ctx.buffer.byteLength) {
+        throw new Error(`HDF5 dataset ${dataset.path} runs past the end of the file`);
+      }
+      return decodeElements(new Uint8Array(ctx.buffer, layout.address, count * datatype.size), datatype, count);
+  }
+
+  const out = allocateVoxels(dataset.dtype, count);
+  const chunkCount = product(layout.chunkShape);
+  for (const chunk of listChunks(ctx, dataset)) {
+    if (chunk.address + chunk.size > ctx.buffer.byteLength) {
+      throw new Error(`HDF5 chunk of ${dataset.path} runs past the end of the file`);
+    }
+    const bytes = await decodeChunk(ctx, dataset, chunk);
+    if (bytes.length < chunkCount * datatype.size) {
+      throw new Error(`HDF5 chunk of ${dataset.path} decoded to ${bytes.length} bytes, expected ${chunkCount * datatype.size}`);
+    }
+    placeChunk(out, dataset.shape, decodeElements(bytes, datatype, chunkCount), layout.chunkShape, chunk.offset);
+  }
+  return out;
+}
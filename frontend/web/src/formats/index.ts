@@ -0,0 +1,57 @@
+// formats/index.ts
+import { parseEmd } from "./emd";
+import { parseMrc } from "./mrc";
+import { parseSer } from "./ser";
+import type { ImageStack } from "./stack";
+import { parseTiff } from "./tiff";
+
+export type StackFormat = "mrc" | "tiff" | "ser" | "hdf5";
+
+export interface LoadedStack {
+  format: StackFormat;
+  fileName: string;
+  stack: ImageStack;
+}
+
+const EXTENSION_FORMATS: Record<string, StackFormat> = {
+  mrc: "mrc",
+  mrcs: "mrc",
+  st: "mrc",
+  ali: "mrc",
+  rec: "mrc",
+  tif: "tiff",
+  tiff: "tiff",
+  ser: "ser",
+  h5: "hdf5",
+  hdf5: "hdf5",
+  emd: "hdf5",
+  nxs: "hdf5"
+};
+
+/** Value for the upload `<input accept>` attribute. */
+export const STACK_FILE_ACCEPT = Object.keys(EXTENSION_FORMATS).map(ext => `.${ext}`).join(",");
+
+export function detectStackFormat(fileName: string): StackFormat | null {
+  const ext = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return EXTENSION_FORMATS[ext] ?? null;
+}
+
+/** Reads an ET file chosen in the browser into an image stack. */
+export async function readStackFile(file: File): Promise<LoadedStack> {
+  const format = detectStackFormat(file.name);
+  if (!format) {
+    throw new Error(`No reader for ${file.name}`);
+  }
+
+  const buffer = await file.arrayBuffer();
+  switch (format) {
+    case "mrc":
+      return { format, fileName: file.name, stack: parseMrc(buffer).stack };
+    case "tiff":
+      return { format, fileName: file.name, stack: (await parseTiff(buffer)).stack };
+    case "ser":
+      return { format, fileName: file.name, stack: parseSer(buffer).stack };
+    case "hdf5":
+      return { format, fileName: file.name, stack: (await parseEmd(buffer)).stack };
+  }
+}
@@ -0,0 +1,218 @@
+// formats/mrc.ts
+import { halfToFloat32, ImageStack, readVoxels, VoxelArray, VoxelDtype } from "./stack";
+
+const HEADER_BYTES = 1024;
+const LABEL_COUNT = 10;
+const LABEL_BYTES = 80;
+const IMOD_STAMP = 1146047817;
+const IMOD_FLAG_SIGNED_BYTES = 1;
+const SERI_FLAG_TILT_ANGLE = 1;
+const FEI_ALPHA_TILT_OFFSET = 100;
+
+export interface Vec3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** MRC2014 main header, see https://www.ccpem.ac.uk/mrc_format/mrc2014.php */
+export interface MrcHeader {
+  nx: number;
+  ny: number;
+  nz: number;
+  mode: number;
+  start: Vec3;
+  sampling: Vec3;
+  cellDimensions: Vec3;
+  cellAngles: Vec3;
+  axisOrder: [number, number, number];
+  dmin: number;
+  dmax: number;
+  dmean: number;
+  ispg: number;
+  extendedHeaderBytes: number;
+  extendedHeaderType: string;
+  version: number;
+  origin: Vec3;
+  rms: number;
+  labels: string[];
+  littleEndian: boolean;
+}
+
+export interface MrcFile {
+  header: MrcHeader;
+  stack: ImageStack;
+}
+
+/** Voxel modes we can decode, mapped to the dtype they load as. */
+const MODE_DTYPES: Record<number, VoxelDtype> = {
+  0: "int8",
+  1: "int16",
+  2: "float32",
+  6: "uint16",
+  12: "float32"
+};
+
+const MODE_NAMES: Record<number, string> = {
+  3: "complex int16",
+  4: "complex float32",
+  101: "4-bit packed"
+};
+
+export function isSupportedMrcMode(mode: number): boolean {
+  return mode in MODE_DTYPES;
+}
+
+const readVec3 = (view: DataView, offset: number, littleEndian: boolean, float: boolean): Vec3 => {
+  const read = (at: number) => float ? view.getFloat32(at, littleEndian) : view.getInt32(at, littleEndian);
+  return { x: read(offset), y: read(offset + 4), z: read(offset + 8) };
+};
+
+const readAscii = (bytes: Uint8Array): string => {
+  let text = "";
+  for (const byte of bytes) {
+    if (byte === 0) break;
+    text += String.fromCharCode(byte);
+  }
+  return text.trimEnd();
+};
+
+// MACHST is the reliable marker; fall back to a plausible mode for writers that leave it empty.
+const detectLittleEndian = (view: DataView): boolean => {
+  const machst = view.getUint8(212);
+  if (machst === 0x44) return true;
+  if (machst === 0x11) return false;
+  const mode = view.getInt32(12, true);
+  return mode >= 0 && mode <= 101;
+};
+
+export function parseMrcHeader(buffer: ArrayBuffer): MrcHeader {
+  if (buffer.byteLength < HEADER_BYTES) {
+    throw new Error(`Not an MRC file: ${buffer.byteLength} bytes is shorter than the ${HEADER_BYTES}-byte header`);
+  }
+
+  const view = new DataView(buffer, 0, HEADER_BYTES);
+  const le = detectLittleEndian(view);
+  const int = (at: number) => view.getInt32(at, le);
+  const float = (at: number) => view.getFloat32(at, le);
+
+  const labelCount = Math.min(Math.max(int(220), 0), LABEL_COUNT);
+  const labels: string[] = [];
+  for (let i = 0; i < labelCount; i++) {
+    labels.push(readAscii(new Uint8Array(buffer, 224 + i * LABEL_BYTES, LABEL_BYTES)));
+  }
+
+  const header: MrcHeader = {
+    nx: int(0),
+    ny: int(4),
+    nz: int(8),
+    mode: int(12),
+    start: readVec3(view, 16, le, false),
+    sampling: readVec3(view, 28, le, false),
+    cellDimensions: readVec3(view, 40, le, true),
+    cellAngles: readVec3(view, 52, le, true),
+    axisOrder: [int(64), int(68), int(72)],
+    dmin: float(76),
+    dmax: float(80),
+    dmean: float(84),
+    ispg: int(88),
+    extendedHeaderBytes: int(92),
+    extendedHeaderType: readAscii(new Uint8Array(buffer, 104, 4)),
+    version: int(108),
+    origin: readVec3(view, 196, le, true),
+    rms: float(216),
+    labels,
+    littleEndian: le
+  };
+
+  if (header.nx <= 0 || header.ny <= 0 || header.nz <= 0) {
+    throw new Error(`Invalid MRC dimensions ${header.nx} x ${header.ny} x ${header.nz}`);
+  }
+  if (header.extendedHeaderBytes < 0) {
+    throw new Error(`Invalid MRC extended header size ${header.extendedHeaderBytes}`);
+  }
+  return header;
+}
+
+/** Ångström per pixel along each axis; 0 where the cell is not set. */
+export function mrcPixelSpacing(header: MrcHeader): Vec3 {
+  const spacing = (cell: number, sampling: number, n: number) => {
+    const intervals = sampling > 0 ? sampling : n;
+    return cell > 0 && intervals > 0 ? cell / intervals : 0;
+  };
+  return {
+    x: spacing(header.cellDimensions.x, header.sampling.x, header.nx),
+    y: spacing(header.cellDimensions.y, header.sampling.y, header.ny),
+    z: spacing(header.cellDimensions.z, header.sampling.z, header.nz)
+  };
+}
+
+// Old IMOD files store mode 0 as unsigned unless the signed-bytes flag is set.
+const isUnsignedBytes = (buffer: ArrayBuffer, header: MrcHeader): boolean => {
+  const view = new DataView(buffer);
+  const le = header.littleEndian;
+  return view.getInt32(152, le) === IMOD_STAMP && (view.getInt32(156, le) & IMOD_FLAG_SIGNED_BYTES) === 0;
+};
+
+/** Per-section tilt angles from FEI or IMOD (SERI) extended headers. */
+const readTiltAngles = (buffer: ArrayBuffer, header: MrcHeader): number[] | undefined => {
+  const ext = header.extendedHeaderBytes;
+  if (ext === 0) return undefined;
+
+  const view = new DataView(buffer, HEADER_BYTES, ext);
+  const angles: number[] = [];
+
+  if (header.extendedHeaderType === "FEI1" || header.extendedHeaderType === "FEI2") {
+    const blockBytes = view.getInt32(0, true);
+    if (blockBytes <= FEI_ALPHA_TILT_OFFSET) return undefined;
+    for (let z = 0; z < header.nz && (z + 1) * blockBytes <= ext; z++) {
+      angles.push(view.getFloat64(z * blockBytes + FEI_ALPHA_TILT_OFFSET, true));
+    }
+  } else if (header.extendedHeaderType === "SERI") {
+    const headerView = new DataView(buffer, 0, HEADER_BYTES);
+    const bytesPerSection = headerView.getInt16(128, header.littleEndian);
+    const flags = headerView.getInt16(130, header.littleEndian);
+    if (bytesPerSection < 2 || (flags & SERI_FLAG_TILT_ANGLE) === 0) return undefined;
+    for (let z = 0; z < header.nz && (z + 1) * bytesPerSection <= ext; z++) {
+      angles.push(view.getInt16(z * bytesPerSection, header.littleEndian) / 100);
+    }
+  } else {
+    return undefined;
+  }
+
+  return angles.length === header.nz ? angles : undefined;
+};
+
+/** Parses an MRC/MRC2014 image stack or volume held in memory. */
+export function parseMrc(buffer: ArrayBuffer): MrcFile {
+  const header = parseMrcHeader(buffer);
+  if (!isSupportedMrcMode(header.mode)) {
+    const name = MODE_NAMES[header.mode] ?? "unknown";
+    throw new Error(`Unsupported MRC mode ${header.mode} (${name})`);
+  }
+
+  const offset = HEADER_BYTES + header.extendedHeaderBytes;
+  const length = header.nx * header.ny * header.nz;
+
+  let dtype = MODE_DTYPES[header.mode];
+  let data: VoxelArray;
+  if (header.mode === 12) {
+    data = halfToFloat32(readVoxels(buffer, offset, "uint16", length, header.littleEndian) as Uint16Array);
+  } else {
+    if (dtype === "int8" && isUnsignedBytes(buffer, header)) dtype = "uint8";
+    data = readVoxels(buffer, offset, dtype, length, header.littleEndian);
+  }
+
+  return {
+    header,
+    stack: {
+      width: header.nx,
+      height: header.ny,
+      depth: header.nz,
+      dtype,
+      data,
+      pixelSpacing: mrcPixelSpacing(header),
+      tiltAngles: readTiltAngles(buffer, header)
+    }
+  };
+}
@@ -0,0 +1,231 @@
+// formats/ser.ts
+import { allocateVoxels, DTYPE_BYTES, ImageStack, readVoxels, VoxelDtype } from "./stack";
+
+const BYTE_ORDER_LITTLE = 0x4949;
+const SERIES_ID = 0x0197;
+const VERSION_64BIT_OFFSETS = 0x0220;
+
+const DATA_TYPE_1D = 0x4120;
+const DATA_TYPE_2D = 0x4122;
+const TAG_TYPE_TIME = 0x4152;
+const TAG_TYPE_POSITION_TIME = 0x4142;
+
+const METERS_TO_ANGSTROM = 1e10;
+
+/** Element data types; 9 and 10 are complex and not supported. */
+const ELEMENT_DTYPES: Record<number, VoxelDtype> = {
+  1: "uint8",
+  2: "uint16",
+  3: "uint32",
+  4: "int8",
+  5: "int16",
+  6: "int32",
+  7: "float32",
+  8: "float64"
+};
+
+export interface SerCalibration {
+  offset: number;
+  delta: number;
+  element: number;
+}
+
+export interface SerDimension extends SerCalibration {
+  size: number;
+  description: string;
+  units: string;
+}
+
+export interface SerHeader {
+  version: number;
+  dataTypeId: number;
+  tagTypeId: number;
+  totalElements: number;
+  validElements: number;
+  dimensions: SerDimension[];
+  dataOffsets: number[];
+  tagOffsets: number[];
+}
+
+export interface SerFrameTags {
+  /** Acquisition time in seconds since 1970. */
+  time?: number;
+  positionX?: number;
+  positionY?: number;
+  /** Degrees, when the series dimension is calibrated in degrees. */
+  tiltAngle?: number;
+}
+
+export interface SerFile {
+  header: SerHeader;
+  frames: SerFrameTags[];
+  stack: ImageStack;
+}
+
+class Cursor {
+  constructor(private view: DataView, public at: number) {}
+
+  int16() { const v = this.view.getInt16(this.at, true); this.at += 2; return v; }
+  uint16() { const v = this.view.getUint16(this.at, true); this.at += 2; return v; }
+  int32() { const v = this.view.getInt32(this.at, true); this.at += 4; return v; }
+  int64() { const v = Number(this.view.getBigInt64(this.at, true)); this.at += 8; return v; }
+  float64() { const v = this.view.getFloat64(this.at, true); this.at += 8; return v; }
+
+  string(length: number) {
+    let text = "";
+    for (let i = 0; i < length; i++) text += String.fromCharCode(this.view.getUint8(this.at + i));
+    this.at += length;
+    return text;
+  }
+
+  calibration(): SerCalibration {
+    return { offset: this.float64(), delta: this.float64(), element: this.int32() };
+  }
+}
+
+export function parseSerHeader(buffer: ArrayBuffer): SerHeader {
+  const view = new DataView(buffer);
+  if (buffer.byteLength < 30) {
+    throw new Error("Not a SER file: too short");
+  }
+
+  const c = new Cursor(view, 0);
+  if (c.uint16() !== BYTE_ORDER_LITTLE || c.uint16() !== SERIES_ID) {
+    throw new Error("Not a TIA SER file: bad byte order or series id");
+  }
+
+  const version = c.uint16();
+  const dataTypeId = c.int32();
+  const tagTypeId = c.int32();
+  const totalElements = c.int32();
+  const validElements = c.int32();
+  const wide = version >= VERSION_64BIT_OFFSETS;
+  const offsetArrayOffset = wide ? c.int64() : c.int32();
+  const dimensionCount = c.int32();
+
+  if (dataTypeId !== DATA_TYPE_1D && dataTypeId !== DATA_TYPE_2D) {
+    throw new Error(`Unknown SER data type 0x${dataTypeId.toString(16)}`);
+  }
+
+  const dimensions: SerDimension[] = [];
+  for (let i = 0; i < dimensionCount; i++) {
+    const size = c.int32();
+    const calibration = c.calibration();
+    const description = c.string(c.int32());
+    const units = c.string(c.int32());
+    dimensions.push({ size, ...calibration, description, units });
+  }
+
+  const entryBytes = wide ? 8 : 4;
+  if (offsetArrayOffset + 2 * totalElements * entryBytes > buffer.byteLength) {
+    throw new Error("SER offset arrays run past the end of the file");
+  }
+  c.at = offsetArrayOffset;
+  const readOffsets = () => Array.from({ length: totalElements }, () => (wide ? c.int64() : c.int32()));
+  const dataOffsets = readOffsets();
+  const tagOffsets = readOffsets();
+
+  return { version, dataTypeId, tagTypeId, totalElements, validElements, dimensions, dataOffsets, tagOffsets };
+}
+
+const readFrameTags = (view: DataView, header: SerHeader, index: number): SerFrameTags => {
+  const offset = header.tagOffsets[index];
+  const tags: SerFrameTags = {};
+  if (offset > 0 && offset + 6 <= view.byteLength) {
+    const c = new Cursor(view, offset);
+    const tagType = c.uint16();
+    if (tagType === TAG_TYPE_TIME || tagType === TAG_TYPE_POSITION_TIME) {
+      tags.time = c.int32();
+    }
+    if (tagType === TAG_TYPE_POSITION_TIME && c.at + 16 <= view.byteLength) {
+      tags.positionX = c.float64();
+      tags.positionY = c.float64();
+    }
+  }
+
+  // TIA keeps angles in the companion .emi; a series dimension in degrees is the only in-file source.
+  const series = header.dimensions[0];
+  if (series && /^deg/i.test(series.units.trim())) {
+    tags.tiltAngle = series.offset + (index - series.element) * series.delta;
+  }
+  return tags;
+};
+
+/** Parses a TIA .ser series of 1D or 2D elements into a stack of frames. */
+export function parseSer(buffer: ArrayBuffer): SerFile {
+  const header = parseSerHeader(buffer);
+  const view = new DataView(buffer);
+  const frameCount = Math.min(header.validElements, header.totalElements);
+  if (frameCount <= 0) {
+    throw new Error("SER file contains no valid elements");
+  }
+
+  let width = 0;
+  let height = 0;
+  let dtype: VoxelDtype | undefined;
+  let calibrationX: SerCalibration | undefined;
+  let calibrationY: SerCalibration | undefined;
+  let data = allocateVoxels("uint8", 0);
+  const frames: SerFrameTags[] = [];
+
+  for (let i = 0; i < frameCount; i++) {
+    const c = new Cursor(view, header.dataOffsets[i]);
+    let frameWidth: number;
+    let frameHeight = 1;
+    let typeCode: number;
+
+    if (header.dataTypeId === DATA_TYPE_2D) {
+      const x = c.calibration();
+      const y = c.calibration();
+      typeCode = c.int16();
+      frameWidth = c.int32();
+      frameHeight = c.int32();
+      calibrationX ??= x;
+      calibrationY ??= y;
+    } else {
+      const x = c.calibration();
+      typeCode = c.int16();
+      frameWidth = c.int32();
+      calibrationX ??= x;
+    }
+
+    const frameDtype = ELEMENT_DTYPES[typeCode];
+    if (!frameDtype) {
+      throw new Error(`Unsupported SER element data type ${typeCode}`);
+    }
+
+    if (i === 0) {
+      width = frameWidth;
+      height = frameHeight;
+      dtype = frameDtype;
+      data = allocateVoxels(dtype, width * height * frameCount);
+    } else if (frameWidth !== width || frameHeight !== height || frameDtype !== dtype) {
+      throw new Error(`SER element ${i} is ${frameWidth} x ${frameHeight} ${frameDtype}, expected ${width} x ${height} ${dtype}`);
+    }
+
+    const size = width * height;
+    if (c.at + size * DTYPE_BYTES[frameDtype] > buffer.byteLength) {
+      throw new Error(`SER element ${i} runs past the end of the file`);
+    }
+    data.set(readVoxels(buffer, c.at, frameDtype, size, true), i * size);
+    frames.push(readFrameTags(view, header, i));
+  }
+
+  const spacing = (calibration?: SerCalibration) => calibration ? Math.abs(calibration.delta) * METERS_TO_ANGSTROM : 0;
+  const tiltAngles = frames.map(frame => frame.tiltAngle);
+
+  return {
+    header,
+    frames,
+    stack: {
+      width,
+      height,
+      depth: frameCount,
+      dtype: dtype!,
+      data,
+      pixelSpacing: { x: spacing(calibrationX), y: spacing(calibrationY), z: 0 },
+      tiltAngles: tiltAngles.every(angle => angle !== undefined) ? tiltAngles as number[] : undefined,
+      pageTags: frames.map(frame => ({ ...frame }))
+    }
+  };
+}
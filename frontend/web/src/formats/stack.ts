@@ -0,0 +1,134 @@
+// formats/stack.ts
+
+export type VoxelDtype =
+  | "int8"
+  | "uint8"
+  | "int16"
+  | "uint16"
+  | "int32"
+  | "uint32"
+  | "float32"
+  | "float64";
+
+export type VoxelArray =
+  | Int8Array
+  | Uint8Array
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+  | Float64Array;
+
+export interface PixelSpacing {
+  /** Ångström per pixel; 0 when the file does not say. */
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** Pixel spacings are stored on chain as integers in thousandths of an Ångström. */
+export const PIXEL_SPACING_SCALE = 1000;
+
+/**
+ * In-memory representation every reader produces: `depth` images of
+ * `width` x `height` voxels, x fastest, then y, then z.
+ */
+export interface ImageStack {
+  width: number;
+  height: number;
+  depth: number;
+  dtype: VoxelDtype;
+  data: VoxelArray;
+  pixelSpacing: PixelSpacing;
+  /** Tilt angle of each image in degrees, when the file records it. */
+  tiltAngles?: number[];
+  /** Format-specific tags of each image, indexed like z. */
+  pageTags?: Record<string, unknown>[];
+}
+
+export const DTYPE_BYTES: Record<VoxelDtype, number> = {
+  int8: 1,
+  uint8: 1,
+  int16: 2,
+  uint16: 2,
+  int32: 4,
+  uint32: 4,
+  float32: 4,
+  float64: 8
+};
+
+export function allocateVoxels(dtype: VoxelDtype, length: number): VoxelArray {
+  switch (dtype) {
+    case "int8": return new Int8Array(length);
+    case "uint8": return new Uint8Array(length);
+    case "int16": return new Int16Array(length);
+    case "uint16": return new Uint16Array(length);
+    case "int32": return new Int32Array(length);
+    case "uint32": return new Uint32Array(length);
+    case "float32": return new Float32Array(length);
+    case "float64": return new Float64Array(length);
+  }
+}
+
+/**
+ * Copies `length` voxels of `dtype` starting at `byteOffset`, swapping
+ * byte order when the source is big-endian.
+ */
+export function readVoxels(
+  buffer: ArrayBuffer,
+  byteOffset: number,
+  dtype: VoxelDtype,
+  length: number,
+  littleEndian: boolean
+): VoxelArray {
+  const bytes = DTYPE_BYTES[dtype];
+  if (byteOffset + length * bytes > buffer.byteLength) {
+    throw new Error(`Voxel data truncated: expected ${length * bytes} bytes at offset ${byteOffset}`);
+  }
+
+  const out = allocateVoxels(dtype, length);
+  if (littleEndian || bytes === 1) {
+    new Uint8Array(out.buffer).set(new Uint8Array(buffer, byteOffset, length * bytes));
+    return out;
+  }
+
+  const view = new DataView(buffer, byteOffset, length * bytes);
+  for (let i = 0; i < length; i++) {
+    const at = i * bytes;
+    switch (dtype) {
+      case "int16": out[i] = view.getInt16(at, false); break;
+      case "uint16": out[i] = view.getUint16(at, false); break;
+      case "int32": out[i] = view.getInt32(at, false); break;
+      case "uint32": out[i] = view.getUint32(at, false); break;
+      case "float32": out[i] = view.getFloat32(at, false); break;
+      case "float64": out[i] = view.getFloat64(at, false); break;
+    }
+  }
+  return out;
+}
+
+/** Converts IEEE 754 half-precision values to float32. */
+export function halfToFloat32(halves: Uint16Array): Float32Array {
+  const out = new Float32Array(halves.length);
+  for (let i = 0; i < halves.length; i++) {
+    const h = halves[i];
+    const sign = h & 0x8000 ? -1 : 1;
+    const exponent = (h >> 10) & 0x1f;
+    const fraction = h & 0x3ff;
+    if (exponent === 0) {
+      out[i] = sign * Math.pow(2, -14) * (fraction / 1024);
+    } else if (exponent === 0x1f) {
+      out[i] = fraction ? NaN : sign * Infinity;
+    } else {
+      out[i] = sign * Math.pow(2, exponent - 15) * (1 + fraction / 1024);
+    }
+  }
+  return out;
+}
+
+/** Image `z` of the stack as a view into its voxel data. */
+export function stackSlice(stack: ImageStack, z: number): VoxelArray {
+  const size = stack.width * stack.height;
+  return stack.data.subarray(z * size, (z + 1) * size);
+}
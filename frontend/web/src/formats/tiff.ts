@@ -0,0 +1,487 @@
+// formats/tiff.ts
+import { inflate } from "./compression";
+import { allocateVoxels, DTYPE_BYTES, ImageStack, PixelSpacing, readVoxels, VoxelArray, VoxelDtype } from "./stack";
+
+const TAG_NAMES: Record<number, string> = {
+  254: "NewSubfileType",
+  256: "ImageWidth",
+  257: "ImageLength",
+  258: "BitsPerSample",
+  259: "Compression",
+  262: "PhotometricInterpretation",
+  270: "ImageDescription",
+  271: "Make",
+  272: "Model",
+  273: "StripOffsets",
+  277: "SamplesPerPixel",
+  278: "RowsPerStrip",
+  279: "StripByteCounts",
+  282: "XResolution",
+  283: "YResolution",
+  284: "PlanarConfiguration",
+  296: "ResolutionUnit",
+  305: "Software",
+  306: "DateTime",
+  317: "Predictor",
+  322: "TileWidth",
+  323: "TileLength",
+  324: "TileOffsets",
+  325: "TileByteCounts",
+  339: "SampleFormat",
+  340: "SMinSampleValue",
+  341: "SMaxSampleValue"
+};
+
+// Element sizes of TIFF field types 1-12.
+const TYPE_BYTES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+const COMPRESSION_NONE = 1;
+const COMPRESSION_LZW = 5;
+const COMPRESSION_DEFLATE = 8;
+const COMPRESSION_ADOBE_DEFLATE = 32946;
+const COMPRESSION_PACKBITS = 32773;
+
+const PREDICTOR_HORIZONTAL = 2;
+const PREDICTOR_FLOATING_POINT = 3;
+
+const RESOLUTION_UNIT_INCH = 2;
+const RESOLUTION_UNIT_CENTIMETER = 3;
+const ANGSTROM_PER_INCH = 2.54e8;
+const ANGSTROM_PER_CENTIMETER = 1e8;
+
+const IMAGEJ_UNITS: Record<string, number> = {
+  "Å": 1,
+  "A": 1,
+  "angstrom": 1,
+  "nm": 10,
+  "nanometer": 10,
+  "micron": 1e4,
+  "um": 1e4,
+  "µm": 1e4,
+  // ImageJ writes µ escaped in the description.
+  "\\u00B5m": 1e4
+};
+
+export type TiffTagValue = number | number[] | string;
+
+export interface TiffPage {
+  width: number;
+  height: number;
+  dtype: VoxelDtype;
+  compression: number;
+  predictor: number;
+  tiled: boolean;
+  /** Every tag of the page, keyed by name where known and by number otherwise. */
+  tags: Record<string, TiffTagValue>;
+}
+
+export interface TiffFile {
+  littleEndian: boolean;
+  pages: TiffPage[];
+  stack: ImageStack;
+}
+
+type RawTags = Map<number, TiffTagValue>;
+
+const readTagValue = (view: DataView, entry: number, le: boolean): TiffTagValue | undefined => {
+  const type = view.getUint16(entry + 2, le);
+  const count = view.getUint32(entry + 4, le);
+  const size = TYPE_BYTES[type];
+  if (!size) return undefined;
+
+  const offset = size * count <= 4 ? entry + 8 : view.getUint32(entry + 8, le);
+  if (offset + size * count > view.byteLength) {
+    throw new Error(`TIFF tag ${view.getUint16(entry, le)} points past the end of the file`);
+  }
+
+  if (type === 2) {
+    let text = "";
+    for (let i = 0; i < count; i++) {
+      const byte = view.getUint8(offset + i);
+      if (byte === 0) break;
+      text += String.fromCharCode(byte);
+    }
+    return text;
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const at = offset + i * size;
+    switch (type) {
+      case 1: case 7: values.push(view.getUint8(at)); break;
+      case 6: values.push(view.getInt8(at)); break;
+      case 3: values.push(view.getUint16(at, le)); break;
+      case 8: values.push(view.getInt16(at, le)); break;
+      case 4: values.push(view.getUint32(at, le)); break;
+      case 9: values.push(view.getInt32(at, le)); break;
+      case 5: values.push(view.getUint32(at, le) / view.getUint32(at + 4, le)); break;
+      case 10: values.push(view.getInt32(at, le) / view.getInt32(at + 4, le)); break;
+      case 11: values.push(view.getFloat32(at, le)); break;
+      case 12: values.push(view.getFloat64(at, le)); break;
+    }
+  }
+  return count === 1 ? values[0] : values;
+};
+
+const readIfds = (view: DataView, le: boolean): RawTags[] => {
+  const ifds: RawTags[] = [];
+  const seen = new Set<number>();
+  let offset = view.getUint32(4, le);
+
+  while (offset !== 0) {
+    if (seen.has(offset) || offset + 2 > view.byteLength) {
+      throw new Error(`Invalid TIFF IFD offset ${offset}`);
+    }
+    seen.add(offset);
+
+    const count = view.getUint16(offset, le);
+    const tags: RawTags = new Map();
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      const value = readTagValue(view, entry, le);
+      if (value !== undefined) tags.set(view.getUint16(entry, le), value);
+    }
+    ifds.push(tags);
+    offset = view.getUint32(offset + 2 + count * 12, le);
+  }
+  return ifds;
+};
+
+const asNumbers = (value: TiffTagValue | undefined): number[] => {
+  if (value === undefined || typeof value === "string") return [];
+  return typeof value === "number" ? [value] : value;
+};
+
+const asNumber = (value: TiffTagValue | undefined, fallback: number): number => {
+  const numbers = asNumbers(value);
+  return numbers.length > 0 ? numbers[0] : fallback;
+};
+
+const pageDtype = (bits: number, sampleFormat: number): VoxelDtype => {
+  const float = sampleFormat === 3;
+  const signed = sampleFormat === 2;
+  if (float && bits === 32) return "float32";
+  if (float && bits === 64) return "float64";
+  if (!float && bits === 8) return signed ? "int8" : "uint8";
+  if (!float && bits === 16) return signed ? "int16" : "uint16";
+  if (!float && bits === 32) return signed ? "int32" : "uint32";
+  throw new Error(`Unsupported TIFF sample type: ${bits}-bit ${float ? "float" : signed ? "signed" : "unsigned"}`);
+};
+
+/** TIFF LZW: MSB-first codes, 9 to 12 bits wide, with the early width change. */
+export function lzwDecode(input: Uint8Array, expected: number): Uint8Array {
+  const out = new Uint8Array(expected);
+  const prefix = new Int32Array(4096).fill(-1);
+  const suffix = new Uint8Array(4096);
+  const lengths = new Int32Array(4096);
+  for (let i = 0; i < 256; i++) {
+    suffix[i] = i;
+    lengths[i] = 1;
+  }
+
+  const firstByte = (code: number) => {
+    while (prefix[code] >= 0) code = prefix[code];
+    return suffix[code];
+  };
+  const write = (code: number, at: number) => {
+    for (let c = code, i = at + lengths[code] - 1; c >= 0; c = prefix[c], i--) {
+      if (i < expected) out[i] = suffix[c];
+    }
+  };
+
+  let next = 258;
+  let width = 9;
+  let prev = -1;
+  let bitPos = 0;
+  let outPos = 0;
+  const totalBits = input.length * 8;
+
+  while (bitPos + width <= totalBits && outPos < expected) {
+    let code = 0;
+    for (let i = 0; i < width; i++, bitPos++) {
+      code = (code << 1) | ((input[bitPos >> 3] >> (7 - (bitPos & 7))) & 1);
+    }
+
+    if (code === 257) break;
+    if (code === 256) {
+      next = 258;
+      width = 9;
+      prev = -1;
+      continue;
+    }
+
+    let first: number;
+    if (code < next && (code < 256 || lengths[code] > 0)) {
+      write(code, outPos);
+      first = firstByte(code);
+      outPos += lengths[code];
+    } else if (code === next && prev >= 0) {
+      first = firstByte(prev);
+      write(prev, outPos);
+      if (outPos + lengths[prev] < expected) out[outPos + lengths[prev]] = first;
+      outPos += lengths[prev] + 1;
+    } else {
+      throw new Error(`Corrupt LZW stream: unexpected code ${code}`);
+    }
+
+    if (prev >= 0 && next < 4096) {
+      prefix[next] = prev;
+      suffix[next] = first;
+      lengths[next] = lengths[prev] + 1;
+      next++;
+    }
+    prev = code;
+    if (next >= (1 << width) - 1 && width < 12) width++;
+  }
+  return out;
+}
+
+export function packBitsDecode(input: Uint8Array, expected: number): Uint8Array {
+  const out = new Uint8Array(expected);
+  let inPos = 0;
+  let outPos = 0;
+  while (inPos < input.length && outPos < expected) {
+    const header = (input[inPos++] << 24) >> 24;
+    if (header >= 0) {
+      const run = Math.min(header + 1, expected - outPos, input.length - inPos);
+      out.set(input.subarray(inPos, inPos + run), outPos);
+      inPos += header + 1;
+      outPos += run;
+    } else if (header !== -128) {
+      const run = Math.min(1 - header, expected - outPos);
+      out.fill(input[inPos++], outPos, outPos + run);
+      outPos += run;
+    }
+  }
+  return out;
+}
+
+const decompress = async (raw: Uint8Array, compression: number, expected: number): Promise<Uint8Array> => {
+  switch (compression) {
+    case COMPRESSION_NONE: return raw;
+    case COMPRESSION_LZW: return lzwDecode(raw, expected);
+    case COMPRESSION_DEFLATE:
+    case COMPRESSION_ADOBE_DEFLATE: return inflate(raw);
+    case COMPRESSION_PACKBITS: return packBitsDecode(raw, expected);
+    default: throw new Error(`Unsupported TIFF compression ${compression}`);
+  }
+};
+
+// Cumulative sum along each row; typed-array assignment gives the modular wrap-around TIFF expects.
+const undoHorizontalPredictor = (samples: VoxelArray, width: number, rows: number) => {
+  for (let y = 0; y < rows; y++) {
+    const row = y * width;
+    for (let x = 1; x < width; x++) {
+      samples[row + x] += samples[row + x - 1];
+    }
+  }
+};
+
+// Floating-point predictor: bytes are differenced, then split into planes most significant first.
+const undoFloatingPointPredictor = (bytes: Uint8Array, width: number, rows: number, size: number): Uint8Array => {
+  const out = new Uint8Array(width * rows * size);
+  const rowBytes = width * size;
+  for (let y = 0; y < rows; y++) {
+    const base = y * rowBytes;
+    for (let i = 1; i < rowBytes; i++) {
+      bytes[base + i] = (bytes[base + i] + bytes[base + i - 1]) & 0xff;
+    }
+    for (let x = 0; x < width; x++) {
+      for (let b = 0; b < size; b++) {
+        out[base + x * size + b] = bytes[base + b * width + x];
+      }
+    }
+  }
+  return out;
+};
+
+/** Decodes one strip or tile into samples in native byte order. */
+const decodeSegment = async (
+  buffer: ArrayBuffer,
+  offset: number,
+  byteCount: number,
+  page: TiffPage,
+  width: number,
+  rows: number,
+  le: boolean
+): Promise<VoxelArray> => {
+  if (offset + byteCount > buffer.byteLength) {
+    throw new Error(`TIFF segment at ${offset} runs past the end of the file`);
+  }
+
+  const size = DTYPE_BYTES[page.dtype];
+  const expected = width * rows * size;
+  let bytes = await decompress(new Uint8Array(buffer, offset, byteCount), page.compression, expected);
+  if (bytes.length < expected) {
+    throw new Error(`TIFF segment decoded to ${bytes.length} bytes, expected ${expected}`);
+  }
+
+  let littleEndian = le;
+  if (page.predictor === PREDICTOR_FLOATING_POINT) {
+    bytes = undoFloatingPointPredictor(bytes.slice(0, expected), width, rows, size);
+    littleEndian = false;
+  }
+
+  const samples = readVoxels(bytes.buffer as ArrayBuffer, bytes.byteOffset, page.dtype, width * rows, littleEndian);
+  if (page.predictor === PREDICTOR_HORIZONTAL) {
+    undoHorizontalPredictor(samples, width, rows);
+  }
+  return samples;
+};
+
+const decodePage = async (buffer: ArrayBuffer, raw: RawTags, page: TiffPage, le: boolean): Promise<VoxelArray> => {
+  const { width, height } = page;
+  const out = allocateVoxels(page.dtype, width * height);
+
+  if (page.tiled) {
+    const tileWidth = asNumber(raw.get(322), 0);
+    const tileHeight = asNumber(raw.get(323), 0);
+    const offsets = asNumbers(raw.get(324));
+    const counts = asNumbers(raw.get(325));
+    const across = Math.ceil(width / tileWidth);
+    const down = Math.ceil(height / tileHeight);
+    if (offsets.length < across * down || counts.length < across * down) {
+      throw new Error(`TIFF page lists ${offsets.length} tiles, expected ${across * down}`);
+    }
+
+    for (let ty = 0; ty < down; ty++) {
+      for (let tx = 0; tx < across; tx++) {
+        const index = ty * across + tx;
+        const tile = await decodeSegment(buffer, offsets[index], counts[index], page, tileWidth, tileHeight, le);
+        const x0 = tx * tileWidth;
+        const y0 = ty * tileHeight;
+        const copyWidth = Math.min(tileWidth, width - x0);
+        const copyRows = Math.min(tileHeight, height - y0);
+        for (let y = 0; y < copyRows; y++) {
+          out.set(tile.subarray(y * tileWidth, y * tileWidth + copyWidth), (y0 + y) * width + x0);
+        }
+      }
+    }
+    return out;
+  }
+
+  const rowsPerStrip = Math.min(asNumber(raw.get(278), height), height);
+  const offsets = asNumbers(raw.get(273));
+  const counts = asNumbers(raw.get(279));
+  const strips = Math.ceil(height / rowsPerStrip);
+  if (offsets.length < strips || counts.length < strips) {
+    throw new Error(`TIFF page lists ${offsets.length} strips, expected ${strips}`);
+  }
+
+  for (let s = 0; s < strips; s++) {
+    const rows = Math.min(rowsPerStrip, height - s * rowsPerStrip);
+    const strip = await decodeSegment(buffer, offsets[s], counts[s], page, width, rows, le);
+    out.set(strip, s * rowsPerStrip * width);
+  }
+  return out;
+};
+
+const toPage = (raw: RawTags): TiffPage => {
+  const samplesPerPixel = asNumber(raw.get(277), 1);
+  if (samplesPerPixel !== 1) {
+    throw new Error(`Only single-channel TIFF pages are supported, found ${samplesPerPixel} samples per pixel`);
+  }
+
+  const tags: Record<string, TiffTagValue> = {};
+  raw.forEach((value, tag) => {
+    tags[TAG_NAMES[tag] ?? String(tag)] = value;
+  });
+
+  return {
+    width: asNumber(raw.get(256), 0),
+    height: asNumber(raw.get(257), 0),
+    dtype: pageDtype(asNumber(raw.get(258), 1), asNumber(raw.get(339), 1)),
+    compression: asNumber(raw.get(259), COMPRESSION_NONE),
+    predictor: asNumber(raw.get(317), 1),
+    tiled: raw.has(322),
+    tags
+  };
+};
+
+/** Pixel spacing from the resolution tags, or ImageJ's unit and spacing in the description. */
+const tiffPixelSpacing = (page: TiffPage): PixelSpacing => {
+  const xResolution = asNumber(page.tags.XResolution, 0);
+  const yResolution = asNumber(page.tags.YResolution, xResolution);
+  const description = typeof page.tags.ImageDescription === "string" ? page.tags.ImageDescription : "";
+
+  let angstromPerUnit = 0;
+  switch (asNumber(page.tags.ResolutionUnit, RESOLUTION_UNIT_INCH)) {
+    case RESOLUTION_UNIT_INCH: angstromPerUnit = ANGSTROM_PER_INCH; break;
+    case RESOLUTION_UNIT_CENTIMETER: angstromPerUnit = ANGSTROM_PER_CENTIMETER; break;
+  }
+
+  let zSpacing = 0;
+  if (description.startsWith("ImageJ=")) {
+    const unit = description.match(/^unit=(.+)$/m)?.[1].trim();
+    angstromPerUnit = unit ? IMAGEJ_UNITS[unit] ?? 0 : 0;
+    const spacing = Number(description.match(/^spacing=(.+)$/m)?.[1]);
+    zSpacing = spacing > 0 ? spacing * angstromPerUnit : 0;
+  }
+
+  const spacing = (resolution: number) => resolution > 0 && angstromPerUnit > 0 ? angstromPerUnit / resolution : 0;
+  return { x: spacing(xResolution), y: spacing(yResolution), z: zSpacing };
+};
+
+const SEGMENT_TAGS = ["StripOffsets", "StripByteCounts", "TileOffsets", "TileByteCounts"];
+
+/** Parses a (multi-page) grayscale TIFF such as a tilt series into one stack. */
+export async function parseTiff(buffer: ArrayBuffer): Promise<TiffFile> {
+  if (buffer.byteLength < 8) {
+    throw new Error("Not a TIFF file: too short");
+  }
+
+  const view = new DataView(buffer);
+  const order = view.getUint16(0, false);
+  if (order !== 0x4949 && order !== 0x4d4d) {
+    throw new Error("Not a TIFF file: missing byte order mark");
+  }
+  const le = order === 0x4949;
+  const magic = view.getUint16(2, le);
+  if (magic === 43) {
+    throw new Error("BigTIFF files are not supported");
+  }
+  if (magic !== 42) {
+    throw new Error(`Not a TIFF file: bad magic number ${magic}`);
+  }
+
+  const ifds = readIfds(view, le);
+  const pages = ifds.map(toPage);
+  if (pages.length === 0) {
+    throw new Error("TIFF file has no pages");
+  }
+
+  const { width, height, dtype } = pages[0];
+  pages.forEach((page, i) => {
+    if (page.width !== width || page.height !== height || page.dtype !== dtype) {
+      throw new Error(
+        `TIFF page ${i} is ${page.width} x ${page.height} ${page.dtype}, expected ${width} x ${height} ${dtype}`
+      );
+    }
+  });
+
+  const pageSize = width * height;
+  const data = allocateVoxels(dtype, pageSize * pages.length);
+  for (let i = 0; i < pages.length; i++) {
+    data.set(await decodePage(buffer, ifds[i], pages[i], le), i * pageSize);
+  }
+
+  const pageTags = pages.map(page => {
+    const tags: Record<string, unknown> = { ...page.tags };
+    for (const name of SEGMENT_TAGS) delete tags[name];
+    return tags;
+  });
+
+  return {
+    littleEndian: le,
+    pages,
+    stack: {
+      width,
+      height,
+      depth: pages.length,
+      dtype,
+      data,
+      pixelSpacing: tiffPixelSpacing(pages[0]),
+      pageTags
+    }
+  };
+}
@@ -0,0 +1,155 @@
+// imageEvents.ts
+import {
+  ImageStatus,
+  imageStatusOf,
+  JOB_STATES,
+  JobTransition,
+  NEW_JOB,
+  ReconstructionJob,
+  transition
+} from "./jobState";
+import type { EtCloudFhe } from "../../../types/contracts/EtCloudFhe";
+
+/** Where a log sits in the chain; no two logs share one. */
+export interface ChainPosition {
+  blockNumber: number;
+  /** Index of the log within its block; Infinity stands for the end of the block. */
+  logIndex: number;
+}
+
+/** Orders positions as the chain does. */
+export const isAfter = (a: ChainPosition, b: ChainPosition) =>
+  a.blockNumber > b.blockNumber || (a.blockNumber === b.blockNumber && a.logIndex > b.logIndex);
+
+export interface ETImageData {
+  id: string;
+  owner: string;
+  timestamp: number;
+  resolution: string;
+  description: string;
+  status: ImageStatus;
+  job: ReconstructionJob;
+  /** Chain position `job` reflects; live events at or before it are already in it. */
+  syncedTo: ChainPosition;
+}
+
+/** A change to one image, decoded from an EtCloudFhe log. */
+export type ImageEvent =
+  | { kind: "uploaded"; image: ETImageData; blockNumber: number; logIndex: number }
+  | { kind: "job"; id: string; transition: JobTransition; blockNumber: number; logIndex: number };
+
+/** Widest block span asked of eth_getLogs at once; public RPCs reject larger ranges. */
+const LOG_BLOCK_RANGE = 5_000;
+
+export function contractProvider(contract: EtCloudFhe) {
+  const provider = contract.runner?.provider;
+  if (!provider) throw new Error("Contract is not connected to a provider");
+  return provider;
+}
+
+/** Image events emitted between `fromBlock` and `toBlock` (inclusive), in chain order. */
+export async function fetchImageEvents(contract: EtCloudFhe, fromBlock: number, toBlock: number): Promise<ImageEvent[]> {
+  const events: ImageEvent[] = [];
+
+  for (let start = fromBlock; start <= toBlock; start += LOG_BLOCK_RANGE) {
+    const end = Math.min(start + LOG_BLOCK_RANGE - 1, toBlock);
+    const [uploaded, jobs] = await Promise.all([
+      contract.queryFilter(contract.filters.ImageUploaded(), start, end),
+      contract.queryFilter(contract.filters.JobStateChanged(), start, end)
+    ]);
+
+    for (const log of uploaded) {
+      events.push({
+        kind: "uploaded",
+        image: {
+          id: log.args.id.toString(),
+          owner: log.args.owner,
+          timestamp: Number(log.args.timestamp),
+          resolution: log.args.resolution,
+          description: log.args.description,
+          status: "uploaded",
+          job: NEW_JOB,
+          syncedTo: { blockNumber: log.blockNumber, logIndex: log.index }
+        },
+        blockNumber: log.blockNumber,
+        logIndex: log.index
+      });
+    }
+    for (const log of jobs) {
+      events.push({
+        kind: "job",
+        id: log.args.id.toString(),
+        transition: { state: JOB_STATES[Number(log.args.state)], timestamp: Number(log.args.timestamp) },
+        blockNumber: log.blockNumber,
+        logIndex: log.index
+      });
+    }
+  }
+
+  return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+}
+
+/**
+ * Folds events, in chain order, into a copy of `images`. Events for unknown
+ * ids are dropped, and each image ignores events at or before the chain
+ * position it was synced to, so a log is applied once however often it is
+ * delivered, while distinct transitions in one block all apply.
+ */
+export function applyImageEvents(
+  images: ReadonlyMap<string, ETImageData>,
+  events: ImageEvent[]
+): Map<string, ETImageData> {
+  const next = new Map(images);
+
+  for (const event of events) {
+    if (event.kind === "uploaded") {
+      if (!next.has(event.image.id)) next.set(event.image.id, event.image);
+      continue;
+    }
+    const image = next.get(event.id);
+    if (!image) continue;
+    if (!isAfter(event, image.syncedTo)) continue;
+    try {
+      const job = transition(image.job, event.transition);
+      const syncedTo = { blockNumber: event.blockNumber, logIndex: event.logIndex };
+      next.set(event.id, { ...image, status: imageStatusOf(job.state), job, syncedTo });
+    } catch (e) {
+      console.warn(`Ignoring job event for image ${event.id}:`, e);
+    }
+  }
+  return next;
+}
+
+/**
+ * Polls for image events from `fromBlock` onwards on every new block and
+ * hands each non-empty batch to `onEvents`. Returns a function that stops
+ * the subscription.
+ */
+export function subscribeImageEvents(
+  contract: EtCloudFhe,
+  fromBlock: number,
+  onEvents: (events: ImageEvent[]) => void
+): () => void {
+  const provider = contractProvider(contract);
+  let nextBlock = fromBlock;
+  let polling = false;
+
+  const onBlock = async (blockNumber: number) => {
+    if (polling || blockNumber < nextBlock) return;
+    polling = true;
+    try {
+      const events = await fetchImageEvents(contract, nextBlock, blockNumber);
+      nextBlock = blockNumber + 1;
+      if (events.length > 0) onEvents(events);
+    } catch (e) {
+      console.error("Error polling image events:", e);
+    } finally {
+      polling = false;
+    }
+  };
+
+  provider.on("block", onBlock);
+  return () => {
+    provider.off("block", onBlock);
+  };
+}
@@ -0,0 +1,378 @@
+// imageRepository.ts
+import { ethers } from "ethers";
+import { getContractReadOnly, getContractWithSigner } from "./contract";
+import type { EncryptedInput } from "./fhe";
+import { PIXEL_SPACING_SCALE, PixelSpacing } from "./formats/stack";
+import {
+  applyImageEvents,
+  contractProvider,
+  ETImageData,
+  ImageEvent,
+  isAfter,
+  subscribeImageEvents
+} from "./imageEvents";
+import { imageStatusOf, JOB_STATES, JobTransition, replayJob } from "./jobState";
+import { multicall } from "./multicall";
+import {
+  AlignmentRecord,
+  decodeAlignment,
+  encodeAlignment,
+  fromAlignmentUnits,
+  toAlignmentUnits
+} from "./reconstruction/alignment";
+import { decodeFsc, encodeFsc, ResolutionEstimate } from "./reconstruction/fsc";
+import type { EncryptedWidth } from "./quantization";
+import { fromFixedPoint, MANIFEST_DTYPES, Shape3, TileManifest, tileGrid, toFixedPoint } from "./tiling";
+import type { EtCloudFhe } from "../../../types/contracts/EtCloudFhe";
+
+export type { ETImageData } from "./imageEvents";
+export type { ImageStatus } from "./jobState";
+
+/** Images read per page of the catalog. */
+export const IMAGE_PAGE_SIZE = 50;
+
+export interface ImagePage {
+  images: ETImageData[];
+  /** Pass back to `listImagesPage` for the next, older page; null after the oldest image. */
+  nextCursor: string | null;
+}
+
+/** The fields of `getImageMetadata` a card shows. */
+interface ImageMetadata {
+  owner: string;
+  timestamp: bigint;
+  resolution: string;
+  description: string;
+}
+
+/** Checks a decoded `getImageMetadata` result field by field. */
+const decodeMetadata = ([owner, timestamp, resolution, description]: ethers.Result): ImageMetadata => {
+  if (
+    typeof owner !== "string" ||
+    typeof timestamp !== "bigint" ||
+    typeof resolution !== "string" ||
+    typeof description !== "string"
+  ) {
+    throw new Error("Malformed image metadata");
+  }
+  return { owner, timestamp, resolution, description };
+};
+
+/** Maps a decoded `getJobHistory` result onto transitions, rejecting states the frontend does not know. */
+const decodeJobHistory = ([history]: ethers.Result): JobTransition[] =>
+  Array.from(history as ethers.Result, ([state, timestamp]: ethers.Result): JobTransition => {
+    const name = JOB_STATES[Number(state)];
+    if (name === undefined || typeof timestamp !== "bigint") throw new Error(`Malformed job transition ${state}`);
+    return { state: name, timestamp: Number(timestamp) };
+  });
+
+const toImage = (id: bigint, meta: ImageMetadata, history: JobTransition[], blockNumber: number): ETImageData => {
+  const job = replayJob(history);
+  return {
+    id: id.toString(),
+    owner: meta.owner,
+    timestamp: Number(meta.timestamp),
+    resolution: meta.resolution,
+    description: meta.description,
+    status: imageStatusOf(job.state),
+    job,
+    syncedTo: { blockNumber, logIndex: Infinity }
+  };
+};
+
+const newestFirst = (images: Iterable<ETImageData>): ETImageData[] =>
+  [...images].sort((a, b) => b.timestamp - a.timestamp || Number(b.id) - Number(a.id));
+
+/**
+ * Reads the metadata and job history of every id as of `blockNumber` in
+ * Multicall3 batches, skipping ids whose reads fail.
+ */
+const readImages = async (contract: EtCloudFhe, ids: bigint[], blockNumber: number): Promise<ETImageData[]> => {
+  const args = ids.map(id => [id]);
+  const [metas, histories] = await Promise.all([
+    multicall(contract, "getImageMetadata", args, blockNumber),
+    multicall(contract, "getJobHistory", args, blockNumber)
+  ]);
+  const list: ETImageData[] = [];
+
+  ids.forEach((id, i) => {
+    const meta = metas[i];
+    const history = histories[i];
+    if (!meta || !history) {
+      console.error(`Error loading image ${id}`);
+      return;
+    }
+    try {
+      list.push(toImage(id, decodeMetadata(meta), decodeJobHistory(history), blockNumber));
+    } catch (e) {
+      console.error(`Error loading image ${id}:`, e);
+    }
+  });
+  return newestFirst(list);
+};
+
+/**
+ * One page of the catalog, newest first, read at a single block so live
+ * events can tell which of their changes it already holds. The cursor is an
+ * image id, so uploads that land while paging never shift the pages still to come.
+ */
+export async function listImagesPage(cursor: string | null = null, limit = IMAGE_PAGE_SIZE): Promise<ImagePage> {
+  const contract = await getContractReadOnly();
+  if (!contract) return { images: [], nextCursor: null };
+
+  const blockNumber = await contractProvider(contract).getBlockNumber();
+  const first = cursor === null ? await contract.imageCount({ blockTag: blockNumber }) : BigInt(cursor);
+  const ids: bigint[] = [];
+  for (let id = first; id >= 1n && ids.length < limit; id--) ids.push(id);
+
+  const last = ids[ids.length - 1];
+  return {
+    images: await readImages(contract, ids, blockNumber),
+    nextCursor: last !== undefined && last > 1n ? (last - 1n).toString() : null
+  };
+}
+
+/**
+ * Passes image events to `onEvents` as they arrive, starting after the
+ * current block. Resolves to a function that stops watching.
+ */
+export async function watchImageEvents(onEvents: (events: ImageEvent[]) => void): Promise<() => void> {
+  const contract = await getContractReadOnly();
+  if (!contract) return () => {};
+
+  const head = await contractProvider(contract).getBlockNumber();
+  return subscribeImageEvents(contract, head + 1, onEvents);
+}
+
+/** Folds live events into a loaded list; images on pages not loaded yet are left to paging. */
+export function applyEventsToList(images: ETImageData[], events: ImageEvent[]): ETImageData[] {
+  return newestFirst(applyImageEvents(new Map(images.map(image => [image.id, image])), events).values());
+}
+
+/** Adds a freshly read page to a loaded list, keeping whichever copy of an image in both is synced further. */
+export function mergeImages(images: ETImageData[], page: ETImageData[]): ETImageData[] {
+  const merged = new Map(images.map(image => [image.id, image]));
+  for (const image of page) {
+    const loaded = merged.get(image.id);
+    if (!loaded || !isAfter(loaded.syncedTo, image.syncedTo)) merged.set(image.id, image);
+  }
+  return newestFirst(merged.values());
+}
+
+/**
+ * Registers an image by its encrypted content fingerprint (see
+ * `fingerprintUint32`) with its public metadata and returns the id
+ * assigned by the contract. The stack itself goes up afterwards as blobs.
+ */
+export async function uploadImage(
+  fingerprint: EncryptedInput,
+  resolution: string,
+  description: string
+): Promise<string> {
+  const contract = await getContractWithSigner();
+  const tx = await contract.uploadEncryptedImage(
+    fingerprint.handles[0],
+    fingerprint.inputProof,
+    resolution,
+    description
+  );
+  const receipt = await tx.wait();
+
+  for (const log of receipt?.logs ?? []) {
+    const parsed = contract.interface.parseLog(log);
+    if (parsed?.name === "ImageUploaded") {
+      return parsed.args.id.toString();
+    }
+  }
+
+  throw new Error("ImageUploaded event not found in receipt");
+}
+
+export async function requestReconstruction(imageId: string): Promise<void> {
+  const contract = await getContractWithSigner();
+  const tx = await contract.requestReconstruction(imageId);
+  await tx.wait();
+}
+
+/** Cancels a queued or running reconstruction; it can be requested again afterwards. */
+export async function cancelReconstruction(imageId: string): Promise<void> {
+  const contract = await getContractWithSigner();
+  const tx = await contract.cancelReconstruction(imageId);
+  await tx.wait();
+}
+
+type RawManifest = Awaited<ReturnType<EtCloudFhe["getTileManifest"]>>;
+
+const toManifest = (m: RawManifest): TileManifest | null => {
+  if (m.tileCount === 0n) return null;
+  const shape: Shape3 = [Number(m.width), Number(m.height), Number(m.depth)];
+  const tileShape: Shape3 = [Number(m.tileWidth), Number(m.tileHeight), Number(m.tileDepth)];
+  return {
+    ...tileGrid(shape, tileShape),
+    dtype: MANIFEST_DTYPES[Number(m.dtype)],
+    scaling: {
+      offset: fromFixedPoint(m.valueOffset),
+      scale: fromFixedPoint(m.valueScale),
+      bits: Number(m.valueBits) as EncryptedWidth
+    },
+    tileCount: Number(m.tileCount),
+    tilesCompleted: Number(m.tilesCompleted)
+  };
+};
+
+/** Tile manifest recorded for `imageId`, or null when the image has no tiles. */
+export async function getTileManifest(imageId: string): Promise<TileManifest | null> {
+  const contract = await getContractReadOnly();
+  if (!contract) return null;
+  return toManifest(await contract.getTileManifest(imageId));
+}
+
+/** Grid of the reconstructed volume, or null until the worker has recorded one. */
+export async function getResultManifest(imageId: string): Promise<TileManifest | null> {
+  const contract = await getContractReadOnly();
+  if (!contract) return null;
+  return toManifest(await contract.getResultManifest(imageId));
+}
+
+/** Handles of result voxels `start` to `start + count` of a tile; fewer past what has been written. */
+export async function getResultVoxels(imageId: string, tileIndex: number, start: number, count: number): Promise<string[]> {
+  const contract = await getContractReadOnly();
+  if (!contract) return [];
+  return contract.getResultVoxels(imageId, tileIndex, start, count);
+}
+
+export async function recordTileManifest(
+  imageId: string,
+  manifest: Omit<TileManifest, "counts" | "tileCount" | "tilesCompleted">
+): Promise<void> {
+  const contract = await getContractWithSigner();
+  const tx = await contract.setTileManifest(
+    imageId,
+    manifest.shape,
+    manifest.tileShape,
+    MANIFEST_DTYPES.indexOf(manifest.dtype),
+    manifest.scaling.bits,
+    toFixedPoint(manifest.scaling.offset),
+    toFixedPoint(manifest.scaling.scale)
+  );
+  await tx.wait();
+}
+
+/** Alignment recorded for the image's tilt series, or null when there is none. */
+export async function getAlignment(imageId: string): Promise<AlignmentRecord | null> {
+  const contract = await getContractReadOnly();
+  if (!contract) return null;
+  const [tiltAxisAngle, transforms] = await contract.getAlignment(imageId);
+  return transforms.length === 0 ? null : decodeAlignment(tiltAxisAngle, transforms);
+}
+
+export async function recordAlignment(imageId: string, record: AlignmentRecord): Promise<void> {
+  const contract = await getContractWithSigner();
+  const { tiltAxisAngle, transforms } = encodeAlignment(record);
+  const tx = await contract.setAlignment(imageId, tiltAxisAngle, transforms);
+  await tx.wait();
+}
+
+/** Tilt angles recorded for the image's series, in degrees; empty when there are none. */
+export async function getTiltAngles(imageId: string): Promise<number[]> {
+  const contract = await getContractReadOnly();
+  if (!contract) return [];
+  return (await contract.getTiltAngles(imageId)).map(fromAlignmentUnits);
+}
+
+export async function recordTiltAngles(imageId: string, angles: number[]): Promise<void> {
+  const contract = await getContractWithSigner();
+  const tx = await contract.setTiltAngles(imageId, angles.map(toAlignmentUnits));
+  await tx.wait();
+}
+
+/** Pixel size of the image's stack; zeros when none was recorded. */
+export async function getPixelSpacing(imageId: string): Promise<PixelSpacing> {
+  const contract = await getContractReadOnly();
+  if (!contract) return { x: 0, y: 0, z: 0 };
+  const [x, y, z] = (await contract.getPixelSpacing(imageId)).map(value => Number(value) / PIXEL_SPACING_SCALE);
+  return { x, y, z };
+}
+
+export async function recordPixelSpacing(imageId: string, spacing: PixelSpacing): Promise<void> {
+  const contract = await getContractWithSigner();
+  const units = [spacing.x, spacing.y, spacing.z].map(value => Math.round(value * PIXEL_SPACING_SCALE));
+  const tx = await contract.setPixelSpacing(imageId, [units[0], units[1], units[2]]);
+  await tx.wait();
+}
+
+/** Resolution curve recorded for the image, or null when there is none. */
+export async function getFscCurve(imageId: string): Promise<ResolutionEstimate | null> {
+  const contract = await getContractReadOnly();
+  if (!contract) return null;
+  const [pixelSpacing, correlation] = await contract.getFscCurve(imageId);
+  return correlation.length === 0 ? null : decodeFsc(pixelSpacing, correlation);
+}
+
+/** Resolution curve the image's reconstruction result carries, or null before a result completes with one. */
+export async function getResultFscCurve(imageId: string): Promise<ResolutionEstimate | null> {
+  const contract = await getContractReadOnly();
+  if (!contract) return null;
+  const [pixelSpacing, correlation] = await contract.getResultFscCurve(imageId);
+  return correlation.length === 0 ? null : decodeFsc(pixelSpacing, correlation);
+}
+
+/** The next reconstruction result to complete carries the curve; it cannot change while a job runs. */
+export async function recordFscCurve(imageId: string, estimate: ResolutionEstimate): Promise<void> {
+  const contract = await getContractWithSigner();
+  const { pixelSpacing, correlation } = encodeFsc(estimate);
+  const tx = await contract.setFscCurve(imageId, pixelSpacing, correlation);
+  await tx.wait();
+}
+
+export async function getTileVoxelCount(imageId: string, tileIndex: number): Promise<number> {
+  const contract = await getContractReadOnly();
+  if (!contract) return 0;
+  return Number(await contract.getTileVoxelCount(imageId, tileIndex));
+}
+
+/** Appends one batch of encrypted voxels to a tile. */
+export async function uploadTileVoxels(imageId: string, tileIndex: number, encrypted: EncryptedInput): Promise<void> {
+  const contract = await getContractWithSigner();
+  const tx = await contract.uploadTileVoxels(imageId, tileIndex, encrypted.handles, encrypted.inputProof);
+  await tx.wait();
+}
+
+export interface BlobCommitment {
+  hash: string;
+  size: number;
+}
+
+const BLOB_PAGE_SIZE = 500;
+
+/** Appends blob commitments for `imageId` in one transaction. */
+export async function commitBlobs(imageId: string, commitments: BlobCommitment[]): Promise<void> {
+  const contract = await getContractWithSigner();
+  const tx = await contract.commitBlobs(
+    imageId,
+    commitments.map(c => c.hash),
+    commitments.map(c => c.size)
+  );
+  await tx.wait();
+}
+
+/** Every blob commitment of `imageId`, in upload order. */
+export async function getBlobCommitments(imageId: string): Promise<BlobCommitment[]> {
+  const contract = await getContractReadOnly();
+  if (!contract) return [];
+
+  const count = Number(await contract.getBlobCount(imageId));
+  const commitments: BlobCommitment[] = [];
+  for (let start = 0; start < count; start += BLOB_PAGE_SIZE) {
+    const page = await contract.getBlobCommitments(imageId, start, BLOB_PAGE_SIZE);
+    commitments.push(...page.map(c => ({ hash: c.hash, size: Number(c.size) })));
+  }
+  return commitments;
+}
+
+/** Stores the FHE-encrypted data key of the image's blobs. */
+export async function setBlobKey(imageId: string, encrypted: EncryptedInput): Promise<void> {
+  const contract = await getContractWithSigner();
+  const tx = await contract.setBlobKey(imageId, encrypted.handles, encrypted.inputProof);
+  await tx.wait();
+}
@@ -0,0 +1,86 @@
+// jobState.ts
+export type ImageStatus = "uploaded" | "processing" | "reconstructed";
+
+export type JobState =
+  | "none"
+  | "queued"
+  | "aligning"
+  | "filtering"
+  | "back-projecting"
+  | "reconstructed"
+  | "failed"
+  | "cancelled";
+
+/** States in the order of the contract's JobState enum. */
+export const JOB_STATES: JobState[] = [
+  "none",
+  "queued",
+  "aligning",
+  "filtering",
+  "back-projecting",
+  "reconstructed",
+  "failed",
+  "cancelled"
+];
+
+export const JOB_STATE_LABELS: Record<JobState, string> = {
+  none: "Not requested",
+  queued: "Queued",
+  aligning: "Aligning",
+  filtering: "Filtering",
+  "back-projecting": "Back-projecting",
+  reconstructed: "Reconstructed",
+  failed: "Failed",
+  cancelled: "Cancelled"
+};
+
+export interface JobTransition {
+  state: JobState;
+  /** Unix seconds of the block that recorded the transition. */
+  timestamp: number;
+}
+
+export interface ReconstructionJob {
+  state: JobState;
+  /** Every transition, oldest first. */
+  history: JobTransition[];
+}
+
+export const NEW_JOB: ReconstructionJob = { state: "none", history: [] };
+
+/** Stages a running job moves through, in order; completion follows the last. */
+const PIPELINE: JobState[] = ["queued", "aligning", "filtering", "back-projecting"];
+
+/**
+ * Mirrors `_canTransition` in EtCloudFhe: failed and cancelled jobs may be
+ * queued again, stages and then completion only move forward one at a
+ * time, and a running job may fail or be cancelled at any stage.
+ */
+export function canTransition(from: JobState, to: JobState): boolean {
+  if (to === "queued") return from === "none" || from === "failed" || from === "cancelled";
+  if (!isActive(from)) return false;
+  if (to === "failed" || to === "cancelled") return true;
+  return JOB_STATES.indexOf(to) === JOB_STATES.indexOf(from) + 1;
+}
+
+export function isActive(state: JobState): boolean {
+  return PIPELINE.includes(state);
+}
+
+export function transition(job: ReconstructionJob, next: JobTransition): ReconstructionJob {
+  if (!canTransition(job.state, next.state)) {
+    throw new Error(`Invalid job transition ${job.state} -> ${next.state}`);
+  }
+  return { state: next.state, history: [...job.history, next] };
+}
+
+/** Rebuilds a job from its recorded history, checking every step. */
+export function replayJob(history: JobTransition[]): ReconstructionJob {
+  return history.reduce(transition, NEW_JOB);
+}
+
+/** Coarse status the image list filters and counts by. */
+export function imageStatusOf(state: JobState): ImageStatus {
+  if (state === "reconstructed") return "reconstructed";
+  return isActive(state) ? "processing" : "uploaded";
+}
@@ -0,0 +1,47 @@
+// multicall.ts
+import { ethers } from "ethers";
+import { config } from "./contract";
+import type { Multicall3 } from "../../../types/contracts/Multicall3";
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+  "function getBlockNumber() view returns (uint256 blockNumber)"
+];
+
+/** Calls per aggregate3 request, keeping each eth_call well under node gas caps. */
+export const MULTICALL_BATCH_SIZE = 100;
+
+const getMulticall = (runner: ethers.ContractRunner) =>
+  new ethers.Contract(config.multicallAddress, MULTICALL3_ABI, runner) as unknown as Multicall3;
+
+/**
+ * Calls `method` on `contract` once per argument list, batching the calls
+ * through Multicall3, against `blockTag` when given. Results come back in
+ * input order; a call that reverts yields null instead of failing the batch.
+ */
+export async function multicall(
+  contract: ethers.BaseContract,
+  method: string,
+  argsList: unknown[][],
+  blockTag?: ethers.BlockTag
+): Promise<(ethers.Result | null)[]> {
+  if (!contract.runner) throw new Error("Contract is not connected to a provider");
+  const multicall = getMulticall(contract.runner);
+  const target = await contract.getAddress();
+  const fragment = contract.interface.getFunction(method);
+  if (!fragment) throw new Error(`Unknown contract method ${method}`);
+
+  const results: (ethers.Result | null)[] = [];
+  for (let start = 0; start < argsList.length; start += MULTICALL_BATCH_SIZE) {
+    const calls = argsList.slice(start, start + MULTICALL_BATCH_SIZE).map(args => ({
+      target,
+      allowFailure: true,
+      callData: contract.interface.encodeFunctionData(fragment, args)
+    }));
+    const batch = await multicall.aggregate3.staticCall(calls, { blockTag });
+    for (const { success, returnData } of batch) {
+      results.push(success ? contract.interface.decodeFunctionResult(fragment, returnData) : null);
+    }
+  }
+  return results;
+}
@@ -0,0 +1,121 @@
+// quantization.ts
+import type { ImageStack } from "./formats/stack";
+
+/** Widths of the unsigned integers voxels are quantized to, as in euint8, euint16 and euint32. */
+export type EncryptedWidth = 8 | 16 | 32;
+
+export const ENCRYPTED_WIDTHS: EncryptedWidth[] = [8, 16, 32];
+
+/**
+ * Widths the FHE worker can reconstruct from. It scales real-valued weights
+ * to integers so weighted sums of stored voxels stay within int32, which
+ * 32-bit voxels leave no room for: (2^31 - 1) / (2^32 - 1) is below 1.
+ */
+export const RECONSTRUCTION_WIDTHS: EncryptedWidth[] = [8, 16];
+
+/**
+ * Voxels are encrypted as euint32 whatever their width; 16 bits leaves room
+ * for the worker's weighted sums over many of them to stay below 2^32.
+ */
+export const DEFAULT_ENCRYPTED_WIDTH: EncryptedWidth = 16;
+
+/**
+ * Maps voxel values to stored integers, stored = round((value - offset) / scale),
+ * clamped to the `bits`-wide unsigned range; non-finite values are stored as 0.
+ */
+export interface ValueScaling {
+  offset: number;
+  scale: number;
+  bits: EncryptedWidth;
+}
+
+/** How far dequantized voxels land from the originals. */
+export interface QuantizationReport {
+  /** Value of one stored step. */
+  step: number;
+  /** Worst error of an in-range voxel: half a step, or 0 when integer data is stored exactly. */
+  errorBound: number;
+  /** Largest and root-mean-square error measured over the finite voxels. */
+  maxError: number;
+  rmsError: number;
+  /** Voxels outside the representable range, clamped to its ends. */
+  clipped: number;
+  /** NaN and infinite voxels. */
+  nonFinite: number;
+}
+
+export function maxStored(bits: EncryptedWidth): number {
+  return 2 ** bits - 1;
+}
+
+/**
+ * Scaling that spreads the stack's finite value range over the `bits`-wide
+ * range; integer stacks whose range already fits keep unit steps and stay exact.
+ */
+export function chooseScaling(stack: ImageStack, bits: EncryptedWidth = DEFAULT_ENCRYPTED_WIDTH): ValueScaling {
+  if (!ENCRYPTED_WIDTHS.includes(bits)) throw new Error(`Unsupported encrypted width ${bits}`);
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < stack.data.length; i++) {
+    const value = stack.data[i];
+    if (!Number.isFinite(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  if (min > max) return { offset: 0, scale: 1, bits };
+
+  const integer = !stack.dtype.startsWith("float");
+  const range = max - min;
+  if (integer && range <= maxStored(bits)) return { offset: min, scale: 1, bits };
+  return { offset: min, scale: range > 0 ? range / maxStored(bits) : 1, bits };
+}
+
+export function quantize(value: number, scaling: ValueScaling): number {
+  if (!Number.isFinite(value)) return 0;
+  const stored = Math.round((value - scaling.offset) / scaling.scale);
+  return Math.min(Math.max(stored, 0), maxStored(scaling.bits));
+}
+
+export function dequantize(stored: number, scaling: ValueScaling): number {
+  return scaling.offset + stored * scaling.scale;
+}
+
+/** Inverts the quantization of decrypted voxels. */
+export function dequantizeVoxels(stored: ArrayLike<number>, scaling: ValueScaling): Float32Array {
+  const out = new Float32Array(stored.length);
+  for (let i = 0; i < stored.length; i++) out[i] = dequantize(stored[i], scaling);
+  return out;
+}
+
+/** Round-trips every voxel of the stack through `scaling` and measures the error. */
+export function quantizationReport(stack: ImageStack, scaling: ValueScaling): QuantizationReport {
+  const top = dequantize(maxStored(scaling.bits), scaling);
+  let maxError = 0;
+  let squared = 0;
+  let finite = 0;
+  let clipped = 0;
+  let exact = !stack.dtype.startsWith("float") && scaling.scale === 1;
+
+  for (let i = 0; i < stack.data.length; i++) {
+    const value = stack.data[i];
+    if (!Number.isFinite(value)) continue;
+    finite++;
+    if (value < scaling.offset || value > top) {
+      clipped++;
+      exact = false;
+    }
+    const error = Math.abs(dequantize(quantize(value, scaling), scaling) - value);
+    if (error > maxError) maxError = error;
+    squared += error * error;
+  }
+
+  return {
+    step: scaling.scale,
+    errorBound: exact ? 0 : scaling.scale / 2,
+    maxError,
+    rmsError: finite > 0 ? Math.sqrt(squared / finite) : 0,
+    clipped,
+    nonFinite: stack.data.length - finite
+  };
+}
@@ -0,0 +1,396 @@
+// reconstruction/alignment.ts
+import type { ImageStack } from "../formats/stack";
+import { fft2, nextPowerOfTwo } from "./fft";
+
+/**
+ * Maps an image of the tilt series onto the reconstruction geometry: aligned
+ * pixel p reads the raw image at c + R(rotation)·(p - c) + (shiftX, shiftY),
+ * c being the image centre. The tilt axis of the raw image thus runs along
+ * (-sin rotation, cos rotation) and becomes the aligned image's y axis.
+ */
+export interface AlignmentTransform {
+  /** How far the image's content sits from where it belongs, in pixels. */
+  shiftX: number;
+  shiftY: number;
+  /** In-plane angle of the tilt axis, in degrees from the y axis. */
+  rotation: number;
+}
+
+export interface AlignmentRecord {
+  /** Tilt-axis angle of the whole series, in degrees from the y axis. */
+  tiltAxisAngle: number;
+  /** One transform per image, in stack order. */
+  transforms: AlignmentTransform[];
+}
+
+export interface AlignmentOptions {
+  /** Defaults to the angles the stack's file recorded. */
+  tiltAngles?: number[];
+  /** Largest shift between neighbouring images searched for, in pixels; defaults to a quarter of the image. */
+  maxShift?: number;
+  /** Known tilt-axis angle, in degrees; estimated from the series when omitted. */
+  tiltAxisAngle?: number;
+}
+
+export interface PixelSample {
+  /** Index of the pixel within its image, x fastest. */
+  pixel: number;
+  weight: number;
+}
+
+/** Alignment values and tilt angles are stored on chain as integers in thousandths of a pixel or degree. */
+export const ALIGNMENT_SCALE = 1000;
+
+const RADIANS = Math.PI / 180;
+
+// Images are binned down to at most this size on a side for the tilt-axis search
+const AXIS_SEARCH_SIZE = 256;
+
+export const toAlignmentUnits = (value: number) => Math.round(value * ALIGNMENT_SCALE);
+
+export const fromAlignmentUnits = (units: bigint | number) => Number(units) / ALIGNMENT_SCALE;
+
+export function encodeAlignment(record: AlignmentRecord) {
+  return {
+    tiltAxisAngle: toAlignmentUnits(record.tiltAxisAngle),
+    transforms: record.transforms.map(t => ({
+      shiftX: toAlignmentUnits(t.shiftX),
+      shiftY: toAlignmentUnits(t.shiftY),
+      rotation: toAlignmentUnits(t.rotation)
+    }))
+  };
+}
+
+export function decodeAlignment(
+  tiltAxisAngle: bigint | number,
+  transforms: { shiftX: bigint | number; shiftY: bigint | number; rotation: bigint | number }[]
+): AlignmentRecord {
+  return {
+    tiltAxisAngle: fromAlignmentUnits(tiltAxisAngle),
+    transforms: transforms.map(t => ({
+      shiftX: fromAlignmentUnits(t.shiftX),
+      shiftY: fromAlignmentUnits(t.shiftY),
+      rotation: fromAlignmentUnits(t.rotation)
+    }))
+  };
+}
+
+/**
+ * Raw pixels aligned pixel (x, y) of a width x height image reads, with
+ * their bilinear interpolation weights; empty when it falls outside the image.
+ */
+export function alignmentSamples(
+  transform: AlignmentTransform,
+  width: number,
+  height: number,
+  x: number,
+  y: number
+): PixelSample[] {
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+  const cos = Math.cos(transform.rotation * RADIANS);
+  const sin = Math.sin(transform.rotation * RADIANS);
+  const u = cx + cos * (x - cx) - sin * (y - cy) + transform.shiftX;
+  const v = cy + sin * (x - cx) + cos * (y - cy) + transform.shiftY;
+
+  const left = Math.floor(u);
+  const top = Math.floor(v);
+  const fx = u - left;
+  const fy = v - top;
+  const samples: PixelSample[] = [];
+  for (const [px, py, weight] of [
+    [left, top, (1 - fx) * (1 - fy)],
+    [left + 1, top, fx * (1 - fy)],
+    [left, top + 1, (1 - fx) * fy],
+    [left + 1, top + 1, fx * fy]
+  ]) {
+    if (weight > 0 && px >= 0 && px < width && py >= 0 && py < height) samples.push({ pixel: py * width + px, weight });
+  }
+  return samples;
+}
+
+/** Resamples every image of a tilt series through its transform. Returns a float32 stack. */
+export function applyAlignment(stack: ImageStack, record: AlignmentRecord): ImageStack {
+  if (record.transforms.length !== stack.depth) {
+    throw new Error(`Got ${record.transforms.length} alignment transforms for ${stack.depth} images`);
+  }
+  const { width, height } = stack;
+  const data = new Float32Array(width * height * stack.depth);
+
+  for (let z = 0; z < stack.depth; z++) {
+    const offset = z * width * height;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        let sum = 0;
+        for (const { pixel, weight } of alignmentSamples(record.transforms[z], width, height, x, y)) {
+          sum += weight * stack.data[offset + pixel];
+        }
+        data[offset + y * width + x] = sum;
+      }
+    }
+  }
+  return { ...stack, dtype: "float32", data };
+}
+
+/** Mean-free copy of an image with a cosine taper at its edges, zero-padded to `size`. */
+function prepareImage(image: ArrayLike<number>, width: number, height: number, size: [number, number]): Float64Array {
+  let mean = 0;
+  for (let i = 0; i < width * height; i++) mean += image[i];
+  mean /= width * height;
+
+  const taper = Math.max(1, Math.floor(Math.min(width, height) / 10));
+  const edge = (i: number, n: number) => {
+    const d = Math.min(i, n - 1 - i);
+    return d >= taper ? 1 : 0.5 - 0.5 * Math.cos((Math.PI * (d + 0.5)) / taper);
+  };
+
+  const out = new Float64Array(size[0] * size[1]);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      out[y * size[0] + x] = (image[y * width + x] - mean) * edge(x, width) * edge(y, height);
+    }
+  }
+  return out;
+}
+
+/**
+ * Shift s that best maps image `a` onto image `b`, b(p) ≈ a(p - s), from the
+ * peak of their cross-correlation refined to sub-pixel precision.
+ */
+export function crossCorrelationShift(
+  a: ArrayLike<number>,
+  b: ArrayLike<number>,
+  width: number,
+  height: number,
+  maxShift = Math.floor(Math.min(width, height) / 4)
+): [number, number] {
+  const size: [number, number] = [nextPowerOfTwo(width), nextPowerOfTwo(height)];
+  const [pw, ph] = size;
+  const aRe = prepareImage(a, width, height, size);
+  const aIm = new Float64Array(pw * ph);
+  const bRe = prepareImage(b, width, height, size);
+  const bIm = new Float64Array(pw * ph);
+  fft2(aRe, aIm, pw, ph);
+  fft2(bRe, bIm, pw, ph);
+
+  // conj(A)·B transforms back to the correlation Σ a(p)·b(p + s)
+  for (let i = 0; i < pw * ph; i++) {
+    const re = aRe[i] * bRe[i] + aIm[i] * bIm[i];
+    const im = aRe[i] * bIm[i] - aIm[i] * bRe[i];
+    aRe[i] = re;
+    aIm[i] = im;
+  }
+  fft2(aRe, aIm, pw, ph, true);
+
+  const at = (sx: number, sy: number) => aRe[((sy + ph) % ph) * pw + ((sx + pw) % pw)];
+  const limitX = Math.min(maxShift, Math.floor(pw / 2) - 1);
+  const limitY = Math.min(maxShift, Math.floor(ph / 2) - 1);
+  let best: [number, number] = [0, 0];
+  for (let sy = -limitY; sy <= limitY; sy++) {
+    for (let sx = -limitX; sx <= limitX; sx++) {
+      if (at(sx, sy) > at(best[0], best[1])) best = [sx, sy];
+    }
+  }
+
+  const refine = (minus: number, peak: number, plus: number) => {
+    const curvature = minus - 2 * peak + plus;
+    return curvature < 0 ? (minus - plus) / (2 * curvature) : 0;
+  };
+  const [sx, sy] = best;
+  return [
+    sx + refine(at(sx - 1, sy), at(sx, sy), at(sx + 1, sy)),
+    sy + refine(at(sx, sy - 1), at(sx, sy), at(sx, sy + 1))
+  ];
+}
+
+const imageOf = (stack: ImageStack, z: number) =>
+  stack.data.subarray(z * stack.width * stack.height, (z + 1) * stack.width * stack.height);
+
+/** Stack indices ordered by tilt angle, and the position of the least tilted image in that order. */
+export function tiltOrder(tiltAngles: number[]): { order: number[]; reference: number } {
+  const order = tiltAngles.map((_, i) => i).sort((a, b) => tiltAngles[a] - tiltAngles[b]);
+  let reference = 0;
+  order.forEach((index, k) => {
+    if (Math.abs(tiltAngles[index]) < Math.abs(tiltAngles[order[reference]])) reference = k;
+  });
+  return { order, reference };
+}
+
+/**
+ * Coarse alignment: each image is cross-correlated with its neighbour in
+ * tilt order, working outwards from the least tilted image, and the shifts
+ * are chained so every image is placed relative to that reference.
+ */
+export function estimateShifts(stack: ImageStack, tiltAngles: number[], maxShift?: number): [number, number][] {
+  const { order, reference } = tiltOrder(tiltAngles);
+  const shifts: [number, number][] = tiltAngles.map(() => [0, 0]);
+
+  for (const direction of [-1, 1]) {
+    for (let k = reference + direction; k >= 0 && k < order.length; k += direction) {
+      const previous = order[k - direction];
+      const [dx, dy] = crossCorrelationShift(imageOf(stack, previous), imageOf(stack, order[k]), stack.width, stack.height, maxShift);
+      shifts[order[k]] = [shifts[previous][0] + dx, shifts[previous][1] + dy];
+    }
+  }
+  return shifts;
+}
+
+/** Averages factor x factor blocks of every image; pixels grow by the same factor. */
+export function binStack(stack: ImageStack, factor: number): ImageStack {
+  if (factor === 1) return stack;
+  const width = Math.floor(stack.width / factor);
+  const height = Math.floor(stack.height / factor);
+  const data = new Float32Array(width * height * stack.depth);
+  for (let z = 0; z < stack.depth; z++) {
+    const image = imageOf(stack, z);
+    for (let y = 0; y < height * factor; y++) {
+      for (let x = 0; x < width * factor; x++) {
+        data[(z * height + Math.floor(y / factor)) * width + Math.floor(x / factor)] += image[y * stack.width + x] / (factor * factor);
+      }
+    }
+  }
+  const { pixelSpacing } = stack;
+  return {
+    ...stack,
+    width,
+    height,
+    dtype: "float32",
+    data,
+    pixelSpacing: { ...pixelSpacing, x: pixelSpacing.x * factor, y: pixelSpacing.y * factor }
+  };
+}
+
+/**
+ * Shift, in pixels of the unbinned image, that makes a transform rotating
+ * about the centre of the part binStack keeps read the same raw pixels as
+ * rotating about the full image's centre does.
+ */
+function binningOffset(transform: AlignmentTransform, factor: number, width: number, height: number): [number, number] {
+  const dx = (width - Math.floor(width / factor) * factor) / 2;
+  const dy = (height - Math.floor(height / factor) * factor) / 2;
+  const cos = Math.cos(transform.rotation * RADIANS);
+  const sin = Math.sin(transform.rotation * RADIANS);
+  return [dx - (cos * dx - sin * dy), dy - (sin * dx + cos * dy)];
+}
+
+/** The alignment of a width x height series, carried over to the series binStack bins by `factor`. */
+export function binAlignment(record: AlignmentRecord, factor: number, width: number, height: number): AlignmentRecord {
+  return {
+    tiltAxisAngle: record.tiltAxisAngle,
+    transforms: record.transforms.map(t => {
+      const [ox, oy] = binningOffset(t, factor, width, height);
+      return { shiftX: (t.shiftX + ox) / factor, shiftY: (t.shiftY + oy) / factor, rotation: t.rotation };
+    })
+  };
+}
+
+/** Inverse of binAlignment: an alignment measured on the binned series, for the width x height one. */
+export function unbinAlignment(record: AlignmentRecord, factor: number, width: number, height: number): AlignmentRecord {
+  return {
+    tiltAxisAngle: record.tiltAxisAngle,
+    transforms: record.transforms.map(t => {
+      const [ox, oy] = binningOffset(t, factor, width, height);
+      return { shiftX: t.shiftX * factor - ox, shiftY: t.shiftY * factor - oy, rotation: t.rotation };
+    })
+  };
+}
+
+/** Smallest binning factor that brings a stack down to at most `maxSize` pixels on a side. */
+export const binFactor = (stack: ImageStack, maxSize: number) =>
+  Math.max(1, Math.ceil(Math.max(stack.width, stack.height) / maxSize));
+
+/**
+ * Tilting about the axis moves features only across it, so each image's
+ * profile along the true axis (its pixels summed across it) is the same for
+ * every tilt. Returns the angle, in degrees from the y axis, whose profiles
+ * agree best with the reference image's.
+ */
+export function estimateTiltAxis(stack: ImageStack, tiltAngles: number[], shifts: [number, number][]): number {
+  if (stack.depth < 2) return 0;
+  const factor = binFactor(stack, AXIS_SEARCH_SIZE);
+  const binned = binStack(stack, factor);
+  const { width, height } = binned;
+  const { order, reference } = tiltOrder(tiltAngles);
+  const maxShift = Math.max(...shifts.map(([x, y]) => Math.hypot(x, y))) / factor;
+  const radius = Math.ceil(Math.hypot(width, height) / 2 + maxShift) + 1;
+
+  const profile = (z: number, angle: number) => {
+    const dx = -Math.sin(angle * RADIANS);
+    const dy = Math.cos(angle * RADIANS);
+    const [sx, sy] = [shifts[z][0] / factor, shifts[z][1] / factor];
+    const image = imageOf(binned, z);
+    const bins = new Float64Array(2 * radius + 1);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const t = (x - (width - 1) / 2 - sx) * dx + (y - (height - 1) / 2 - sy) * dy + radius;
+        const bin = Math.floor(t);
+        const fraction = t - bin;
+        bins[bin] += (1 - fraction) * image[y * width + x];
+        bins[bin + 1] += fraction * image[y * width + x];
+      }
+    }
+    return bins;
+  };
+
+  const correlation = (a: Float64Array, b: Float64Array) => {
+    let meanA = 0;
+    let meanB = 0;
+    for (let i = 0; i < a.length; i++) {
+      meanA += a[i] / a.length;
+      meanB += b[i] / b.length;
+    }
+    let covariance = 0;
+    let varianceA = 0;
+    let varianceB = 0;
+    for (let i = 0; i < a.length; i++) {
+      covariance += (a[i] - meanA) * (b[i] - meanB);
+      varianceA += (a[i] - meanA) ** 2;
+      varianceB += (b[i] - meanB) ** 2;
+    }
+    return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+  };
+
+  const score = (angle: number) => {
+    const target = profile(order[reference], angle);
+    let sum = 0;
+    for (let k = 0; k < order.length; k++) {
+      if (k !== reference) sum += correlation(target, profile(order[k], angle));
+    }
+    return sum / (order.length - 1);
+  };
+
+  // Coarse to fine: 3° over the half turn, then 0.5° and 0.1° around the best so far
+  let best = 0;
+  let bestScore = -Infinity;
+  for (const [span, step] of [[90, 3], [3, 0.5], [0.5, 0.1]]) {
+    const centre = best;
+    for (let angle = centre - span; angle <= centre + span + 1e-9; angle += step) {
+      const s = score(angle);
+      if (s > bestScore) {
+        bestScore = s;
+        best = angle;
+      }
+    }
+  }
+  // The axis has no direction, so fold the angle into [-90, 90)
+  return ((((best + 90) % 180) + 180) % 180) - 90;
+}
+
+/**
+ * Cross-correlation alignment of a tilt series: chained shifts relative to
+ * the least tilted image, plus one tilt-axis angle shared by every image.
+ */
+export function alignTiltSeries(stack: ImageStack, options: AlignmentOptions = {}): AlignmentRecord {
+  const tiltAngles = options.tiltAngles ?? stack.tiltAngles;
+  if (!tiltAngles) throw new Error("Tilt angles are required: the stack does not record any");
+  if (tiltAngles.length !== stack.depth) {
+    throw new Error(`Got ${tiltAngles.length} tilt angles for ${stack.depth} images`);
+  }
+
+  const shifts = estimateShifts(stack, tiltAngles, options.maxShift);
+  const tiltAxisAngle = options.tiltAxisAngle ?? estimateTiltAxis(stack, tiltAngles, shifts);
+  return {
+    tiltAxisAngle,
+    transforms: shifts.map(([shiftX, shiftY]) => ({ shiftX, shiftY, rotation: tiltAxisAngle }))
+  };
+}
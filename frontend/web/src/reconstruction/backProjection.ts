@@ -0,0 +1,150 @@
+// reconstruction/backProjection.ts
+import type { ImageStack } from "../formats/stack";
+import type { Shape3 } from "../tiling";
+import { AlignmentRecord, applyAlignment } from "./alignment";
+import { FilterOptions, filterRow, sampleFilter } from "./filters";
+
+/**
+ * Single-axis tilt geometry. The tilt axis runs along the projections' y
+ * axis, so volume row y is reconstructed from detector row y alone; voxel
+ * (x, z) of that row lands on detector column
+ * u = (x - cx)·cos θ + (z - cz)·sin θ + cu, every coordinate measured from
+ * the centre of its axis.
+ */
+export interface TiltGeometry {
+  /** Projection width and height, in pixels. */
+  detector: [number, number];
+  /** Tilt angle of each projection, in degrees. */
+  tiltAngles: number[];
+  /** Volume width (x), height (y, along the tilt axis) and thickness (z). */
+  volumeShape: Shape3;
+}
+
+export interface BackProjectionOptions {
+  /** Defaults to the angles the stack's file recorded. */
+  tiltAngles?: number[];
+  /** Defaults to the projection width, its height, and the width again as thickness. */
+  volumeShape?: Shape3;
+  /** Ramp-weight every projection row first; false gives a plain, blurred back-projection. */
+  weighted?: boolean;
+  /** Weighting filter; defaults to the unapodised ramp. */
+  filter?: Partial<FilterOptions>;
+  /** Shifts and rotations putting the tilt axis on the projections' y axis, applied first. */
+  alignment?: AlignmentRecord;
+}
+
+export interface DetectorSample {
+  column: number;
+  weight: number;
+}
+
+const RADIANS = Math.PI / 180;
+
+export function tiltGeometry(stack: ImageStack, options: BackProjectionOptions = {}): TiltGeometry {
+  const tiltAngles = options.tiltAngles ?? stack.tiltAngles;
+  if (!tiltAngles) throw new Error("Tilt angles are required: the stack does not record any");
+  if (tiltAngles.length !== stack.depth) {
+    throw new Error(`Got ${tiltAngles.length} tilt angles for ${stack.depth} projections`);
+  }
+  const volumeShape = options.volumeShape ?? [stack.width, stack.height, stack.width];
+  if (volumeShape.some(n => n <= 0 || !Number.isInteger(n))) {
+    throw new Error(`Invalid volume shape ${volumeShape.join(" x ")}`);
+  }
+  return { detector: [stack.width, stack.height], tiltAngles, volumeShape };
+}
+
+/**
+ * Angular span each projection stands for, in radians: half the gap to each
+ * neighbouring angle, so unevenly spaced series are weighted fairly.
+ */
+export function angularWeights(tiltAngles: number[]): Float64Array {
+  const order = tiltAngles.map((_, i) => i).sort((a, b) => tiltAngles[a] - tiltAngles[b]);
+  const weights = new Float64Array(tiltAngles.length);
+  if (order.length === 1) {
+    weights[0] = Math.PI;
+    return weights;
+  }
+  for (let k = 0; k < order.length; k++) {
+    const lower = tiltAngles[order[Math.max(k - 1, 0)]];
+    const upper = tiltAngles[order[Math.min(k + 1, order.length - 1)]];
+    const span = k === 0 || k === order.length - 1 ? upper - lower : (upper - lower) / 2;
+    weights[order[k]] = span * RADIANS;
+  }
+  return weights;
+}
+
+/** Detector row that volume row `y` reads, or -1 when it falls outside the projections. */
+export function detectorRow(geometry: TiltGeometry, y: number): number {
+  const v = Math.round(y - (geometry.volumeShape[1] - 1) / 2 + (geometry.detector[1] - 1) / 2);
+  return v >= 0 && v < geometry.detector[1] ? v : -1;
+}
+
+/**
+ * Detector columns voxel column (x, z) reads from projection `index`, with
+ * their linear interpolation weights; empty when the ray misses the detector.
+ */
+export function detectorSamples(geometry: TiltGeometry, index: number, x: number, z: number): DetectorSample[] {
+  const [width] = geometry.detector;
+  const [volumeWidth, , thickness] = geometry.volumeShape;
+  const angle = geometry.tiltAngles[index] * RADIANS;
+  const u = (x - (volumeWidth - 1) / 2) * Math.cos(angle) + (z - (thickness - 1) / 2) * Math.sin(angle) + (width - 1) / 2;
+
+  const left = Math.floor(u);
+  const fraction = u - left;
+  const samples: DetectorSample[] = [];
+  if (left >= 0 && left < width) samples.push({ column: left, weight: 1 - fraction });
+  if (fraction > 0 && left + 1 >= 0 && left + 1 < width) samples.push({ column: left + 1, weight: fraction });
+  return samples;
+}
+
+/**
+ * Plaintext reference reconstruction of a tilt series: every projection is
+ * aligned when a record is given, each row filtered (ramp by default), then
+ * smeared back across the volume along its tilt angle and weighted by the
+ * angular span it covers. Returns a float32 stack of `volumeShape`, slices
+ * running along z.
+ */
+export function weightedBackProjection(stack: ImageStack, options: BackProjectionOptions = {}): ImageStack {
+  const geometry = tiltGeometry(stack, options);
+  const weighted = options.weighted ?? true;
+  const [width, height] = geometry.detector;
+  const [volumeWidth, volumeHeight, thickness] = geometry.volumeShape;
+  const spans = angularWeights(geometry.tiltAngles);
+  const filter = sampleFilter(options.filter ?? {}, width);
+  const aligned = options.alignment ? applyAlignment(stack, options.alignment) : stack;
+  const volume = new Float32Array(volumeWidth * volumeHeight * thickness);
+
+  for (let index = 0; index < stack.depth; index++) {
+    const projection = aligned.data.subarray(index * width * height, (index + 1) * width * height);
+
+    // Interpolation taps depend on (x, z) only, so they are shared by every row
+    const taps: DetectorSample[][] = [];
+    for (let z = 0; z < thickness; z++) {
+      for (let x = 0; x < volumeWidth; x++) taps.push(detectorSamples(geometry, index, x, z));
+    }
+
+    for (let y = 0; y < volumeHeight; y++) {
+      const v = detectorRow(geometry, y);
+      if (v < 0) continue;
+      const raw = projection.subarray(v * width, (v + 1) * width);
+      const row = weighted ? filterRow(raw, filter) : raw;
+
+      for (let z = 0; z < thickness; z++) {
+        for (let x = 0; x < volumeWidth; x++) {
+          let sum = 0;
+          for (const { column, weight } of taps[z * volumeWidth + x]) sum += weight * row[column];
+          volume[(z * volumeHeight + y) * volumeWidth + x] += spans[index] * sum;
+        }
+      }
+    }
+  }
+
+  return {
+    width: volumeWidth,
+    height: volumeHeight,
+    depth: thickness,
+    dtype: "float32",
+    data: volume,
+    pixelSpacing: { x: stack.pixelSpacing.x, y: stack.pixelSpacing.y, z: stack.pixelSpacing.x }
+  };
+}
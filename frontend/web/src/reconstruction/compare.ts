@@ -0,0 +1,57 @@
+// reconstruction/compare.ts
+import type { ImageStack } from "../formats/stack";
+
+export interface VolumeDifference {
+  maxAbsError: number;
+  rmse: number;
+  /** Pearson correlation; 1 when the volumes differ only by offset and scale. */
+  correlation: number;
+}
+
+/** Voxel-wise comparison of a reconstruction against a reference of the same shape. */
+export function diffVolumes(reference: ImageStack, candidate: ImageStack): VolumeDifference {
+  if (
+    reference.width !== candidate.width ||
+    reference.height !== candidate.height ||
+    reference.depth !== candidate.depth
+  ) {
+    throw new Error(
+      `Cannot compare a ${reference.width} x ${reference.height} x ${reference.depth} volume ` +
+      `with a ${candidate.width} x ${candidate.height} x ${candidate.depth} one`
+    );
+  }
+
+  const n = reference.data.length;
+  let maxAbsError = 0;
+  let squared = 0;
+  let sumA = 0;
+  let sumB = 0;
+  for (let i = 0; i < n; i++) {
+    const a = reference.data[i];
+    const b = candidate.data[i];
+    const error = Math.abs(a - b);
+    if (error > maxAbsError) maxAbsError = error;
+    squared += error * error;
+    sumA += a;
+    sumB += b;
+  }
+
+  const meanA = sumA / n;
+  const meanB = sumB / n;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = reference.data[i] - meanA;
+    const db = candidate.data[i] - meanB;
+    covariance += da * db;
+    varianceA += da * da;
+    varianceB += db * db;
+  }
+
+  return {
+    maxAbsError,
+    rmse: Math.sqrt(squared / n),
+    correlation: varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0
+  };
+}
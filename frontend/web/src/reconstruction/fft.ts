@@ -0,0 +1,114 @@
+// reconstruction/fft.ts
+
+export function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) size *= 2;
+  return size;
+}
+
+/**
+ * In-place radix-2 FFT of the complex signal (re, im), whose length must be
+ * a power of two. The inverse transform includes the 1/n normalisation.
+ */
+export function fft(re: Float64Array, im: Float64Array, inverse = false): void {
+  const n = re.length;
+  if (im.length !== n || (n & (n - 1)) !== 0) {
+    throw new Error(`FFT length must be a power of two, got ${re.length} and ${im.length}`);
+  }
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size *= 2) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        [wRe, wIm] = [wRe * stepRe - wIm * stepIm, wRe * stepIm + wIm * stepRe];
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
+
+/** In-place 2D FFT of a width x height signal stored row by row; both sides must be powers of two. */
+export function fft2(re: Float64Array, im: Float64Array, width: number, height: number, inverse = false): void {
+  if (re.length !== width * height || im.length !== width * height) {
+    throw new Error(`Expected ${width * height} values for a ${width} x ${height} FFT, got ${re.length}`);
+  }
+
+  for (let y = 0; y < height; y++) {
+    fft(re.subarray(y * width, (y + 1) * width), im.subarray(y * width, (y + 1) * width), inverse);
+  }
+
+  const columnRe = new Float64Array(height);
+  const columnIm = new Float64Array(height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      columnRe[y] = re[y * width + x];
+      columnIm[y] = im[y * width + x];
+    }
+    fft(columnRe, columnIm, inverse);
+    for (let y = 0; y < height; y++) {
+      re[y * width + x] = columnRe[y];
+      im[y * width + x] = columnIm[y];
+    }
+  }
+}
+
+/** In-place 3D FFT of a width x height x depth signal, x fastest; every side must be a power of two. */
+export function fft3(
+  re: Float64Array,
+  im: Float64Array,
+  width: number,
+  height: number,
+  depth: number,
+  inverse = false
+): void {
+  const plane = width * height;
+  if (re.length !== plane * depth || im.length !== plane * depth) {
+    throw new Error(`Expected ${plane * depth} values for a ${width} x ${height} x ${depth} FFT, got ${re.length}`);
+  }
+
+  for (let z = 0; z < depth; z++) {
+    fft2(re.subarray(z * plane, (z + 1) * plane), im.subarray(z * plane, (z + 1) * plane), width, height, inverse);
+  }
+
+  const columnRe = new Float64Array(depth);
+  const columnIm = new Float64Array(depth);
+  for (let i = 0; i < plane; i++) {
+    for (let z = 0; z < depth; z++) {
+      columnRe[z] = re[z * plane + i];
+      columnIm[z] = im[z * plane + i];
+    }
+    fft(columnRe, columnIm, inverse);
+    for (let z = 0; z < depth; z++) {
+      re[z * plane + i] = columnRe[z];
+      im[z * plane + i] = columnIm[z];
+    }
+  }
+}
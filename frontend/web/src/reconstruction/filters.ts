@@ -0,0 +1,143 @@
+// reconstruction/filters.ts
+import type { ImageStack } from "../formats/stack";
+import { fft, nextPowerOfTwo } from "./fft";
+
+export type FilterKind = "ramp" | "hamming" | "hann" | "shepp-logan" | "sirt";
+
+export const FILTER_KINDS: FilterKind[] = ["ramp", "hamming", "hann", "shepp-logan", "sirt"];
+
+export interface FilterOptions {
+  kind: FilterKind;
+  /** Low-pass cutoff as a fraction of the Nyquist frequency, in (0, 1]; higher frequencies are removed. */
+  cutoff: number;
+  /** Number of SIRT iterations the "sirt" filter imitates. */
+  iterations: number;
+}
+
+export const DEFAULT_FILTER: FilterOptions = { kind: "ramp", cutoff: 1, iterations: 10 };
+
+/**
+ * A filter sampled for rows of one length. Filtering is a linear convolution,
+ * out[i] = Σ_j kernel[i - j + length - 1] · row[j], so encrypted rows can be
+ * filtered by multiplying them with the public kernel taps; `response` is
+ * the same filter in the frequency domain, for fast plaintext filtering.
+ */
+export interface SampledFilter {
+  length: number;
+  /** Spatial taps for offsets -(length - 1) to length - 1. */
+  kernel: Float64Array;
+  /** Frequency response over `response.length` bins, the FFT size rows are padded to. */
+  response: Float64Array;
+}
+
+/** Discrete Ram-Lak ramp kernel for unit pixel spacing, taps -radius to radius. */
+export function rampKernel(radius: number): Float64Array {
+  const kernel = new Float64Array(2 * radius + 1);
+  kernel[radius] = 0.25;
+  for (let n = 1; n <= radius; n += 2) {
+    kernel[radius + n] = kernel[radius - n] = -1 / (Math.PI * Math.PI * n * n);
+  }
+  return kernel;
+}
+
+/**
+ * Apodisation applied on top of the ramp at `frequency` cycles per pixel
+ * (0 to 0.5). "sirt" approximates the damping of that many SIRT iterations,
+ * 1 - (1 - ρ)^k over the ramp ρ, normalised to 1 at zero frequency.
+ */
+export function filterWindow(options: FilterOptions, frequency: number): number {
+  const r = Math.abs(frequency) / (0.5 * options.cutoff);
+  if (r > 1) return 0;
+
+  switch (options.kind) {
+    case "ramp":
+      return 1;
+    case "hamming":
+      return 0.54 + 0.46 * Math.cos(Math.PI * r);
+    case "hann":
+      return 0.5 + 0.5 * Math.cos(Math.PI * r);
+    case "shepp-logan":
+      return r === 0 ? 1 : Math.sin((Math.PI * r) / 2) / ((Math.PI * r) / 2);
+    case "sirt": {
+      const rho = Math.abs(frequency) / 0.5;
+      const k = options.iterations;
+      return rho === 0 ? 1 : (1 - Math.pow(1 - rho, k)) / (k * rho);
+    }
+  }
+}
+
+function validate(options: FilterOptions) {
+  if (!FILTER_KINDS.includes(options.kind)) throw new Error(`Unknown filter "${options.kind}"`);
+  if (!(options.cutoff > 0 && options.cutoff <= 1)) {
+    throw new Error(`Filter cutoff must be in (0, 1], got ${options.cutoff}`);
+  }
+  if (!Number.isInteger(options.iterations) || options.iterations < 1) {
+    throw new Error(`SIRT iterations must be a positive integer, got ${options.iterations}`);
+  }
+}
+
+/**
+ * Samples a filter for rows of `length` pixels. The response is the DFT of
+ * the Ram-Lak kernel rather than a sampled |f|, which keeps the zero
+ * frequency right, times the filter's window; rows are padded to at least
+ * 2·length - 1 so the FFT's circular convolution equals the linear one.
+ */
+export function sampleFilter(options: Partial<FilterOptions>, length: number): SampledFilter {
+  const filter = { ...DEFAULT_FILTER, ...options };
+  validate(filter);
+  if (!Number.isInteger(length) || length < 1) throw new Error(`Invalid row length ${length}`);
+
+  const size = nextPowerOfTwo(2 * length - 1);
+  const ramp = rampKernel(length - 1);
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let offset = -(length - 1); offset < length; offset++) {
+    re[(offset + size) % size] = ramp[offset + length - 1];
+  }
+  fft(re, im);
+
+  const response = new Float64Array(size);
+  for (let k = 0; k < size; k++) {
+    response[k] = re[k] * filterWindow(filter, Math.min(k, size - k) / size);
+  }
+
+  // Back in the spatial domain the windowed response is the kernel the
+  // encrypted path multiplies by; offsets past ±(length - 1) never meet a row
+  const kernelRe = Float64Array.from(response);
+  fft(kernelRe, new Float64Array(size), true);
+  const kernel = new Float64Array(2 * length - 1);
+  for (let offset = -(length - 1); offset < length; offset++) {
+    kernel[offset + length - 1] = kernelRe[(offset + size) % size];
+  }
+
+  return { length, kernel, response };
+}
+
+/** Filters one row through the FFT; equal to convolving it with `filter.kernel`. */
+export function filterRow(row: ArrayLike<number>, filter: SampledFilter): Float64Array {
+  if (row.length !== filter.length) {
+    throw new Error(`Filter was sampled for rows of ${filter.length} pixels, got ${row.length}`);
+  }
+  const size = filter.response.length;
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < row.length; i++) re[i] = row[i];
+
+  fft(re, im);
+  for (let k = 0; k < size; k++) {
+    re[k] *= filter.response[k];
+    im[k] *= filter.response[k];
+  }
+  fft(re, im, true);
+  return re.subarray(0, row.length);
+}
+
+/** Filters every row of every image across x, perpendicular to the tilt axis. Returns a float32 stack. */
+export function filterProjections(stack: ImageStack, options: Partial<FilterOptions> = {}): ImageStack {
+  const filter = sampleFilter(options, stack.width);
+  const data = new Float32Array(stack.width * stack.height * stack.depth);
+  for (let start = 0; start < data.length; start += stack.width) {
+    data.set(filterRow(stack.data.subarray(start, start + stack.width), filter), start);
+  }
+  return { ...stack, dtype: "float32", data };
+}
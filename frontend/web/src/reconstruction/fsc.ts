@@ -0,0 +1,212 @@
+// reconstruction/fsc.ts
+import type { ImageStack } from "../formats/stack";
+import { AlignmentRecord, applyAlignment, binAlignment, binFactor, binStack } from "./alignment";
+import { weightedBackProjection } from "./backProjection";
+import { fft3, nextPowerOfTwo } from "./fft";
+import type { FilterOptions } from "./filters";
+
+/** Correlation of two reconstructions over shells of equal spatial frequency. */
+export interface FscCurve {
+  /** Shell frequencies in cycles per pixel, evenly spaced from 0 to Nyquist (0.5). */
+  frequency: number[];
+  correlation: number[];
+}
+
+/**
+ * 0.143 is the criterion for independent half-set reconstructions; 0.5 is
+ * the older, more conservative one, still quoted alongside it.
+ */
+export const FSC_THRESHOLDS = [0.143, 0.5];
+
+export interface FscResolution {
+  threshold: number;
+  /** Frequency where the curve first falls below the threshold, in cycles per pixel. */
+  frequency: number;
+  /** 1 / frequency, in pixels. */
+  resolution: number;
+  /** The curve stays above the threshold up to Nyquist, so the resolution is only a bound. */
+  atNyquist: boolean;
+}
+
+export interface ResolutionEstimate {
+  curve: FscCurve;
+  /** Ångström per pixel of the reconstructions the curve was measured on; 0 when unknown. */
+  pixelSpacing: number;
+  /** One per FSC_THRESHOLDS entry. */
+  resolutions: FscResolution[];
+}
+
+export interface ResolutionOptions {
+  alignment?: AlignmentRecord;
+  filter?: Partial<FilterOptions>;
+  /** Projections are binned down to at most this many pixels on a side first. */
+  maxSize: number;
+}
+
+export const DEFAULT_RESOLUTION_OPTIONS: ResolutionOptions = { maxSize: 128 };
+
+/** Correlations and pixel spacings are stored on chain as integers in thousandths. */
+export const FSC_SCALE = 1000;
+
+/**
+ * Splits a tilt series into two half-sets by alternating tilts in angle
+ * order, so each covers the whole tilt range at twice the increment.
+ */
+export function splitHalfSets(stack: ImageStack): [ImageStack, ImageStack] {
+  const angles = stack.tiltAngles;
+  if (!angles || angles.length !== stack.depth) throw new Error("Half-sets need the tilt angle of every image");
+  if (stack.depth < 2) throw new Error("Half-sets need at least two images");
+
+  const imageSize = stack.width * stack.height;
+  const order = angles.map((_, i) => i).sort((a, b) => angles[a] - angles[b]);
+  const half = (parity: number): ImageStack => {
+    const indices = order.filter((_, k) => k % 2 === parity);
+    const data = new Float32Array(imageSize * indices.length);
+    indices.forEach((index, k) => data.set(stack.data.subarray(index * imageSize, (index + 1) * imageSize), k * imageSize));
+    return {
+      ...stack,
+      depth: indices.length,
+      dtype: "float32",
+      data,
+      tiltAngles: indices.map(index => angles[index]),
+      pageTags: undefined
+    };
+  };
+  return [half(0), half(1)];
+}
+
+/** Mean-free copy of a volume, zero-padded to power-of-two sides. */
+function padVolume(volume: ImageStack, size: [number, number, number]): Float64Array {
+  const [width, height] = size;
+  let mean = 0;
+  for (let i = 0; i < volume.data.length; i++) mean += volume.data[i];
+  mean /= volume.data.length;
+
+  const padded = new Float64Array(size[0] * size[1] * size[2]);
+  for (let z = 0; z < volume.depth; z++) {
+    for (let y = 0; y < volume.height; y++) {
+      for (let x = 0; x < volume.width; x++) {
+        padded[(z * height + y) * width + x] = volume.data[(z * volume.height + y) * volume.width + x] - mean;
+      }
+    }
+  }
+  return padded;
+}
+
+/**
+ * Fourier shell correlation of two volumes of the same shape. Shells are
+ * one frequency sample of the longest padded side wide, from zero up to
+ * Nyquist; corners of the spectrum beyond Nyquist are left out.
+ */
+export function fourierShellCorrelation(a: ImageStack, b: ImageStack): FscCurve {
+  if (a.width !== b.width || a.height !== b.height || a.depth !== b.depth) {
+    throw new Error(
+      `Cannot correlate a ${a.width} x ${a.height} x ${a.depth} volume ` +
+      `with a ${b.width} x ${b.height} x ${b.depth} one`
+    );
+  }
+
+  const size: [number, number, number] = [nextPowerOfTwo(a.width), nextPowerOfTwo(a.height), nextPowerOfTwo(a.depth)];
+  const [width, height, depth] = size;
+  const aRe = padVolume(a, size);
+  const aIm = new Float64Array(aRe.length);
+  const bRe = padVolume(b, size);
+  const bIm = new Float64Array(bRe.length);
+  fft3(aRe, aIm, width, height, depth);
+  fft3(bRe, bIm, width, height, depth);
+
+  const samples = Math.max(width, height, depth);
+  const shells = samples / 2 + 1;
+  const cross = new Float64Array(shells);
+  const powerA = new Float64Array(shells);
+  const powerB = new Float64Array(shells);
+  const frequencyOf = (k: number, n: number) => Math.min(k, n - k) / n;
+
+  for (let z = 0; z < depth; z++) {
+    const fz = frequencyOf(z, depth);
+    for (let y = 0; y < height; y++) {
+      const fy = frequencyOf(y, height);
+      for (let x = 0; x < width; x++) {
+        const fx = frequencyOf(x, width);
+        const shell = Math.round(Math.sqrt(fx * fx + fy * fy + fz * fz) * samples);
+        if (shell >= shells) continue;
+        const i = (z * height + y) * width + x;
+        cross[shell] += aRe[i] * bRe[i] + aIm[i] * bIm[i];
+        powerA[shell] += aRe[i] * aRe[i] + aIm[i] * aIm[i];
+        powerB[shell] += bRe[i] * bRe[i] + bIm[i] * bIm[i];
+      }
+    }
+  }
+
+  const frequency: number[] = [];
+  const correlation: number[] = [];
+  for (let shell = 0; shell < shells; shell++) {
+    const power = Math.sqrt(powerA[shell] * powerB[shell]);
+    frequency.push(shell / samples);
+    correlation.push(power > 0 ? cross[shell] / power : 0);
+  }
+  return { frequency, correlation };
+}
+
+/**
+ * Where the curve first falls below `threshold`, interpolated between the
+ * shells either side. The zero-frequency shell is skipped: subtracting the
+ * mean leaves nothing in it to correlate.
+ */
+export function thresholdResolution(curve: FscCurve, threshold: number): FscResolution {
+  const { frequency, correlation } = curve;
+  for (let shell = 1; shell < correlation.length; shell++) {
+    if (correlation[shell] >= threshold) continue;
+    const above = correlation[shell - 1];
+    const t = shell > 1 ? (above - threshold) / (above - correlation[shell]) : 1;
+    const crossing = frequency[shell - 1] + t * (frequency[shell] - frequency[shell - 1]);
+    return { threshold, frequency: crossing, resolution: 1 / crossing, atNyquist: false };
+  }
+  const nyquist = frequency[frequency.length - 1];
+  return { threshold, frequency: nyquist, resolution: 1 / nyquist, atNyquist: true };
+}
+
+const resolutionsOf = (curve: FscCurve) => FSC_THRESHOLDS.map(threshold => thresholdResolution(curve, threshold));
+
+/**
+ * Resolution of a tilt series from the FSC of its two half-set weighted
+ * back-projections. Projections are binned to `maxSize`, then aligned, so the
+ * estimate cannot be finer than twice the binned pixel spacing.
+ */
+export function estimateResolution(
+  stack: ImageStack,
+  options: Partial<ResolutionOptions> = {}
+): ResolutionEstimate {
+  const { alignment, filter, maxSize } = { ...DEFAULT_RESOLUTION_OPTIONS, ...options };
+  const factor = binFactor(stack, maxSize);
+  const binned = binStack(stack, factor);
+  const aligned = alignment ? applyAlignment(binned, binAlignment(alignment, factor, stack.width, stack.height)) : binned;
+  const [even, odd] = splitHalfSets(aligned).map(half => weightedBackProjection(half, { filter }));
+  const curve = fourierShellCorrelation(even, odd);
+  return { curve, pixelSpacing: binned.pixelSpacing.x, resolutions: resolutionsOf(curve) };
+}
+
+/** "2.4 Å", in pixels when the spacing is unknown; "≤" marks a bound reached at Nyquist. */
+export function formatResolution(resolution: FscResolution, pixelSpacing: number): string {
+  const bound = resolution.atNyquist ? "≤ " : "";
+  return pixelSpacing > 0
+    ? `${bound}${(resolution.resolution * pixelSpacing).toFixed(1)} Å`
+    : `${bound}${resolution.resolution.toFixed(1)} px`;
+}
+
+export function encodeFsc(estimate: ResolutionEstimate) {
+  return {
+    pixelSpacing: Math.round(estimate.pixelSpacing * FSC_SCALE),
+    correlation: estimate.curve.correlation.map(value => Math.round(value * FSC_SCALE))
+  };
+}
+
+/** Rebuilds an estimate from its stored form; shells are evenly spaced up to Nyquist. */
+export function decodeFsc(pixelSpacing: bigint | number, correlation: (bigint | number)[]): ResolutionEstimate {
+  const shells = correlation.length;
+  const curve: FscCurve = {
+    frequency: correlation.map((_, shell) => (0.5 * shell) / (shells - 1)),
+    correlation: correlation.map(value => Number(value) / FSC_SCALE)
+  };
+  return { curve, pixelSpacing: Number(pixelSpacing) / FSC_SCALE, resolutions: resolutionsOf(curve) };
+}
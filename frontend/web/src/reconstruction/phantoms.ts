@@ -0,0 +1,138 @@
+// reconstruction/phantoms.ts
+import type { ImageStack } from "../formats/stack";
+import type { Shape3 } from "../tiling";
+
+/** An ellipsoid in coordinates normalised to [-1, 1] along each axis of the volume. */
+interface Ellipsoid {
+  value: number;
+  axes: [number, number, number];
+  centre: [number, number, number];
+  /** Euler angles phi, theta, psi, in degrees. */
+  angles: [number, number, number];
+}
+
+// Modified 3D Shepp-Logan phantom, with the contrast raised so the inner structures stand out
+const SHEPP_LOGAN: Ellipsoid[] = [
+  { value: 1, axes: [0.69, 0.92, 0.81], centre: [0, 0, 0], angles: [0, 0, 0] },
+  { value: -0.8, axes: [0.6624, 0.874, 0.78], centre: [0, -0.0184, 0], angles: [0, 0, 0] },
+  { value: -0.2, axes: [0.11, 0.31, 0.22], centre: [0.22, 0, 0], angles: [-18, 0, 10] },
+  { value: -0.2, axes: [0.16, 0.41, 0.28], centre: [-0.22, 0, 0], angles: [18, 0, 10] },
+  { value: 0.1, axes: [0.21, 0.25, 0.41], centre: [0, 0.35, -0.15], angles: [0, 0, 0] },
+  { value: 0.1, axes: [0.046, 0.046, 0.05], centre: [0, 0.1, 0.25], angles: [0, 0, 0] },
+  { value: 0.1, axes: [0.046, 0.046, 0.05], centre: [0, -0.1, 0.25], angles: [0, 0, 0] },
+  { value: 0.1, axes: [0.046, 0.023, 0.05], centre: [-0.08, -0.605, 0], angles: [0, 0, 0] },
+  { value: 0.1, axes: [0.023, 0.023, 0.02], centre: [0, -0.606, 0], angles: [0, 0, 0] },
+  { value: 0.1, axes: [0.023, 0.046, 0.02], centre: [0.06, -0.605, 0], angles: [0, 0, 0] }
+];
+
+export interface BeadPhantomOptions {
+  count: number;
+  /** Bead radius, in voxels. */
+  radius: number;
+  value: number;
+  /** Seeds the bead placement, so the same options always give the same phantom. */
+  seed: number;
+}
+
+export const DEFAULT_BEAD_OPTIONS: BeadPhantomOptions = { count: 20, radius: 2, value: 1, seed: 1 };
+
+const RADIANS = Math.PI / 180;
+
+const emptyVolume = (shape: Shape3): ImageStack => ({
+  width: shape[0],
+  height: shape[1],
+  depth: shape[2],
+  dtype: "float32",
+  data: new Float32Array(shape[0] * shape[1] * shape[2]),
+  pixelSpacing: { x: 1, y: 1, z: 1 }
+});
+
+/** Rotation taking volume coordinates into an ellipsoid's own frame. */
+const rotation = ([phi, theta, psi]: [number, number, number]): number[] => {
+  const [cphi, sphi] = [Math.cos(phi * RADIANS), Math.sin(phi * RADIANS)];
+  const [ctheta, stheta] = [Math.cos(theta * RADIANS), Math.sin(theta * RADIANS)];
+  const [cpsi, spsi] = [Math.cos(psi * RADIANS), Math.sin(psi * RADIANS)];
+  return [
+    cpsi * cphi - ctheta * sphi * spsi, cpsi * sphi + ctheta * cphi * spsi, spsi * stheta,
+    -spsi * cphi - ctheta * sphi * cpsi, -spsi * sphi + ctheta * cphi * cpsi, cpsi * stheta,
+    stheta * sphi, -stheta * cphi, ctheta
+  ];
+};
+
+/** Coordinate of voxel centre `i` of `n`, normalised to [-1, 1]. */
+const normalised = (i: number, n: number) => (2 * i + 1) / n - 1;
+
+/**
+ * 3D Shepp-Logan head phantom: ten overlapping ellipsoids whose values add
+ * up, ranging from 0 to 1. Phantom x, y and z map to the volume's width,
+ * height and depth.
+ */
+export function sheppLogan3d(shape: Shape3): ImageStack {
+  const volume = emptyVolume(shape);
+  const [width, height, depth] = shape;
+
+  for (const ellipsoid of SHEPP_LOGAN) {
+    const r = rotation(ellipsoid.angles);
+    const [a, b, c] = ellipsoid.axes;
+    const [cx, cy, cz] = ellipsoid.centre;
+
+    for (let z = 0; z < depth; z++) {
+      const pz = normalised(z, depth) - cz;
+      for (let y = 0; y < height; y++) {
+        const py = normalised(y, height) - cy;
+        for (let x = 0; x < width; x++) {
+          const px = normalised(x, width) - cx;
+          const u = (r[0] * px + r[1] * py + r[2] * pz) / a;
+          const v = (r[3] * px + r[4] * py + r[5] * pz) / b;
+          const w = (r[6] * px + r[7] * py + r[8] * pz) / c;
+          if (u * u + v * v + w * w <= 1) volume.data[(z * height + y) * width + x] += ellipsoid.value;
+        }
+      }
+    }
+  }
+  return volume;
+}
+
+/** Small deterministic generator (mulberry32) returning values in [0, 1). */
+const random = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Gold-fiducial-like phantom: solid spheres scattered through an empty
+ * volume, kept inside it and apart from each other. Gives alignment and
+ * reconstruction tests sharp, well separated features.
+ */
+export function beadPhantom(shape: Shape3, options: Partial<BeadPhantomOptions> = {}): ImageStack {
+  const { count, radius, value, seed } = { ...DEFAULT_BEAD_OPTIONS, ...options };
+  const volume = emptyVolume(shape);
+  const [width, height, depth] = shape;
+  if (shape.some(n => n <= 2 * radius)) {
+    throw new Error(`A ${width} x ${height} x ${depth} volume cannot hold beads of radius ${radius}`);
+  }
+
+  const next = random(seed);
+  const place = (n: number) => radius + next() * (n - 1 - 2 * radius);
+  const beads: [number, number, number][] = [];
+  for (let attempt = 0; beads.length < count && attempt < count * 100; attempt++) {
+    const bead: [number, number, number] = [place(width), place(height), place(depth)];
+    if (beads.every(other => Math.hypot(bead[0] - other[0], bead[1] - other[1], bead[2] - other[2]) > 2 * radius + 1)) {
+      beads.push(bead);
+    }
+  }
+  if (beads.length < count) throw new Error(`Only ${beads.length} of ${count} beads fit without overlapping`);
+
+  for (const [bx, by, bz] of beads) {
+    for (let z = Math.ceil(bz - radius); z <= Math.floor(bz + radius); z++) {
+      for (let y = Math.ceil(by - radius); y <= Math.floor(by + radius); y++) {
+        for (let x = Math.ceil(bx - radius); x <= Math.floor(bx + radius); x++) {
+          if (Math.hypot(x - bx, y - by, z - bz) <= radius) volume.data[(z * height + y) * width + x] = value;
+        }
+      }
+    }
+  }
+  return volume;
+}
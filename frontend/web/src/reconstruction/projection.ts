@@ -0,0 +1,65 @@
+// reconstruction/projection.ts
+import type { ImageStack } from "../formats/stack";
+import { DetectorSample, detectorRow, detectorSamples, TiltGeometry } from "./backProjection";
+
+export interface ProjectionOptions {
+  /** Tilt angle of each projection, in degrees. */
+  tiltAngles: number[];
+  /** Projection width and height; defaults to the volume's width and height. */
+  detector?: [number, number];
+}
+
+/** Evenly spaced tilt angles from `min` to `max` degrees inclusive, as a tilt series records them. */
+export function tiltRange(min: number, max: number, step: number): number[] {
+  if (step <= 0 || max < min) throw new Error(`Invalid tilt range ${min} to ${max} by ${step}`);
+  const count = Math.floor((max - min) / step + 1e-9) + 1;
+  return Array.from({ length: count }, (_, i) => min + i * step);
+}
+
+/**
+ * Radon transform of a volume under the single-axis tilt geometry of
+ * weightedBackProjection: each voxel's value is spread over the detector
+ * columns its ray hits with the same interpolation weights the
+ * back-projector reads them with, so the two are exact adjoints. Returns a
+ * float32 tilt series, one image per angle, with the angles recorded.
+ */
+export function forwardProject(volume: ImageStack, options: ProjectionOptions): ImageStack {
+  const [width, height] = options.detector ?? [volume.width, volume.height];
+  const geometry: TiltGeometry = {
+    detector: [width, height],
+    tiltAngles: options.tiltAngles,
+    volumeShape: [volume.width, volume.height, volume.depth]
+  };
+  const projections = new Float32Array(width * height * options.tiltAngles.length);
+
+  for (let index = 0; index < options.tiltAngles.length; index++) {
+    const taps: DetectorSample[][] = [];
+    for (let z = 0; z < volume.depth; z++) {
+      for (let x = 0; x < volume.width; x++) taps.push(detectorSamples(geometry, index, x, z));
+    }
+
+    for (let y = 0; y < volume.height; y++) {
+      const v = detectorRow(geometry, y);
+      if (v < 0) continue;
+      const row = (index * height + v) * width;
+
+      for (let z = 0; z < volume.depth; z++) {
+        for (let x = 0; x < volume.width; x++) {
+          const value = volume.data[(z * volume.height + y) * volume.width + x];
+          if (value === 0) continue;
+          for (const { column, weight } of taps[z * volume.width + x]) projections[row + column] += weight * value;
+        }
+      }
+    }
+  }
+
+  return {
+    width,
+    height,
+    depth: options.tiltAngles.length,
+    dtype: "float32",
+    data: projections,
+    pixelSpacing: { x: volume.pixelSpacing.x, y: volume.pixelSpacing.y, z: 0 },
+    tiltAngles: [...options.tiltAngles]
+  };
+}
@@ -0,0 +1,15 @@
+// reconstruction/seriesAnalysis.worker.ts
+import type { ImageStack } from "../formats/stack";
+import { alignTiltSeries } from "./alignment";
+import { estimateResolution } from "./fsc";
+
+// Aligns the (binned) tilt series it is sent and estimates its resolution, off the page's thread
+self.onmessage = (event: MessageEvent<ImageStack>) => {
+  try {
+    const alignment = alignTiltSeries(event.data);
+    const fsc = estimateResolution(event.data, { alignment });
+    self.postMessage({ alignment, fsc });
+  } catch (err: any) {
+    self.postMessage({ error: err.message || "Unknown error" });
+  }
+};
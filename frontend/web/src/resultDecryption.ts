@@ -0,0 +1,55 @@
+// resultDecryption.ts
+import type { ethers } from "ethers";
+import { createUserDecryption } from "./fhe";
+import type { ImageStack } from "./formats/stack";
+import { getPixelSpacing, getResultManifest, getResultVoxels } from "./imageRepository";
+import { insertTile, tileCount, tileVoxelCount } from "./tiling";
+
+export interface ResultDecryptionProgress {
+  tilesDone: number;
+  tileCount: number;
+}
+
+/** Result voxels are int32 sums carried in euint32, so the top bit is the sign. */
+const toSigned = (value: bigint): number => Number(BigInt.asIntN(32, value));
+
+/**
+ * Decrypts the reconstructed volume of `imageId` tile by tile under one
+ * permit signed by `signer`, the image's owner. The volume only ever exists
+ * in this page's memory. Returns a float32 stack in the result's units, with
+ * the pixel spacing recorded for the source stack.
+ */
+export async function decryptResultVolume(
+  imageId: string,
+  signer: ethers.Signer,
+  onProgress?: (progress: ResultDecryptionProgress) => void
+): Promise<ImageStack> {
+  const manifest = await getResultManifest(imageId);
+  if (!manifest) throw new Error(`Image ${imageId} has no reconstruction result`);
+  if (manifest.tilesCompleted < manifest.tileCount) {
+    throw new Error(`Only ${manifest.tilesCompleted} of ${manifest.tileCount} result tiles are written`);
+  }
+
+  const decryption = await createUserDecryption(signer);
+  const [width, height, depth] = manifest.shape;
+  const data = new Float32Array(width * height * depth);
+  const total = tileCount(manifest);
+  const signed = manifest.dtype.startsWith("int");
+  for (let index = 0; index < total; index++) {
+    const handles = await getResultVoxels(imageId, index, 0, tileVoxelCount(manifest));
+    const values = await decryption.decrypt(handles);
+    insertTile(data, manifest, index, values.map(value => (signed ? toSigned(value) : Number(value))), manifest.scaling);
+    onProgress?.({ tilesDone: index + 1, tileCount: total });
+  }
+
+  // The volume keeps the projections' pixels across x and y, and its slices are as thick as a pixel is wide
+  const source = await getPixelSpacing(imageId);
+  return {
+    width,
+    height,
+    depth,
+    dtype: "float32",
+    data,
+    pixelSpacing: { x: source.x, y: source.y, z: source.x }
+  };
+}
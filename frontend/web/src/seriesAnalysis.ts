@@ -0,0 +1,40 @@
+// seriesAnalysis.ts
+import type { ImageStack } from "./formats/stack";
+import { AlignmentRecord, binFactor, binStack, unbinAlignment } from "./reconstruction/alignment";
+import type { ResolutionEstimate } from "./reconstruction/fsc";
+
+export interface SeriesAnalysis {
+  /** Alignment of the full-resolution series. */
+  alignment: AlignmentRecord;
+  fsc: ResolutionEstimate;
+}
+
+/** Tilt series are binned down to at most this many pixels on a side before they are analysed. */
+export const ANALYSIS_SIZE = 512;
+
+/**
+ * Aligns a tilt series and estimates its resolution in a Web Worker, so the
+ * page stays responsive. Only a binned copy of the series is sent to the
+ * worker; the alignment it measures is scaled back to the full-size images.
+ */
+export async function analyseTiltSeries(stack: ImageStack): Promise<SeriesAnalysis> {
+  const factor = binFactor(stack, ANALYSIS_SIZE);
+  const binned = binStack(stack, factor);
+  const worker = new Worker(new URL("./reconstruction/seriesAnalysis.worker.ts", import.meta.url), {
+    type: "module"
+  });
+  try {
+    const analysis = await new Promise<SeriesAnalysis>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<SeriesAnalysis | { error: string }>) => {
+        if ("error" in event.data) reject(new Error(event.data.error));
+        else resolve(event.data);
+      };
+      worker.onerror = event => reject(new Error(event.message || "Series analysis failed"));
+      // A binned copy is handed over outright; an unbinned stack is still the caller's, so it is copied
+      worker.postMessage(binned, binned === stack ? [] : [binned.data.buffer]);
+    });
+    return { ...analysis, alignment: unbinAlignment(analysis.alignment, factor, stack.width, stack.height) };
+  } finally {
+    worker.terminate();
+  }
+}
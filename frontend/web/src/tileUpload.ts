@@ -0,0 +1,56 @@
+// tileUpload.ts
+import { encryptUint32 } from "./fhe";
+import type { ImageStack } from "./formats/stack";
+import { getTileManifest, getTileVoxelCount, recordTileManifest, uploadTileVoxels } from "./imageRepository";
+import { chooseScaling, DEFAULT_ENCRYPTED_WIDTH, EncryptedWidth } from "./quantization";
+import {
+  DEFAULT_TILE_SHAPE,
+  extractTile,
+  Shape3,
+  TILE_BATCH_SIZE,
+  tileCount,
+  tileGrid
+} from "./tiling";
+
+export interface TileUploadProgress {
+  tilesDone: number;
+  tileCount: number;
+}
+
+/**
+ * Partitions `stack` into tiles, quantizes each tile's voxels to `bits`,
+ * encrypts them and uploads them in batches of TILE_BATCH_SIZE. Resumes
+ * after the batches already on chain when called again for the same image,
+ * keeping the scaling recorded the first time.
+ */
+export async function uploadStackTiles(
+  imageId: string,
+  stack: ImageStack,
+  account: string,
+  onProgress?: (progress: TileUploadProgress) => void,
+  tileShape: Shape3 = DEFAULT_TILE_SHAPE,
+  bits: EncryptedWidth = DEFAULT_ENCRYPTED_WIDTH
+): Promise<void> {
+  let manifest = await getTileManifest(imageId);
+  if (!manifest) {
+    const grid = tileGrid([stack.width, stack.height, stack.depth], tileShape);
+    await recordTileManifest(imageId, { ...grid, dtype: stack.dtype, scaling: chooseScaling(stack, bits) });
+    manifest = await getTileManifest(imageId);
+    if (!manifest) {
+      throw new Error(`Tile manifest for image ${imageId} was not recorded`);
+    }
+  }
+
+  const grid = tileGrid(manifest.shape, manifest.tileShape);
+  const total = tileCount(grid);
+  for (let index = 0; index < total; index++) {
+    const voxels = extractTile(stack, grid, index, manifest.scaling);
+    let uploaded = await getTileVoxelCount(imageId, index);
+    while (uploaded < voxels.length) {
+      const batch = Array.from(voxels.subarray(uploaded, uploaded + TILE_BATCH_SIZE));
+      await uploadTileVoxels(imageId, index, await encryptUint32(batch, account));
+      uploaded += batch.length;
+    }
+    onProgress?.({ tilesDone: index + 1, tileCount: total });
+  }
+}
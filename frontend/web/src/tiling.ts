@@ -0,0 +1,140 @@
+// tiling.ts
+import type { ImageStack, VoxelDtype } from "./formats/stack";
+import { dequantize, quantize, ValueScaling } from "./quantization";
+
+/** Width, height and depth, in voxels. */
+export type Shape3 = [number, number, number];
+
+/**
+ * How a stack is partitioned into tiles. Tiles are numbered x fastest,
+ * then y, then z; voxels inside a tile follow the same order, and edge
+ * tiles are padded with zeros to the full tile shape.
+ */
+export interface TileGrid {
+  shape: Shape3;
+  tileShape: Shape3;
+  /** Tiles along each axis. */
+  counts: Shape3;
+}
+
+export interface TileManifest extends TileGrid {
+  dtype: VoxelDtype;
+  scaling: ValueScaling;
+  tileCount: number;
+  tilesCompleted: number;
+}
+
+/** Voxel types in the order the contract's tile manifest records them. */
+export const MANIFEST_DTYPES: VoxelDtype[] = ["int8", "uint8", "int16", "uint16", "int32", "uint32", "float32", "float64"];
+
+/** Ciphertexts one encrypted input can carry; matches MAX_TILE_BATCH in the contract. */
+export const TILE_BATCH_SIZE = 64;
+
+/** One tile per encrypted input. */
+export const DEFAULT_TILE_SHAPE: Shape3 = [8, 8, 1];
+
+const FIXED_POINT_ONE = 10n ** 18n;
+
+/** Converts to the contract's 18-decimal fixed point. */
+export function toFixedPoint(value: number): bigint {
+  const whole = Math.trunc(value);
+  return BigInt(whole) * FIXED_POINT_ONE + BigInt(Math.round((value - whole) * 1e18));
+}
+
+export function fromFixedPoint(value: bigint): number {
+  return Number(value / FIXED_POINT_ONE) + Number(value % FIXED_POINT_ONE) / 1e18;
+}
+
+export function tileGrid(shape: Shape3, tileShape: Shape3): TileGrid {
+  if (tileShape.some(n => n <= 0 || !Number.isInteger(n))) {
+    throw new Error(`Invalid tile shape ${tileShape.join(" x ")}`);
+  }
+  return {
+    shape,
+    tileShape,
+    counts: shape.map((n, axis) => Math.ceil(n / tileShape[axis])) as Shape3
+  };
+}
+
+export function tileCount(grid: TileGrid): number {
+  return grid.counts[0] * grid.counts[1] * grid.counts[2];
+}
+
+export function tileVoxelCount(grid: TileGrid): number {
+  return grid.tileShape[0] * grid.tileShape[1] * grid.tileShape[2];
+}
+
+/** Voxel coordinates of the first voxel of tile `index`. */
+export function tileOrigin(grid: TileGrid, index: number): Shape3 {
+  const [cx, cy] = grid.counts;
+  return [
+    (index % cx) * grid.tileShape[0],
+    (Math.floor(index / cx) % cy) * grid.tileShape[1],
+    Math.floor(index / (cx * cy)) * grid.tileShape[2]
+  ];
+}
+
+/** Index of the tile holding voxel (x, y, z). */
+export function tileIndexAt(grid: TileGrid, x: number, y: number, z: number): number {
+  const [cx, cy] = grid.counts;
+  const [tx, ty, tz] = grid.tileShape;
+  return Math.floor(x / tx) + Math.floor(y / ty) * cx + Math.floor(z / tz) * cx * cy;
+}
+
+/** Tiles overlapping the sub-volume from `min` (inclusive) to `max` (exclusive). */
+export function tilesInRegion(grid: TileGrid, min: Shape3, max: Shape3): number[] {
+  const first = min.map((n, axis) => Math.max(0, Math.floor(n / grid.tileShape[axis])));
+  const last = max.map((n, axis) => Math.min(grid.counts[axis], Math.ceil(n / grid.tileShape[axis])));
+  const [cx, cy] = grid.counts;
+
+  const tiles: number[] = [];
+  for (let z = first[2]; z < last[2]; z++) {
+    for (let y = first[1]; y < last[1]; y++) {
+      for (let x = first[0]; x < last[0]; x++) tiles.push(x + y * cx + z * cx * cy);
+    }
+  }
+  return tiles;
+}
+
+/** Quantized voxels of tile `index`, zero-padded past the stack's edges. */
+export function extractTile(stack: ImageStack, grid: TileGrid, index: number, scaling: ValueScaling): Uint32Array {
+  const [ox, oy, oz] = tileOrigin(grid, index);
+  const [tx, ty, tz] = grid.tileShape;
+  const out = new Uint32Array(tx * ty * tz);
+
+  let i = 0;
+  for (let z = oz; z < oz + tz; z++) {
+    for (let y = oy; y < oy + ty; y++) {
+      for (let x = ox; x < ox + tx; x++, i++) {
+        if (x < stack.width && y < stack.height && z < stack.depth) {
+          out[i] = quantize(stack.data[(z * stack.height + y) * stack.width + x], scaling);
+        }
+      }
+    }
+  }
+  return out;
+}
+
+/** Writes dequantized tile values into a volume of the grid's shape, dropping the padding. */
+export function insertTile(
+  volume: Float32Array,
+  grid: TileGrid,
+  index: number,
+  values: ArrayLike<number>,
+  scaling: ValueScaling
+): void {
+  const [width, height, depth] = grid.shape;
+  const [ox, oy, oz] = tileOrigin(grid, index);
+  const [tx, ty, tz] = grid.tileShape;
+
+  let i = 0;
+  for (let z = oz; z < oz + tz; z++) {
+    for (let y = oy; y < oy + ty; y++) {
+      for (let x = ox; x < ox + tx; x++, i++) {
+        if (x < width && y < height && z < depth && i < values.length) {
+          volume[(z * height + y) * width + x] = dequantize(values[i], scaling);
+        }
+      }
+    }
+  }
+}
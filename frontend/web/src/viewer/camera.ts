@@ -0,0 +1,42 @@
+// viewer/camera.ts
+
+/** Camera orbiting the origin, the scene scaled so the volume's longest side is 1. */
+export interface OrbitView {
+  /** Turn about the vertical axis and tilt towards the viewer, in degrees. */
+  yaw: number;
+  pitch: number;
+  /** 1 fits the whole volume in view. */
+  zoom: number;
+}
+
+export interface OrbitCamera {
+  eye: number[];
+  right: number[];
+  up: number[];
+  forward: number[];
+}
+
+const RADIANS = Math.PI / 180;
+
+/** 1 / tan of half the 30° vertical field of view. */
+export const FOCAL_LENGTH = 1 / Math.tan(15 * RADIANS);
+
+const normalize = ([x, y, z]: number[]) => {
+  const length = Math.hypot(x, y, z);
+  return [x / length, y / length, z / length];
+};
+
+const cross = ([ax, ay, az]: number[], [bx, by, bz]: number[]) => [ay * bz - az * by, az * bx - ax * bz, ax * by - ay * bx];
+
+export function orbitCamera({ yaw, pitch, zoom }: OrbitView): OrbitCamera {
+  const distance = 2 / zoom;
+  const eye = [
+    distance * Math.cos(pitch * RADIANS) * Math.sin(yaw * RADIANS),
+    distance * Math.sin(pitch * RADIANS),
+    distance * Math.cos(pitch * RADIANS) * Math.cos(yaw * RADIANS)
+  ];
+  const forward = normalize(eye.map(c => -c));
+  const right = normalize(cross(forward, [0, 1, 0]));
+  const up = cross(right, forward);
+  return { eye, right, up, forward };
+}
@@ -0,0 +1,239 @@
+// viewer/isosurface.ts
+import type { ImageStack } from "../formats/stack";
+
+/** Indexed triangle mesh, positions in voxels from the centre of the first voxel. */
+export interface Mesh {
+  positions: Float32Array;
+  indices: Uint32Array;
+}
+
+// Cube corners, x fastest, then y, then z
+const CORNERS = [
+  [0, 0, 0], [1, 0, 0], [1, 1, 0], [0, 1, 0],
+  [0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 1, 1]
+];
+
+// x + 2y + 4z of each corner; between the ends of a tetrahedron edge it differs by the edge's offset
+const CORNER_CODES = CORNERS.map(([x, y, z]) => x + 2 * y + 4 * z);
+
+// Six tetrahedra around the 0–6 diagonal. Neighbouring cubes split their shared
+// faces along the same diagonal, so the surface closes across cube boundaries.
+const TETRAHEDRA = [
+  [0, 6, 1, 2], [0, 6, 2, 3], [0, 6, 3, 7],
+  [0, 6, 7, 4], [0, 6, 4, 5], [0, 6, 5, 1]
+];
+
+export function triangleCount(mesh: Mesh): number {
+  return mesh.indices.length / 3;
+}
+
+export function vertexCount(mesh: Mesh): number {
+  return mesh.positions.length / 3;
+}
+
+/**
+ * Surface where the volume crosses `threshold`, by marching cubes with each
+ * cube split into six tetrahedra: the per-cube table shrinks to three cases
+ * and the surface has no ambiguous faces or holes. Values at or above the
+ * threshold are inside, and triangles wind counter-clockwise seen from outside.
+ */
+export function extractIsosurface(volume: ImageStack, threshold: number): Mesh {
+  const { width, height, depth, data } = volume;
+  const positions: number[] = [];
+  const indices: number[] = [];
+  // Vertices are shared between the cells meeting at a grid edge. Edges run from
+  // a voxel to the neighbour at one of seven offsets in {0, 1}³, so a voxel and
+  // an offset number them below 2^53 however large the volume
+  const edgeVertices = new Map<number, number>();
+
+  const offsets = CORNERS.map(([x, y, z]) => x + y * width + z * width * height);
+  const corner = new Array<number>(8);
+  const value = new Array<number>(8);
+  const origin = [0, 0, 0];
+
+  const edgeVertex = (a: number, b: number) => {
+    const [i, j] = corner[a] < corner[b] ? [a, b] : [b, a];
+    const key = corner[i] * 7 + CORNER_CODES[j] - CORNER_CODES[i] - 1;
+    let vertex = edgeVertices.get(key);
+    if (vertex === undefined) {
+      const t = (threshold - value[i]) / (value[j] - value[i]);
+      for (let axis = 0; axis < 3; axis++) {
+        positions.push(origin[axis] + CORNERS[i][axis] + t * (CORNERS[j][axis] - CORNERS[i][axis]));
+      }
+      vertex = positions.length / 3 - 1;
+      edgeVertices.set(key, vertex);
+    }
+    return vertex;
+  };
+
+  // Winds the triangle so its normal points from `inside` towards `outside`
+  const addTriangle = (a: number, b: number, c: number, inside: number, outside: number) => {
+    const p = [a, b, c].map(v => positions.slice(v * 3, v * 3 + 3));
+    const u = [0, 1, 2].map(k => p[1][k] - p[0][k]);
+    const w = [0, 1, 2].map(k => p[2][k] - p[0][k]);
+    const normal = [u[1] * w[2] - u[2] * w[1], u[2] * w[0] - u[0] * w[2], u[0] * w[1] - u[1] * w[0]];
+    const facing = [0, 1, 2].reduce((sum, k) => sum + normal[k] * (CORNERS[outside][k] - CORNERS[inside][k]), 0);
+    if (facing >= 0) indices.push(a, b, c);
+    else indices.push(a, c, b);
+  };
+
+  for (let z = 0; z < depth - 1; z++) {
+    for (let y = 0; y < height - 1; y++) {
+      for (let x = 0; x < width - 1; x++) {
+        const base = x + y * width + z * width * height;
+        let above = 0;
+        for (let k = 0; k < 8; k++) {
+          corner[k] = base + offsets[k];
+          value[k] = data[corner[k]];
+          if (value[k] >= threshold) above++;
+        }
+        if (above === 0 || above === 8) continue;
+        origin[0] = x;
+        origin[1] = y;
+        origin[2] = z;
+
+        for (const tetrahedron of TETRAHEDRA) {
+          const inside = tetrahedron.filter(k => value[k] >= threshold);
+          const outside = tetrahedron.filter(k => value[k] < threshold);
+          if (inside.length === 0 || outside.length === 0) continue;
+
+          if (inside.length === 1 || outside.length === 1) {
+            // One corner cut off from the other three
+            const [lone, others] = inside.length === 1 ? [inside[0], outside] : [outside[0], inside];
+            const [a, b, c] = others.map(k => edgeVertex(lone, k));
+            addTriangle(a, b, c, inside[0], outside[0]);
+          } else {
+            // Two corners either side: the section is a quad
+            const [i0, i1] = inside;
+            const [o0, o1] = outside;
+            const a = edgeVertex(i0, o0);
+            const b = edgeVertex(i0, o1);
+            const c = edgeVertex(i1, o1);
+            const d = edgeVertex(i1, o0);
+            addTriangle(a, b, c, i0, o0);
+            addTriangle(a, c, d, i0, o0);
+          }
+        }
+      }
+    }
+  }
+
+  return { positions: new Float32Array(positions), indices: new Uint32Array(indices) };
+}
+
+/** Each vertex's neighbours along triangle edges. */
+function vertexNeighbours(mesh: Mesh): Set<number>[] {
+  const neighbours = Array.from({ length: vertexCount(mesh) }, () => new Set<number>());
+  const { indices } = mesh;
+  for (let t = 0; t < indices.length; t += 3) {
+    for (let k = 0; k < 3; k++) {
+      const a = indices[t + k];
+      const b = indices[t + ((k + 1) % 3)];
+      neighbours[a].add(b);
+      neighbours[b].add(a);
+    }
+  }
+  return neighbours;
+}
+
+// Taubin's pass band parameters: a shrinking step followed by a slightly larger inflating one
+const SMOOTH_LAMBDA = 0.5;
+const SMOOTH_MU = -0.53;
+
+/**
+ * Taubin λ|μ smoothing: Laplacian steps alternating with inflating ones, which
+ * takes out the voxel staircase without shrinking the surface the way plain
+ * Laplacian smoothing does.
+ */
+export function smoothMesh(mesh: Mesh, iterations: number): Mesh {
+  const neighbours = vertexNeighbours(mesh);
+  let positions = mesh.positions;
+  const step = (factor: number) => {
+    const next = new Float32Array(positions.length);
+    for (let v = 0; v < neighbours.length; v++) {
+      const around = neighbours[v];
+      for (let axis = 0; axis < 3; axis++) {
+        const own = positions[v * 3 + axis];
+        if (around.size === 0) {
+          next[v * 3 + axis] = own;
+          continue;
+        }
+        let sum = 0;
+        around.forEach(n => (sum += positions[n * 3 + axis]));
+        next[v * 3 + axis] = own + factor * (sum / around.size - own);
+      }
+    }
+    positions = next;
+  };
+  for (let i = 0; i < iterations; i++) {
+    step(SMOOTH_LAMBDA);
+    step(SMOOTH_MU);
+  }
+  return { positions, indices: mesh.indices };
+}
+
+/**
+ * Vertex clustering: vertices within the same `cellSize`-voxel grid cell merge
+ * into their mean, and triangles left with fewer than three distinct corners
+ * are dropped. Coarse, but it runs in linear time and opens no holes.
+ */
+export function decimateMesh(mesh: Mesh, cellSize: number): Mesh {
+  if (!(cellSize > 0)) throw new Error(`Invalid decimation cell size ${cellSize}`);
+  const { positions, indices } = mesh;
+  const cells = new Map<string, number>();
+  const remap = new Uint32Array(vertexCount(mesh));
+  const sums: number[] = [];
+  const counts: number[] = [];
+
+  for (let v = 0; v < remap.length; v++) {
+    const p = [positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2]];
+    const key = p.map(c => Math.floor(c / cellSize)).join(",");
+    let cell = cells.get(key);
+    if (cell === undefined) {
+      cell = counts.length;
+      cells.set(key, cell);
+      sums.push(0, 0, 0);
+      counts.push(0);
+    }
+    for (let axis = 0; axis < 3; axis++) sums[cell * 3 + axis] += p[axis];
+    counts[cell]++;
+    remap[v] = cell;
+  }
+
+  const kept: number[] = [];
+  const seen = new Set<string>();
+  for (let t = 0; t < indices.length; t += 3) {
+    const [a, b, c] = [remap[indices[t]], remap[indices[t + 1]], remap[indices[t + 2]]];
+    if (a === b || b === c || a === c) continue;
+    // Folded-over sheets can map two triangles onto the same corners
+    const key = [a, b, c].sort((x, y) => x - y).join(",");
+    if (seen.has(key)) continue;
+    seen.add(key);
+    kept.push(a, b, c);
+  }
+
+  return {
+    positions: Float32Array.from(sums, (sum, i) => sum / counts[Math.floor(i / 3)]),
+    indices: new Uint32Array(kept)
+  };
+}
+
+/** Per-vertex normals, the area-weighted mean of the normals of the triangles around each vertex. */
+export function vertexNormals(mesh: Mesh): Float32Array {
+  const { positions, indices } = mesh;
+  const normals = new Float32Array(positions.length);
+  for (let t = 0; t < indices.length; t += 3) {
+    const [a, b, c] = [indices[t] * 3, indices[t + 1] * 3, indices[t + 2] * 3];
+    const u = [0, 1, 2].map(k => positions[b + k] - positions[a + k]);
+    const w = [0, 1, 2].map(k => positions[c + k] - positions[a + k]);
+    const normal = [u[1] * w[2] - u[2] * w[1], u[2] * w[0] - u[0] * w[2], u[0] * w[1] - u[1] * w[0]];
+    for (const v of [a, b, c]) {
+      for (let k = 0; k < 3; k++) normals[v + k] += normal[k];
+    }
+  }
+  for (let v = 0; v < normals.length; v += 3) {
+    const length = Math.hypot(normals[v], normals[v + 1], normals[v + 2]) || 1;
+    for (let k = 0; k < 3; k++) normals[v + k] /= length;
+  }
+  return normals;
+}
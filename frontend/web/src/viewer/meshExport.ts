@@ -0,0 +1,72 @@
+// viewer/meshExport.ts
+import { Mesh, triangleCount, vertexCount } from "./isosurface";
+
+export type MeshFormat = "stl" | "obj";
+
+export const MESH_FORMATS: MeshFormat[] = ["stl", "obj"];
+
+const STL_HEADER_BYTES = 80;
+// Normal and three corners as float32, then a uint16 attribute count
+const STL_TRIANGLE_BYTES = 50;
+
+/**
+ * Binary STL, corners multiplied by `scale` (Å per voxel when the spacing is
+ * known). STL has no shared vertices, so each triangle carries its corners
+ * and its own facet normal.
+ */
+export function toStl(mesh: Mesh, name: string, scale = 1): ArrayBuffer {
+  const count = triangleCount(mesh);
+  const buffer = new ArrayBuffer(STL_HEADER_BYTES + 4 + count * STL_TRIANGLE_BYTES);
+  const view = new DataView(buffer);
+  const header = new TextEncoder().encode(name.slice(0, STL_HEADER_BYTES));
+  new Uint8Array(buffer, 0, STL_HEADER_BYTES).set(header.subarray(0, STL_HEADER_BYTES));
+  view.setUint32(STL_HEADER_BYTES, count, true);
+
+  const { positions, indices } = mesh;
+  let offset = STL_HEADER_BYTES + 4;
+  for (let t = 0; t < count; t++) {
+    const corners = [0, 1, 2].map(k => {
+      const v = indices[t * 3 + k] * 3;
+      return [positions[v] * scale, positions[v + 1] * scale, positions[v + 2] * scale];
+    });
+    const u = [0, 1, 2].map(k => corners[1][k] - corners[0][k]);
+    const w = [0, 1, 2].map(k => corners[2][k] - corners[0][k]);
+    const normal = [u[1] * w[2] - u[2] * w[1], u[2] * w[0] - u[0] * w[2], u[0] * w[1] - u[1] * w[0]];
+    const length = Math.hypot(normal[0], normal[1], normal[2]) || 1;
+    for (const value of [...normal.map(c => c / length), ...corners.flat()]) {
+      view.setFloat32(offset, value, true);
+      offset += 4;
+    }
+    view.setUint16(offset, 0, true);
+    offset += 2;
+  }
+  return buffer;
+}
+
+/** Wavefront OBJ text with shared vertices, corners multiplied by `scale`. */
+export function toObj(mesh: Mesh, name: string, scale = 1): string {
+  const { positions, indices } = mesh;
+  const lines = [`# ${name}`, `# ${vertexCount(mesh)} vertices, ${triangleCount(mesh)} triangles`, `o ${name}`];
+  for (let v = 0; v < positions.length; v += 3) {
+    lines.push(`v ${positions[v] * scale} ${positions[v + 1] * scale} ${positions[v + 2] * scale}`);
+  }
+  // OBJ indices count from 1
+  for (let t = 0; t < indices.length; t += 3) {
+    lines.push(`f ${indices[t] + 1} ${indices[t + 1] + 1} ${indices[t + 2] + 1}`);
+  }
+  return lines.join("\n") + "\n";
+}
+
+/** Saves the mesh through a download link; the file is generated in the page and sent nowhere. */
+export function downloadMesh(mesh: Mesh, format: MeshFormat, name: string, scale = 1) {
+  const blob =
+    format === "stl"
+      ? new Blob([toStl(mesh, name, scale)], { type: "model/stl" })
+      : new Blob([toObj(mesh, name, scale)], { type: "model/obj" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${name}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
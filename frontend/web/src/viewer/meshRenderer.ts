@@ -0,0 +1,132 @@
+// viewer/meshRenderer.ts
+import { FOCAL_LENGTH, OrbitView, orbitCamera } from "./camera";
+import { Mesh, vertexNormals } from "./isosurface";
+import { linkProgram } from "./webgl";
+
+export interface MeshRenderer {
+  /** Uploads a mesh extracted from a volume of the given shape, in voxels. */
+  setMesh: (mesh: Mesh, shape: [number, number, number]) => void;
+  render: (view: OrbitView) => void;
+  dispose: () => void;
+}
+
+// Depth range of the projection, in units of the volume's longest side
+const NEAR_PLANE = 0.01;
+const FAR_PLANE = 10;
+
+// Places the mesh where the ray caster draws its volume: centred, longest side
+// 1, image y running down the screen, and projected through the same camera.
+const VERTEX_SHADER = `#version 300 es
+in vec3 position;
+in vec3 normal;
+uniform vec3 center;
+uniform float scale;
+uniform vec3 eye;
+uniform vec3 right;
+uniform vec3 up;
+uniform vec3 forward;
+uniform float focal;
+uniform float aspect;
+uniform vec2 depthRange;
+out vec3 worldNormal;
+void main() {
+  vec3 flip = vec3(1.0, -1.0, 1.0);
+  vec3 world = (position - center) * scale * flip;
+  worldNormal = normal * flip;
+  vec3 v = world - eye;
+  float depth = dot(v, forward);
+  gl_Position = vec4(dot(v, right) * focal / aspect, dot(v, up) * focal, depthRange.x * depth + depthRange.y, depth);
+}`;
+
+// Two-sided headlight shading, so sheets cut open by the volume's edges still read
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+uniform vec3 forward;
+uniform vec3 tint;
+in vec3 worldNormal;
+out vec4 color;
+void main() {
+  float light = abs(dot(normalize(worldNormal), forward));
+  color = vec4(tint * (0.25 + 0.75 * light), 1.0);
+}`;
+
+// Surface colour, the yellow of the slice viewer's crosshair
+const MESH_TINT = [1, 213 / 255, 79 / 255];
+
+/** Shaded preview of an isosurface on a WebGL2 canvas; throws when the browser has no WebGL2. */
+export function createMeshRenderer(canvas: HTMLCanvasElement): MeshRenderer {
+  const gl = canvas.getContext("webgl2");
+  if (!gl) throw new Error("This browser does not support WebGL2");
+
+  const program = linkProgram(gl, VERTEX_SHADER, FRAGMENT_SHADER);
+  const vertexArray = gl.createVertexArray();
+  const positionBuffer = gl.createBuffer();
+  const normalBuffer = gl.createBuffer();
+  const indexBuffer = gl.createBuffer();
+  const uniform = (name: string) => gl.getUniformLocation(program, name);
+  let indexCount = 0;
+  let shape: [number, number, number] | null = null;
+
+  const setMesh = (mesh: Mesh, volumeShape: [number, number, number]) => {
+    gl.bindVertexArray(vertexArray);
+    const attributes: [WebGLBuffer | null, string, Float32Array][] = [
+      [positionBuffer, "position", mesh.positions],
+      [normalBuffer, "normal", vertexNormals(mesh)]
+    ];
+    for (const [buffer, name, data] of attributes) {
+      const location = gl.getAttribLocation(program, name);
+      gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+      gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
+      gl.enableVertexAttribArray(location);
+      gl.vertexAttribPointer(location, 3, gl.FLOAT, false, 0, 0);
+    }
+    gl.bindBuffer(gl.ELEMENT_ARRAY_BUFFER, indexBuffer);
+    gl.bufferData(gl.ELEMENT_ARRAY_BUFFER, mesh.indices, gl.STATIC_DRAW);
+    gl.bindVertexArray(null);
+    indexCount = mesh.indices.length;
+    shape = volumeShape;
+  };
+
+  const render = (view: OrbitView) => {
+    const width = Math.max(1, Math.round(canvas.clientWidth * devicePixelRatio));
+    const height = Math.max(1, Math.round(canvas.clientHeight * devicePixelRatio));
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    gl.viewport(0, 0, width, height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+    if (!shape || indexCount === 0) return;
+
+    const { eye, right, up, forward } = orbitCamera(view);
+    gl.enable(gl.DEPTH_TEST);
+    gl.useProgram(program);
+    gl.bindVertexArray(vertexArray);
+    // Voxel centres sit at integer positions, so the volume spans -0.5 to n - 0.5
+    gl.uniform3fv(uniform("center"), shape.map(n => (n - 1) / 2));
+    gl.uniform1f(uniform("scale"), 1 / Math.max(...shape));
+    gl.uniform3fv(uniform("eye"), eye);
+    gl.uniform3fv(uniform("right"), right);
+    gl.uniform3fv(uniform("up"), up);
+    gl.uniform3fv(uniform("forward"), forward);
+    gl.uniform1f(uniform("focal"), FOCAL_LENGTH);
+    gl.uniform1f(uniform("aspect"), width / height);
+    gl.uniform2f(
+      uniform("depthRange"),
+      (FAR_PLANE + NEAR_PLANE) / (FAR_PLANE - NEAR_PLANE),
+      (-2 * FAR_PLANE * NEAR_PLANE) / (FAR_PLANE - NEAR_PLANE)
+    );
+    gl.uniform3fv(uniform("tint"), MESH_TINT);
+    gl.drawElements(gl.TRIANGLES, indexCount, gl.UNSIGNED_INT, 0);
+    gl.bindVertexArray(null);
+  };
+
+  const dispose = () => {
+    [positionBuffer, normalBuffer, indexBuffer].forEach(buffer => gl.deleteBuffer(buffer));
+    gl.deleteVertexArray(vertexArray);
+    gl.deleteProgram(program);
+  };
+
+  return { setMesh, render, dispose };
+}
@@ -0,0 +1,80 @@
+// viewer/slices.ts
+import type { ImageStack } from "../formats/stack";
+import type { Shape3 } from "../tiling";
+import { applyWindow, DisplayWindow } from "./windowing";
+
+export type SlicePlane = "xy" | "xz" | "yz";
+
+export const SLICE_PLANES: SlicePlane[] = ["xy", "xz", "yz"];
+
+/** 0, 1 and 2 index x, y and z. */
+export type Axis = 0 | 1 | 2;
+
+/**
+ * Volume axes running across (u) and down (v) each plane, and the axis its
+ * slices step along. XY and YZ share their rows and XY and XZ their columns,
+ * so panes laid out side by side and one above the other line up.
+ */
+export const PLANE_AXES: Record<SlicePlane, { u: Axis; v: Axis; normal: Axis }> = {
+  xy: { u: 0, v: 1, normal: 2 },
+  xz: { u: 0, v: 2, normal: 1 },
+  yz: { u: 2, v: 1, normal: 0 }
+};
+
+export const AXIS_NAMES = ["x", "y", "z"];
+
+/** A plane of voxels, u fastest. */
+export interface Slice {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+export function volumeShape(volume: ImageStack): Shape3 {
+  return [volume.width, volume.height, volume.depth];
+}
+
+/** Slice `index` of the volume along the plane's normal. */
+export function extractSlice(volume: ImageStack, plane: SlicePlane, index: number): Slice {
+  const shape = volumeShape(volume);
+  const { u, v, normal } = PLANE_AXES[plane];
+  if (!Number.isInteger(index) || index < 0 || index >= shape[normal]) {
+    throw new Error(`Slice ${index} is outside the volume's ${shape[normal]} ${AXIS_NAMES[normal]} slices`);
+  }
+
+  const strides = [1, volume.width, volume.width * volume.height];
+  const width = shape[u];
+  const height = shape[v];
+  const data = new Float32Array(width * height);
+  const base = index * strides[normal];
+  for (let j = 0; j < height; j++) {
+    for (let i = 0; i < width; i++) {
+      data[j * width + i] = volume.data[base + i * strides[u] + j * strides[v]];
+    }
+  }
+  return { width, height, data };
+}
+
+/** Smallest and largest finite value; [0, 0] when there are none. */
+export function valueRange(data: ArrayLike<number>): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < data.length; i++) {
+    const value = data[i];
+    if (!Number.isFinite(value)) continue;
+    if (value < min) min = value;
+    if (value > max) max = value;
+  }
+  return min > max ? [0, 0] : [min, max];
+}
+
+/** RGBA pixels of a slice in grey levels through the display window. */
+export function greyscale(slice: Slice, displayWindow: DisplayWindow): Uint8ClampedArray<ArrayBuffer> {
+  const pixels = new Uint8ClampedArray(slice.width * slice.height * 4);
+  for (let i = 0; i < slice.data.length; i++) {
+    const grey = 255 * applyWindow(slice.data[i], displayWindow);
+    pixels[i * 4] = pixels[i * 4 + 1] = pixels[i * 4 + 2] = grey;
+    pixels[i * 4 + 3] = 255;
+  }
+  return pixels;
+}
@@ -0,0 +1,30 @@
+// viewer/tiltPreview.ts
+import type { ImageStack } from "../formats/stack";
+import { binStack, tiltOrder } from "../reconstruction/alignment";
+
+/** Longest side, in pixels, the preview images are binned down to. */
+export const PREVIEW_SIZE = 192;
+
+export interface TiltPreview {
+  /** The stack binned to at most PREVIEW_SIZE pixels a side. */
+  images: ImageStack;
+  /** Stack indices in display order: by tilt angle for tilt series, else as stored. */
+  order: number[];
+  /** Position in `order` of the least tilted image, or of the middle one. */
+  start: number;
+  /** Tilt angle or image number of each stack index. */
+  labels: string[];
+}
+
+/** Downsampled images of a stack for checking it by eye; computed in the page from the parsed file. */
+export function tiltSeriesPreview(stack: ImageStack, size = PREVIEW_SIZE): TiltPreview {
+  const factor = Math.max(1, Math.ceil(Math.max(stack.width, stack.height) / size));
+  const images = binStack(stack, factor);
+  const angles = stack.tiltAngles;
+  if (angles && angles.length === stack.depth) {
+    const { order, reference } = tiltOrder(angles);
+    return { images, order, start: reference, labels: angles.map(angle => `${angle.toFixed(1)}°`) };
+  }
+  const order = Array.from({ length: stack.depth }, (_, i) => i);
+  return { images, order, start: Math.floor(stack.depth / 2), labels: order.map(i => `#${i + 1}`) };
+}
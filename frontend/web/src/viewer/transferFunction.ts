@@ -0,0 +1,61 @@
+// viewer/transferFunction.ts
+
+/** A control point of a transfer function; colour and opacity are interpolated linearly between points. */
+export interface TransferPoint {
+  /** Position on the value axis, 0 at the bottom of the displayed range and 1 at its top. */
+  value: number;
+  opacity: number;
+  /** Hex colour, as an <input type="color"> gives it. */
+  color: string;
+}
+
+/** Entries the transfer function is sampled to for the renderer's lookup texture. */
+export const TRANSFER_SAMPLES = 256;
+
+export const DEFAULT_TRANSFER_FUNCTION: TransferPoint[] = [
+  { value: 0, opacity: 0, color: "#000000" },
+  { value: 0.3, opacity: 0, color: "#4fc3f7" },
+  { value: 0.7, opacity: 0.4, color: "#ffd54f" },
+  { value: 1, opacity: 0.9, color: "#ffffff" }
+];
+
+function parseColor(color: string): [number, number, number] {
+  const match = /^#([0-9a-f]{6})$/i.exec(color);
+  if (!match) throw new Error(`Invalid colour ${color}`);
+  const rgb = parseInt(match[1], 16);
+  return [(rgb >> 16) & 255, (rgb >> 8) & 255, rgb & 255];
+}
+
+/** Points sorted along the value axis, values and opacities clamped to [0, 1]. */
+export function normalizeTransferFunction(points: TransferPoint[]): TransferPoint[] {
+  if (points.length === 0) throw new Error("A transfer function needs at least one point");
+  const clamp = (x: number) => Math.min(Math.max(x, 0), 1);
+  return points
+    .map(point => ({ ...point, value: clamp(point.value), opacity: clamp(point.opacity) }))
+    .sort((a, b) => a.value - b.value);
+}
+
+/**
+ * RGBA lookup table of `samples` entries over the value axis. Values
+ * outside the first and last points take those points' colour and opacity.
+ */
+export function sampleTransferFunction(points: TransferPoint[], samples = TRANSFER_SAMPLES): Uint8Array {
+  const sorted = normalizeTransferFunction(points);
+  const colors = sorted.map(point => parseColor(point.color));
+  const table = new Uint8Array(samples * 4);
+
+  let k = 0;
+  for (let i = 0; i < samples; i++) {
+    const value = samples > 1 ? i / (samples - 1) : 0;
+    while (k < sorted.length - 1 && sorted[k + 1].value < value) k++;
+
+    const a = sorted[k];
+    const b = sorted[Math.min(k + 1, sorted.length - 1)];
+    const span = b.value - a.value;
+    const t = span > 0 ? Math.min(Math.max((value - a.value) / span, 0), 1) : 0;
+    const [ca, cb] = [colors[k], colors[Math.min(k + 1, sorted.length - 1)]];
+    for (let c = 0; c < 3; c++) table[i * 4 + c] = Math.round(ca[c] + t * (cb[c] - ca[c]));
+    table[i * 4 + 3] = Math.round(255 * (a.opacity + t * (b.opacity - a.opacity)));
+  }
+  return table;
+}
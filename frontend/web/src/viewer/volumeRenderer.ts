@@ -0,0 +1,243 @@
+// viewer/volumeRenderer.ts
+import type { ImageStack } from "../formats/stack";
+import { FOCAL_LENGTH, OrbitView, orbitCamera } from "./camera";
+import { TRANSFER_SAMPLES } from "./transferFunction";
+import { linkProgram } from "./webgl";
+import { DisplayWindow, linearWindow } from "./windowing";
+
+/** Maximum intensity projection, or front-to-back alpha compositing through the transfer function. */
+export type RenderMode = "mip" | "composite";
+
+export const RENDER_MODES: RenderMode[] = ["mip", "composite"];
+
+/** Part of the volume kept, as fractions of each axis from its first voxel. */
+export interface ClipBox {
+  min: [number, number, number];
+  max: [number, number, number];
+}
+
+export interface ViewParams extends OrbitView {
+  mode: RenderMode;
+  clip: ClipBox;
+}
+
+export const DEFAULT_VIEW: ViewParams = {
+  mode: "composite",
+  yaw: 30,
+  pitch: 20,
+  zoom: 1,
+  clip: { min: [0, 0, 0], max: [1, 1, 1] }
+};
+
+export interface VolumeRenderer {
+  /** Uploads the volume as a 3D texture, values mapped from `range` onto [0, 1]. */
+  setVolume: (volume: ImageStack, range: [number, number]) => void;
+  /** Uploads a TRANSFER_SAMPLES-entry RGBA table from sampleTransferFunction. */
+  setTransferFunction: (table: Uint8Array) => void;
+  /** Window applied to every sample before the transfer function, in the volume's units. */
+  setWindow: (displayWindow: DisplayWindow) => void;
+  render: (view: ViewParams) => void;
+  dispose: () => void;
+}
+
+// Samples taken per voxel along each ray
+const SAMPLES_PER_VOXEL = 2;
+
+const VERTEX_SHADER = `#version 300 es
+const vec2 corners[3] = vec2[3](vec2(-1.0, -1.0), vec2(3.0, -1.0), vec2(-1.0, 3.0));
+out vec2 ndc;
+void main() {
+  ndc = corners[gl_VertexID];
+  gl_Position = vec4(ndc, 0.0, 1.0);
+}`;
+
+// The volume is a box centred on the origin, its longest side 1 long, with
+// image y running down the screen; rays march through the clipped part of it.
+const FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp sampler3D;
+
+const int MAX_STEPS = 2048;
+
+uniform sampler3D volume;
+uniform sampler2D transfer;
+uniform vec3 extent;
+uniform vec3 boxMin;
+uniform vec3 boxMax;
+uniform vec3 eye;
+uniform vec3 right;
+uniform vec3 up;
+uniform vec3 forward;
+uniform float focal;
+uniform float aspect;
+uniform float stepSize;
+uniform float voxelSize;
+uniform int mode;
+uniform vec2 windowRange;
+uniform float gamma;
+uniform bool invert;
+
+in vec2 ndc;
+out vec4 color;
+
+vec3 textureCoord(vec3 p) {
+  vec3 t = p / (2.0 * extent) + 0.5;
+  return vec3(t.x, 1.0 - t.y, t.z);
+}
+
+float windowed(float value) {
+  float t = clamp((value - windowRange.x) / (windowRange.y - windowRange.x), 0.0, 1.0);
+  t = pow(t, 1.0 / gamma);
+  return invert ? 1.0 - t : t;
+}
+
+void main() {
+  vec3 dir = normalize(forward * focal + right * ndc.x * aspect + up * ndc.y);
+  vec3 t0 = (boxMin - eye) / dir;
+  vec3 t1 = (boxMax - eye) / dir;
+  vec3 tNear = min(t0, t1);
+  vec3 tFar = max(t0, t1);
+  float enter = max(max(tNear.x, max(tNear.y, tNear.z)), 0.0);
+  float leave = min(tFar.x, min(tFar.y, tFar.z));
+  color = vec4(0.0);
+  if (enter >= leave) return;
+
+  float peak = 0.0;
+  float t = enter;
+  for (int i = 0; i < MAX_STEPS && t < leave; i++, t += stepSize) {
+    float value = windowed(texture(volume, textureCoord(eye + dir * t)).r);
+    if (mode == 0) {
+      peak = max(peak, value);
+    } else {
+      vec4 entry = texture(transfer, vec2(value, 0.5));
+      // Opacities are per voxel; correct them for the step length
+      float alpha = 1.0 - pow(1.0 - entry.a, stepSize / voxelSize);
+      color.rgb += (1.0 - color.a) * alpha * entry.rgb;
+      color.a += (1.0 - color.a) * alpha;
+      if (color.a > 0.99) break;
+    }
+  }
+  if (mode == 0) {
+    vec4 entry = texture(transfer, vec2(peak, 0.5));
+    color = vec4(entry.rgb * entry.a, entry.a);
+  }
+}`;
+
+/**
+ * Ray-casting renderer for one volume on a WebGL2 canvas. Throws when the
+ * browser has no WebGL2. The volume never leaves this page.
+ */
+export function createVolumeRenderer(canvas: HTMLCanvasElement): VolumeRenderer {
+  const gl = canvas.getContext("webgl2", { premultipliedAlpha: true });
+  if (!gl) throw new Error("This browser does not support WebGL2");
+
+  const program = linkProgram(gl, VERTEX_SHADER, FRAGMENT_SHADER);
+  const vertexArray = gl.createVertexArray();
+  const volumeTexture = gl.createTexture();
+  const transferTexture = gl.createTexture();
+  const uniform = (name: string) => gl.getUniformLocation(program, name);
+  let shape: [number, number, number] | null = null;
+  let range: [number, number] = [0, 1];
+  let displayWindow: DisplayWindow | null = null;
+
+  const setTextureParameters = (target: number) => {
+    gl.texParameteri(target, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(target, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(target, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(target, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(target, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE);
+  };
+
+  const setVolume = (volume: ImageStack, [min, max]: [number, number]) => {
+    const limit = gl.getParameter(gl.MAX_3D_TEXTURE_SIZE) as number;
+    if (Math.max(volume.width, volume.height, volume.depth) > limit) {
+      throw new Error(`Volumes over ${limit} voxels on a side do not fit a 3D texture here`);
+    }
+    const span = max > min ? max - min : 1;
+    const values = new Float32Array(volume.data.length);
+    for (let i = 0; i < values.length; i++) values[i] = (volume.data[i] - min) / span;
+
+    // R16F filters linearly on every WebGL2 implementation; R32F needs an extension
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_3D, volumeTexture);
+    gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+    gl.texImage3D(gl.TEXTURE_3D, 0, gl.R16F, volume.width, volume.height, volume.depth, 0, gl.RED, gl.FLOAT, values);
+    setTextureParameters(gl.TEXTURE_3D);
+    shape = [volume.width, volume.height, volume.depth];
+    range = [min, max];
+  };
+
+  const setTransferFunction = (table: Uint8Array) => {
+    if (table.length !== TRANSFER_SAMPLES * 4) {
+      throw new Error(`Expected ${TRANSFER_SAMPLES} RGBA transfer function entries, got ${table.length / 4}`);
+    }
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, transferTexture);
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, TRANSFER_SAMPLES, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, table);
+    setTextureParameters(gl.TEXTURE_2D);
+  };
+
+  const setWindow = (next: DisplayWindow) => {
+    displayWindow = next;
+  };
+
+  const render = (view: ViewParams) => {
+    const width = Math.max(1, Math.round(canvas.clientWidth * devicePixelRatio));
+    const height = Math.max(1, Math.round(canvas.clientHeight * devicePixelRatio));
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    gl.viewport(0, 0, width, height);
+    gl.clearColor(0, 0, 0, 0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+    if (!shape) return;
+
+    const longest = Math.max(...shape);
+    const extent = shape.map(n => n / longest / 2);
+    // Image y runs down the screen, so the box's y extent is flipped
+    const fromFraction = (axis: number, f: number) => (axis === 1 ? 1 - 2 * f : 2 * f - 1) * extent[axis];
+    const ends = [0, 1, 2].map(axis => [fromFraction(axis, view.clip.min[axis]), fromFraction(axis, view.clip.max[axis])]);
+
+    const { eye, right, up, forward } = orbitCamera(view);
+
+    gl.useProgram(program);
+    gl.bindVertexArray(vertexArray);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_3D, volumeTexture);
+    gl.activeTexture(gl.TEXTURE1);
+    gl.bindTexture(gl.TEXTURE_2D, transferTexture);
+    gl.uniform1i(uniform("volume"), 0);
+    gl.uniform1i(uniform("transfer"), 1);
+    gl.uniform3fv(uniform("extent"), extent);
+    gl.uniform3fv(uniform("boxMin"), ends.map(([a, b]) => Math.min(a, b)));
+    gl.uniform3fv(uniform("boxMax"), ends.map(([a, b]) => Math.max(a, b)));
+    gl.uniform3fv(uniform("eye"), eye);
+    gl.uniform3fv(uniform("right"), right);
+    gl.uniform3fv(uniform("up"), up);
+    gl.uniform3fv(uniform("forward"), forward);
+    gl.uniform1f(uniform("focal"), FOCAL_LENGTH);
+    gl.uniform1f(uniform("aspect"), width / height);
+    gl.uniform1f(uniform("voxelSize"), 1 / longest);
+    gl.uniform1f(uniform("stepSize"), 1 / longest / SAMPLES_PER_VOXEL);
+    gl.uniform1i(uniform("mode"), view.mode === "mip" ? 0 : 1);
+    // The texture holds values already mapped from the volume's range onto [0, 1]
+    const { min, max, gamma, invert } = displayWindow ?? linearWindow(range);
+    const span = range[1] > range[0] ? range[1] - range[0] : 1;
+    const low = (min - range[0]) / span;
+    const high = (max - range[0]) / span;
+    gl.uniform2f(uniform("windowRange"), low, high > low ? high : low + 1e-6);
+    gl.uniform1f(uniform("gamma"), gamma);
+    gl.uniform1i(uniform("invert"), invert ? 1 : 0);
+    gl.drawArrays(gl.TRIANGLES, 0, 3);
+  };
+
+  const dispose = () => {
+    gl.deleteTexture(volumeTexture);
+    gl.deleteTexture(transferTexture);
+    gl.deleteVertexArray(vertexArray);
+    gl.deleteProgram(program);
+  };
+
+  return { setVolume, setTransferFunction, setWindow, render, dispose };
+}
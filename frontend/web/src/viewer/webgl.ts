@@ -0,0 +1,30 @@
+// viewer/webgl.ts
+
+function compileShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error("Failed to create a shader");
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    const log = gl.getShaderInfoLog(shader);
+    gl.deleteShader(shader);
+    throw new Error(`Shader failed to compile: ${log}`);
+  }
+  return shader;
+}
+
+export function linkProgram(gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string): WebGLProgram {
+  const program = gl.createProgram();
+  if (!program) throw new Error("Failed to create a shader program");
+  const shaders = [
+    compileShader(gl, gl.VERTEX_SHADER, vertexSource),
+    compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource)
+  ];
+  shaders.forEach(shader => gl.attachShader(program, shader));
+  gl.linkProgram(program);
+  shaders.forEach(shader => gl.deleteShader(shader));
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(`Shader program failed to link: ${gl.getProgramInfoLog(program)}`);
+  }
+  return program;
+}
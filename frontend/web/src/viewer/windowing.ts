@@ -0,0 +1,66 @@
+// viewer/windowing.ts
+
+/** How values map onto display intensities, shared by the slice and volume views. */
+export interface DisplayWindow {
+  /** Values at or below `min` show black and at or above `max` white, before inversion. */
+  min: number;
+  max: number;
+  /** Above 1 brightens the mid-tones, below 1 darkens them. */
+  gamma: number;
+  /** Swaps black and white, so dense material in raw EM contrast shows bright. */
+  invert: boolean;
+}
+
+export interface Histogram {
+  /** Counts of finite values in equal-width bins from `min` to `max`. */
+  counts: Uint32Array;
+  min: number;
+  max: number;
+}
+
+export const HISTOGRAM_BINS = 256;
+
+/** Percentiles auto-contrast clips to, so a few extreme voxels do not flatten the rest. */
+export const AUTO_CONTRAST_PERCENTILES: [number, number] = [0.5, 99.5];
+
+// Values sorted for a percentile estimate; larger volumes are sampled at a stride
+const PERCENTILE_SAMPLES = 1 << 20;
+
+export function linearWindow([min, max]: [number, number]): DisplayWindow {
+  return { min, max, gamma: 1, invert: false };
+}
+
+/** Display intensity in [0, 1] of a value; NaN shows as `min` does. */
+export function applyWindow(value: number, { min, max, gamma, invert }: DisplayWindow): number {
+  const t = Number.isNaN(value) ? 0 : Math.min(Math.max((value - min) / (max > min ? max - min : 1), 0), 1);
+  const shaped = gamma === 1 ? t : Math.pow(t, 1 / gamma);
+  return invert ? 1 - shaped : shaped;
+}
+
+export function histogram(data: ArrayLike<number>, [min, max]: [number, number], bins = HISTOGRAM_BINS): Histogram {
+  const counts = new Uint32Array(bins);
+  const width = max > min ? (max - min) / bins : 1;
+  for (let i = 0; i < data.length; i++) {
+    const value = data[i];
+    if (!Number.isFinite(value)) continue;
+    counts[Math.min(Math.max(Math.floor((value - min) / width), 0), bins - 1)]++;
+  }
+  return { counts, min, max };
+}
+
+/**
+ * Values at the `low` and `high` percentiles of the finite values. Exact up
+ * to PERCENTILE_SAMPLES values, estimated from an evenly strided sample above.
+ */
+export function percentileRange(data: ArrayLike<number>, [low, high]: [number, number]): [number, number] {
+  const stride = Math.max(1, Math.ceil(data.length / PERCENTILE_SAMPLES));
+  const sample: number[] = [];
+  for (let i = 0; i < data.length; i += stride) {
+    if (Number.isFinite(data[i])) sample.push(data[i]);
+  }
+  if (sample.length === 0) return [0, 0];
+  const sorted = Float64Array.from(sample).sort();
+  const at = (percentile: number) =>
+    sorted[Math.min(Math.max(Math.round((percentile / 100) * (sorted.length - 1)), 0), sorted.length - 1)];
+  return [at(low), at(high)];
+}
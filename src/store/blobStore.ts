@@ -0,0 +1,76 @@
+// store/blobStore.ts
+import { createHash, randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface BlobInfo {
+  /** 0x-prefixed SHA-256 of the blob, the same bytes32 the contract commits to. */
+  hash: string;
+  size: number;
+}
+
+export interface BlobStore {
+  root: string;
+  put(data: Uint8Array): Promise<BlobInfo>;
+  get(hash: string): Promise<Buffer | null>;
+  stat(hash: string): Promise<BlobInfo | null>;
+}
+
+const BLOB_HASH = /^0x[0-9a-f]{64}$/;
+
+export function isBlobHash(hash: string): boolean {
+  return BLOB_HASH.test(hash);
+}
+
+export function hashBlob(data: Uint8Array): string {
+  return "0x" + createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Content-addressed blob store on the local filesystem. Blobs live at
+ * `<root>/<first two hex digits>/<rest of the hash>`, so a blob is written
+ * once and never changes.
+ */
+export function createBlobStore(root: string): BlobStore {
+  const blobPath = (hash: string) => {
+    if (!isBlobHash(hash)) {
+      throw new Error(`Invalid blob hash ${hash}`);
+    }
+    return path.join(root, hash.slice(2, 4), hash.slice(4));
+  };
+
+  const stat = async (hash: string): Promise<BlobInfo | null> => {
+    try {
+      const info = await fs.stat(blobPath(hash));
+      return { hash, size: info.size };
+    } catch (e: any) {
+      if (e.code === "ENOENT") return null;
+      throw e;
+    }
+  };
+
+  const put = async (data: Uint8Array): Promise<BlobInfo> => {
+    const hash = hashBlob(data);
+    const existing = await stat(hash);
+    if (existing) return existing;
+
+    // Write beside the target and rename, so readers never see a partial blob.
+    const target = blobPath(hash);
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const temp = `${target}.${randomBytes(6).toString("hex")}.tmp`;
+    await fs.writeFile(temp, data);
+    await fs.rename(temp, target);
+    return { hash, size: data.length };
+  };
+
+  const get = async (hash: string): Promise<Buffer | null> => {
+    try {
+      return await fs.readFile(blobPath(hash));
+    } catch (e: any) {
+      if (e.code === "ENOENT") return null;
+      throw e;
+    }
+  };
+
+  return { root, put, get, stat };
+}
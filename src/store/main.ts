@@ -0,0 +1,21 @@
+// store/main.ts
+import path from "path";
+import { createBlobStore } from "./blobStore";
+import { createStoreServer, DEFAULT_STORE_OPTIONS } from "./server";
+
+const port = Number(process.env.STORE_PORT ?? 8787);
+const host = process.env.STORE_HOST ?? "127.0.0.1";
+const root = path.resolve(process.env.STORE_DIR ?? path.join(__dirname, "..", "..", ".ciphertext-store"));
+const maxBlobBytes = process.env.STORE_MAX_BLOB_MB
+  ? Number(process.env.STORE_MAX_BLOB_MB) * 1024 * 1024
+  : DEFAULT_STORE_OPTIONS.maxBlobBytes;
+
+const server = createStoreServer(createBlobStore(root), {
+  ...DEFAULT_STORE_OPTIONS,
+  maxBlobBytes,
+  allowOrigin: process.env.STORE_ALLOW_ORIGIN ?? DEFAULT_STORE_OPTIONS.allowOrigin
+});
+
+server.listen(port, host, () => {
+  console.log(`Ciphertext store listening on http://${host}:${port}, blobs in ${root}`);
+});
@@ -0,0 +1,121 @@
+// store/server.ts
+import http from "http";
+import { BlobStore, hashBlob, isBlobHash } from "./blobStore";
+
+export interface StoreServerOptions {
+  /** Largest blob accepted by POST /blobs, in bytes. */
+  maxBlobBytes: number;
+  /** Value of Access-Control-Allow-Origin; the frontend runs on another port. */
+  allowOrigin: string;
+}
+
+export const DEFAULT_STORE_OPTIONS: StoreServerOptions = {
+  maxBlobBytes: 64 * 1024 * 1024,
+  allowOrigin: "*"
+};
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const readBody = (req: http.IncomingMessage, maxBytes: number) => new Promise<Buffer>((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on("data", (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      // The rest is left unread; the connection closes once the 413 is sent
+      req.removeAllListeners("data");
+      reject(new HttpError(413, `Blob exceeds ${maxBytes} bytes`));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on("end", () => resolve(Buffer.concat(chunks)));
+  req.on("error", reject);
+});
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * HTTP front for a blob store:
+ *   POST /blobs         store the request body, returns { hash, size }
+ *   GET  /blobs/:hash   blob bytes
+ *   HEAD /blobs/:hash   blob size only
+ *   GET  /health
+ * A POST carrying X-Content-SHA256 is rejected unless the body matches it.
+ */
+export function createStoreServer(store: BlobStore, options: StoreServerOptions = DEFAULT_STORE_OPTIONS): http.Server {
+  const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const blobMatch = /^\/blobs\/([^/]+)$/.exec(url.pathname);
+
+    if (req.method === "GET" && url.pathname === "/health") {
+      sendJson(res, 200, { status: "ok" });
+      return;
+    }
+
+    if (req.method === "POST" && url.pathname === "/blobs") {
+      const body = await readBody(req, options.maxBlobBytes);
+      if (body.length === 0) {
+        throw new HttpError(400, "Empty blob");
+      }
+      const claimed = req.headers["x-content-sha256"];
+      if (typeof claimed === "string" && claimed.toLowerCase() !== hashBlob(body)) {
+        throw new HttpError(422, "Body does not match X-Content-SHA256");
+      }
+      sendJson(res, 201, await store.put(body));
+      return;
+    }
+
+    if ((req.method === "GET" || req.method === "HEAD") && blobMatch) {
+      const hash = blobMatch[1].toLowerCase();
+      if (!isBlobHash(hash)) {
+        throw new HttpError(400, `Invalid blob hash ${blobMatch[1]}`);
+      }
+      const info = await store.stat(hash);
+      if (!info) {
+        throw new HttpError(404, `Blob ${hash} not found`);
+      }
+      res.writeHead(200, {
+        "Content-Type": "application/octet-stream",
+        "Content-Length": info.size,
+        "Cache-Control": "public, max-age=31536000, immutable",
+        "X-Content-SHA256": hash
+      });
+      if (req.method === "HEAD") {
+        res.end();
+        return;
+      }
+      res.end(await store.get(hash));
+      return;
+    }
+
+    throw new HttpError(404, `No route for ${req.method} ${url.pathname}`);
+  };
+
+  return http.createServer((req, res) => {
+    res.setHeader("Access-Control-Allow-Origin", options.allowOrigin);
+    res.setHeader("Access-Control-Allow-Methods", "GET, HEAD, POST, OPTIONS");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, X-Content-SHA256");
+    res.setHeader("Access-Control-Expose-Headers", "X-Content-SHA256");
+    if (req.method === "OPTIONS") {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    handle(req, res).catch((e: any) => {
+      const status = e instanceof HttpError ? e.status : 500;
+      if (status === 500) console.error(e);
+      if (status === 413) res.setHeader("Connection", "close");
+      if (!res.headersSent) sendJson(res, status, { error: e.message });
+      else res.end();
+    });
+  });
+}
@@ -0,0 +1,131 @@
+// worker/backProjection.ts
+import { AlignmentRecord, alignmentSamples } from "../../frontend/web/src/reconstruction/alignment";
+import {
+  angularWeights,
+  detectorRow,
+  detectorSamples,
+  TiltGeometry
+} from "../../frontend/web/src/reconstruction/backProjection";
+import { FilterOptions, sampleFilter } from "../../frontend/web/src/reconstruction/filters";
+import type { Shape3 } from "../../frontend/web/src/tiling";
+import { identityOperator, LinearOperator, LinearTerm } from "./operator";
+import type { ReconstructionPipeline } from "./pipeline";
+
+export interface BackProjectionPipelineOptions {
+  filter: Partial<FilterOptions>;
+  /**
+   * Filter taps kept either side of each pixel. The ramp's taps fall off as
+   * 1/n², and every tap kept adds terms to each voxel's encrypted sum.
+   */
+  filterRadius: number;
+  /** Reconstruction thickness; defaults to the projection width. */
+  thickness?: number;
+}
+
+export const DEFAULT_BACK_PROJECTION_OPTIONS: BackProjectionPipelineOptions = { filter: {}, filterRadius: 4 };
+
+// Kernel taps this far below the centre tap are round-off from the FFT, not filter
+const KERNEL_EPSILON = 1e-9;
+
+const volumeSize = ([width, height, depth]: Shape3) => width * height * depth;
+
+/** Resamples each image of a `shape` tilt series through its alignment transform. */
+export function alignmentOperator(shape: Shape3, alignment: AlignmentRecord): LinearOperator {
+  const [width, height, depth] = shape;
+  if (alignment.transforms.length !== depth) {
+    throw new Error(`Got ${alignment.transforms.length} alignment transforms for ${depth} images`);
+  }
+  const imageSize = width * height;
+  return {
+    inputs: volumeSize(shape),
+    outputs: volumeSize(shape),
+    row: index => {
+      const z = Math.floor(index / imageSize);
+      const pixel = index % imageSize;
+      return alignmentSamples(alignment.transforms[z], width, height, pixel % width, Math.floor(pixel / width))
+        .map(sample => ({ source: z * imageSize + sample.pixel, weight: sample.weight }));
+    }
+  };
+}
+
+/** Convolves every row of a `shape` tilt series with the filter's kernel, cut to `radius` taps each side. */
+export function filterOperator(shape: Shape3, filter: Partial<FilterOptions>, radius: number): LinearOperator {
+  const [width] = shape;
+  const { kernel } = sampleFilter(filter, width);
+  const threshold = KERNEL_EPSILON * Math.abs(kernel[width - 1]);
+  return {
+    inputs: volumeSize(shape),
+    outputs: volumeSize(shape),
+    row: index => {
+      const x = index % width;
+      const terms: LinearTerm[] = [];
+      for (let j = Math.max(0, x - radius); j <= Math.min(width - 1, x + radius); j++) {
+        const weight = kernel[x - j + width - 1];
+        if (Math.abs(weight) > threshold) terms.push({ source: index - x + j, weight });
+      }
+      return terms;
+    }
+  };
+}
+
+/**
+ * Smears the projections back across a volume of `geometry.volumeShape`,
+ * each weighted by the angular span it covers, as weightedBackProjection does.
+ */
+export function backProjectionOperator(geometry: TiltGeometry): LinearOperator {
+  const [width, height] = geometry.detector;
+  const [volumeWidth, volumeHeight] = geometry.volumeShape;
+  const spans = angularWeights(geometry.tiltAngles);
+  return {
+    inputs: width * height * geometry.tiltAngles.length,
+    outputs: volumeSize(geometry.volumeShape),
+    row: index => {
+      const x = index % volumeWidth;
+      const y = Math.floor(index / volumeWidth) % volumeHeight;
+      const z = Math.floor(index / (volumeWidth * volumeHeight));
+      const v = detectorRow(geometry, y);
+      if (v < 0) return [];
+
+      const terms: LinearTerm[] = [];
+      geometry.tiltAngles.forEach((_, projection) => {
+        for (const { column, weight } of detectorSamples(geometry, projection, x, z)) {
+          terms.push({ source: (projection * height + v) * width + column, weight: spans[projection] * weight });
+        }
+      });
+      return terms;
+    }
+  };
+}
+
+/**
+ * Weighted back-projection over encrypted voxels: the recorded alignment,
+ * a truncated filter and the back-projection are all linear with public
+ * weights, so the worker folds them into one weighted sum per voxel.
+ */
+export function createBackProjectionPipeline(
+  options: BackProjectionPipelineOptions = DEFAULT_BACK_PROJECTION_OPTIONS
+): ReconstructionPipeline {
+  return {
+    name: "wbp",
+    align: ({ shape, alignment }) => ({
+      shape,
+      operator: alignment ? alignmentOperator(shape, alignment) : identityOperator(volumeSize(shape))
+    }),
+    filter: ({ shape }) => ({
+      shape,
+      operator: filterOperator(shape, options.filter, options.filterRadius)
+    }),
+    backProject: ({ imageId, shape, tiltAngles }) => {
+      if (!tiltAngles) throw new Error(`Image ${imageId} has no recorded tilt angles`);
+      if (tiltAngles.length !== shape[2]) {
+        throw new Error(`Got ${tiltAngles.length} tilt angles for ${shape[2]} projections`);
+      }
+      const geometry: TiltGeometry = {
+        detector: [shape[0], shape[1]],
+        tiltAngles,
+        volumeShape: [shape[0], shape[1], options.thickness ?? shape[0]]
+      };
+      return { shape: geometry.volumeShape, operator: backProjectionOperator(geometry) };
+    }
+  };
+}
@@ -0,0 +1,51 @@
+// worker/main.ts
+import { JsonRpcProvider, Wallet } from "ethers";
+import frontendConfig from "../../frontend/web/src/config.json";
+import { EtCloudFhe__factory } from "../../types/factories/contracts/EtCloudFhe__factory";
+import { BACK_PROJECTION_PIPELINE, PIPELINES } from "./pipeline";
+import { createReconstructionWorker, DEFAULT_WORKER_OPTIONS } from "./worker";
+
+const rpcUrl = process.env.WORKER_RPC_URL ?? "http://127.0.0.1:8545";
+const contractAddress = process.env.WORKER_CONTRACT ?? frontendConfig.contractAddress;
+// Weighted back-projection unless told otherwise; "identity" copies the stack, for testing the job loop
+const pipelineName = process.env.WORKER_PIPELINE ?? BACK_PROJECTION_PIPELINE.name;
+
+async function main() {
+  if (!contractAddress) {
+    throw new Error("No contract address; set WORKER_CONTRACT or deploy with deploy/deploy.ts");
+  }
+  const pipeline = PIPELINES[pipelineName];
+  if (!pipeline) {
+    throw new Error(`Unknown pipeline "${pipelineName}"; expected one of ${Object.keys(PIPELINES).join(", ")}`);
+  }
+
+  // Without a key the worker signs with the node's first unlocked account, as on a local Hardhat node
+  const provider = new JsonRpcProvider(rpcUrl);
+  const signer = process.env.WORKER_PRIVATE_KEY
+    ? new Wallet(process.env.WORKER_PRIVATE_KEY, provider)
+    : await provider.getSigner(0);
+
+  const contract = EtCloudFhe__factory.connect(contractAddress, signer);
+  const worker = createReconstructionWorker(contract, { ...DEFAULT_WORKER_OPTIONS, pipeline });
+
+  const jobWorker = await contract.jobWorker();
+  if (jobWorker.toLowerCase() !== (await signer.getAddress()).toLowerCase()) {
+    throw new Error(`${await signer.getAddress()} is not the contract's job worker (${jobWorker})`);
+  }
+
+  await worker.start();
+
+  const shutdown = async () => {
+    await worker.stop();
+    await worker.idle();
+    provider.destroy();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch(e => {
+  console.error(e);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+// worker/operator.ts
+
+/** One weighted input of an output value. */
+export interface LinearTerm {
+  source: number;
+  weight: number;
+}
+
+/**
+ * Sparse linear map from `inputs` values to `outputs` values. The worker can
+ * only combine encrypted voxels linearly with plaintext weights, so every
+ * pipeline stage is expressed as one of these.
+ */
+export interface LinearOperator {
+  inputs: number;
+  outputs: number;
+  /** Terms of output `index`; sources are distinct. */
+  row(index: number): LinearTerm[];
+}
+
+export function identityOperator(size: number): LinearOperator {
+  return { inputs: size, outputs: size, row: index => [{ source: index, weight: 1 }] };
+}
+
+/** The operator applying `inner` first, then `outer`; rows are computed on demand. */
+export function composeOperators(outer: LinearOperator, inner: LinearOperator): LinearOperator {
+  if (outer.inputs !== inner.outputs) {
+    throw new Error(`Cannot compose ${outer.inputs}-input operator after ${inner.outputs}-output operator`);
+  }
+  return {
+    inputs: inner.inputs,
+    outputs: outer.outputs,
+    row: index => {
+      const weights = new Map<number, number>();
+      for (const outerTerm of outer.row(index)) {
+        for (const innerTerm of inner.row(outerTerm.source)) {
+          const weight = (weights.get(innerTerm.source) ?? 0) + outerTerm.weight * innerTerm.weight;
+          weights.set(innerTerm.source, weight);
+        }
+      }
+      const terms: LinearTerm[] = [];
+      for (const [source, weight] of weights) {
+        if (weight !== 0) terms.push({ source, weight });
+      }
+      return terms;
+    }
+  };
+}
+
+/** Plaintext evaluation, for checking a pipeline against unencrypted data. */
+export function applyOperator(operator: LinearOperator, values: ArrayLike<number>): Float64Array {
+  if (values.length !== operator.inputs) {
+    throw new Error(`Operator expects ${operator.inputs} values, got ${values.length}`);
+  }
+  const out = new Float64Array(operator.outputs);
+  for (let i = 0; i < operator.outputs; i++) {
+    let sum = 0;
+    for (const term of operator.row(i)) sum += term.weight * values[term.source];
+    out[i] = sum;
+  }
+  return out;
+}
@@ -0,0 +1,52 @@
+// worker/pipeline.ts
+import type { AlignmentRecord } from "../../frontend/web/src/reconstruction/alignment";
+import type { Shape3 } from "../../frontend/web/src/tiling";
+import { createBackProjectionPipeline } from "./backProjection";
+import { identityOperator, LinearOperator } from "./operator";
+
+/** What a stage knows about the values it transforms. */
+export interface StageInput {
+  imageId: bigint;
+  /** Shape of the values the stage receives, x fastest, then y, then z. */
+  shape: Shape3;
+  /** Alignment the image's owner recorded for its tilt series, if any. */
+  alignment: AlignmentRecord | null;
+  /** Tilt angle of each image, in degrees, if the owner recorded them. */
+  tiltAngles: number[] | null;
+}
+
+export interface StageOutput {
+  shape: Shape3;
+  /** Maps the input's voxels to voxels of `shape`. */
+  operator: LinearOperator;
+}
+
+export type PipelineStage = (input: StageInput) => StageOutput | Promise<StageOutput>;
+
+/** Stages run in the order of the job states they report. */
+export interface ReconstructionPipeline {
+  name: string;
+  align: PipelineStage;
+  filter: PipelineStage;
+  backProject: PipelineStage;
+}
+
+const passThrough: PipelineStage = ({ shape }) => ({
+  shape,
+  operator: identityOperator(shape[0] * shape[1] * shape[2])
+});
+
+/** Copies the tilt series unchanged; exercises the job loop end to end. */
+export const IDENTITY_PIPELINE: ReconstructionPipeline = {
+  name: "identity",
+  align: passThrough,
+  filter: passThrough,
+  backProject: passThrough
+};
+
+export const BACK_PROJECTION_PIPELINE = createBackProjectionPipeline();
+
+export const PIPELINES: Record<string, ReconstructionPipeline> = {
+  [IDENTITY_PIPELINE.name]: IDENTITY_PIPELINE,
+  [BACK_PROJECTION_PIPELINE.name]: BACK_PROJECTION_PIPELINE
+};
@@ -0,0 +1,344 @@
+// worker/worker.ts
+import { EncryptedWidth, maxStored, RECONSTRUCTION_WIDTHS, ValueScaling } from "../../frontend/web/src/quantization";
+import { decodeAlignment, fromAlignmentUnits } from "../../frontend/web/src/reconstruction/alignment";
+import {
+  fromFixedPoint,
+  MANIFEST_DTYPES,
+  Shape3,
+  TileGrid,
+  tileCount,
+  tileGrid,
+  tileIndexAt,
+  tileOrigin,
+  toFixedPoint
+} from "../../frontend/web/src/tiling";
+import type { EtCloudFhe } from "../../types/contracts/EtCloudFhe";
+import { composeOperators, LinearOperator } from "./operator";
+import type { ReconstructionPipeline } from "./pipeline";
+
+// Values of EtCloudFhe.JobState
+const JobState = {
+  Queued: 1n,
+  Aligning: 2n,
+  Filtering: 3n,
+  BackProjecting: 4n,
+  Failed: 6n
+} as const;
+
+export interface WorkerOptions {
+  pipeline: ReconstructionPipeline;
+  /** Tile shape of the result volume. */
+  resultTileShape: Shape3;
+  log: (message: string) => void;
+}
+
+export const DEFAULT_WORKER_OPTIONS: Omit<WorkerOptions, "pipeline"> = {
+  resultTileShape: [8, 8, 1],
+  log: message => console.log(`[worker] ${message}`)
+};
+
+export interface ReconstructionWorker {
+  /** Follows new requests, picks up queued jobs and fails interrupted ones. */
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  /** Resolves once the queue has run empty, jobs queued while waiting included. */
+  idle(): Promise<void>;
+}
+
+/** The job left the state the worker expected, normally because its owner cancelled it. */
+class JobInterrupted extends Error {}
+
+interface ResultBatch {
+  /** The first voxel continues the tile's last one. */
+  extendLast: boolean;
+  /** The last voxel continues in the next write. */
+  leaveOpen: boolean;
+  termCounts: number[];
+  sourceTiles: number[];
+  sourceVoxels: number[];
+  weights: number[];
+}
+
+const emptyBatch = (): ResultBatch => ({
+  extendLast: false,
+  leaveOpen: false,
+  termCounts: [],
+  sourceTiles: [],
+  sourceVoxels: [],
+  weights: []
+});
+
+/** How an operator's real weights become the integers the contract multiplies by. */
+interface WeightScaling {
+  /** Weights are multiplied by this, then rounded. */
+  factor: number;
+  /** Decodes the result voxels those integer weights produce. */
+  result: ValueScaling;
+  /** False when rows sum to different totals, so the inputs' offset cannot carry over. */
+  keepsOffset: boolean;
+}
+
+/**
+ * Integer operators keep their weights. Real ones are scaled up as far as
+ * int32 results of `input.bits`-wide voxels allow, rounding included; 32-bit
+ * voxels allow no factor at all, so the contract only takes tiles of
+ * RECONSTRUCTION_WIDTHS. Inputs decode as offset + scale·stored, so output i
+ * decodes as offset·Σw + (scale / factor)·result, which one manifest can only
+ * state when every row sums alike; otherwise results are relative to the
+ * inputs' offset.
+ */
+const scaleWeights = (operator: LinearOperator, input: ValueScaling): WeightScaling => {
+  let integer = true;
+  let maxAbsSum = 0;
+  let maxTerms = 0;
+  let minSum = Infinity;
+  let maxSum = -Infinity;
+  for (let i = 0; i < operator.outputs; i++) {
+    const terms = operator.row(i);
+    let sum = 0;
+    let absSum = 0;
+    for (const { weight } of terms) {
+      integer &&= Number.isInteger(weight);
+      sum += weight;
+      absSum += Math.abs(weight);
+    }
+    minSum = Math.min(minSum, sum);
+    maxSum = Math.max(maxSum, sum);
+    maxAbsSum = Math.max(maxAbsSum, absSum);
+    maxTerms = Math.max(maxTerms, terms.length);
+  }
+
+  const keepsOffset = maxSum - minSum <= 1e-9 * Math.max(1, Math.abs(maxSum));
+  const offset = keepsOffset ? input.offset * maxSum : 0;
+  if (integer) return { factor: 1, result: { offset, scale: input.scale, bits: 32 }, keepsOffset };
+
+  const factor = Math.floor(((2 ** 31 - 1) / maxStored(input.bits) - maxTerms / 2) / maxAbsSum);
+  if (!(factor >= 1)) {
+    throw new Error(
+      `Operator weights sum to ${maxAbsSum}, too much for ${input.bits}-bit voxels to stay within int32; ` +
+        `reconstruct from ${RECONSTRUCTION_WIDTHS.join(" or ")}-bit tiles`
+    );
+  }
+  return { factor, result: { offset, scale: input.scale / factor, bits: 32 }, keepsOffset };
+};
+
+/** Weights are multiplied modulo 2^32, so negative integers wrap to their two's complement. */
+const toWeight = (weight: number): number => {
+  if (!Number.isInteger(weight) || weight < -(2 ** 31) || weight >= 2 ** 32) {
+    throw new Error(`Operator weight ${weight} is not a 32-bit integer`);
+  }
+  return weight >>> 0;
+};
+
+/** Tile and position inside the tile of voxel `index` of the grid's flattened volume. */
+const locate = (grid: TileGrid, index: number): [number, number] => {
+  const [width, height] = grid.shape;
+  const x = index % width;
+  const y = Math.floor(index / width) % height;
+  const z = Math.floor(index / (width * height));
+  const tile = tileIndexAt(grid, x, y, z);
+  const [ox, oy, oz] = tileOrigin(grid, tile);
+  const [tx, ty] = grid.tileShape;
+  return [tile, ((z - oz) * ty + (y - oy)) * tx + (x - ox)];
+};
+
+export function createReconstructionWorker(contract: EtCloudFhe, options: WorkerOptions): ReconstructionWorker {
+  const { pipeline, log } = options;
+  const pending = new Set<bigint>();
+  let queue = Promise.resolve();
+
+  const expectState = async (imageId: bigint, expected: bigint) => {
+    const state = await contract.getJobState(imageId);
+    if (state !== expected) throw new JobInterrupted(`Job ${imageId} is in state ${state}`);
+  };
+
+  const advance = async (imageId: bigint, from: bigint, to: bigint) => {
+    await expectState(imageId, from);
+    await (await contract.advanceJob(imageId, to)).wait();
+  };
+
+  const writeResult = async (
+    imageId: bigint,
+    input: TileGrid,
+    operator: LinearOperator,
+    output: TileGrid,
+    weights: WeightScaling
+  ) => {
+    const maxVoxels = Number(await contract.MAX_RESULT_BATCH());
+    const maxTerms = Number(await contract.MAX_RESULT_TERMS());
+    const [width, height, depth] = output.shape;
+    const [tx, ty, tz] = output.tileShape;
+
+    // Weighted sums span the whole euint32, whatever width the inputs were quantized to
+    await (await contract.setResultManifest(
+      imageId,
+      output.shape,
+      output.tileShape,
+      MANIFEST_DTYPES.indexOf("int32"),
+      32,
+      toFixedPoint(weights.result.offset),
+      toFixedPoint(weights.result.scale)
+    )).wait();
+
+    const tiles = tileCount(output);
+    for (let tile = 0; tile < tiles; tile++) {
+      await expectState(imageId, JobState.BackProjecting);
+      const [ox, oy, oz] = tileOrigin(output, tile);
+      let batch = emptyBatch();
+
+      const flush = async () => {
+        if (batch.termCounts.length === 0) return;
+        await (await contract.writeResultVoxels(
+          imageId,
+          tile,
+          batch.extendLast,
+          batch.leaveOpen,
+          batch.termCounts,
+          batch.sourceTiles,
+          batch.sourceVoxels,
+          batch.weights
+        )).wait();
+        batch = emptyBatch();
+      };
+
+      for (let z = oz; z < oz + tz; z++) {
+        for (let y = oy; y < oy + ty; y++) {
+          for (let x = ox; x < ox + tx; x++) {
+            // Voxels past the volume's edge pad the tile with zeros
+            const row = x < width && y < height && z < depth ? operator.row((z * height + y) * width + x) : [];
+            const terms = row
+              .map(term => ({ source: term.source, weight: Math.round(term.weight * weights.factor) }))
+              .filter(term => term.weight !== 0);
+            if (batch.termCounts.length === maxVoxels || batch.weights.length + terms.length > maxTerms) await flush();
+
+            // A voxel with more terms than one write carries continues into the next writes
+            for (let start = 0; start === 0 || start < terms.length; start += maxTerms) {
+              if (start > 0) {
+                batch.leaveOpen = true;
+                await flush();
+                batch.extendLast = true;
+              }
+              const part = terms.slice(start, start + maxTerms);
+              batch.termCounts.push(part.length);
+              for (const term of part) {
+                const [sourceTile, sourceVoxel] = locate(input, term.source);
+                batch.sourceTiles.push(sourceTile);
+                batch.sourceVoxels.push(sourceVoxel);
+                batch.weights.push(toWeight(term.weight));
+              }
+            }
+          }
+        }
+      }
+      await flush();
+      log(`Image ${imageId}: result tile ${tile + 1} of ${tiles} written`);
+    }
+  };
+
+  const runJob = async (imageId: bigint) => {
+    const m = await contract.getTileManifest(imageId);
+    const input = tileGrid(
+      [Number(m.width), Number(m.height), Number(m.depth)],
+      [Number(m.tileWidth), Number(m.tileHeight), Number(m.tileDepth)]
+    );
+    const scaling: ValueScaling = {
+      offset: fromFixedPoint(m.valueOffset),
+      scale: fromFixedPoint(m.valueScale),
+      bits: Number(m.valueBits) as EncryptedWidth
+    };
+    const [tiltAxisAngle, transforms] = await contract.getAlignment(imageId);
+    const alignment = transforms.length === 0 ? null : decodeAlignment(tiltAxisAngle, transforms);
+    const angles = await contract.getTiltAngles(imageId);
+    const tiltAngles = angles.length === 0 ? null : angles.map(fromAlignmentUnits);
+    log(`Image ${imageId}: reconstructing ${input.shape.join(" x ")} with the ${pipeline.name} pipeline`);
+
+    await advance(imageId, JobState.Queued, JobState.Aligning);
+    const aligned = await pipeline.align({ imageId, shape: input.shape, alignment, tiltAngles });
+
+    await advance(imageId, JobState.Aligning, JobState.Filtering);
+    const filtered = await pipeline.filter({ imageId, shape: aligned.shape, alignment, tiltAngles });
+
+    await advance(imageId, JobState.Filtering, JobState.BackProjecting);
+    const projected = await pipeline.backProject({ imageId, shape: filtered.shape, alignment, tiltAngles });
+
+    const operator = composeOperators(projected.operator, composeOperators(filtered.operator, aligned.operator));
+    const weights = scaleWeights(operator, scaling);
+    if (!weights.keepsOffset && scaling.offset !== 0) {
+      log(`Image ${imageId}: result values are relative to the input offset ${scaling.offset}`);
+    }
+    await writeResult(imageId, input, operator, tileGrid(projected.shape, options.resultTileShape), weights);
+
+    await expectState(imageId, JobState.BackProjecting);
+    await (await contract.completeReconstruction(imageId)).wait();
+    log(`Image ${imageId}: reconstruction complete`);
+  };
+
+  /** Runs a job; true when it has to run again because its owner requested it anew while it ran. */
+  const handle = async (imageId: bigint): Promise<boolean> => {
+    try {
+      await runJob(imageId);
+    } catch (e) {
+      if (e instanceof JobInterrupted) {
+        log(`Image ${imageId}: stopped, ${e.message}`);
+        // A request made while the job ran was dropped by enqueue, so a job queued again is picked up here
+        try {
+          return (await contract.getJobState(imageId)) === JobState.Queued;
+        } catch (readError) {
+          log(`Image ${imageId}: could not read the job state, ${readError instanceof Error ? readError.message : readError}`);
+          return false;
+        }
+      }
+      log(`Image ${imageId}: failed, ${e instanceof Error ? e.message : e}`);
+      try {
+        await (await contract.advanceJob(imageId, JobState.Failed)).wait();
+      } catch (reportError) {
+        log(`Image ${imageId}: could not record the failure, ${reportError instanceof Error ? reportError.message : reportError}`);
+      }
+    }
+    return false;
+  };
+
+  const enqueue = (imageId: bigint) => {
+    if (pending.has(imageId)) return;
+    pending.add(imageId);
+    queue = queue
+      .then(() => handle(imageId))
+      .then(requeued => {
+        pending.delete(imageId);
+        if (requeued) enqueue(imageId);
+      });
+  };
+
+  const onRequested = (imageId: bigint) => enqueue(imageId);
+
+  return {
+    async start() {
+      // Subscribed before the scan, so requests made during it are not missed
+      await contract.on(contract.filters.ReconstructionRequested, onRequested);
+      // Jobs caught mid-pipeline by a restart cannot resume, so they are failed for their owners to requeue
+      const count = await contract.imageCount();
+      for (let id = 1n; id <= count; id++) {
+        const state = await contract.getJobState(id);
+        // Already queued from an event, and possibly running by now
+        if (pending.has(id)) continue;
+        if (state === JobState.Queued) {
+          enqueue(id);
+        } else if (state > JobState.Queued && state <= JobState.BackProjecting) {
+          log(`Image ${id}: interrupted job marked failed`);
+          await (await contract.advanceJob(id, JobState.Failed)).wait();
+        }
+      }
+      log(`Watching ${await contract.getAddress()} for reconstruction requests`);
+    },
+    async stop() {
+      await contract.off(contract.filters.ReconstructionRequested, onRequested);
+    },
+    async idle() {
+      // Jobs queued while waiting, requeued ones included, extend the queue
+      for (let current = queue; ; current = queue) {
+        await current;
+        if (current === queue) return;
+      }
+    }
+  };
+}
@@ -0,0 +1,406 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { PIXEL_SPACING_SCALE } from "../frontend/web/src/formats/stack";
+import type { EtCloudFhe } from "../types/contracts/EtCloudFhe";
+import type { EtCloudFhe__factory } from "../types/factories/contracts/EtCloudFhe__factory";
+
+type Signers = {
+  worker: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  bob: HardhatEthersSigner;
+};
+
+// Values of EtCloudFhe.JobState
+const JobState = {
+  None: 0n,
+  Queued: 1n,
+  Aligning: 2n,
+  Filtering: 3n,
+  BackProjecting: 4n,
+  Reconstructed: 5n,
+  Failed: 6n,
+  Cancelled: 7n
+} as const;
+
+// 1 in the manifests' 18-decimal fixed point
+const UNIT_SCALE = 10n ** 18n;
+const UINT16 = 3;
+const INT32 = 4;
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("EtCloudFhe")) as EtCloudFhe__factory;
+  const contract = (await factory.deploy()) as EtCloudFhe;
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress };
+}
+
+describe("EtCloudFhe", function () {
+  let signers: Signers;
+  let contract: EtCloudFhe;
+  let contractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { worker: ethSigners[0], alice: ethSigners[1], bob: ethSigners[2] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ contract, contractAddress } = await deployFixture());
+  });
+
+  /** Registers an image for `owner` and returns its id. */
+  const registerImage = async (owner: HardhatEthersSigner): Promise<bigint> => {
+    const fingerprint = await fhevm.createEncryptedInput(contractAddress, owner.address).add32(0xc0ffee).encrypt();
+    await (
+      await contract.connect(owner).uploadEncryptedImage(fingerprint.handles[0], fingerprint.inputProof, "2.4 Å/px", "")
+    ).wait();
+    return contract.imageCount();
+  };
+
+  /** Registers an image whose single tile holds `voxels`, a 1-pixel-high row per image of the series. */
+  const uploadImage = async (owner: HardhatEthersSigner, voxels: number[], depth = 1): Promise<bigint> => {
+    const imageId = await registerImage(owner);
+    const shape: [number, number, number] = [voxels.length / depth, 1, depth];
+    await (await contract.connect(owner).setTileManifest(imageId, shape, shape, UINT16, 16, 0, UNIT_SCALE)).wait();
+    const input = fhevm.createEncryptedInput(contractAddress, owner.address);
+    for (const voxel of voxels) input.add32(voxel);
+    const encrypted = await input.encrypt();
+    await (await contract.connect(owner).uploadTileVoxels(imageId, 0, encrypted.handles, encrypted.inputProof)).wait();
+    return imageId;
+  };
+
+  /** Queues a job and walks it to the back-projection stage. */
+  const startBackProjection = async (owner: HardhatEthersSigner, imageId: bigint) => {
+    await (await contract.connect(owner).requestReconstruction(imageId)).wait();
+    for (const state of [JobState.Aligning, JobState.Filtering, JobState.BackProjecting]) {
+      await (await contract.connect(signers.worker).advanceJob(imageId, state)).wait();
+    }
+  };
+
+  const setResultManifest = (imageId: bigint, shape: [number, number, number]) =>
+    contract.connect(signers.worker).setResultManifest(imageId, shape, shape, INT32, 32, 0, UNIT_SCALE);
+
+  const decryptResult = async (owner: HardhatEthersSigner, imageId: bigint, tileIndex = 0): Promise<number[]> => {
+    const handles = await contract.getResultVoxels(imageId, tileIndex, 0, 1024);
+    const values: number[] = [];
+    for (const handle of handles) {
+      values.push(Number(await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, owner)));
+    }
+    return values;
+  };
+
+  describe("reconstruction requests", function () {
+    it("refuses images without a tile manifest", async function () {
+      const imageId = await registerImage(signers.alice);
+      await expect(contract.connect(signers.alice).requestReconstruction(imageId)).to.be.revertedWith(
+        "No tile manifest"
+      );
+    });
+
+    it("refuses images whose tiles are still uploading", async function () {
+      const imageId = await registerImage(signers.alice);
+      await (
+        await contract.connect(signers.alice).setTileManifest(imageId, [2, 1, 1], [2, 1, 1], UINT16, 16, 0, UNIT_SCALE)
+      ).wait();
+      await expect(contract.connect(signers.alice).requestReconstruction(imageId)).to.be.revertedWith(
+        "Tiles not fully uploaded"
+      );
+    });
+
+    it("refuses tiles too wide for the worker's weighted sums", async function () {
+      const imageId = await registerImage(signers.alice);
+      const owner = contract.connect(signers.alice);
+      await expect(owner.setTileManifest(imageId, [2, 1, 1], [2, 1, 1], UINT16, 32, 0, UNIT_SCALE)).to.be.revertedWith(
+        "Tiles must be 8 or 16 bits"
+      );
+      await (await owner.setTileManifest(imageId, [2, 1, 1], [2, 1, 1], UINT16, 8, 0, UNIT_SCALE)).wait();
+      expect((await contract.getTileManifest(imageId)).valueBits).to.equal(8n);
+    });
+
+    it("lets only the owner request and cancel", async function () {
+      const imageId = await uploadImage(signers.alice, [1, 2]);
+      await expect(contract.connect(signers.bob).requestReconstruction(imageId)).to.be.revertedWith("Not image owner");
+      await (await contract.connect(signers.alice).requestReconstruction(imageId)).wait();
+      await expect(contract.connect(signers.bob).cancelReconstruction(imageId)).to.be.revertedWith("Not image owner");
+    });
+  });
+
+  describe("job state machine", function () {
+    it("records each stage a job passes through", async function () {
+      const imageId = await uploadImage(signers.alice, [1, 2]);
+      await startBackProjection(signers.alice, imageId);
+      await (await setResultManifest(imageId, [1, 1, 1])).wait();
+      await (await contract.writeResultVoxels(imageId, 0, false, false, [1], [0], [0], [1])).wait();
+      await (await contract.completeReconstruction(imageId)).wait();
+
+      const history = await contract.getJobHistory(imageId);
+      expect(history.map(t => t.state)).to.deep.equal([
+        JobState.Queued,
+        JobState.Aligning,
+        JobState.Filtering,
+        JobState.BackProjecting,
+        JobState.Reconstructed
+      ]);
+      const metadata = await contract.getImageMetadata(imageId);
+      expect(metadata.reconstructionRequested).to.equal(true);
+      expect(metadata.isProcessed).to.equal(true);
+    });
+
+    it("moves stages forward one at a time", async function () {
+      const imageId = await uploadImage(signers.alice, [1, 2]);
+      const worker = contract.connect(signers.worker);
+      await expect(worker.advanceJob(imageId, JobState.Aligning)).to.be.revertedWith("Invalid job transition");
+      await (await contract.connect(signers.alice).requestReconstruction(imageId)).wait();
+      await expect(contract.connect(signers.alice).requestReconstruction(imageId)).to.be.revertedWith(
+        "Invalid job transition"
+      );
+      await expect(worker.advanceJob(imageId, JobState.Filtering)).to.be.revertedWith("Invalid job transition");
+      await (await worker.advanceJob(imageId, JobState.Aligning)).wait();
+      await expect(worker.advanceJob(imageId, JobState.Aligning)).to.be.revertedWith("Invalid job transition");
+      await expect(worker.advanceJob(imageId, JobState.Reconstructed)).to.be.revertedWith("Not a worker transition");
+      await expect(worker.advanceJob(imageId, JobState.Queued)).to.be.revertedWith("Not a worker transition");
+    });
+
+    it("lets only the job worker advance jobs", async function () {
+      const imageId = await uploadImage(signers.alice, [1, 2]);
+      await (await contract.connect(signers.alice).requestReconstruction(imageId)).wait();
+      await expect(contract.connect(signers.alice).advanceJob(imageId, JobState.Aligning)).to.be.revertedWith(
+        "Not job worker"
+      );
+      await expect(contract.connect(signers.alice).completeReconstruction(imageId)).to.be.revertedWith(
+        "Not job worker"
+      );
+    });
+
+    it("requeues failed and cancelled jobs but not finished ones", async function () {
+      const imageId = await uploadImage(signers.alice, [1, 2]);
+      const owner = contract.connect(signers.alice);
+      await (await owner.requestReconstruction(imageId)).wait();
+      await (await contract.connect(signers.worker).advanceJob(imageId, JobState.Failed)).wait();
+      expect((await contract.getImageMetadata(imageId)).reconstructionRequested).to.equal(false);
+      await expect(contract.connect(signers.worker).advanceJob(imageId, JobState.Aligning)).to.be.revertedWith(
+        "Invalid job transition"
+      );
+
+      await (await owner.requestReconstruction(imageId)).wait();
+      await (await contract.connect(signers.worker).advanceJob(imageId, JobState.Aligning)).wait();
+      await (await owner.cancelReconstruction(imageId)).wait();
+      await expect(owner.cancelReconstruction(imageId)).to.be.revertedWith("Invalid job transition");
+
+      await startBackProjection(signers.alice, imageId);
+      await (await setResultManifest(imageId, [1, 1, 1])).wait();
+      await (await contract.writeResultVoxels(imageId, 0, false, false, [1], [0], [0], [1])).wait();
+      await (await contract.completeReconstruction(imageId)).wait();
+      await expect(owner.requestReconstruction(imageId)).to.be.revertedWith("Invalid job transition");
+      await expect(owner.cancelReconstruction(imageId)).to.be.revertedWith("Invalid job transition");
+      expect(await contract.getJobState(imageId)).to.equal(JobState.Reconstructed);
+    });
+
+    it("locks the tilt geometry while a job runs", async function () {
+      const imageId = await uploadImage(signers.alice, [1, 2, 3, 4], 2);
+      const owner = contract.connect(signers.alice);
+      await (await owner.setTiltAngles(imageId, [-30000, 30000])).wait();
+      await (await owner.requestReconstruction(imageId)).wait();
+      await expect(owner.setTiltAngles(imageId, [-20000, 20000])).to.be.revertedWith("Reconstruction in progress");
+      await (await owner.cancelReconstruction(imageId)).wait();
+      await (await owner.setTiltAngles(imageId, [-20000, 20000])).wait();
+      expect(await contract.getTiltAngles(imageId)).to.deep.equal([-20000n, 20000n]);
+    });
+
+    it("records the pixel spacing results take their voxel size from", async function () {
+      const imageId = await uploadImage(signers.alice, [1, 2]);
+      const owner = contract.connect(signers.alice);
+      expect(await contract.getPixelSpacing(imageId)).to.deep.equal([0n, 0n, 0n]);
+      expect(await contract.PIXEL_SPACING_SCALE()).to.equal(BigInt(PIXEL_SPACING_SCALE));
+      await expect(contract.connect(signers.bob).setPixelSpacing(imageId, [1, 1, 1])).to.be.revertedWith(
+        "Not image owner"
+      );
+      await (await owner.setPixelSpacing(imageId, [2170, 2170, 0])).wait();
+      await (await owner.requestReconstruction(imageId)).wait();
+      await expect(owner.setPixelSpacing(imageId, [1000, 1000, 0])).to.be.revertedWith("Reconstruction in progress");
+      expect(await contract.getPixelSpacing(imageId)).to.deep.equal([2170n, 2170n, 0n]);
+    });
+
+    it("keeps the resolution curve a result was made with", async function () {
+      const imageId = await uploadImage(signers.alice, [1, 2]);
+      const owner = contract.connect(signers.alice);
+      await (await owner.setFscCurve(imageId, 1200, [1000, 800, 100])).wait();
+      expect((await contract.getResultFscCurve(imageId)).correlation).to.deep.equal([]);
+
+      await startBackProjection(signers.alice, imageId);
+      await expect(owner.setFscCurve(imageId, 1200, [1000, 900, 200])).to.be.revertedWith("Reconstruction in progress");
+      await (await setResultManifest(imageId, [1, 1, 1])).wait();
+      await (await contract.writeResultVoxels(imageId, 0, false, false, [1], [0], [0], [1])).wait();
+      expect((await contract.getResultFscCurve(imageId)).correlation).to.deep.equal([]);
+      await (await contract.completeReconstruction(imageId)).wait();
+
+      // A curve recorded later is the image's, not the finished result's
+      await (await owner.setFscCurve(imageId, 600, [1000, 500])).wait();
+      const [pixelSpacing, correlation] = await contract.getResultFscCurve(imageId);
+      expect([pixelSpacing, correlation]).to.deep.equal([1200n, [1000n, 800n, 100n]]);
+      expect((await contract.getFscCurve(imageId)).correlation).to.deep.equal([1000n, 500n]);
+    });
+  });
+
+  describe("result writing", function () {
+    it("keeps result writes to the job worker", async function () {
+      const imageId = await uploadImage(signers.alice, [1, 2]);
+      await startBackProjection(signers.alice, imageId);
+      await expect(
+        contract.connect(signers.alice).setResultManifest(imageId, [1, 1, 1], [1, 1, 1], INT32, 32, 0, UNIT_SCALE)
+      ).to.be.revertedWith("Not job worker");
+      await expect(contract.connect(signers.alice).advanceJob(imageId, JobState.Failed)).to.be.revertedWith(
+        "Not job worker"
+      );
+      await (await setResultManifest(imageId, [1, 1, 1])).wait();
+      await expect(
+        contract.connect(signers.alice).writeResultVoxels(imageId, 0, false, false, [1], [0], [0], [1])
+      ).to.be.revertedWith("Not job worker");
+      await expect(contract.connect(signers.alice).completeReconstruction(imageId)).to.be.revertedWith(
+        "Not job worker"
+      );
+      await expect(contract.connect(signers.alice).setJobWorker(signers.alice.address)).to.be.revertedWith(
+        "Not job worker"
+      );
+    });
+
+    it("writes weighted sums of input voxels", async function () {
+      const imageId = await uploadImage(signers.alice, [3, 5, 7, 11]);
+      await startBackProjection(signers.alice, imageId);
+      await expect(contract.writeResultVoxels(imageId, 0, false, false, [1], [0], [0], [1])).to.be.revertedWith(
+        "No result manifest"
+      );
+      await (await setResultManifest(imageId, [2, 1, 1])).wait();
+
+      // 2·3 + 5 and 7 - 11, the negative weight wrapping modulo 2^32
+      await (
+        await contract.writeResultVoxels(
+          imageId,
+          0,
+          false,
+          false,
+          [2, 2],
+          [0, 0, 0, 0],
+          [0, 1, 2, 3],
+          [2, 1, 1, 2 ** 32 - 1]
+        )
+      ).wait();
+      expect(await decryptResult(signers.alice, imageId)).to.deep.equal([11, 2 ** 32 - 4]);
+      expect((await contract.getResultManifest(imageId)).tilesCompleted).to.equal(1n);
+    });
+
+    it("rejects malformed batches", async function () {
+      const imageId = await uploadImage(signers.alice, [3, 5]);
+      await startBackProjection(signers.alice, imageId);
+      await (await setResultManifest(imageId, [1, 1, 1])).wait();
+      const maxTerms = Number(await contract.MAX_RESULT_TERMS());
+      const many = Array(maxTerms + 1).fill(0);
+
+      await expect(contract.writeResultVoxels(imageId, 1, false, false, [1], [0], [0], [1])).to.be.revertedWith(
+        "Tile index out of range"
+      );
+      await expect(contract.writeResultVoxels(imageId, 0, false, false, [], [], [], [])).to.be.revertedWith(
+        "Invalid batch size"
+      );
+      await expect(
+        contract.writeResultVoxels(imageId, 0, false, false, [maxTerms + 1], many, many, many)
+      ).to.be.revertedWith("Invalid terms");
+      await expect(contract.writeResultVoxels(imageId, 0, false, false, [1], [0], [2], [1])).to.be.revertedWith(
+        "Source voxel out of range"
+      );
+      await expect(
+        contract.writeResultVoxels(imageId, 0, false, false, [1], [0, 0], [0, 1], [1, 1])
+      ).to.be.revertedWith("Unused terms");
+      await expect(
+        contract.writeResultVoxels(imageId, 0, false, false, [1, 1], [0, 0], [0, 1], [1, 1])
+      ).to.be.revertedWith("Tile overflow");
+      await expect(contract.writeResultVoxels(imageId, 0, true, false, [1], [0], [0], [1])).to.be.revertedWith(
+        "No voxel to extend"
+      );
+    });
+
+    it("sums a voxel over more than MAX_RESULT_TERMS terms across writes", async function () {
+      const maxTerms = Number(await contract.MAX_RESULT_TERMS());
+      const voxels = Array.from({ length: maxTerms + 8 }, (_, i) => i + 1);
+      const imageId = await uploadImage(signers.alice, voxels);
+      await startBackProjection(signers.alice, imageId);
+      await (await setResultManifest(imageId, [1, 1, 1])).wait();
+
+      const sources = voxels.map((_, i) => i);
+      const first = sources.slice(0, maxTerms);
+      const rest = sources.slice(maxTerms);
+      const zeros = (n: number) => Array(n).fill(0);
+      const ones = (n: number) => Array(n).fill(1);
+      await (
+        await contract.writeResultVoxels(
+          imageId,
+          0,
+          false,
+          true,
+          [first.length],
+          zeros(first.length),
+          first,
+          ones(first.length)
+        )
+      ).wait();
+
+      // The tile is full but its only voxel is still open, so the result is not complete
+      expect(await contract.getResultVoxelCount(imageId, 0)).to.equal(1n);
+      expect((await contract.getResultManifest(imageId)).tilesCompleted).to.equal(0n);
+      await expect(contract.completeReconstruction(imageId)).to.be.revertedWith("Result incomplete");
+      await expect(contract.writeResultVoxels(imageId, 0, false, false, [1], [0], [0], [1])).to.be.revertedWith(
+        "Last voxel left open"
+      );
+
+      await (
+        await contract.writeResultVoxels(
+          imageId,
+          0,
+          true,
+          false,
+          [rest.length],
+          zeros(rest.length),
+          rest,
+          ones(rest.length)
+        )
+      ).wait();
+      expect((await contract.getResultManifest(imageId)).tilesCompleted).to.equal(1n);
+      expect(await decryptResult(signers.alice, imageId)).to.deep.equal([voxels.reduce((a, b) => a + b)]);
+      await expect(contract.writeResultVoxels(imageId, 0, true, false, [1], [0], [0], [1])).to.be.revertedWith(
+        "No voxel to extend"
+      );
+
+      await (await contract.completeReconstruction(imageId)).wait();
+      expect(await contract.getJobState(imageId)).to.equal(JobState.Reconstructed);
+    });
+
+    it("completes only after the manifest and every tile are written", async function () {
+      const imageId = await uploadImage(signers.alice, [3, 5]);
+      await startBackProjection(signers.alice, imageId);
+      await expect(contract.completeReconstruction(imageId)).to.be.revertedWith("Result incomplete");
+
+      await (await contract.setResultManifest(imageId, [2, 1, 1], [1, 1, 1], INT32, 32, 0, UNIT_SCALE)).wait();
+      await (await contract.writeResultVoxels(imageId, 0, false, false, [1], [0], [1], [1])).wait();
+      await expect(contract.completeReconstruction(imageId)).to.be.revertedWith("Result incomplete");
+      await (await contract.writeResultVoxels(imageId, 1, false, false, [1], [0], [0], [1])).wait();
+
+      // A new manifest starts the result over
+      await (await contract.setResultManifest(imageId, [2, 1, 1], [1, 1, 1], INT32, 32, 0, UNIT_SCALE)).wait();
+      expect(await contract.getResultVoxelCount(imageId, 0)).to.equal(0n);
+      await expect(contract.completeReconstruction(imageId)).to.be.revertedWith("Result incomplete");
+      await (await contract.writeResultVoxels(imageId, 0, false, false, [1], [0], [0], [2])).wait();
+      await (await contract.writeResultVoxels(imageId, 1, false, false, [1], [0], [1], [2])).wait();
+      await (await contract.completeReconstruction(imageId)).wait();
+
+      expect(await decryptResult(signers.alice, imageId, 0)).to.deep.equal([6]);
+      expect(await decryptResult(signers.alice, imageId, 1)).to.deep.equal([10]);
+      await expect(setResultManifest(imageId, [1, 1, 1])).to.be.revertedWith("Job not running");
+    });
+  });
+});
@@ -0,0 +1,174 @@
+import { expect } from "chai";
+import type { ImageStack } from "../frontend/web/src/formats/stack";
+import {
+  AlignmentRecord,
+  alignmentSamples,
+  alignTiltSeries,
+  applyAlignment,
+  binAlignment,
+  binStack,
+  crossCorrelationShift,
+  decodeAlignment,
+  encodeAlignment,
+  tiltOrder,
+  unbinAlignment
+} from "../frontend/web/src/reconstruction/alignment";
+import { beadPhantom } from "../frontend/web/src/reconstruction/phantoms";
+import { forwardProject, tiltRange } from "../frontend/web/src/reconstruction/projection";
+
+/** The raw series a detector would record if it saw `stack` rotated and shifted by `record`. */
+const misalign = (stack: ImageStack, record: AlignmentRecord): ImageStack => {
+  const { width, height } = stack;
+  const data = new Float32Array(stack.data.length);
+  for (let z = 0; z < stack.depth; z++) {
+    const { shiftX, shiftY, rotation } = record.transforms[z];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        // The inverse of the alignment transform: rotate back about the centre after removing the shift
+        const samples = alignmentSamples(
+          { shiftX: 0, shiftY: 0, rotation: -rotation },
+          width,
+          height,
+          x - shiftX,
+          y - shiftY
+        );
+        let sum = 0;
+        for (const { pixel, weight } of samples) sum += weight * stack.data[z * width * height + pixel];
+        data[z * width * height + y * width + x] = sum;
+      }
+    }
+  }
+  return { ...stack, data };
+};
+
+const blob = (width: number, height: number, cx: number, cy: number) =>
+  Float64Array.from({ length: width * height }, (_, i) =>
+    Math.exp(-(((i % width) - cx) ** 2 + (Math.floor(i / width) - cy) ** 2) / 18)
+  );
+
+describe("alignment", function () {
+  it("finds the sub-pixel shift between two images", function () {
+    const a = blob(40, 24, 18, 11);
+    const b = blob(40, 24, 21.4, 8.7);
+    const [sx, sy] = crossCorrelationShift(a, b, 40, 24);
+    expect(sx).to.be.closeTo(3.4, 0.15);
+    expect(sy).to.be.closeTo(-2.3, 0.15);
+    expect(crossCorrelationShift(b, a, 40, 24)[0]).to.be.closeTo(-3.4, 0.15);
+  });
+
+  it("recovers the tilt axis and the shifts of a misaligned series", function () {
+    const angles = tiltRange(-60, 60, 3);
+    const ideal = forwardProject(beadPhantom([64, 64, 24], { count: 12, radius: 2.5, seed: 3 }), {
+      tiltAngles: angles
+    });
+    const transforms = (shift: (i: number) => [number, number]) =>
+      angles.map((_, i) => ({ shiftX: shift(i)[0], shiftY: shift(i)[1], rotation: 7.5 }));
+    const truth = {
+      tiltAxisAngle: 7.5,
+      transforms: transforms(i => [Math.round(Math.sin(i) * 40) / 10, Math.round(Math.cos(i * 1.7) * 30) / 10])
+    };
+
+    const estimate = alignTiltSeries(misalign(ideal, truth));
+    expect(estimate.tiltAxisAngle).to.be.closeTo(7.5, 0.5);
+    // Cross-correlation also follows the beads' centre of mass as it swings with the tilt, so compare against
+    // the estimate for the same series rotated but not shifted; chaining lets errors grow to a few tenths of a pixel
+    const rotated = alignTiltSeries(misalign(ideal, { tiltAxisAngle: 7.5, transforms: transforms(() => [0, 0]) }));
+    const reference = angles.indexOf(0);
+    estimate.transforms.forEach((t, i) => {
+      expect(t.rotation).to.equal(estimate.tiltAxisAngle);
+      const [dx, dy] = [
+        truth.transforms[i].shiftX - truth.transforms[reference].shiftX,
+        truth.transforms[i].shiftY - truth.transforms[reference].shiftY
+      ];
+      expect(t.shiftX - rotated.transforms[i].shiftX).to.be.closeTo(dx, 0.5);
+      expect(t.shiftY - rotated.transforms[i].shiftY).to.be.closeTo(dy, 0.5);
+    });
+  });
+
+  it("undoes a shift and rotation it is given", function () {
+    const image = Float32Array.from(blob(32, 32, 12, 18));
+    const stack: ImageStack = {
+      width: 32,
+      height: 32,
+      depth: 1,
+      dtype: "float32",
+      data: image,
+      pixelSpacing: { x: 1, y: 1, z: 1 }
+    };
+    const record = { tiltAxisAngle: 20, transforms: [{ shiftX: 2.5, shiftY: -1.25, rotation: 20 }] };
+    const restored = applyAlignment(misalign(stack, record), record);
+    expect(restored.data[18 * 32 + 12]).to.be.closeTo(1, 0.05);
+    expect(() => applyAlignment(stack, { tiltAxisAngle: 0, transforms: [] })).to.throw(
+      "Got 0 alignment transforms for 1 images"
+    );
+    expect(() => alignTiltSeries({ ...stack, tiltAngles: undefined })).to.throw("Tilt angles are required");
+    expect(() => alignTiltSeries(stack, { tiltAngles: [0, 1] })).to.throw("Got 2 tilt angles for 1 images");
+  });
+
+  it("carries an alignment over to the binned series", function () {
+    // 47 x 35 bins by 4 to 11 x 8, dropping three columns and three rows, which moves the centre
+    const stack: ImageStack = {
+      width: 47,
+      height: 35,
+      depth: 1,
+      dtype: "float32",
+      data: Float32Array.from(blob(47, 35, 25, 14)),
+      pixelSpacing: { x: 1, y: 1, z: 1 }
+    };
+    const record = { tiltAxisAngle: 30, transforms: [{ shiftX: 3, shiftY: -2, rotation: 30 }] };
+    const centroid = (image: ImageStack) => {
+      let [total, x, y] = [0, 0, 0];
+      image.data.forEach((value, i) => {
+        total += value;
+        x += value * (i % image.width);
+        y += value * Math.floor(i / image.width);
+      });
+      return [x / total, y / total];
+    };
+    const [fx, fy] = centroid(applyAlignment(stack, record));
+    const binned = binAlignment(record, 4, 47, 35);
+    const [bx, by] = centroid(applyAlignment(binStack(stack, 4), binned));
+    // Binned pixel x covers unbinned pixels 4x to 4x + 3
+    expect(bx).to.be.closeTo((fx - 1.5) / 4, 0.05);
+    expect(by).to.be.closeTo((fy - 1.5) / 4, 0.05);
+
+    const restored = unbinAlignment(binned, 4, 47, 35).transforms[0];
+    expect(restored.shiftX).to.be.closeTo(3, 1e-12);
+    expect(restored.shiftY).to.be.closeTo(-2, 1e-12);
+    expect(binAlignment(record, 2, 44, 32).transforms[0]).to.deep.equal({ shiftX: 1.5, shiftY: -1, rotation: 30 });
+  });
+
+  it("stores alignments in thousandths", function () {
+    const record = { tiltAxisAngle: -3.2, transforms: [{ shiftX: 1.23449, shiftY: -0.5, rotation: -3.2 }] };
+    const encoded = encodeAlignment(record);
+    expect(encoded).to.deep.equal({
+      tiltAxisAngle: -3200,
+      transforms: [{ shiftX: 1234, shiftY: -500, rotation: -3200 }]
+    });
+    const { shiftX, shiftY, rotation } = encoded.transforms[0];
+    expect(
+      decodeAlignment(BigInt(encoded.tiltAxisAngle), [{ shiftX: BigInt(shiftX), shiftY, rotation }])
+    ).to.deep.equal({
+      tiltAxisAngle: -3.2,
+      transforms: [{ shiftX: 1.234, shiftY: -0.5, rotation: -3.2 }]
+    });
+  });
+
+  it("bins images and orders them by tilt", function () {
+    const stack: ImageStack = {
+      width: 5,
+      height: 2,
+      depth: 2,
+      dtype: "uint8",
+      data: Uint8Array.from({ length: 20 }, (_, i) => i),
+      pixelSpacing: { x: 0.5, y: 0.5, z: 2 }
+    };
+    const binned = binStack(stack, 2);
+    expect([binned.width, binned.height, binned.dtype]).to.deep.equal([2, 1, "float32"]);
+    expect(Array.from(binned.data)).to.deep.equal([3, 5, 13, 15]);
+    expect(binned.pixelSpacing).to.deep.equal({ x: 1, y: 1, z: 2 });
+    expect(binStack(stack, 1)).to.equal(stack);
+
+    expect(tiltOrder([10, -20, 3, -5])).to.deep.equal({ order: [1, 3, 2, 0], reference: 2 });
+  });
+});
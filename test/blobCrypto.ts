@@ -0,0 +1,42 @@
+import { expect } from "chai";
+import { BLOB_KEY_WORDS, decryptBlob, encryptBlob, generateKeyWords } from "../frontend/web/src/blobCrypto";
+
+const PLAINTEXT = Uint8Array.from({ length: 1000 }, (_, i) => (i * 7) % 256);
+
+/** Resolves to the error `promise` rejects with. */
+const rejection = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (e) {
+    return e;
+  }
+  throw new Error("Expected a rejection");
+};
+
+describe("blob encryption", function () {
+  it("decrypts what it encrypted, under a fresh IV each time", async function () {
+    const keyWords = generateKeyWords();
+    expect(keyWords).to.have.length(BLOB_KEY_WORDS);
+    const blob = await encryptBlob(keyWords, 3, PLAINTEXT);
+    // IV, ciphertext, then the 16-byte tag
+    expect(blob.length).to.equal(12 + PLAINTEXT.length + 16);
+    expect(Array.from(await decryptBlob(keyWords, 3, blob))).to.deep.equal(Array.from(PLAINTEXT));
+    expect(Array.from(await encryptBlob(keyWords, 3, PLAINTEXT))).to.not.deep.equal(Array.from(blob));
+    expect(await decryptBlob(keyWords, 0, await encryptBlob(keyWords, 0, new Uint8Array(0)))).to.have.length(0);
+  });
+
+  it("rejects a blob under another index, key or content", async function () {
+    const keyWords = generateKeyWords();
+    const blob = await encryptBlob(keyWords, 3, PLAINTEXT);
+    // The index is authenticated, so blobs cannot be swapped or reordered
+    expect(await rejection(decryptBlob(keyWords, 4, blob))).to.have.property("name", "OperationError");
+    expect(await rejection(decryptBlob(generateKeyWords(), 3, blob))).to.have.property("name", "OperationError");
+    const tampered = Uint8Array.from(blob);
+    tampered[20] ^= 1;
+    expect(await rejection(decryptBlob(keyWords, 3, tampered))).to.have.property("name", "OperationError");
+    expect(await rejection(encryptBlob(keyWords.slice(1), 0, PLAINTEXT))).to.have.property(
+      "message",
+      "Expected 8 key words, got 7"
+    );
+  });
+});
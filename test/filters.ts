@@ -0,0 +1,136 @@
+import { expect } from "chai";
+import { fft, fft2, fft3, nextPowerOfTwo } from "../frontend/web/src/reconstruction/fft";
+import {
+  DEFAULT_FILTER,
+  FILTER_KINDS,
+  filterProjections,
+  filterRow,
+  filterWindow,
+  rampKernel,
+  sampleFilter
+} from "../frontend/web/src/reconstruction/filters";
+
+/** Deterministic values in [-1, 1). */
+const signal = (length: number, seed: number) =>
+  Float64Array.from({ length }, (_, i) => Math.sin(i * 12.9898 + seed * 78.233) * 43758.5453).map(
+    v => 2 * (v - Math.floor(v)) - 1
+  );
+
+const maxDifference = (a: ArrayLike<number>, b: ArrayLike<number>) => {
+  let max = 0;
+  for (let i = 0; i < a.length; i++) max = Math.max(max, Math.abs(a[i] - b[i]));
+  return max;
+};
+
+describe("fft", function () {
+  it("matches the direct DFT and inverts itself", function () {
+    const n = 16;
+    const [re, im] = [signal(n, 1), signal(n, 2)];
+    const [re0, im0] = [Float64Array.from(re), Float64Array.from(im)];
+    fft(re, im);
+    for (let k = 0; k < n; k++) {
+      let [sumRe, sumIm] = [0, 0];
+      for (let t = 0; t < n; t++) {
+        const w = (-2 * Math.PI * k * t) / n;
+        sumRe += re0[t] * Math.cos(w) - im0[t] * Math.sin(w);
+        sumIm += re0[t] * Math.sin(w) + im0[t] * Math.cos(w);
+      }
+      expect(re[k]).to.be.closeTo(sumRe, 1e-12);
+      expect(im[k]).to.be.closeTo(sumIm, 1e-12);
+    }
+    fft(re, im, true);
+    expect(maxDifference(re, re0)).to.be.below(1e-14);
+    expect(maxDifference(im, im0)).to.be.below(1e-14);
+  });
+
+  it("transforms an impulse to a flat spectrum in 2D and 3D", function () {
+    const [re2, im2] = [new Float64Array(8 * 4), new Float64Array(8 * 4)];
+    re2[0] = 1;
+    fft2(re2, im2, 8, 4);
+    expect(Array.from(re2)).to.deep.equal(new Array(32).fill(1));
+
+    const [re3, im3] = [signal(4 * 2 * 8, 3), new Float64Array(64)];
+    const original = Float64Array.from(re3);
+    fft3(re3, im3, 4, 2, 8);
+    fft3(re3, im3, 4, 2, 8, true);
+    expect(maxDifference(re3, original)).to.be.below(1e-14);
+  });
+
+  it("rejects lengths that are not powers of two", function () {
+    expect(() => fft(new Float64Array(6), new Float64Array(6))).to.throw("FFT length must be a power of two");
+    expect(() => fft(new Float64Array(8), new Float64Array(4))).to.throw("FFT length must be a power of two");
+    expect(() => fft2(new Float64Array(8), new Float64Array(8), 4, 4)).to.throw("Expected 16 values");
+    expect([1, 2, 3, 37, 64].map(nextPowerOfTwo)).to.deep.equal([1, 2, 4, 64, 64]);
+  });
+});
+
+describe("filters", function () {
+  it("samples the unwindowed ramp as the Ram-Lak kernel", function () {
+    const length = 37;
+    const { kernel } = sampleFilter({}, length);
+    expect(maxDifference(kernel, rampKernel(length - 1))).to.be.below(1e-12);
+    const ramLak = rampKernel(3);
+    expect(Array.from(ramLak)).to.deep.equal([
+      -1 / (9 * Math.PI ** 2),
+      0,
+      -1 / Math.PI ** 2,
+      0.25,
+      -1 / Math.PI ** 2,
+      0,
+      -1 / (9 * Math.PI ** 2)
+    ]);
+  });
+
+  it("filters through the FFT exactly as direct convolution with the kernel does", function () {
+    const length = 37;
+    const row = signal(length, 4);
+    for (const kind of FILTER_KINDS) {
+      const filter = sampleFilter({ kind, cutoff: 0.8 }, length);
+      const direct = new Float64Array(length);
+      for (let i = 0; i < length; i++) {
+        for (let j = 0; j < length; j++) direct[i] += filter.kernel[i - j + length - 1] * row[j];
+      }
+      expect(maxDifference(filterRow(row, filter), direct), kind).to.be.below(1e-12);
+    }
+  });
+
+  it("windows the ramp to 1 at zero frequency and 0 past the cutoff", function () {
+    for (const kind of FILTER_KINDS) {
+      const options = { ...DEFAULT_FILTER, kind, cutoff: 0.5 };
+      expect(filterWindow(options, 0), kind).to.equal(1);
+      if (kind !== "sirt") expect(filterWindow(options, 0.3), kind).to.equal(0);
+    }
+    expect(filterWindow({ ...DEFAULT_FILTER, kind: "hann" }, 0.5)).to.be.closeTo(0, 1e-12);
+    expect(filterWindow({ ...DEFAULT_FILTER, kind: "hamming" }, 0.5)).to.be.closeTo(0.08, 1e-12);
+    expect(filterWindow({ ...DEFAULT_FILTER, kind: "shepp-logan" }, 0.5)).to.be.closeTo(2 / Math.PI, 1e-12);
+    // k SIRT iterations pass the highest frequency at 1/k of the ramp
+    expect(filterWindow({ ...DEFAULT_FILTER, kind: "sirt", iterations: 4 }, 0.5)).to.be.closeTo(0.25, 1e-12);
+
+    const response = sampleFilter({ kind: "hann" }, 16).response;
+    expect(response[response.length / 2]).to.be.closeTo(0, 1e-12);
+  });
+
+  it("rejects invalid filter options and mismatched rows", function () {
+    expect(() => sampleFilter({ cutoff: 0 }, 8)).to.throw("Filter cutoff must be in (0, 1], got 0");
+    expect(() => sampleFilter({ iterations: 1.5 }, 8)).to.throw("SIRT iterations must be a positive integer");
+    expect(() => sampleFilter({ kind: "gauss" as never }, 8)).to.throw('Unknown filter "gauss"');
+    expect(() => sampleFilter({}, 0)).to.throw("Invalid row length 0");
+    expect(() => filterRow([1, 2, 3], sampleFilter({}, 4))).to.throw("sampled for rows of 4 pixels, got 3");
+  });
+
+  it("filters every row of a stack across x", function () {
+    const data = Float32Array.from(signal(6 * 2 * 3, 5));
+    const stack = {
+      width: 6,
+      height: 2,
+      depth: 3,
+      dtype: "float32" as const,
+      data,
+      pixelSpacing: { x: 1, y: 1, z: 1 }
+    };
+    const filtered = filterProjections(stack, { kind: "hamming" });
+    expect([filtered.width, filtered.height, filtered.depth, filtered.dtype]).to.deep.equal([6, 2, 3, "float32"]);
+    const filter = sampleFilter({ kind: "hamming" }, 6);
+    expect(maxDifference(filtered.data.subarray(18, 24), filterRow(data.subarray(18, 24), filter))).to.be.below(1e-6);
+  });
+});
@@ -0,0 +1,357 @@
+"""Writes the reader fixtures under test/fixtures. Voxel values follow the
+formulas the tests check against, so only the container layout is stored."""
+import os
+import struct
+import zlib
+
+HERE = os.path.dirname(os.path.abspath(__file__))
+
+
+def write(name, data):
+    with open(os.path.join(HERE, name), "wb") as f:
+        f.write(data)
+
+
+# MRC: 3 x 2 x 2 stacks; voxel i holds 3i - 5 (int16), i / 2 (float32) or a half-float table
+
+def mrc(little_endian, mode, values, ext_type="", ext=b"", seri=(0, 0), cell=(7.5, 5.0, 5.0)):
+    e = "<" if little_endian else ">"
+    header = bytearray(1024)
+    struct.pack_into(e + "4i", header, 0, 3, 2, 2, mode)
+    struct.pack_into(e + "3i", header, 28, 3, 2, 2)
+    struct.pack_into(e + "3f", header, 40, *cell)
+    struct.pack_into(e + "i", header, 92, len(ext))
+    header[104:108] = ext_type.encode().ljust(4, b"\0")
+    struct.pack_into(e + "2h", header, 128, *seri)
+    header[208:212] = b"MAP "
+    header[212] = 0x44 if little_endian else 0x11
+    struct.pack_into(e + "i", header, 220, 1)
+    header[224:224 + 14] = b"fixture stack "
+    fmt = {1: "h", 2: "f", 12: "H"}[mode]
+    return bytes(header) + ext + struct.pack(e + fmt * len(values), *values)
+
+
+def fei_ext(angles):
+    blocks = bytearray()
+    for angle in angles:
+        block = bytearray(128)
+        struct.pack_into("<i", block, 0, 128)
+        struct.pack_into("<d", block, 100, angle)
+        blocks += block
+    return bytes(blocks)
+
+
+write("tilt-fei.mrc", mrc(True, 1, [3 * i - 5 for i in range(12)], "FEI1", fei_ext([-60.0, -57.5])))
+write(
+    "tilt-seri-be.mrc",
+    mrc(False, 2, [i / 2 for i in range(12)], "SERI", struct.pack(">4h", -6000, 0, 4550, 0), (4, 1)),
+)
+# 1, -2, 0.5, 65504, +inf, the smallest subnormal, then zeros
+HALVES = [0x3C00, 0xC000, 0x3800, 0x7BFF, 0x7C00, 0x0001] + [0] * 6
+write("half.mrc", mrc(True, 12, HALVES, cell=(0, 0, 0)))
+
+
+# TIFF: voxel (x, y) of page p holds value(p, x, y) as listed with each fixture
+
+def lzw_encode(data):
+    bits = []
+
+    def emit(code, width):
+        bits.extend((code >> i) & 1 for i in range(width - 1, -1, -1))
+
+    def reset():
+        return {bytes([i]): i for i in range(256)}, 258, 9
+
+    table, next_code, width = reset()
+    emit(256, width)
+    current = b""
+    for byte in data:
+        extended = current + bytes([byte])
+        if extended in table:
+            current = extended
+            continue
+        emit(table[current], width)
+        table[extended] = next_code
+        next_code += 1
+        if next_code > (1 << width) - 1 and width < 12:
+            width += 1
+        if next_code >= 4093:
+            emit(256, width)
+            table, next_code, width = reset()
+        current = bytes([byte])
+    if current:
+        emit(table[current], width)
+    emit(257, width)
+    bits.extend([0] * (-len(bits) % 8))
+    return bytes(int("".join(map(str, bits[i : i + 8])), 2) for i in range(0, len(bits), 8))
+
+
+def packbits(data):
+    out = bytearray()
+    i = 0
+    while i < len(data):
+        j = i
+        while j < len(data) and j - i < 128 and data[j] == data[i]:
+            j += 1
+        if j - i >= 2:
+            out += bytes([(257 - (j - i)) & 0xFF, data[i]])
+            i = j
+            continue
+        j = i + 1
+        while j < len(data) and j - i < 128 and not (j + 1 < len(data) and data[j] == data[j + 1]):
+            j += 1
+        out.append(j - i - 1)
+        out += data[i:j]
+        i = j
+    return bytes(out)
+
+
+SAMPLE_FORMATS = {("u", 8): "B", ("i", 8): "b", ("u", 16): "H", ("i", 16): "h", ("f", 32): "f"}
+
+
+def tiff(name, pages, width, height, kind, bits, compression, predictor, little_endian, value, tile=None, rows=None):
+    e = "<" if little_endian else ">"
+    fmt = SAMPLE_FORMATS[(kind, bits)]
+    size = bits // 8
+
+    def encode(values, w, h):
+        if predictor == 2:
+            mask = (1 << bits) - 1
+            deltas = []
+            for y in range(h):
+                row = values[y * w : (y + 1) * w]
+                deltas += [row[0]] + [(row[x] - row[x - 1]) & mask for x in range(1, w)]
+            raw = struct.pack(e + fmt * len(deltas), *deltas)
+        elif predictor == 3:
+            raw = bytearray()
+            for y in range(h):
+                row = struct.pack(">" + fmt * w, *values[y * w : (y + 1) * w])
+                planes = bytearray(w * size)
+                for x in range(w):
+                    for b in range(size):
+                        planes[b * w + x] = row[x * size + b]
+                for i in range(len(planes) - 1, 0, -1):
+                    planes[i] = (planes[i] - planes[i - 1]) & 0xFF
+                raw += planes
+        else:
+            raw = struct.pack(e + fmt * len(values), *values)
+        if compression == 5:
+            return lzw_encode(bytes(raw))
+        if compression == 8:
+            return zlib.compress(bytes(raw))
+        if compression == 32773:
+            return packbits(bytes(raw))
+        return bytes(raw)
+
+    out = bytearray(b"II" if little_endian else b"MM") + struct.pack(e + "HI", 42, 0)
+    segments = []
+    for p in range(pages):
+        offsets, counts = [], []
+        if tile:
+            tw, th = tile
+            for ty in range(0, height, th):
+                for tx in range(0, width, tw):
+                    values = [
+                        value(p, tx + x, ty + y) if tx + x < width and ty + y < height else 0
+                        for y in range(th)
+                        for x in range(tw)
+                    ]
+                    offsets.append(len(out))
+                    out += encode(values, tw, th)
+                    counts.append(len(out) - offsets[-1])
+        else:
+            for y0 in range(0, height, rows):
+                h = min(rows, height - y0)
+                values = [value(p, x, y) for y in range(y0, y0 + h) for x in range(width)]
+                offsets.append(len(out))
+                out += encode(values, width, h)
+                counts.append(len(out) - offsets[-1])
+        segments.append((offsets, counts))
+
+    description = b"ImageJ=1.53\nimages=%d\nunit=nm\nspacing=2.5\n\0" % pages
+    ifd_offsets = []
+    for p, (offsets, counts) in enumerate(segments):
+        out += b"\0" * (len(out) % 2)
+        ifd_offsets.append(len(out))
+        entries = [(256, 4, [width]), (257, 4, [height]), (258, 3, [bits]), (259, 3, [compression]), (262, 3, [1])]
+        if p == 0:
+            entries.append((270, 2, description))
+        if tile:
+            entries += [(322, 3, [tile[0]]), (323, 3, [tile[1]]), (324, 4, offsets), (325, 4, counts)]
+        else:
+            entries += [(273, 4, offsets), (277, 3, [1]), (278, 4, [rows]), (279, 4, counts)]
+        entries += [(282, 5, [(4, 1)]), (283, 5, [(4, 1)]), (296, 3, [1])]
+        if predictor > 1:
+            entries.append((317, 3, [predictor]))
+        entries.append((339, 3, [{"u": 1, "i": 2, "f": 3}[kind]]))
+        entries.sort()
+
+        ifd = bytearray(struct.pack(e + "H", len(entries)))
+        extra = bytearray()
+        extra_base = len(out) + 2 + len(entries) * 12 + 4
+        for tag, field_type, values in entries:
+            if field_type == 2:
+                data = values
+            elif field_type == 5:
+                data = b"".join(struct.pack(e + "II", *v) for v in values)
+            else:
+                data = b"".join(struct.pack(e + {3: "H", 4: "I"}[field_type], v) for v in values)
+            if len(data) <= 4:
+                field = data.ljust(4, b"\0")
+            else:
+                field = struct.pack(e + "I", extra_base + len(extra))
+                extra += data + b"\0" * (len(data) % 2)
+            ifd += struct.pack(e + "HHI", tag, field_type, len(values)) + field
+        out += ifd + struct.pack(e + "I", 0) + extra
+
+    struct.pack_into(e + "I", out, 4, ifd_offsets[0])
+    for p in range(pages - 1):
+        count = struct.unpack_from(e + "H", out, ifd_offsets[p])[0]
+        struct.pack_into(e + "I", out, ifd_offsets[p] + 2 + count * 12, ifd_offsets[p + 1])
+    write(name, bytes(out))
+
+
+# (7919p + 613y + 2477x) mod 65536
+tiff("lzw-predictor.tif", 3, 13, 10, "u", 16, 5, 2, True, lambda p, x, y: (7919 * p + 613 * y + 2477 * x) % 65536, rows=3)
+# (31x² + 17y² + xy) mod 256; long enough to reset the LZW table
+tiff("lzw-long.tif", 1, 128, 64, "u", 8, 5, 1, True, lambda p, x, y: (31 * x * x + 17 * y * y + x * y) % 256, rows=64)
+# (100p + 20y + x) / 4 - 50
+tiff("deflate-float-tiled.tif", 2, 20, 18, "f", 32, 8, 3, False, lambda p, x, y: (100 * p + 20 * y + x) / 4 - 50, tile=(16, 16))
+# 40⌊x/3⌋ + y + p
+tiff("packbits.tif", 2, 9, 7, "u", 8, 32773, 1, False, lambda p, x, y: 40 * (x // 3) + y + p, rows=4)
+# 300(x - 5) + 7y - p
+tiff("uncompressed.tif", 2, 11, 5, "i", 16, 1, 1, False, lambda p, x, y: 300 * (x - 5) + 7 * y - p, rows=2)
+
+
+# SER: element i of frame f holds value((100f + i) mod 250); tilt series start at -60° in 3° steps
+
+def ser(name, version, frames, width, height, type_code, fmt, units, value):
+    wide = version >= 0x220
+    out = bytearray(struct.pack("<HHH", 0x4949, 0x0197, version))
+    out += struct.pack("<iiii", 0x4122 if height else 0x4120, 0x4142, frames, frames)
+    offsets_at = len(out)
+    out += b"\0" * (8 if wide else 4)
+    out += struct.pack("<i", 1)
+    description, unit = b"Tilt", units.encode()
+    out += struct.pack("<iddi", frames, -60.0, 3.0, 0)
+    out += struct.pack("<i", len(description)) + description + struct.pack("<i", len(unit)) + unit
+    data_offsets, tag_offsets = [], []
+    for f in range(frames):
+        data_offsets.append(len(out))
+        n = width * (height or 1)
+        if height:
+            out += struct.pack("<ddiddihii", 0.0, 2.5e-10, 0, 0.0, 2.5e-10, 0, type_code, width, height)
+        else:
+            out += struct.pack("<ddihi", 0.0, 2.5e-10, 0, type_code, width)
+        out += struct.pack("<" + fmt * n, *(value((100 * f + i) % 250) for i in range(n)))
+    for f in range(frames):
+        tag_offsets.append(len(out))
+        out += struct.pack("<Hidd", 0x4142, 1600000000 + f, 1e-6 * f, -1e-6 * f)
+    offsets = len(out)
+    for offset in data_offsets + tag_offsets:
+        out += struct.pack("<q" if wide else "<i", offset)
+    struct.pack_into("<q" if wide else "<i", out, offsets_at, offsets)
+    write(name, bytes(out))
+
+
+# value(n) = n - 50
+ser("tilt-int16.ser", 0x210, 3, 5, 4, 5, "h", "deg", lambda n: n - 50)
+# value(n) = n / 4
+ser("float-64bit-offsets.ser", 0x220, 2, 6, 3, 7, "f", "m", lambda n: n / 4)
+# value(n) = n
+ser("spectra.ser", 0x220, 2, 8, 0, 2, "H", "deg", lambda n: n)
+
+
+# HDF5 and EMD: 5 x 7 x 6 volumes, voxel (x, y, z) holding (131z + 17y + 3x) mod 1000, tilted -60° to 60°
+
+def hdf5_fixtures():
+    import json
+
+    import h5py
+    import numpy as np
+
+    z, y, x = np.meshgrid(np.arange(5), np.arange(7), np.arange(6), indexing="ij")
+    volume = ((131 * z + 17 * y + 3 * x) % 1000).astype(np.int16)
+    angles = np.linspace(-60, 60, 5)
+    path = lambda name: os.path.join(HERE, name)
+
+    def nexus(f, **layout):
+        f.create_group("entry").attrs["NX_class"] = "NXentry"
+        data = f.create_group("entry/data")
+        data.attrs["NX_class"] = "NXdata"
+        data.attrs["signal"] = "data"
+        data.create_dataset("data", data=volume, **layout)
+        data.create_dataset("rotation_angle", data=angles)
+        data["rotation_angle"].attrs["units"] = "degree"
+
+    # Version 0 superblock, v1 B-tree chunk index, gzip with shuffle and checksums
+    with h5py.File(path("nexus-v0-gzip.h5"), "w", libver="earliest") as f:
+        nexus(f, chunks=(2, 4, 6), compression="gzip", shuffle=True, fletcher32=True)
+    # Version 3 superblock, fixed-array chunk index, and a compact dataset beside it
+    with h5py.File(path("nexus-v3-chunked.h5"), "w", libver="latest") as f:
+        nexus(f, chunks=(1, 7, 3))
+        create = h5py.h5p.create(h5py.h5p.DATASET_CREATE)
+        create.set_layout(h5py.h5d.COMPACT)
+        small = np.ascontiguousarray(volume[:, :2, :2])
+        compact = h5py.h5d.create(f.id, b"compact", h5py.h5t.STD_I16LE, h5py.h5s.create_simple(small.shape), dcpl=create)
+        compact.write(h5py.h5s.ALL, h5py.h5s.ALL, small)
+        f.create_dataset("extensible", data=volume, chunks=(1, 7, 6), maxshape=(None, 7, 6))
+        f.create_dataset("big-endian", data=volume.astype(">f4"))
+
+    # Velox: one image per frame along the last axis, tilt and pixel size in per-frame JSON
+    with h5py.File(path("velox.emd"), "w") as f:
+        image = f.create_group("Data/Image/6e7a1bb2c0d04")
+        image.create_dataset("Data", data=np.ascontiguousarray(volume.transpose(1, 2, 0)).astype(np.uint16))
+        metadata = [
+            json.dumps(
+                {
+                    "Stage": {"AlphaTilt": str(np.deg2rad(angle))},
+                    "BinaryResult": {"PixelSize": {"width": "3.3e-10", "height": "3.4e-10"}},
+                }
+            ).encode()
+            for angle in angles
+        ]
+        table = np.zeros((max(map(len, metadata)) + 16, 5), np.uint8)
+        for i, text in enumerate(metadata):
+            table[: len(text), i] = np.frombuffer(text, np.uint8)
+        image.create_dataset("Metadata", data=table)
+
+    # Berkeley EMD: (x, y, angle) with dimension datasets
+    with h5py.File(path("berkeley.emd"), "w") as f:
+        f.attrs["version_major"] = 0
+        f.attrs["version_minor"] = 2
+        group = f.create_group("data/tomography")
+        group.attrs["emd_group_type"] = 1
+        group.create_dataset("data", data=np.ascontiguousarray(volume.transpose(2, 1, 0)).astype(np.float32))
+        for i, (name, units, values) in enumerate(
+            [("x", "[n_m]", np.arange(6) * 0.25), ("y", "[n_m]", np.arange(7) * 0.25), ("angles", "[deg]", angles)]
+        ):
+            dimension = group.create_dataset(f"dim{i + 1}", data=values)
+            dimension.attrs["name"] = np.bytes_(name)
+            dimension.attrs["units"] = np.bytes_(units)
+
+    # NXtomo: a dark and a flat frame around the projections, angles in radians
+    with h5py.File(path("tomo.nxs"), "w") as f:
+        f.create_group("entry").attrs["NX_class"] = "NXentry"
+        detector = f.create_group("entry/instrument/detector")
+        detector.attrs["NX_class"] = "NXdetector"
+        frames = np.concatenate([np.zeros((1, 7, 6), np.int16), volume, np.full((1, 7, 6), 7, np.int16)])
+        detector.create_dataset("data", data=frames)
+        detector.create_dataset("image_key", data=np.array([2, 0, 0, 0, 0, 0, 1]))
+        for axis in "xy":
+            detector.create_dataset(f"{axis}_pixel_size", data=1.5e-6)
+            detector[f"{axis}_pixel_size"].attrs["units"] = "m"
+        data = f.create_group("entry/data")
+        data.attrs["NX_class"] = "NXdata"
+        data.attrs["signal"] = "data"
+        data["data"] = detector["data"]
+        data.create_dataset("rotation_angle", data=np.concatenate([[0], np.deg2rad(angles), [0]]))
+        data["rotation_angle"].attrs["units"] = "rad"
+
+    # Plain HDF5: the stack and its angles by name only
+    with h5py.File(path("generic.h5"), "w") as f:
+        f.create_dataset("stack", data=volume)
+        f.create_dataset("tilt_angles", data=angles)
+
+
+hdf5_fixtures()
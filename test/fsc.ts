@@ -0,0 +1,138 @@
+import { expect } from "chai";
+import type { ImageStack } from "../frontend/web/src/formats/stack";
+import {
+  decodeFsc,
+  encodeFsc,
+  estimateResolution,
+  formatResolution,
+  fourierShellCorrelation,
+  splitHalfSets,
+  thresholdResolution
+} from "../frontend/web/src/reconstruction/fsc";
+import { sheppLogan3d } from "../frontend/web/src/reconstruction/phantoms";
+import { forwardProject, tiltRange } from "../frontend/web/src/reconstruction/projection";
+
+/** Adds uniform noise of `amplitude` times the series' maximum, from a fixed seed. */
+const withNoise = (stack: ImageStack, amplitude: number): ImageStack => {
+  let seed = 1;
+  let max = 0;
+  stack.data.forEach(value => (max = Math.max(max, value)));
+  return {
+    ...stack,
+    data: Float32Array.from(stack.data, value => {
+      seed = (seed * 16807) % 2147483647;
+      return value + amplitude * max * (2 * (seed / 2147483647) - 1);
+    })
+  };
+};
+
+/** Moves image z of the series by whole pixels (shifts[z]), filling with 0. */
+const shiftImages = (stack: ImageStack, shifts: [number, number][]): ImageStack => {
+  const { width, height } = stack;
+  const data = new Float32Array(stack.data.length);
+  shifts.forEach(([sx, sy], z) => {
+    for (let y = Math.max(0, sy); y < Math.min(height, height + sy); y++) {
+      for (let x = Math.max(0, sx); x < Math.min(width, width + sx); x++) {
+        data[(z * height + y) * width + x] = stack.data[(z * height + y - sy) * width + x - sx];
+      }
+    }
+  });
+  return { ...stack, data };
+};
+
+const TILT_ANGLES = tiltRange(-60, 60, 2);
+
+const series = () => ({
+  ...forwardProject(sheppLogan3d([64, 16, 64]), { tiltAngles: TILT_ANGLES }),
+  pixelSpacing: { x: 2, y: 2, z: 2 }
+});
+
+describe("fourierShellCorrelation", function () {
+  it("correlates a volume fully with itself and inversely with its negative", function () {
+    const volume = sheppLogan3d([32, 8, 24]);
+    const curve = fourierShellCorrelation(volume, volume);
+    expect(curve.frequency).to.have.length(17);
+    expect(curve.frequency[16]).to.equal(0.5);
+    curve.correlation.slice(1).forEach(value => expect(value).to.be.closeTo(1, 1e-9));
+
+    const negative = fourierShellCorrelation(volume, { ...volume, data: volume.data.map(v => -v) });
+    negative.correlation.slice(1).forEach(value => expect(value).to.be.closeTo(-1, 1e-9));
+    expect(() => fourierShellCorrelation(volume, sheppLogan3d([32, 8, 32]))).to.throw(
+      "Cannot correlate a 32 x 8 x 24 volume with a 32 x 8 x 32 one"
+    );
+  });
+
+  it("finds where the curve crosses a threshold", function () {
+    const curve = { frequency: [0, 0.125, 0.25, 0.375, 0.5], correlation: [0, 0.9, 0.6, 0.1, 0] };
+    const half = thresholdResolution(curve, 0.5);
+    expect(half.frequency).to.be.closeTo(0.25 + 0.125 * 0.2, 1e-12);
+    expect(half.resolution).to.be.closeTo(1 / 0.275, 1e-12);
+    expect(half.atNyquist).to.equal(false);
+    expect(thresholdResolution(curve, 0.95)).to.include({ frequency: 0.125, resolution: 8 });
+
+    const bound = thresholdResolution({ ...curve, correlation: [0, 1, 1, 1, 1] }, 0.143);
+    expect(bound).to.include({ frequency: 0.5, resolution: 2, atNyquist: true });
+    expect(formatResolution(bound, 1.2)).to.equal("≤ 2.4 Å");
+    expect(formatResolution(half, 0)).to.equal("3.6 px");
+  });
+});
+
+describe("estimateResolution", function () {
+  it("splits a series into alternating tilts", function () {
+    const stack = series();
+    const shuffled = { ...stack, tiltAngles: TILT_ANGLES.map((_, i) => TILT_ANGLES[(i * 7) % 61]) };
+    const [even, odd] = splitHalfSets(shuffled);
+    expect(even.tiltAngles).to.deep.equal(tiltRange(-60, 60, 4));
+    expect(odd.tiltAngles).to.deep.equal(tiltRange(-58, 58, 4));
+    expect([even.depth, odd.depth]).to.deep.equal([31, 30]);
+    expect(() => splitHalfSets({ ...stack, tiltAngles: undefined })).to.throw("Half-sets need the tilt angle");
+  });
+
+  it("reports a coarser resolution for a noisier series", function () {
+    const clean = estimateResolution(series(), { maxSize: 32 });
+    const noisy = estimateResolution(withNoise(series(), 1), { maxSize: 32 });
+    // Binned twice, so the curve is measured on 4 Å pixels
+    expect(clean.pixelSpacing).to.equal(4);
+    expect(clean.curve.frequency).to.have.length(17);
+    expect(noisy.resolutions[0].resolution).to.be.above(clean.resolutions[0].resolution);
+    expect(noisy.resolutions[1].resolution).to.be.above(noisy.resolutions[0].resolution);
+  });
+
+  it("aligns the binned series with the alignment of the full-resolution one", function () {
+    const stack = withNoise(series(), 0.05);
+    const shifts = TILT_ANGLES.map((_, i): [number, number] => [2 * (i % 3) - 2, 2 * (i % 4) - 4]);
+    const alignment = {
+      tiltAxisAngle: 0,
+      transforms: shifts.map(([shiftX, shiftY]) => ({ shiftX, shiftY, rotation: 0 }))
+    };
+    const reference = estimateResolution(stack, { maxSize: 32 });
+    const misaligned = shiftImages(stack, shifts);
+    const aligned = estimateResolution(misaligned, { maxSize: 32, alignment });
+    const unaligned = estimateResolution(misaligned, { maxSize: 32 });
+    // Aligned, the series resolves to Nyquist as it did before it was shifted; only the zeros shifted in
+    // at the edges cost it some correlation
+    expect(reference.resolutions.every(r => r.atNyquist)).to.equal(true);
+    expect(aligned.resolutions).to.deep.equal(reference.resolutions);
+    const meanDifference =
+      aligned.curve.correlation.reduce(
+        (sum, value, shell) => sum + Math.abs(value - reference.curve.correlation[shell]),
+        0
+      ) / aligned.curve.correlation.length;
+    expect(meanDifference).to.be.below(0.05);
+    expect(unaligned.resolutions[1].resolution).to.be.above(4);
+  });
+
+  it("stores the curve in thousandths", function () {
+    const estimate = estimateResolution(series(), { maxSize: 32 });
+    const { pixelSpacing, correlation } = encodeFsc(estimate);
+    expect(pixelSpacing).to.equal(4000);
+    const decoded = decodeFsc(BigInt(pixelSpacing), correlation);
+    expect(decoded.curve.frequency).to.deep.equal(estimate.curve.frequency);
+    decoded.curve.correlation.forEach((value, shell) =>
+      expect(value).to.be.closeTo(estimate.curve.correlation[shell], 0.0005)
+    );
+    expect(formatResolution(decoded.resolutions[0], decoded.pixelSpacing)).to.equal(
+      formatResolution(estimate.resolutions[0], estimate.pixelSpacing)
+    );
+  });
+});
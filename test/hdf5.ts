@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import { parseEmd } from "../frontend/web/src/formats/emd";
+import { Hdf5File, parseHdf5, readHdf5Dataset } from "../frontend/web/src/formats/hdf5";
+
+// Fixtures are written by test/fixtures/generate.py
+const fixture = (name: string): ArrayBuffer => {
+  const bytes = fs.readFileSync(path.join(__dirname, "fixtures", name));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+};
+
+/** The fixtures' 6 x 7 x 5 volume, x fastest. */
+const VOLUME = Array.from({ length: 5 * 7 * 6 }, (_, i) => {
+  const [x, y, z] = [i % 6, Math.floor(i / 6) % 7, Math.floor(i / 42)];
+  return (131 * z + 17 * y + 3 * x) % 1000;
+});
+const ANGLES = [-60, -30, 0, 30, 60];
+
+const read = async (file: Hdf5File, datasetPath: string) => {
+  const dataset = file.datasets.find(d => d.path === datasetPath);
+  if (!dataset) throw new Error(`No dataset ${datasetPath}`);
+  return Array.from(await readHdf5Dataset(file, dataset));
+};
+
+/** Message of the error `promise` rejects with. */
+const rejection = async (promise: Promise<unknown>): Promise<string> => {
+  try {
+    await promise;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+  throw new Error("Expected a rejection");
+};
+
+describe("parseHdf5", function () {
+  it("reads gzip, shuffle and checksum filtered chunks through a v1 B-tree", async function () {
+    const file = parseHdf5(fixture("nexus-v0-gzip.h5"));
+    expect(file.superblockVersion).to.equal(0);
+    const dataset = file.datasets.find(d => d.path === "/entry/data/data");
+    expect(dataset?.filters.map(f => f.name)).to.deep.equal(["shuffle", "deflate", "fletcher32"]);
+    expect(await read(file, "/entry/data/data")).to.deep.equal(VOLUME);
+    expect(file.objects.get("/entry/data")?.attributes).to.include({ NX_class: "NXdata", signal: "data" });
+  });
+
+  it("reads fixed-array chunks, compact and big-endian datasets", async function () {
+    const file = parseHdf5(fixture("nexus-v3-chunked.h5"));
+    expect(file.superblockVersion).to.equal(3);
+    expect(await read(file, "/entry/data/data")).to.deep.equal(VOLUME);
+    expect(await read(file, "/big-endian")).to.deep.equal(VOLUME);
+    const compact = VOLUME.filter((_, i) => i % 6 < 2 && Math.floor(i / 6) % 7 < 2);
+    expect(await read(file, "/compact")).to.deep.equal(compact);
+  });
+
+  it("rejects what it cannot read", async function () {
+    expect(() => parseHdf5(new ArrayBuffer(64))).to.throw("Not an HDF5 file: signature not found");
+    const newer = fixture("generic.h5");
+    new DataView(newer).setUint8(8, 4);
+    expect(() => parseHdf5(newer)).to.throw("Unsupported HDF5 superblock version 4");
+
+    const file = parseHdf5(fixture("nexus-v3-chunked.h5"));
+    expect(await rejection(read(file, "/extensible"))).to.contain("extensible chunk index, which is not supported");
+    expect(await rejection(read({ ...file }, "/compact"))).to.contain("was not opened with parseHdf5");
+  });
+});
+
+describe("parseEmd", function () {
+  it("finds the tilt series of each container convention", async function () {
+    const expected = [
+      { name: "nexus-v0-gzip.h5", flavor: "nexus", datasetPath: "/entry/data/data", dtype: "int16" },
+      { name: "velox.emd", flavor: "velox", datasetPath: "/Data/Image/6e7a1bb2c0d04/Data", dtype: "uint16" },
+      { name: "berkeley.emd", flavor: "emd", datasetPath: "/data/tomography/data", dtype: "float32" },
+      { name: "tomo.nxs", flavor: "nexus", datasetPath: "/entry/data/data", dtype: "int16" },
+      { name: "generic.h5", flavor: "hdf5", datasetPath: "/stack", dtype: "int16" }
+    ];
+    for (const { name, flavor, datasetPath, dtype } of expected) {
+      const emd = await parseEmd(fixture(name));
+      expect([emd.flavor, emd.datasetPath], name).to.deep.equal([flavor, datasetPath]);
+      const { stack } = emd;
+      expect([stack.width, stack.height, stack.depth, stack.dtype], name).to.deep.equal([6, 7, 5, dtype]);
+      expect(Array.from(stack.data), name).to.deep.equal(VOLUME);
+      stack.tiltAngles?.forEach((angle, i) => expect(angle, name).to.be.closeTo(ANGLES[i], 1e-9));
+      expect(stack.tiltAngles, name).to.have.length(5);
+    }
+  });
+
+  it("converts each convention's pixel size to Ångström", async function () {
+    const spacing = async (name: string) => (await parseEmd(fixture(name))).stack.pixelSpacing;
+    const velox = await spacing("velox.emd");
+    expect(velox.x).to.be.closeTo(3.3, 1e-9);
+    expect(velox.y).to.be.closeTo(3.4, 1e-9);
+    expect(await spacing("berkeley.emd")).to.deep.equal({ x: 2.5, y: 2.5, z: 0 });
+    expect(await spacing("tomo.nxs")).to.deep.equal({ x: 15000, y: 15000, z: 0 });
+    expect(await spacing("generic.h5")).to.deep.equal({ x: 0, y: 0, z: 0 });
+  });
+});
@@ -0,0 +1,70 @@
+import { expect } from "chai";
+import { applyImageEvents, ETImageData, ImageEvent } from "../frontend/web/src/imageEvents";
+import { JobState, NEW_JOB } from "../frontend/web/src/jobState";
+
+const TIMESTAMP = 1_700_000_000;
+
+const newImage = (blockNumber: number, logIndex: number): ETImageData => ({
+  id: "1",
+  owner: "0x0000000000000000000000000000000000000001",
+  timestamp: TIMESTAMP,
+  resolution: "2.4 Å/px",
+  description: "",
+  status: "uploaded",
+  job: NEW_JOB,
+  syncedTo: { blockNumber, logIndex }
+});
+
+const uploaded = (blockNumber: number, logIndex: number): ImageEvent => ({
+  kind: "uploaded",
+  image: newImage(blockNumber, logIndex),
+  blockNumber,
+  logIndex
+});
+
+const job = (state: JobState, blockNumber: number, logIndex: number): ImageEvent => ({
+  kind: "job",
+  id: "1",
+  transition: { state, timestamp: TIMESTAMP },
+  blockNumber,
+  logIndex
+});
+
+const fold = (events: ImageEvent[], images = new Map<string, ETImageData>()) =>
+  applyImageEvents(images, events).get("1");
+
+describe("applyImageEvents", function () {
+  it("applies repeated transitions recorded in one block", function () {
+    const image = fold([
+      uploaded(10, 0),
+      job("queued", 11, 0),
+      job("cancelled", 11, 1),
+      job("queued", 11, 2),
+      job("cancelled", 11, 3)
+    ]);
+    expect(image?.job.history.map(t => t.state)).to.deep.equal(["queued", "cancelled", "queued", "cancelled"]);
+    expect(image?.status).to.equal("uploaded");
+  });
+
+  it("applies a log delivered twice once", function () {
+    const first = fold([uploaded(10, 0), job("queued", 11, 0)]);
+    const again = fold([job("queued", 11, 0)], new Map([["1", first!]]));
+    expect(again?.job.history).to.have.length(1);
+    expect(again?.status).to.equal("processing");
+  });
+
+  it("skips events a page read at a later block already holds", function () {
+    const page: ETImageData = {
+      ...newImage(10, 0),
+      job: { state: "queued", history: [{ state: "queued", timestamp: TIMESTAMP }] },
+      status: "processing",
+      syncedTo: { blockNumber: 11, logIndex: Infinity }
+    };
+    const image = fold([job("queued", 11, 4), job("aligning", 12, 0)], new Map([["1", page]]));
+    expect(image?.job.history.map(t => t.state)).to.deep.equal(["queued", "aligning"]);
+  });
+
+  it("drops events for images that are not loaded", function () {
+    expect(fold([job("queued", 11, 0)])).to.equal(undefined);
+  });
+});
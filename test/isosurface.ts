@@ -0,0 +1,56 @@
+import { expect } from "chai";
+import type { ImageStack } from "../frontend/web/src/formats/stack";
+import { extractIsosurface, Mesh, triangleCount, vertexCount } from "../frontend/web/src/viewer/isosurface";
+
+/** Distance from the centre of an n³ volume, so thresholding at -r leaves a ball of radius r inside. */
+const ball = (n: number): ImageStack => ({
+  width: n,
+  height: n,
+  depth: n,
+  dtype: "float32",
+  data: Float32Array.from({ length: n ** 3 }, (_, i) => {
+    const c = (n - 1) / 2;
+    return -Math.hypot((i % n) - c, (Math.floor(i / n) % n) - c, Math.floor(i / n / n) - c);
+  }),
+  pixelSpacing: { x: 1, y: 1, z: 1 }
+});
+
+/** Volume enclosed by the mesh, positive when its triangles face outwards. */
+const signedVolume = ({ positions: p, indices }: Mesh) => {
+  let volume = 0;
+  for (let t = 0; t < indices.length; t += 3) {
+    const [a, b, c] = [indices[t] * 3, indices[t + 1] * 3, indices[t + 2] * 3];
+    volume +=
+      (p[a] * (p[b + 1] * p[c + 2] - p[b + 2] * p[c + 1]) +
+        p[a + 1] * (p[b + 2] * p[c] - p[b] * p[c + 2]) +
+        p[a + 2] * (p[b] * p[c + 1] - p[b + 1] * p[c])) /
+      6;
+  }
+  return volume;
+};
+
+describe("extractIsosurface", function () {
+  it("closes the surface of a ball, sharing each vertex between the cells around it", function () {
+    const mesh = extractIsosurface(ball(16), -5);
+    const edges = new Map<string, number>();
+    for (let t = 0; t < mesh.indices.length; t += 3) {
+      for (let k = 0; k < 3; k++) {
+        const [a, b] = [mesh.indices[t + k], mesh.indices[t + ((k + 1) % 3)]].sort((x, y) => x - y);
+        edges.set(`${a},${b}`, (edges.get(`${a},${b}`) ?? 0) + 1);
+      }
+    }
+    expect([...edges.values()].every(count => count === 2)).to.equal(true);
+    // A sphere: V - E + F = 2
+    expect(vertexCount(mesh) - edges.size + triangleCount(mesh)).to.equal(2);
+
+    const positions = new Set<string>();
+    for (let v = 0; v < vertexCount(mesh); v++) positions.add(mesh.positions.slice(v * 3, v * 3 + 3).join(","));
+    expect(positions.size).to.equal(vertexCount(mesh));
+    expect(signedVolume(mesh)).to.be.closeTo((4 / 3) * Math.PI * 125, 0.05 * (4 / 3) * Math.PI * 125);
+  });
+
+  it("returns no triangles when the threshold misses the volume", function () {
+    expect(triangleCount(extractIsosurface(ball(4), 1))).to.equal(0);
+    expect(triangleCount(extractIsosurface(ball(4), -10))).to.equal(0);
+  });
+});
@@ -0,0 +1,52 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import { parseMrc, parseMrcHeader } from "../frontend/web/src/formats/mrc";
+
+// Fixtures are written by test/fixtures/generate.py
+const fixture = (name: string): ArrayBuffer => {
+  const bytes = fs.readFileSync(path.join(__dirname, "fixtures", name));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+};
+
+const withInt32 = (buffer: ArrayBuffer, offset: number, value: number): ArrayBuffer => {
+  const copy = buffer.slice(0);
+  new DataView(copy).setInt32(offset, value, true);
+  return copy;
+};
+
+describe("parseMrc", function () {
+  it("reads a little-endian int16 stack with FEI tilt angles", function () {
+    const { header, stack } = parseMrc(fixture("tilt-fei.mrc"));
+    expect(header.littleEndian).to.equal(true);
+    expect(header.labels).to.deep.equal(["fixture stack"]);
+    expect([stack.width, stack.height, stack.depth, stack.dtype]).to.deep.equal([3, 2, 2, "int16"]);
+    expect(Array.from(stack.data)).to.deep.equal(Array.from({ length: 12 }, (_, i) => 3 * i - 5));
+    expect(stack.pixelSpacing).to.deep.equal({ x: 2.5, y: 2.5, z: 2.5 });
+    expect(stack.tiltAngles).to.deep.equal([-60, -57.5]);
+  });
+
+  it("reads a big-endian float32 stack with SERI tilt angles", function () {
+    const { header, stack } = parseMrc(fixture("tilt-seri-be.mrc"));
+    expect(header.littleEndian).to.equal(false);
+    expect(stack.dtype).to.equal("float32");
+    expect(Array.from(stack.data)).to.deep.equal(Array.from({ length: 12 }, (_, i) => i / 2));
+    expect(stack.tiltAngles).to.deep.equal([-60, 45.5]);
+  });
+
+  it("widens half floats and leaves an unset cell at zero spacing", function () {
+    const { stack } = parseMrc(fixture("half.mrc"));
+    expect(stack.dtype).to.equal("float32");
+    expect(Array.from(stack.data.subarray(0, 6))).to.deep.equal([1, -2, 0.5, 65504, Infinity, 2 ** -24]);
+    expect(stack.pixelSpacing).to.deep.equal({ x: 0, y: 0, z: 0 });
+    expect(stack.tiltAngles).to.equal(undefined);
+  });
+
+  it("rejects unsupported modes, bad dimensions and truncated files", function () {
+    const buffer = fixture("tilt-fei.mrc");
+    expect(() => parseMrc(withInt32(buffer, 12, 4))).to.throw("Unsupported MRC mode 4 (complex float32)");
+    expect(() => parseMrcHeader(withInt32(buffer, 4, 0))).to.throw("Invalid MRC dimensions 3 x 0 x 2");
+    expect(() => parseMrc(buffer.slice(0, buffer.byteLength - 2))).to.throw("Voxel data truncated");
+    expect(() => parseMrcHeader(buffer.slice(0, 512))).to.throw("shorter than the 1024-byte header");
+  });
+});
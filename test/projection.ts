@@ -0,0 +1,64 @@
+import { expect } from "chai";
+import { weightedBackProjection } from "../frontend/web/src/reconstruction/backProjection";
+import { beadPhantom, sheppLogan3d } from "../frontend/web/src/reconstruction/phantoms";
+import { forwardProject, tiltRange } from "../frontend/web/src/reconstruction/projection";
+
+const sum = (values: ArrayLike<number>, from = 0, to = values.length) => {
+  let total = 0;
+  for (let i = from; i < to; i++) total += values[i];
+  return total;
+};
+
+describe("forwardProject", function () {
+  it("keeps the mass of a volume inside the detector at every angle", function () {
+    const phantom = sheppLogan3d([48, 8, 48]);
+    const projections = forwardProject(phantom, { tiltAngles: [-90, -45, 0, 17, 45] });
+    expect([projections.width, projections.height, projections.depth]).to.deep.equal([48, 8, 5]);
+    expect(projections.tiltAngles).to.deep.equal([-90, -45, 0, 17, 45]);
+    const mass = sum(phantom.data);
+    for (let k = 0; k < 5; k++) {
+      expect(sum(projections.data, k * 48 * 8, (k + 1) * 48 * 8) / mass).to.be.closeTo(1, 1e-6);
+    }
+  });
+
+  it("is the adjoint of plain back-projection", function () {
+    // With a single projection spanning π, back-projection is π times the transpose of the projector
+    const x = sheppLogan3d([24, 8, 24]);
+    const y = forwardProject(beadPhantom([24, 8, 24], { count: 4, seed: 7 }), { tiltAngles: [17] });
+    const ax = forwardProject(x, { tiltAngles: [17] });
+    const aty = weightedBackProjection(y, { weighted: false, volumeShape: [24, 8, 24] });
+    let lhs = 0;
+    for (let i = 0; i < ax.data.length; i++) lhs += ax.data[i] * y.data[i];
+    let rhs = 0;
+    for (let i = 0; i < x.data.length; i++) rhs += (x.data[i] * aty.data[i]) / Math.PI;
+    expect(rhs).to.be.closeTo(lhs, Math.abs(lhs) * 1e-6);
+  });
+
+  it("lists evenly spaced tilt angles", function () {
+    expect(tiltRange(-60, 60, 30)).to.deep.equal([-60, -30, 0, 30, 60]);
+    expect(tiltRange(-1, 0.5, 0.5)).to.deep.equal([-1, -0.5, 0, 0.5]);
+    expect(() => tiltRange(0, 10, 0)).to.throw("Invalid tilt range 0 to 10 by 0");
+    expect(() => tiltRange(10, 0, 1)).to.throw("Invalid tilt range 10 to 0 by 1");
+  });
+});
+
+describe("phantoms", function () {
+  it("builds a Shepp-Logan phantom ranging from 0 to 1", function () {
+    const phantom = sheppLogan3d([32, 32, 32]);
+    expect(Math.min(...phantom.data)).to.equal(0);
+    expect(Math.max(...phantom.data)).to.be.closeTo(1, 1e-6);
+    expect(phantom.data[0]).to.equal(0);
+  });
+
+  it("scatters the requested beads reproducibly", function () {
+    const beads = beadPhantom([32, 32, 32], { count: 6, radius: 2, seed: 3 });
+    expect(Array.from(beads.data)).to.deep.equal(
+      Array.from(beadPhantom([32, 32, 32], { count: 6, radius: 2, seed: 3 }).data)
+    );
+    // A radius-2 sphere covers about 33 voxel centres, depending on where its own centre falls
+    expect(beads.data.filter(v => v !== 0 && v !== 1)).to.have.length(0);
+    expect(beads.data.filter(v => v === 1).length).to.be.within(6 * 27, 6 * 39);
+    expect(() => beadPhantom([4, 32, 32], { radius: 2 })).to.throw("cannot hold beads of radius 2");
+    expect(() => beadPhantom([8, 8, 8], { count: 50, radius: 2 })).to.throw("beads fit without overlapping");
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from "chai";
+import type { ImageStack, VoxelArray, VoxelDtype } from "../frontend/web/src/formats/stack";
+import {
+  chooseScaling,
+  dequantize,
+  dequantizeVoxels,
+  EncryptedWidth,
+  maxStored,
+  quantizationReport,
+  quantize
+} from "../frontend/web/src/quantization";
+
+const stack = (dtype: VoxelDtype, data: VoxelArray): ImageStack => ({
+  width: data.length,
+  height: 1,
+  depth: 1,
+  dtype,
+  data,
+  pixelSpacing: { x: 0, y: 0, z: 0 }
+});
+
+describe("quantization", function () {
+  it("keeps integer stacks exact when their range fits", function () {
+    const source = stack("int16", Int16Array.from([-300, 0, 100, 200]));
+    const scaling = chooseScaling(source, 16);
+    expect(scaling).to.deep.equal({ offset: -300, scale: 1, bits: 16 });
+    const stored = Array.from(source.data, value => quantize(value, scaling));
+    expect(stored).to.deep.equal([0, 300, 400, 500]);
+    expect(Array.from(dequantizeVoxels(stored, scaling))).to.deep.equal(Array.from(source.data));
+    expect(quantizationReport(source, scaling)).to.include({ errorBound: 0, maxError: 0, clipped: 0 });
+  });
+
+  it("round-trips float stacks within half a step at every width", function () {
+    const data = Float32Array.from({ length: 101 }, (_, i) => Math.sin(i) * 40 - 3.25);
+    for (const bits of [8, 16, 32] as EncryptedWidth[]) {
+      const scaling = chooseScaling(stack("float32", data), bits);
+      const report = quantizationReport(stack("float32", data), scaling);
+      expect(report.errorBound).to.equal(scaling.scale / 2);
+      expect(report.maxError).to.be.at.most(report.errorBound * (1 + 1e-9));
+      expect(report.clipped).to.equal(0);
+      data.forEach(value => {
+        const stored = quantize(value, scaling);
+        expect(stored).to.be.within(0, maxStored(bits));
+        expect(dequantize(stored, scaling)).to.be.closeTo(value, scaling.scale / 2 + 1e-9);
+      });
+    }
+  });
+
+  it("stores non-finite values as 0 and clamps finite ones to the range", function () {
+    const data = Float32Array.from([0, 10, NaN, Infinity, -Infinity]);
+    const scaling = chooseScaling(stack("float32", data), 8);
+    expect(scaling).to.deep.equal({ offset: 0, scale: 10 / 255, bits: 8 });
+    expect(Array.from(data, value => quantize(value, scaling))).to.deep.equal([0, 255, 0, 0, 0]);
+    expect(quantize(20, scaling)).to.equal(255);
+    expect(quantize(-20, scaling)).to.equal(0);
+    expect(quantizationReport(stack("float32", data), scaling).nonFinite).to.equal(3);
+  });
+
+  it("counts and bounds clipped voxels", function () {
+    const source = stack("int16", Int16Array.from([-4, 0, 100, 600]));
+    const report = quantizationReport(source, { offset: 0, scale: 1, bits: 8 });
+    expect(report.clipped).to.equal(2);
+    expect(report.errorBound).to.equal(0.5);
+    expect(report.maxError).to.equal(345);
+  });
+
+  it("falls back to unit steps for empty and constant stacks", function () {
+    expect(chooseScaling(stack("float32", Float32Array.from([NaN])), 16)).to.deep.equal({
+      offset: 0,
+      scale: 1,
+      bits: 16
+    });
+    expect(chooseScaling(stack("float64", Float64Array.from([2.5, 2.5])), 8)).to.deep.equal({
+      offset: 2.5,
+      scale: 1,
+      bits: 8
+    });
+    expect(() => chooseScaling(stack("uint8", Uint8Array.from([1])), 12 as EncryptedWidth)).to.throw(
+      "Unsupported encrypted width 12"
+    );
+  });
+});
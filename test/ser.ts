@@ -0,0 +1,60 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import { parseSer, parseSerHeader } from "../frontend/web/src/formats/ser";
+
+// Fixtures are written by test/fixtures/generate.py
+const fixture = (name: string): ArrayBuffer => {
+  const bytes = fs.readFileSync(path.join(__dirname, "fixtures", name));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+};
+
+/** Element values of `frames` frames of `size` elements each, before the fixture's own mapping. */
+const elements = (frames: number, size: number, value: (n: number) => number) =>
+  Array.from({ length: frames * size }, (_, i) => value((100 * Math.floor(i / size) + (i % size)) % 250));
+
+describe("parseSer", function () {
+  it("reads a 2D tilt series with angles from a series dimension in degrees", function () {
+    const { header, frames, stack } = parseSer(fixture("tilt-int16.ser"));
+    expect(header.version).to.equal(0x210);
+    expect([stack.width, stack.height, stack.depth, stack.dtype]).to.deep.equal([5, 4, 3, "int16"]);
+    expect(Array.from(stack.data)).to.deep.equal(elements(3, 20, n => n - 50));
+    expect(stack.tiltAngles).to.deep.equal([-60, -57, -54]);
+    expect(stack.pixelSpacing.x).to.be.closeTo(2.5, 1e-9);
+    expect(frames[1]).to.include({ time: 1600000001, positionX: 1e-6, positionY: -1e-6 });
+  });
+
+  it("reads 64-bit offsets and leaves angles unset outside degrees", function () {
+    const { stack } = parseSer(fixture("float-64bit-offsets.ser"));
+    expect([stack.width, stack.height, stack.depth, stack.dtype]).to.deep.equal([6, 3, 2, "float32"]);
+    expect(Array.from(stack.data)).to.deep.equal(elements(2, 18, n => n / 4));
+    expect(stack.tiltAngles).to.equal(undefined);
+  });
+
+  it("reads 1D elements as one-row frames", function () {
+    const { stack } = parseSer(fixture("spectra.ser"));
+    expect([stack.width, stack.height, stack.depth, stack.dtype]).to.deep.equal([8, 1, 2, "uint16"]);
+    expect(Array.from(stack.data)).to.deep.equal(elements(2, 8, n => n));
+    expect(stack.pixelSpacing).to.deep.equal({ x: 2.5, y: 0, z: 0 });
+  });
+
+  it("rejects files it cannot read", function () {
+    const buffer = fixture("tilt-int16.ser");
+    const patched = (offset: number, value: number, bytes: 2 | 4) => {
+      const copy = buffer.slice(0);
+      const view = new DataView(copy);
+      if (bytes === 2) view.setUint16(offset, value, true);
+      else view.setInt32(offset, value, true);
+      return copy;
+    };
+    // The element type follows the first frame's x and y calibrations
+    const elementType = parseSerHeader(buffer).dataOffsets[0] + 40;
+
+    expect(() => parseSer(buffer.slice(0, 20))).to.throw("Not a SER file: too short");
+    expect(() => parseSer(patched(2, 0x0198, 2))).to.throw("bad byte order or series id");
+    expect(() => parseSer(patched(6, 0x4121, 4))).to.throw("Unknown SER data type 0x4121");
+    expect(() => parseSer(patched(18, 0, 4))).to.throw("SER file contains no valid elements");
+    expect(() => parseSer(patched(elementType, 9, 2))).to.throw("Unsupported SER element data type 9");
+    expect(() => parseSer(buffer.slice(0, buffer.byteLength - 4))).to.throw("offset arrays run past the end");
+  });
+});
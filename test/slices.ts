@@ -0,0 +1,58 @@
+import { expect } from "chai";
+import type { ImageStack } from "../frontend/web/src/formats/stack";
+import { extractSlice, greyscale, PLANE_AXES, SLICE_PLANES, valueRange } from "../frontend/web/src/viewer/slices";
+import { linearWindow } from "../frontend/web/src/viewer/windowing";
+
+/** A 4 x 3 x 2 volume whose voxel at (x, y, z) holds 100x + 10y + z. */
+const VOLUME: ImageStack = {
+  width: 4,
+  height: 3,
+  depth: 2,
+  dtype: "float32",
+  data: Float32Array.from({ length: 24 }, (_, i) => 100 * (i % 4) + 10 * (Math.floor(i / 4) % 3) + Math.floor(i / 12)),
+  pixelSpacing: { x: 1, y: 1, z: 1 }
+};
+
+const voxel = (x: number, y: number, z: number) => 100 * x + 10 * y + z;
+
+describe("slices", function () {
+  it("cuts each plane at its first and last index, u fastest", function () {
+    const shape = [4, 3, 2];
+    for (const plane of SLICE_PLANES) {
+      const { u, v, normal } = PLANE_AXES[plane];
+      for (const index of [0, shape[normal] - 1]) {
+        const slice = extractSlice(VOLUME, plane, index);
+        expect([slice.width, slice.height], plane).to.deep.equal([shape[u], shape[v]]);
+        expect(slice.data).to.have.length(shape[u] * shape[v]);
+        for (let j = 0; j < slice.height; j++) {
+          for (let i = 0; i < slice.width; i++) {
+            const position = [0, 0, 0];
+            [position[u], position[v], position[normal]] = [i, j, index];
+            expect(slice.data[j * slice.width + i], `${plane} ${index}`).to.equal(
+              voxel(position[0], position[1], position[2])
+            );
+          }
+        }
+      }
+    }
+  });
+
+  it("lays the planes out so shared axes line up", function () {
+    // XZ has the columns of XY, and YZ its rows, z across
+    expect(Array.from(extractSlice(VOLUME, "xz", 2).data.subarray(0, 4))).to.deep.equal([20, 120, 220, 320]);
+    expect(Array.from(extractSlice(VOLUME, "yz", 3).data)).to.deep.equal([300, 301, 310, 311, 320, 321]);
+  });
+
+  it("rejects slices outside the volume", function () {
+    expect(() => extractSlice(VOLUME, "xy", 2)).to.throw("Slice 2 is outside the volume's 2 z slices");
+    expect(() => extractSlice(VOLUME, "yz", -1)).to.throw("Slice -1 is outside the volume's 4 x slices");
+    expect(() => extractSlice(VOLUME, "xz", 0.5)).to.throw("outside the volume's 3 y slices");
+  });
+
+  it("ranges over finite values and shades through the window", function () {
+    expect(valueRange([3, NaN, -2, Infinity, 7])).to.deep.equal([-2, 7]);
+    expect(valueRange([NaN])).to.deep.equal([0, 0]);
+    const pixels = greyscale({ width: 3, height: 1, data: Float32Array.from([0, 5, 20]) }, linearWindow([0, 10]));
+    expect(Array.from(pixels)).to.deep.equal([0, 0, 0, 255, 128, 128, 128, 255, 255, 255, 255, 255]);
+  });
+});
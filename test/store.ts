@@ -0,0 +1,80 @@
+import { expect } from "chai";
+import { promises as fs } from "fs";
+import http from "http";
+import { AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { BlobStore, createBlobStore, hashBlob } from "../src/store/blobStore";
+import { createStoreServer, DEFAULT_STORE_OPTIONS } from "../src/store/server";
+
+const MAX_BLOB_BYTES = 64;
+
+describe("ciphertext store", function () {
+  let root: string;
+  let store: BlobStore;
+  let server: http.Server;
+  let url: string;
+
+  beforeEach(async function () {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), "ciphertext-store-"));
+    store = createBlobStore(root);
+    server = createStoreServer(store, { ...DEFAULT_STORE_OPTIONS, maxBlobBytes: MAX_BLOB_BYTES });
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async function () {
+    await new Promise(resolve => server.close(resolve));
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  const post = (body: Uint8Array, hash?: string) =>
+    fetch(`${url}/blobs`, {
+      method: "POST",
+      headers: hash ? { "X-Content-SHA256": hash } : {},
+      body
+    });
+
+  it("stores a blob under its hash and serves it back", async function () {
+    const data = Uint8Array.from([1, 2, 3, 4, 5]);
+    const hash = hashBlob(data);
+    const response = await post(data, hash.toUpperCase().replace("0X", "0x"));
+    expect(response.status).to.equal(201);
+    expect(await response.json()).to.deep.equal({ hash, size: 5 });
+    // Stored once, so a second put returns the same address
+    expect((await post(data)).status).to.equal(201);
+    expect(await fs.readdir(path.join(root, hash.slice(2, 4)))).to.deep.equal([hash.slice(4)]);
+
+    const fetched = await fetch(`${url}/blobs/${hash}`);
+    expect(fetched.status).to.equal(200);
+    expect(fetched.headers.get("x-content-sha256")).to.equal(hash);
+    expect(Array.from(new Uint8Array(await fetched.arrayBuffer()))).to.deep.equal([1, 2, 3, 4, 5]);
+    const head = await fetch(`${url}/blobs/${hash}`, { method: "HEAD" });
+    expect(head.headers.get("content-length")).to.equal("5");
+  });
+
+  it("rejects a body that does not match its claimed hash", async function () {
+    const response = await post(Uint8Array.from([1, 2, 3]), hashBlob(Uint8Array.from([3, 2, 1])));
+    expect(response.status).to.equal(422);
+    expect(await response.json()).to.deep.equal({ error: "Body does not match X-Content-SHA256" });
+    expect(await fs.readdir(root)).to.deep.equal([]);
+  });
+
+  it("rejects empty and oversize blobs", async function () {
+    expect((await post(new Uint8Array(0))).status).to.equal(400);
+    const response = await post(new Uint8Array(MAX_BLOB_BYTES + 1));
+    expect(response.status).to.equal(413);
+    expect(await response.json()).to.deep.equal({ error: `Blob exceeds ${MAX_BLOB_BYTES} bytes` });
+    expect((await post(new Uint8Array(MAX_BLOB_BYTES))).status).to.equal(201);
+  });
+
+  it("answers 404 for unknown blobs and 400 for malformed hashes", async function () {
+    const unknown = hashBlob(Uint8Array.from([9]));
+    const response = await fetch(`${url}/blobs/${unknown}`);
+    expect(response.status).to.equal(404);
+    expect(await response.json()).to.deep.equal({ error: `Blob ${unknown} not found` });
+    expect((await fetch(`${url}/blobs/${unknown}`, { method: "HEAD" })).status).to.equal(404);
+    expect((await fetch(`${url}/blobs/0x1234`)).status).to.equal(400);
+    expect((await fetch(`${url}/elsewhere`)).status).to.equal(404);
+  });
+});
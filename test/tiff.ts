@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import { lzwDecode, parseTiff } from "../frontend/web/src/formats/tiff";
+
+// Fixtures are written by test/fixtures/generate.py
+const fixture = (name: string): ArrayBuffer => {
+  const bytes = fs.readFileSync(path.join(__dirname, "fixtures", name));
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+};
+
+/** Voxels of a `pages` x `height` x `width` stack, x fastest. */
+const voxels = (pages: number, width: number, height: number, value: (p: number, x: number, y: number) => number) => {
+  const out: number[] = [];
+  for (let p = 0; p < pages; p++) {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) out.push(value(p, x, y));
+    }
+  }
+  return out;
+};
+
+/** Copy of `buffer` with the first value of `tag` in the first page set to `value`. */
+const withTag = (buffer: ArrayBuffer, tag: number, value: number): ArrayBuffer => {
+  const copy = buffer.slice(0);
+  const view = new DataView(copy);
+  const le = view.getUint16(0) === 0x4949;
+  const ifd = view.getUint32(4, le);
+  for (let i = 0; i < view.getUint16(ifd, le); i++) {
+    const entry = ifd + 2 + i * 12;
+    if (view.getUint16(entry, le) !== tag) continue;
+    const short = view.getUint16(entry + 2, le) === 3;
+    const inline = view.getUint32(entry + 4, le) * (short ? 2 : 4) <= 4;
+    const at = inline ? entry + 8 : view.getUint32(entry + 8, le);
+    if (short) view.setUint16(at, value, le);
+    else view.setUint32(at, value, le);
+    return copy;
+  }
+  throw new Error(`No tag ${tag}`);
+};
+
+/** Message of the error `promise` rejects with. */
+const rejection = async (promise: Promise<unknown>): Promise<string> => {
+  try {
+    await promise;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+  throw new Error("Expected a rejection");
+};
+
+describe("parseTiff", function () {
+  it("decodes LZW strips with the horizontal predictor", async function () {
+    const { littleEndian, stack } = await parseTiff(fixture("lzw-predictor.tif"));
+    expect(littleEndian).to.equal(true);
+    expect([stack.width, stack.height, stack.depth, stack.dtype]).to.deep.equal([13, 10, 3, "uint16"]);
+    expect(Array.from(stack.data)).to.deep.equal(
+      voxels(3, 13, 10, (p, x, y) => (7919 * p + 613 * y + 2477 * x) % 65536)
+    );
+  });
+
+  it("decodes LZW streams that reset the code table", async function () {
+    const { stack } = await parseTiff(fixture("lzw-long.tif"));
+    expect(Array.from(stack.data)).to.deep.equal(
+      voxels(1, 128, 64, (_, x, y) => (31 * x * x + 17 * y * y + x * y) % 256)
+    );
+  });
+
+  it("decodes big-endian Deflate tiles with the floating-point predictor", async function () {
+    const { stack } = await parseTiff(fixture("deflate-float-tiled.tif"));
+    expect([stack.width, stack.height, stack.depth, stack.dtype]).to.deep.equal([20, 18, 2, "float32"]);
+    expect(Array.from(stack.data)).to.deep.equal(voxels(2, 20, 18, (p, x, y) => (100 * p + 20 * y + x) / 4 - 50));
+  });
+
+  it("decodes PackBits and uncompressed strips", async function () {
+    const packBits = await parseTiff(fixture("packbits.tif"));
+    expect(Array.from(packBits.stack.data)).to.deep.equal(voxels(2, 9, 7, (p, x, y) => 40 * Math.floor(x / 3) + y + p));
+    const raw = await parseTiff(fixture("uncompressed.tif"));
+    expect(raw.stack.dtype).to.equal("int16");
+    expect(Array.from(raw.stack.data)).to.deep.equal(voxels(2, 11, 5, (p, x, y) => 300 * (x - 5) + 7 * y - p));
+  });
+
+  it("takes pixel spacing from ImageJ's unit and the resolution tags", async function () {
+    const { stack } = await parseTiff(fixture("uncompressed.tif"));
+    // 4 pixels per nm across, 2.5 nm between images
+    expect(stack.pixelSpacing).to.deep.equal({ x: 2.5, y: 2.5, z: 25 });
+    expect(stack.pageTags?.[0]).to.include({ ImageWidth: 11, Compression: 1 });
+    expect(stack.pageTags?.[0]).not.to.have.property("StripOffsets");
+  });
+
+  it("rejects files it cannot read", async function () {
+    const buffer = fixture("packbits.tif");
+    const bytes = (...values: number[]) => Uint8Array.from(values).buffer;
+    expect(await rejection(parseTiff(bytes(0x4d, 0x4d)))).to.contain("Not a TIFF file: too short");
+    expect(await rejection(parseTiff(bytes(1, 2, 3, 4, 5, 6, 7, 8)))).to.contain("missing byte order mark");
+    expect(await rejection(parseTiff(bytes(0x4d, 0x4d, 0, 43, 0, 0, 0, 0)))).to.contain(
+      "BigTIFF files are not supported"
+    );
+    expect(await rejection(parseTiff(bytes(0x4d, 0x4d, 0, 41, 0, 0, 0, 0)))).to.contain("bad magic number 41");
+    expect(await rejection(parseTiff(withTag(buffer, 259, 7)))).to.contain("Unsupported TIFF compression 7");
+    expect(await rejection(parseTiff(withTag(buffer, 277, 3)))).to.contain("found 3 samples per pixel");
+    expect(await rejection(parseTiff(withTag(buffer, 273, buffer.byteLength)))).to.contain(
+      "runs past the end of the file"
+    );
+  });
+});
+
+describe("lzwDecode", function () {
+  it("rejects codes past the end of the table", function () {
+    // Clear code, then code 300 before any entry above 257 exists
+    const stream = Uint8Array.from([0b10000000, 0b01001011, 0b00000000]);
+    expect(() => lzwDecode(stream, 4)).to.throw("Corrupt LZW stream: unexpected code 300");
+  });
+});
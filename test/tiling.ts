@@ -0,0 +1,74 @@
+import { expect } from "chai";
+import type { ImageStack } from "../frontend/web/src/formats/stack";
+import { chooseScaling } from "../frontend/web/src/quantization";
+import {
+  extractTile,
+  fromFixedPoint,
+  insertTile,
+  tileCount,
+  tileGrid,
+  tileIndexAt,
+  tileOrigin,
+  tilesInRegion,
+  toFixedPoint
+} from "../frontend/web/src/tiling";
+
+const stack = (width: number, height: number, depth: number): ImageStack => ({
+  width,
+  height,
+  depth,
+  dtype: "int16",
+  data: Int16Array.from({ length: width * height * depth }, (_, i) => ((i * 37) % 2000) - 1000),
+  pixelSpacing: { x: 0, y: 0, z: 0 }
+});
+
+describe("tiling", function () {
+  it("covers a stack with partial tiles at its far edges", function () {
+    const grid = tileGrid([13, 11, 3], [8, 8, 1]);
+    expect(grid.counts).to.deep.equal([2, 2, 3]);
+    expect(tileCount(grid)).to.equal(12);
+    expect(tileOrigin(grid, 7)).to.deep.equal([8, 8, 1]);
+    for (let tile = 0; tile < tileCount(grid); tile++) {
+      expect(tileIndexAt(grid, ...tileOrigin(grid, tile))).to.equal(tile);
+    }
+    expect(tileIndexAt(grid, 12, 10, 2)).to.equal(11);
+  });
+
+  it("lists the tiles a region overlaps", function () {
+    const grid = tileGrid([13, 11, 3], [8, 8, 1]);
+    expect(tilesInRegion(grid, [7, 0, 1], [9, 3, 2])).to.deep.equal([4, 5]);
+    expect(tilesInRegion(grid, [0, 0, 0], [13, 11, 3])).to.have.length(12);
+    expect(tilesInRegion(grid, [-4, -4, -1], [1, 1, 1])).to.deep.equal([0]);
+  });
+
+  it("rejects empty and fractional tile shapes", function () {
+    expect(() => tileGrid([4, 4, 1], [0, 4, 1])).to.throw("Invalid tile shape 0 x 4 x 1");
+    expect(() => tileGrid([4, 4, 1], [2.5, 4, 1])).to.throw("Invalid tile shape 2.5 x 4 x 1");
+  });
+
+  it("round-trips a stack through zero-padded tiles", function () {
+    const source = stack(13, 11, 3);
+    const grid = tileGrid([13, 11, 3], [8, 8, 1]);
+    const scaling = chooseScaling(source, 16);
+    const volume = new Float32Array(source.data.length);
+    for (let tile = 0; tile < tileCount(grid); tile++) {
+      const stored = extractTile(source, grid, tile, scaling);
+      expect(stored).to.have.length(64);
+      insertTile(volume, grid, tile, stored, scaling);
+    }
+    expect(Array.from(volume)).to.deep.equal(Array.from(source.data));
+
+    // The last tile holds 5 x 3 voxels of the stack and zeros past its edges
+    const last = extractTile(source, grid, 11, scaling);
+    expect(last[4]).to.not.equal(0);
+    expect(Array.from(last.subarray(5, 8))).to.deep.equal([0, 0, 0]);
+    expect(Array.from(last.subarray(24))).to.deep.equal(new Array(40).fill(0));
+  });
+
+  it("converts to and from the contract's fixed point", function () {
+    for (const value of [0, 1, -5.25, 12345.678, 1 / 65535, -1e-18]) {
+      expect(fromFixedPoint(toFixedPoint(value))).to.be.closeTo(value, Math.abs(value) * 1e-15 + 1e-18);
+    }
+    expect(toFixedPoint(-1.5)).to.equal(-15n * 10n ** 17n);
+  });
+});
@@ -0,0 +1,48 @@
+import { expect } from "chai";
+import type { ImageStack } from "../frontend/web/src/formats/stack";
+import { PREVIEW_SIZE, tiltSeriesPreview } from "../frontend/web/src/viewer/tiltPreview";
+
+/** A stack whose image z is filled with z. */
+const stack = (width: number, height: number, tiltAngles?: number[]): ImageStack => {
+  const depth = tiltAngles?.length ?? 5;
+  return {
+    width,
+    height,
+    depth,
+    dtype: "uint16",
+    data: Float32Array.from({ length: width * height * depth }, (_, i) => Math.floor(i / (width * height))),
+    pixelSpacing: { x: 1.5, y: 1.5, z: 0 },
+    tiltAngles
+  };
+};
+
+describe("tiltSeriesPreview", function () {
+  it("orders a tilt series by angle, starting at the least tilted image", function () {
+    const preview = tiltSeriesPreview(stack(8, 8, [20, -40, 0, 40, -20, 60]));
+    expect(preview.order).to.deep.equal([1, 4, 2, 0, 3, 5]);
+    expect(preview.order[preview.start]).to.equal(2);
+    expect(preview.labels).to.deep.equal(["20.0°", "-40.0°", "0.0°", "40.0°", "-20.0°", "60.0°"]);
+  });
+
+  it("keeps the stored order of stacks without a tilt angle per image", function () {
+    for (const images of [stack(8, 8), { ...stack(8, 8), tiltAngles: [0, 10] }]) {
+      const preview = tiltSeriesPreview(images);
+      expect(preview.order).to.deep.equal([0, 1, 2, 3, 4]);
+      expect(preview.start).to.equal(2);
+      expect(preview.labels).to.deep.equal(["#1", "#2", "#3", "#4", "#5"]);
+    }
+  });
+
+  it("bins images down to the preview size, averaging each block", function () {
+    const large = stack(2 * PREVIEW_SIZE + 10, 100);
+    const { images } = tiltSeriesPreview(large);
+    // Binned by 3, the longest side's remainder dropped
+    expect([images.width, images.height, images.depth]).to.deep.equal([131, 33, 5]);
+    expect(images.pixelSpacing).to.deep.equal({ x: 4.5, y: 4.5, z: 0 });
+    expect(images.data[4 * 131 * 33 + 7]).to.be.closeTo(4, 1e-6);
+
+    const small = stack(PREVIEW_SIZE, 10);
+    expect(tiltSeriesPreview(small).images).to.equal(small);
+    expect(tiltSeriesPreview(small, 64).images.width).to.equal(64);
+  });
+});
@@ -0,0 +1,70 @@
+import { expect } from "chai";
+import {
+  DEFAULT_TRANSFER_FUNCTION,
+  normalizeTransferFunction,
+  sampleTransferFunction,
+  TRANSFER_SAMPLES
+} from "../frontend/web/src/viewer/transferFunction";
+
+/** RGBA entry `i` of a lookup table. */
+const entry = (table: Uint8Array, i: number) => Array.from(table.subarray(i * 4, i * 4 + 4));
+
+describe("transfer function", function () {
+  it("interpolates colour and opacity linearly between points", function () {
+    const table = sampleTransferFunction(
+      [
+        { value: 0, opacity: 0, color: "#000000" },
+        { value: 0.5, opacity: 1, color: "#ff8000" },
+        { value: 1, opacity: 0.2, color: "#0000ff" }
+      ],
+      5
+    );
+    expect(entry(table, 0)).to.deep.equal([0, 0, 0, 0]);
+    expect(entry(table, 1)).to.deep.equal([128, 64, 0, 128]);
+    expect(entry(table, 2)).to.deep.equal([255, 128, 0, 255]);
+    expect(entry(table, 3)).to.deep.equal([128, 64, 128, 153]);
+    expect(entry(table, 4)).to.deep.equal([0, 0, 255, 51]);
+    expect(sampleTransferFunction(DEFAULT_TRANSFER_FUNCTION)).to.have.length(TRANSFER_SAMPLES * 4);
+  });
+
+  it("holds the end points' colour and opacity outside them", function () {
+    const table = sampleTransferFunction(
+      [
+        { value: 0.25, opacity: 0.5, color: "#102030" },
+        { value: 0.75, opacity: 1, color: "#ffffff" }
+      ],
+      9
+    );
+    expect(entry(table, 0)).to.deep.equal([16, 32, 48, 128]);
+    expect(entry(table, 2)).to.deep.equal([16, 32, 48, 128]);
+    expect(entry(table, 6)).to.deep.equal([255, 255, 255, 255]);
+    expect(entry(table, 8)).to.deep.equal([255, 255, 255, 255]);
+    // A single point colours the whole axis
+    expect(entry(sampleTransferFunction([{ value: 0.5, opacity: 1, color: "#00ff00" }], 3), 2)).to.deep.equal([
+      0, 255, 0, 255
+    ]);
+  });
+
+  it("clamps points to [0, 1] and sorts them along the value axis", function () {
+    const points = [
+      { value: 1.5, opacity: 2, color: "#ffffff" },
+      { value: 0.5, opacity: 0.5, color: "#808080" },
+      { value: -1, opacity: -0.5, color: "#000000" }
+    ];
+    expect(normalizeTransferFunction(points).map(p => [p.value, p.opacity])).to.deep.equal([
+      [0, 0],
+      [0.5, 0.5],
+      [1, 1]
+    ]);
+    expect(Array.from(sampleTransferFunction(points, 3))).to.deep.equal(
+      Array.from(sampleTransferFunction([...points].reverse(), 3))
+    );
+    expect(entry(sampleTransferFunction(points, 3), 0)).to.deep.equal([0, 0, 0, 0]);
+    expect(entry(sampleTransferFunction(points, 3), 2)).to.deep.equal([255, 255, 255, 255]);
+  });
+
+  it("rejects empty functions and malformed colours", function () {
+    expect(() => sampleTransferFunction([])).to.throw("A transfer function needs at least one point");
+    expect(() => sampleTransferFunction([{ value: 0, opacity: 1, color: "red" }])).to.throw("Invalid colour red");
+  });
+});
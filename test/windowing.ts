@@ -0,0 +1,57 @@
+import { expect } from "chai";
+import {
+  applyWindow,
+  histogram,
+  HISTOGRAM_BINS,
+  linearWindow,
+  percentileRange
+} from "../frontend/web/src/viewer/windowing";
+
+/** 0, 1, ..., n - 1 in a shuffled order. */
+const ramp = (n: number) => Float32Array.from({ length: n }, (_, i) => (i * 37) % n);
+
+describe("windowing", function () {
+  it("maps values through the window, its gamma and inversion", function () {
+    const window = linearWindow([10, 20]);
+    expect([5, 10, 15, 20, 25].map(value => applyWindow(value, window))).to.deep.equal([0, 0, 0.5, 1, 1]);
+    expect(applyWindow(15, { ...window, gamma: 2 })).to.be.closeTo(Math.SQRT1_2, 1e-12);
+    expect(applyWindow(12.5, { ...window, invert: true })).to.equal(0.75);
+  });
+
+  it("handles a constant stack and voxels that are not finite", function () {
+    const constant = new Float32Array(100).fill(7);
+    const range = percentileRange(constant, [0.5, 99.5]);
+    expect(range).to.deep.equal([7, 7]);
+    // An empty window still separates values below, at and above it
+    expect([6, 7, 8].map(value => applyWindow(value, linearWindow(range)))).to.deep.equal([0, 0, 1]);
+    expect(Array.from(histogram(constant, range, 4).counts)).to.deep.equal([100, 0, 0, 0]);
+
+    const window = linearWindow([0, 10]);
+    expect([NaN, Infinity, -Infinity].map(value => applyWindow(value, window))).to.deep.equal([0, 1, 0]);
+    expect(applyWindow(NaN, { ...window, invert: true })).to.equal(1);
+    const data = Float32Array.from([NaN, 1, Infinity, 3, -Infinity, 5]);
+    expect(percentileRange(data, [0, 100])).to.deep.equal([1, 5]);
+    expect(Array.from(histogram(data, [1, 5], 2).counts)).to.deep.equal([1, 2]);
+    expect(percentileRange([NaN, Infinity], [0, 100])).to.deep.equal([0, 0]);
+  });
+
+  it("picks percentiles by rank, the extremes at 0 and 100", function () {
+    const data = ramp(201);
+    expect(percentileRange(data, [0, 100])).to.deep.equal([0, 200]);
+    expect(percentileRange(data, [50, 50])).to.deep.equal([100, 100]);
+    expect(percentileRange(data, [0.5, 99.5])).to.deep.equal([1, 199]);
+    // Past the ends, percentiles clamp to the extremes
+    expect(percentileRange(data, [-5, 105])).to.deep.equal([0, 200]);
+  });
+
+  it("counts finite values into equal bins, clamping those outside the range", function () {
+    const data = ramp(1000);
+    const { counts, min, max } = histogram(data, [0, 1000]);
+    expect([counts.length, min, max]).to.deep.equal([HISTOGRAM_BINS, 0, 1000]);
+    expect(counts.reduce((sum, count) => sum + count, 0)).to.equal(1000);
+    expect(counts[0]).to.equal(4);
+
+    const clamped = histogram([-50, 0, 2.4, 2.5, 9.99, 10, 60], [0, 10], 4).counts;
+    expect(Array.from(clamped)).to.deep.equal([3, 1, 0, 3]);
+  });
+});
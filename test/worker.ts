@@ -0,0 +1,204 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import type { ImageStack } from "../frontend/web/src/formats/stack";
+import { chooseScaling, quantize } from "../frontend/web/src/quantization";
+import { AlignmentRecord, encodeAlignment, toAlignmentUnits } from "../frontend/web/src/reconstruction/alignment";
+import { sheppLogan3d } from "../frontend/web/src/reconstruction/phantoms";
+import { forwardProject, tiltRange } from "../frontend/web/src/reconstruction/projection";
+import {
+  DEFAULT_TILE_SHAPE,
+  extractTile,
+  fromFixedPoint,
+  MANIFEST_DTYPES,
+  tileCount,
+  tileGrid,
+  tileOrigin,
+  toFixedPoint
+} from "../frontend/web/src/tiling";
+import { createBackProjectionPipeline } from "../src/worker/backProjection";
+import { applyOperator, composeOperators } from "../src/worker/operator";
+import { IDENTITY_PIPELINE, ReconstructionPipeline } from "../src/worker/pipeline";
+import { createReconstructionWorker, DEFAULT_WORKER_OPTIONS } from "../src/worker/worker";
+import type { EtCloudFhe } from "../types/contracts/EtCloudFhe";
+import type { EtCloudFhe__factory } from "../types/factories/contracts/EtCloudFhe__factory";
+
+type Signers = {
+  worker: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+};
+
+const RECONSTRUCTED = 5n;
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("EtCloudFhe")) as EtCloudFhe__factory;
+  const contract = (await factory.deploy()) as EtCloudFhe;
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress };
+}
+
+describe("reconstruction worker", function () {
+  let signers: Signers;
+  let contract: EtCloudFhe;
+  let contractAddress: string;
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { worker: ethSigners[0], alice: ethSigners[1] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+    ({ contract, contractAddress } = await deployFixture());
+  });
+
+  /** Uploads `stack` as 16-bit tiles, with its tilt geometry when it has one, and requests a reconstruction. */
+  const requestReconstruction = async (stack: ImageStack, alignment?: AlignmentRecord): Promise<bigint> => {
+    const owner = contract.connect(signers.alice);
+    const fingerprint = await fhevm.createEncryptedInput(contractAddress, signers.alice.address).add32(1).encrypt();
+    await (await owner.uploadEncryptedImage(fingerprint.handles[0], fingerprint.inputProof, "", "")).wait();
+    const imageId = await contract.imageCount();
+
+    const scaling = chooseScaling(stack, 16);
+    const grid = tileGrid([stack.width, stack.height, stack.depth], DEFAULT_TILE_SHAPE);
+    const dtype = MANIFEST_DTYPES.indexOf(stack.dtype);
+    const [offset, scale] = [toFixedPoint(scaling.offset), toFixedPoint(scaling.scale)];
+    await (await owner.setTileManifest(imageId, grid.shape, grid.tileShape, dtype, 16, offset, scale)).wait();
+    for (let tile = 0; tile < tileCount(grid); tile++) {
+      const input = fhevm.createEncryptedInput(contractAddress, signers.alice.address);
+      for (const voxel of extractTile(stack, grid, tile, scaling)) input.add32(voxel);
+      const encrypted = await input.encrypt();
+      await (await owner.uploadTileVoxels(imageId, tile, encrypted.handles, encrypted.inputProof)).wait();
+    }
+    if (stack.tiltAngles) await (await owner.setTiltAngles(imageId, stack.tiltAngles.map(toAlignmentUnits))).wait();
+    if (alignment) {
+      const { tiltAxisAngle, transforms } = encodeAlignment(alignment);
+      await (await owner.setAlignment(imageId, tiltAxisAngle, transforms)).wait();
+    }
+    await (await owner.requestReconstruction(imageId)).wait();
+    return imageId;
+  };
+
+  const runWorker = async (pipeline: ReconstructionPipeline) => {
+    const worker = createReconstructionWorker(contract.connect(signers.worker), {
+      ...DEFAULT_WORKER_OPTIONS,
+      pipeline,
+      log: () => {}
+    });
+    await worker.start();
+    await worker.idle();
+    await worker.stop();
+  };
+
+  /** Decrypts the result volume for its owner, as signed int32 voxels decoded through the result manifest. */
+  const decryptResult = async (imageId: bigint): Promise<Float64Array> => {
+    const m = await contract.getResultManifest(imageId);
+    const shape: [number, number, number] = [Number(m.width), Number(m.height), Number(m.depth)];
+    const grid = tileGrid(shape, [Number(m.tileWidth), Number(m.tileHeight), Number(m.tileDepth)]);
+    const [offset, scale] = [fromFixedPoint(m.valueOffset), fromFixedPoint(m.valueScale)];
+    const [width, height, depth] = shape;
+    const [tx, ty, tz] = grid.tileShape;
+    const volume = new Float64Array(width * height * depth);
+
+    for (let tile = 0; tile < tileCount(grid); tile++) {
+      const handles = await contract.getResultVoxels(imageId, tile, 0, tx * ty * tz);
+      const [ox, oy, oz] = tileOrigin(grid, tile);
+      let i = 0;
+      for (let z = oz; z < oz + tz; z++) {
+        for (let y = oy; y < oy + ty; y++) {
+          for (let x = ox; x < ox + tx; x++, i++) {
+            const raw = await fhevm.userDecryptEuint(FhevmType.euint32, handles[i], contractAddress, signers.alice);
+            if (x < width && y < height && z < depth)
+              volume[(z * height + y) * width + x] = offset + scale * (Number(raw) | 0);
+          }
+        }
+      }
+    }
+    return volume;
+  };
+
+  it("copies a stack through the identity pipeline", async function () {
+    const data = Float32Array.from([10, 20, 30, 40, 50, 60]);
+    const stack: ImageStack = {
+      width: 3,
+      height: 2,
+      depth: 1,
+      dtype: "uint16",
+      data,
+      pixelSpacing: { x: 0, y: 0, z: 0 }
+    };
+    const imageId = await requestReconstruction(stack);
+    await runWorker(IDENTITY_PIPELINE);
+
+    expect(await contract.getJobState(imageId)).to.equal(RECONSTRUCTED);
+    const history = await contract.getJobHistory(imageId);
+    expect(history.map(t => t.state)).to.deep.equal([1n, 2n, 3n, 4n, 5n]);
+    const result = await decryptResult(imageId);
+    data.forEach((value, i) => expect(result[i]).to.be.closeTo(value, 1e-6));
+  });
+
+  it("runs a job again when its owner cancels and requests it while it runs", async function () {
+    const stack: ImageStack = {
+      width: 2,
+      height: 2,
+      depth: 1,
+      dtype: "uint16",
+      data: Float32Array.from([1, 2, 3, 4]),
+      pixelSpacing: { x: 0, y: 0, z: 0 }
+    };
+    const imageId = await requestReconstruction(stack);
+    const owner = contract.connect(signers.alice);
+    let requeued = false;
+    await runWorker({
+      ...IDENTITY_PIPELINE,
+      align: async input => {
+        if (!requeued) {
+          requeued = true;
+          await (await owner.cancelReconstruction(imageId)).wait();
+          await (await owner.requestReconstruction(imageId)).wait();
+        }
+        return IDENTITY_PIPELINE.align(input);
+      }
+    });
+
+    expect(await contract.getJobState(imageId)).to.equal(RECONSTRUCTED);
+    const history = await contract.getJobHistory(imageId);
+    expect(history.map(t => t.state)).to.deep.equal([1n, 2n, 7n, 1n, 2n, 3n, 4n, 5n]);
+  });
+
+  it("back-projects encrypted voxels as the plaintext operator does", async function () {
+    this.timeout(600_000);
+    const tiltAngles = tiltRange(-60, 60, 20);
+    const stack = forwardProject(sheppLogan3d([8, 1, 8]), { tiltAngles });
+    const alignment: AlignmentRecord = {
+      tiltAxisAngle: 0,
+      transforms: tiltAngles.map(() => ({ shiftX: 0.25, shiftY: 0, rotation: 0 }))
+    };
+    const pipeline = createBackProjectionPipeline({ filter: {}, filterRadius: 4, thickness: 4 });
+    const imageId = await requestReconstruction(stack, alignment);
+    await runWorker(pipeline);
+    expect(await contract.getJobState(imageId)).to.equal(RECONSTRUCTED);
+
+    // The plaintext reference runs the same operator over the quantized, offset-free inputs
+    const input = { imageId, alignment, tiltAngles };
+    const aligned = await pipeline.align({ ...input, shape: [8, 1, tiltAngles.length] });
+    const filtered = await pipeline.filter({ ...input, shape: aligned.shape });
+    const projected = await pipeline.backProject({ ...input, shape: filtered.shape });
+    const operator = composeOperators(projected.operator, composeOperators(filtered.operator, aligned.operator));
+    // Rows sum to more terms than one write carries, so every voxel is written in parts
+    expect(operator.row(0).length).to.be.greaterThan(Number(await contract.MAX_RESULT_TERMS()));
+
+    const scaling = chooseScaling(stack, 16);
+    const reference = applyOperator(
+      operator,
+      Array.from(stack.data, value => quantize(value, scaling) * scaling.scale)
+    );
+    const result = await decryptResult(imageId);
+    const peak = Math.max(...reference.map(Math.abs));
+    reference.forEach((value, i) => expect(result[i]).to.be.closeTo(value, peak * 1e-3));
+  });
+});
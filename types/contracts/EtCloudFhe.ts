@@ -0,0 +1,1748 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import type {
+  BaseContract,
+  BigNumberish,
+  BytesLike,
+  FunctionFragment,
+  Result,
+  Interface,
+  EventFragment,
+  AddressLike,
+  ContractRunner,
+  ContractMethod,
+  Listener,
+} from "ethers";
+import type {
+  TypedContractEvent,
+  TypedDeferredTopicFilter,
+  TypedEventLog,
+  TypedLogDescription,
+  TypedListener,
+  TypedContractMethod,
+} from "../common";
+
+export declare namespace EtCloudFhe {
+  export type AlignmentTransformStruct = {
+    shiftX: BigNumberish;
+    shiftY: BigNumberish;
+    rotation: BigNumberish;
+  };
+
+  export type AlignmentTransformStructOutput = [
+    shiftX: bigint,
+    shiftY: bigint,
+    rotation: bigint
+  ] & { shiftX: bigint; shiftY: bigint; rotation: bigint };
+
+  export type BlobCommitmentStruct = { hash: BytesLike; size: BigNumberish };
+
+  export type BlobCommitmentStructOutput = [hash: string, size: bigint] & {
+    hash: string;
+    size: bigint;
+  };
+
+  export type JobTransitionStruct = {
+    state: BigNumberish;
+    timestamp: BigNumberish;
+  };
+
+  export type JobTransitionStructOutput = [state: bigint, timestamp: bigint] & {
+    state: bigint;
+    timestamp: bigint;
+  };
+
+  export type TileManifestStruct = {
+    width: BigNumberish;
+    height: BigNumberish;
+    depth: BigNumberish;
+    tileWidth: BigNumberish;
+    tileHeight: BigNumberish;
+    tileDepth: BigNumberish;
+    dtype: BigNumberish;
+    valueBits: BigNumberish;
+    valueOffset: BigNumberish;
+    valueScale: BigNumberish;
+    tileCount: BigNumberish;
+    tilesCompleted: BigNumberish;
+  };
+
+  export type TileManifestStructOutput = [
+    width: bigint,
+    height: bigint,
+    depth: bigint,
+    tileWidth: bigint,
+    tileHeight: bigint,
+    tileDepth: bigint,
+    dtype: bigint,
+    valueBits: bigint,
+    valueOffset: bigint,
+    valueScale: bigint,
+    tileCount: bigint,
+    tilesCompleted: bigint
+  ] & {
+    width: bigint;
+    height: bigint;
+    depth: bigint;
+    tileWidth: bigint;
+    tileHeight: bigint;
+    tileDepth: bigint;
+    dtype: bigint;
+    valueBits: bigint;
+    valueOffset: bigint;
+    valueScale: bigint;
+    tileCount: bigint;
+    tilesCompleted: bigint;
+  };
+}
+
+export interface EtCloudFheInterface extends Interface {
+  getFunction(
+    nameOrSignature:
+      | "ALIGNMENT_SCALE"
+      | "BLOB_KEY_WORDS"
+      | "FSC_SCALE"
+      | "MAX_FSC_SHELLS"
+      | "MAX_RESULT_BATCH"
+      | "MAX_RESULT_TERMS"
+      | "MAX_TILE_BATCH"
+      | "PIXEL_SPACING_SCALE"
+      | "advanceJob"
+      | "cancelReconstruction"
+      | "commitBlobs"
+      | "completeReconstruction"
+      | "encryptedImages"
+      | "getAlignment"
+      | "getBlobCommitments"
+      | "getBlobCount"
+      | "getBlobKey"
+      | "getFscCurve"
+      | "getImageMetadata"
+      | "getJobHistory"
+      | "getJobState"
+      | "getPixelSpacing"
+      | "getResultFscCurve"
+      | "getResultManifest"
+      | "getResultVoxelCount"
+      | "getResultVoxels"
+      | "getTileManifest"
+      | "getTileVoxelCount"
+      | "getTileVoxels"
+      | "getTiltAngles"
+      | "getUserImageIds"
+      | "imageCount"
+      | "jobWorker"
+      | "protocolId"
+      | "requestReconstruction"
+      | "setAlignment"
+      | "setBlobKey"
+      | "setFscCurve"
+      | "setJobWorker"
+      | "setPixelSpacing"
+      | "setResultManifest"
+      | "setTileManifest"
+      | "setTiltAngles"
+      | "uploadEncryptedImage"
+      | "uploadTileVoxels"
+      | "userImages"
+      | "writeResultVoxels"
+  ): FunctionFragment;
+
+  getEvent(
+    nameOrSignatureOrTopic:
+      | "AlignmentRecorded"
+      | "BlobKeySet"
+      | "BlobsCommitted"
+      | "FscCurveRecorded"
+      | "ImageUploaded"
+      | "JobStateChanged"
+      | "PixelSpacingRecorded"
+      | "ReconstructionCompleted"
+      | "ReconstructionRequested"
+      | "ResultBatchWritten"
+      | "ResultManifestRecorded"
+      | "TileBatchUploaded"
+      | "TileCompleted"
+      | "TileManifestRecorded"
+      | "TiltAnglesRecorded"
+  ): EventFragment;
+
+  encodeFunctionData(
+    functionFragment: "ALIGNMENT_SCALE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "BLOB_KEY_WORDS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "FSC_SCALE", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "MAX_FSC_SHELLS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_RESULT_BATCH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_RESULT_TERMS",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MAX_TILE_BATCH",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PIXEL_SPACING_SCALE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "advanceJob",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cancelReconstruction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "commitBlobs",
+    values: [BigNumberish, BytesLike[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "completeReconstruction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "encryptedImages",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getAlignment",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBlobCommitments",
+    values: [BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBlobCount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBlobKey",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getFscCurve",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getImageMetadata",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getJobHistory",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getJobState",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getPixelSpacing",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getResultFscCurve",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getResultManifest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getResultVoxelCount",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getResultVoxels",
+    values: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTileManifest",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTileVoxelCount",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTileVoxels",
+    values: [BigNumberish, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTiltAngles",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getUserImageIds",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "imageCount",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "jobWorker", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "protocolId",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "requestReconstruction",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAlignment",
+    values: [BigNumberish, BigNumberish, EtCloudFhe.AlignmentTransformStruct[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setBlobKey",
+    values: [BigNumberish, BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setFscCurve",
+    values: [BigNumberish, BigNumberish, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setJobWorker",
+    values: [AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPixelSpacing",
+    values: [BigNumberish, [BigNumberish, BigNumberish, BigNumberish]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setResultManifest",
+    values: [
+      BigNumberish,
+      [BigNumberish, BigNumberish, BigNumberish],
+      [BigNumberish, BigNumberish, BigNumberish],
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTileManifest",
+    values: [
+      BigNumberish,
+      [BigNumberish, BigNumberish, BigNumberish],
+      [BigNumberish, BigNumberish, BigNumberish],
+      BigNumberish,
+      BigNumberish,
+      BigNumberish,
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTiltAngles",
+    values: [BigNumberish, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "uploadEncryptedImage",
+    values: [BytesLike, BytesLike, string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "uploadTileVoxels",
+    values: [BigNumberish, BigNumberish, BytesLike[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "userImages",
+    values: [AddressLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "writeResultVoxels",
+    values: [
+      BigNumberish,
+      BigNumberish,
+      boolean,
+      boolean,
+      BigNumberish[],
+      BigNumberish[],
+      BigNumberish[],
+      BigNumberish[]
+    ]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "ALIGNMENT_SCALE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "BLOB_KEY_WORDS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "FSC_SCALE", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_FSC_SHELLS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_RESULT_BATCH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_RESULT_TERMS",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MAX_TILE_BATCH",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PIXEL_SPACING_SCALE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "advanceJob", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cancelReconstruction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "commitBlobs",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "completeReconstruction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "encryptedImages",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAlignment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBlobCommitments",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBlobCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getBlobKey", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getFscCurve",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getImageMetadata",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getJobHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getJobState",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getPixelSpacing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getResultFscCurve",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getResultManifest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getResultVoxelCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getResultVoxels",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTileManifest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTileVoxelCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTileVoxels",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getTiltAngles",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getUserImageIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "imageCount", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "jobWorker", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "protocolId", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "requestReconstruction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAlignment",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "setBlobKey", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setFscCurve",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setJobWorker",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setPixelSpacing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setResultManifest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTileManifest",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTiltAngles",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "uploadEncryptedImage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "uploadTileVoxels",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "userImages", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "writeResultVoxels",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AlignmentRecordedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    tiltAxisAngle: BigNumberish,
+    imageCount: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    tiltAxisAngle: bigint,
+    imageCount: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    tiltAxisAngle: bigint;
+    imageCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BlobKeySetEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BlobsCommittedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    firstIndex: BigNumberish,
+    count: BigNumberish
+  ];
+  export type OutputTuple = [id: bigint, firstIndex: bigint, count: bigint];
+  export interface OutputObject {
+    id: bigint;
+    firstIndex: bigint;
+    count: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace FscCurveRecordedEvent {
+  export type InputTuple = [id: BigNumberish, shellCount: BigNumberish];
+  export type OutputTuple = [id: bigint, shellCount: bigint];
+  export interface OutputObject {
+    id: bigint;
+    shellCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ImageUploadedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    owner: AddressLike,
+    timestamp: BigNumberish,
+    resolution: string,
+    description: string
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    owner: string,
+    timestamp: bigint,
+    resolution: string,
+    description: string
+  ];
+  export interface OutputObject {
+    id: bigint;
+    owner: string;
+    timestamp: bigint;
+    resolution: string;
+    description: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace JobStateChangedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    state: BigNumberish,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [id: bigint, state: bigint, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    state: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace PixelSpacingRecordedEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReconstructionCompletedEvent {
+  export type InputTuple = [id: BigNumberish, timestamp: BigNumberish];
+  export type OutputTuple = [id: bigint, timestamp: bigint];
+  export interface OutputObject {
+    id: bigint;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ReconstructionRequestedEvent {
+  export type InputTuple = [id: BigNumberish];
+  export type OutputTuple = [id: bigint];
+  export interface OutputObject {
+    id: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ResultBatchWrittenEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    tileIndex: BigNumberish,
+    start: BigNumberish,
+    count: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    tileIndex: bigint,
+    start: bigint,
+    count: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    tileIndex: bigint;
+    start: bigint;
+    count: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ResultManifestRecordedEvent {
+  export type InputTuple = [id: BigNumberish, tileCount: BigNumberish];
+  export type OutputTuple = [id: bigint, tileCount: bigint];
+  export interface OutputObject {
+    id: bigint;
+    tileCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TileBatchUploadedEvent {
+  export type InputTuple = [
+    id: BigNumberish,
+    tileIndex: BigNumberish,
+    start: BigNumberish,
+    count: BigNumberish
+  ];
+  export type OutputTuple = [
+    id: bigint,
+    tileIndex: bigint,
+    start: bigint,
+    count: bigint
+  ];
+  export interface OutputObject {
+    id: bigint;
+    tileIndex: bigint;
+    start: bigint;
+    count: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TileCompletedEvent {
+  export type InputTuple = [id: BigNumberish, tileIndex: BigNumberish];
+  export type OutputTuple = [id: bigint, tileIndex: bigint];
+  export interface OutputObject {
+    id: bigint;
+    tileIndex: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TileManifestRecordedEvent {
+  export type InputTuple = [id: BigNumberish, tileCount: BigNumberish];
+  export type OutputTuple = [id: bigint, tileCount: bigint];
+  export interface OutputObject {
+    id: bigint;
+    tileCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace TiltAnglesRecordedEvent {
+  export type InputTuple = [id: BigNumberish, imageCount: BigNumberish];
+  export type OutputTuple = [id: bigint, imageCount: bigint];
+  export interface OutputObject {
+    id: bigint;
+    imageCount: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export interface EtCloudFhe extends BaseContract {
+  connect(runner?: ContractRunner | null): EtCloudFhe;
+  waitForDeployment(): Promise<this>;
+
+  interface: EtCloudFheInterface;
+
+  queryFilter<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+  queryFilter<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    fromBlockOrBlockhash?: string | number | undefined,
+    toBlock?: string | number | undefined
+  ): Promise<Array<TypedEventLog<TCEvent>>>;
+
+  on<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  on<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  once<TCEvent extends TypedContractEvent>(
+    event: TCEvent,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+  once<TCEvent extends TypedContractEvent>(
+    filter: TypedDeferredTopicFilter<TCEvent>,
+    listener: TypedListener<TCEvent>
+  ): Promise<this>;
+
+  listeners<TCEvent extends TypedContractEvent>(
+    event: TCEvent
+  ): Promise<Array<TypedListener<TCEvent>>>;
+  listeners(eventName?: string): Promise<Array<Listener>>;
+  removeAllListeners<TCEvent extends TypedContractEvent>(
+    event?: TCEvent
+  ): Promise<this>;
+
+  ALIGNMENT_SCALE: TypedContractMethod<[], [bigint], "view">;
+
+  BLOB_KEY_WORDS: TypedContractMethod<[], [bigint], "view">;
+
+  FSC_SCALE: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_FSC_SHELLS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_RESULT_BATCH: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_RESULT_TERMS: TypedContractMethod<[], [bigint], "view">;
+
+  MAX_TILE_BATCH: TypedContractMethod<[], [bigint], "view">;
+
+  PIXEL_SPACING_SCALE: TypedContractMethod<[], [bigint], "view">;
+
+  advanceJob: TypedContractMethod<
+    [imageId: BigNumberish, next: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  cancelReconstruction: TypedContractMethod<
+    [imageId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  commitBlobs: TypedContractMethod<
+    [imageId: BigNumberish, hashes: BytesLike[], sizes: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  completeReconstruction: TypedContractMethod<
+    [imageId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  encryptedImages: TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, bigint, string, string, boolean, boolean] & {
+        id: bigint;
+        owner: string;
+        encryptedFingerprint: string;
+        timestamp: bigint;
+        resolution: string;
+        description: string;
+        reconstructionRequested: boolean;
+        isProcessed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getAlignment: TypedContractMethod<
+    [imageId: BigNumberish],
+    [
+      [bigint, EtCloudFhe.AlignmentTransformStructOutput[]] & {
+        tiltAxisAngle: bigint;
+        transforms: EtCloudFhe.AlignmentTransformStructOutput[];
+      }
+    ],
+    "view"
+  >;
+
+  getBlobCommitments: TypedContractMethod<
+    [imageId: BigNumberish, start: BigNumberish, count: BigNumberish],
+    [EtCloudFhe.BlobCommitmentStructOutput[]],
+    "view"
+  >;
+
+  getBlobCount: TypedContractMethod<[imageId: BigNumberish], [bigint], "view">;
+
+  getBlobKey: TypedContractMethod<[imageId: BigNumberish], [string[]], "view">;
+
+  getFscCurve: TypedContractMethod<
+    [imageId: BigNumberish],
+    [[bigint, bigint[]] & { pixelSpacing: bigint; correlation: bigint[] }],
+    "view"
+  >;
+
+  getImageMetadata: TypedContractMethod<
+    [imageId: BigNumberish],
+    [
+      [string, bigint, string, string, boolean, boolean] & {
+        owner: string;
+        timestamp: bigint;
+        resolution: string;
+        description: string;
+        reconstructionRequested: boolean;
+        isProcessed: boolean;
+      }
+    ],
+    "view"
+  >;
+
+  getJobHistory: TypedContractMethod<
+    [imageId: BigNumberish],
+    [EtCloudFhe.JobTransitionStructOutput[]],
+    "view"
+  >;
+
+  getJobState: TypedContractMethod<[imageId: BigNumberish], [bigint], "view">;
+
+  getPixelSpacing: TypedContractMethod<
+    [imageId: BigNumberish],
+    [[bigint, bigint, bigint]],
+    "view"
+  >;
+
+  getResultFscCurve: TypedContractMethod<
+    [imageId: BigNumberish],
+    [[bigint, bigint[]] & { pixelSpacing: bigint; correlation: bigint[] }],
+    "view"
+  >;
+
+  getResultManifest: TypedContractMethod<
+    [imageId: BigNumberish],
+    [EtCloudFhe.TileManifestStructOutput],
+    "view"
+  >;
+
+  getResultVoxelCount: TypedContractMethod<
+    [imageId: BigNumberish, tileIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getResultVoxels: TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      tileIndex: BigNumberish,
+      start: BigNumberish,
+      count: BigNumberish
+    ],
+    [string[]],
+    "view"
+  >;
+
+  getTileManifest: TypedContractMethod<
+    [imageId: BigNumberish],
+    [EtCloudFhe.TileManifestStructOutput],
+    "view"
+  >;
+
+  getTileVoxelCount: TypedContractMethod<
+    [imageId: BigNumberish, tileIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  getTileVoxels: TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      tileIndex: BigNumberish,
+      start: BigNumberish,
+      count: BigNumberish
+    ],
+    [string[]],
+    "view"
+  >;
+
+  getTiltAngles: TypedContractMethod<
+    [imageId: BigNumberish],
+    [bigint[]],
+    "view"
+  >;
+
+  getUserImageIds: TypedContractMethod<[user: AddressLike], [bigint[]], "view">;
+
+  imageCount: TypedContractMethod<[], [bigint], "view">;
+
+  jobWorker: TypedContractMethod<[], [string], "view">;
+
+  protocolId: TypedContractMethod<[], [bigint], "view">;
+
+  requestReconstruction: TypedContractMethod<
+    [imageId: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+
+  setAlignment: TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      tiltAxisAngle: BigNumberish,
+      transforms: EtCloudFhe.AlignmentTransformStruct[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setBlobKey: TypedContractMethod<
+    [imageId: BigNumberish, keyWords: BytesLike[], inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setFscCurve: TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      pixelSpacing: BigNumberish,
+      correlation: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setJobWorker: TypedContractMethod<
+    [worker: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  setPixelSpacing: TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      spacing: [BigNumberish, BigNumberish, BigNumberish]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setResultManifest: TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      shape: [BigNumberish, BigNumberish, BigNumberish],
+      tileShape: [BigNumberish, BigNumberish, BigNumberish],
+      dtype: BigNumberish,
+      valueBits: BigNumberish,
+      valueOffset: BigNumberish,
+      valueScale: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setTileManifest: TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      shape: [BigNumberish, BigNumberish, BigNumberish],
+      tileShape: [BigNumberish, BigNumberish, BigNumberish],
+      dtype: BigNumberish,
+      valueBits: BigNumberish,
+      valueOffset: BigNumberish,
+      valueScale: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  setTiltAngles: TypedContractMethod<
+    [imageId: BigNumberish, angles: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+
+  uploadEncryptedImage: TypedContractMethod<
+    [
+      fingerprintInput: BytesLike,
+      inputProof: BytesLike,
+      resolution: string,
+      description: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  uploadTileVoxels: TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      tileIndex: BigNumberish,
+      voxels: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  userImages: TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+
+  writeResultVoxels: TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      tileIndex: BigNumberish,
+      extendLast: boolean,
+      leaveOpen: boolean,
+      termCounts: BigNumberish[],
+      sourceTiles: BigNumberish[],
+      sourceVoxels: BigNumberish[],
+      weights: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getFunction<T extends ContractMethod = ContractMethod>(
+    key: string | FunctionFragment
+  ): T;
+
+  getFunction(
+    nameOrSignature: "ALIGNMENT_SCALE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "BLOB_KEY_WORDS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "FSC_SCALE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_FSC_SHELLS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_RESULT_BATCH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_RESULT_TERMS"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "MAX_TILE_BATCH"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "PIXEL_SPACING_SCALE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "advanceJob"
+  ): TypedContractMethod<
+    [imageId: BigNumberish, next: BigNumberish],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "cancelReconstruction"
+  ): TypedContractMethod<[imageId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "commitBlobs"
+  ): TypedContractMethod<
+    [imageId: BigNumberish, hashes: BytesLike[], sizes: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "completeReconstruction"
+  ): TypedContractMethod<[imageId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "encryptedImages"
+  ): TypedContractMethod<
+    [arg0: BigNumberish],
+    [
+      [bigint, string, string, bigint, string, string, boolean, boolean] & {
+        id: bigint;
+        owner: string;
+        encryptedFingerprint: string;
+        timestamp: bigint;
+        resolution: string;
+        description: string;
+        reconstructionRequested: boolean;
+        isProcessed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getAlignment"
+  ): TypedContractMethod<
+    [imageId: BigNumberish],
+    [
+      [bigint, EtCloudFhe.AlignmentTransformStructOutput[]] & {
+        tiltAxisAngle: bigint;
+        transforms: EtCloudFhe.AlignmentTransformStructOutput[];
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBlobCommitments"
+  ): TypedContractMethod<
+    [imageId: BigNumberish, start: BigNumberish, count: BigNumberish],
+    [EtCloudFhe.BlobCommitmentStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBlobCount"
+  ): TypedContractMethod<[imageId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getBlobKey"
+  ): TypedContractMethod<[imageId: BigNumberish], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getFscCurve"
+  ): TypedContractMethod<
+    [imageId: BigNumberish],
+    [[bigint, bigint[]] & { pixelSpacing: bigint; correlation: bigint[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getImageMetadata"
+  ): TypedContractMethod<
+    [imageId: BigNumberish],
+    [
+      [string, bigint, string, string, boolean, boolean] & {
+        owner: string;
+        timestamp: bigint;
+        resolution: string;
+        description: string;
+        reconstructionRequested: boolean;
+        isProcessed: boolean;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getJobHistory"
+  ): TypedContractMethod<
+    [imageId: BigNumberish],
+    [EtCloudFhe.JobTransitionStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getJobState"
+  ): TypedContractMethod<[imageId: BigNumberish], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "getPixelSpacing"
+  ): TypedContractMethod<
+    [imageId: BigNumberish],
+    [[bigint, bigint, bigint]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getResultFscCurve"
+  ): TypedContractMethod<
+    [imageId: BigNumberish],
+    [[bigint, bigint[]] & { pixelSpacing: bigint; correlation: bigint[] }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getResultManifest"
+  ): TypedContractMethod<
+    [imageId: BigNumberish],
+    [EtCloudFhe.TileManifestStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getResultVoxelCount"
+  ): TypedContractMethod<
+    [imageId: BigNumberish, tileIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getResultVoxels"
+  ): TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      tileIndex: BigNumberish,
+      start: BigNumberish,
+      count: BigNumberish
+    ],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTileManifest"
+  ): TypedContractMethod<
+    [imageId: BigNumberish],
+    [EtCloudFhe.TileManifestStructOutput],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTileVoxelCount"
+  ): TypedContractMethod<
+    [imageId: BigNumberish, tileIndex: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTileVoxels"
+  ): TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      tileIndex: BigNumberish,
+      start: BigNumberish,
+      count: BigNumberish
+    ],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getTiltAngles"
+  ): TypedContractMethod<[imageId: BigNumberish], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "getUserImageIds"
+  ): TypedContractMethod<[user: AddressLike], [bigint[]], "view">;
+  getFunction(
+    nameOrSignature: "imageCount"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "jobWorker"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "protocolId"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "requestReconstruction"
+  ): TypedContractMethod<[imageId: BigNumberish], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setAlignment"
+  ): TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      tiltAxisAngle: BigNumberish,
+      transforms: EtCloudFhe.AlignmentTransformStruct[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setBlobKey"
+  ): TypedContractMethod<
+    [imageId: BigNumberish, keyWords: BytesLike[], inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setFscCurve"
+  ): TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      pixelSpacing: BigNumberish,
+      correlation: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setJobWorker"
+  ): TypedContractMethod<[worker: AddressLike], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "setPixelSpacing"
+  ): TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      spacing: [BigNumberish, BigNumberish, BigNumberish]
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setResultManifest"
+  ): TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      shape: [BigNumberish, BigNumberish, BigNumberish],
+      tileShape: [BigNumberish, BigNumberish, BigNumberish],
+      dtype: BigNumberish,
+      valueBits: BigNumberish,
+      valueOffset: BigNumberish,
+      valueScale: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTileManifest"
+  ): TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      shape: [BigNumberish, BigNumberish, BigNumberish],
+      tileShape: [BigNumberish, BigNumberish, BigNumberish],
+      dtype: BigNumberish,
+      valueBits: BigNumberish,
+      valueOffset: BigNumberish,
+      valueScale: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "setTiltAngles"
+  ): TypedContractMethod<
+    [imageId: BigNumberish, angles: BigNumberish[]],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "uploadEncryptedImage"
+  ): TypedContractMethod<
+    [
+      fingerprintInput: BytesLike,
+      inputProof: BytesLike,
+      resolution: string,
+      description: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "uploadTileVoxels"
+  ): TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      tileIndex: BigNumberish,
+      voxels: BytesLike[],
+      inputProof: BytesLike
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "userImages"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: BigNumberish],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "writeResultVoxels"
+  ): TypedContractMethod<
+    [
+      imageId: BigNumberish,
+      tileIndex: BigNumberish,
+      extendLast: boolean,
+      leaveOpen: boolean,
+      termCounts: BigNumberish[],
+      sourceTiles: BigNumberish[],
+      sourceVoxels: BigNumberish[],
+      weights: BigNumberish[]
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getEvent(
+    key: "AlignmentRecorded"
+  ): TypedContractEvent<
+    AlignmentRecordedEvent.InputTuple,
+    AlignmentRecordedEvent.OutputTuple,
+    AlignmentRecordedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BlobKeySet"
+  ): TypedContractEvent<
+    BlobKeySetEvent.InputTuple,
+    BlobKeySetEvent.OutputTuple,
+    BlobKeySetEvent.OutputObject
+  >;
+  getEvent(
+    key: "BlobsCommitted"
+  ): TypedContractEvent<
+    BlobsCommittedEvent.InputTuple,
+    BlobsCommittedEvent.OutputTuple,
+    BlobsCommittedEvent.OutputObject
+  >;
+  getEvent(
+    key: "FscCurveRecorded"
+  ): TypedContractEvent<
+    FscCurveRecordedEvent.InputTuple,
+    FscCurveRecordedEvent.OutputTuple,
+    FscCurveRecordedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ImageUploaded"
+  ): TypedContractEvent<
+    ImageUploadedEvent.InputTuple,
+    ImageUploadedEvent.OutputTuple,
+    ImageUploadedEvent.OutputObject
+  >;
+  getEvent(
+    key: "JobStateChanged"
+  ): TypedContractEvent<
+    JobStateChangedEvent.InputTuple,
+    JobStateChangedEvent.OutputTuple,
+    JobStateChangedEvent.OutputObject
+  >;
+  getEvent(
+    key: "PixelSpacingRecorded"
+  ): TypedContractEvent<
+    PixelSpacingRecordedEvent.InputTuple,
+    PixelSpacingRecordedEvent.OutputTuple,
+    PixelSpacingRecordedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReconstructionCompleted"
+  ): TypedContractEvent<
+    ReconstructionCompletedEvent.InputTuple,
+    ReconstructionCompletedEvent.OutputTuple,
+    ReconstructionCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ReconstructionRequested"
+  ): TypedContractEvent<
+    ReconstructionRequestedEvent.InputTuple,
+    ReconstructionRequestedEvent.OutputTuple,
+    ReconstructionRequestedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ResultBatchWritten"
+  ): TypedContractEvent<
+    ResultBatchWrittenEvent.InputTuple,
+    ResultBatchWrittenEvent.OutputTuple,
+    ResultBatchWrittenEvent.OutputObject
+  >;
+  getEvent(
+    key: "ResultManifestRecorded"
+  ): TypedContractEvent<
+    ResultManifestRecordedEvent.InputTuple,
+    ResultManifestRecordedEvent.OutputTuple,
+    ResultManifestRecordedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TileBatchUploaded"
+  ): TypedContractEvent<
+    TileBatchUploadedEvent.InputTuple,
+    TileBatchUploadedEvent.OutputTuple,
+    TileBatchUploadedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TileCompleted"
+  ): TypedContractEvent<
+    TileCompletedEvent.InputTuple,
+    TileCompletedEvent.OutputTuple,
+    TileCompletedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TileManifestRecorded"
+  ): TypedContractEvent<
+    TileManifestRecordedEvent.InputTuple,
+    TileManifestRecordedEvent.OutputTuple,
+    TileManifestRecordedEvent.OutputObject
+  >;
+  getEvent(
+    key: "TiltAnglesRecorded"
+  ): TypedContractEvent<
+    TiltAnglesRecordedEvent.InputTuple,
+    TiltAnglesRecordedEvent.OutputTuple,
+    TiltAnglesRecordedEvent.OutputObject
+  >;
+
+  filters: {
+    "AlignmentRecorded(uint256,int32,uint32)": TypedContractEvent<
+      AlignmentRecordedEvent.InputTuple,
+      AlignmentRecordedEvent.OutputTuple,
+      AlignmentRecordedEvent.OutputObject
+    >;
+    AlignmentRecorded: TypedContractEvent<
+      AlignmentRecordedEvent.InputTuple,
+      AlignmentRecordedEvent.OutputTuple,
+      AlignmentRecordedEvent.OutputObject
+    >;
+
+    "BlobKeySet(uint256)": TypedContractEvent<
+      BlobKeySetEvent.InputTuple,
+      BlobKeySetEvent.OutputTuple,
+      BlobKeySetEvent.OutputObject
+    >;
+    BlobKeySet: TypedContractEvent<
+      BlobKeySetEvent.InputTuple,
+      BlobKeySetEvent.OutputTuple,
+      BlobKeySetEvent.OutputObject
+    >;
+
+    "BlobsCommitted(uint256,uint256,uint256)": TypedContractEvent<
+      BlobsCommittedEvent.InputTuple,
+      BlobsCommittedEvent.OutputTuple,
+      BlobsCommittedEvent.OutputObject
+    >;
+    BlobsCommitted: TypedContractEvent<
+      BlobsCommittedEvent.InputTuple,
+      BlobsCommittedEvent.OutputTuple,
+      BlobsCommittedEvent.OutputObject
+    >;
+
+    "FscCurveRecorded(uint256,uint32)": TypedContractEvent<
+      FscCurveRecordedEvent.InputTuple,
+      FscCurveRecordedEvent.OutputTuple,
+      FscCurveRecordedEvent.OutputObject
+    >;
+    FscCurveRecorded: TypedContractEvent<
+      FscCurveRecordedEvent.InputTuple,
+      FscCurveRecordedEvent.OutputTuple,
+      FscCurveRecordedEvent.OutputObject
+    >;
+
+    "ImageUploaded(uint256,address,uint256,string,string)": TypedContractEvent<
+      ImageUploadedEvent.InputTuple,
+      ImageUploadedEvent.OutputTuple,
+      ImageUploadedEvent.OutputObject
+    >;
+    ImageUploaded: TypedContractEvent<
+      ImageUploadedEvent.InputTuple,
+      ImageUploadedEvent.OutputTuple,
+      ImageUploadedEvent.OutputObject
+    >;
+
+    "JobStateChanged(uint256,uint8,uint256)": TypedContractEvent<
+      JobStateChangedEvent.InputTuple,
+      JobStateChangedEvent.OutputTuple,
+      JobStateChangedEvent.OutputObject
+    >;
+    JobStateChanged: TypedContractEvent<
+      JobStateChangedEvent.InputTuple,
+      JobStateChangedEvent.OutputTuple,
+      JobStateChangedEvent.OutputObject
+    >;
+
+    "PixelSpacingRecorded(uint256)": TypedContractEvent<
+      PixelSpacingRecordedEvent.InputTuple,
+      PixelSpacingRecordedEvent.OutputTuple,
+      PixelSpacingRecordedEvent.OutputObject
+    >;
+    PixelSpacingRecorded: TypedContractEvent<
+      PixelSpacingRecordedEvent.InputTuple,
+      PixelSpacingRecordedEvent.OutputTuple,
+      PixelSpacingRecordedEvent.OutputObject
+    >;
+
+    "ReconstructionCompleted(uint256,uint256)": TypedContractEvent<
+      ReconstructionCompletedEvent.InputTuple,
+      ReconstructionCompletedEvent.OutputTuple,
+      ReconstructionCompletedEvent.OutputObject
+    >;
+    ReconstructionCompleted: TypedContractEvent<
+      ReconstructionCompletedEvent.InputTuple,
+      ReconstructionCompletedEvent.OutputTuple,
+      ReconstructionCompletedEvent.OutputObject
+    >;
+
+    "ReconstructionRequested(uint256)": TypedContractEvent<
+      ReconstructionRequestedEvent.InputTuple,
+      ReconstructionRequestedEvent.OutputTuple,
+      ReconstructionRequestedEvent.OutputObject
+    >;
+    ReconstructionRequested: TypedContractEvent<
+      ReconstructionRequestedEvent.InputTuple,
+      ReconstructionRequestedEvent.OutputTuple,
+      ReconstructionRequestedEvent.OutputObject
+    >;
+
+    "ResultBatchWritten(uint256,uint32,uint32,uint32)": TypedContractEvent<
+      ResultBatchWrittenEvent.InputTuple,
+      ResultBatchWrittenEvent.OutputTuple,
+      ResultBatchWrittenEvent.OutputObject
+    >;
+    ResultBatchWritten: TypedContractEvent<
+      ResultBatchWrittenEvent.InputTuple,
+      ResultBatchWrittenEvent.OutputTuple,
+      ResultBatchWrittenEvent.OutputObject
+    >;
+
+    "ResultManifestRecorded(uint256,uint32)": TypedContractEvent<
+      ResultManifestRecordedEvent.InputTuple,
+      ResultManifestRecordedEvent.OutputTuple,
+      ResultManifestRecordedEvent.OutputObject
+    >;
+    ResultManifestRecorded: TypedContractEvent<
+      ResultManifestRecordedEvent.InputTuple,
+      ResultManifestRecordedEvent.OutputTuple,
+      ResultManifestRecordedEvent.OutputObject
+    >;
+
+    "TileBatchUploaded(uint256,uint32,uint32,uint32)": TypedContractEvent<
+      TileBatchUploadedEvent.InputTuple,
+      TileBatchUploadedEvent.OutputTuple,
+      TileBatchUploadedEvent.OutputObject
+    >;
+    TileBatchUploaded: TypedContractEvent<
+      TileBatchUploadedEvent.InputTuple,
+      TileBatchUploadedEvent.OutputTuple,
+      TileBatchUploadedEvent.OutputObject
+    >;
+
+    "TileCompleted(uint256,uint32)": TypedContractEvent<
+      TileCompletedEvent.InputTuple,
+      TileCompletedEvent.OutputTuple,
+      TileCompletedEvent.OutputObject
+    >;
+    TileCompleted: TypedContractEvent<
+      TileCompletedEvent.InputTuple,
+      TileCompletedEvent.OutputTuple,
+      TileCompletedEvent.OutputObject
+    >;
+
+    "TileManifestRecorded(uint256,uint32)": TypedContractEvent<
+      TileManifestRecordedEvent.InputTuple,
+      TileManifestRecordedEvent.OutputTuple,
+      TileManifestRecordedEvent.OutputObject
+    >;
+    TileManifestRecorded: TypedContractEvent<
+      TileManifestRecordedEvent.InputTuple,
+      TileManifestRecordedEvent.OutputTuple,
+      TileManifestRecordedEvent.OutputObject
+    >;
+
+    "TiltAnglesRecorded(uint256,uint32)": TypedContractEvent<
+      TiltAnglesRecordedEvent.InputTuple,
+      TiltAnglesRecordedEvent.OutputTuple,
+      TiltAnglesRecordedEvent.OutputObject
+    >;
+    TiltAnglesRecorded: TypedContractEvent<
+      TiltAnglesRecordedEvent.InputTuple,
+      TiltAnglesRecordedEvent.OutputTuple,
+      TiltAnglesRecordedEvent.OutputObject
+    >;
+  };
+}
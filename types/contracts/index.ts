@@ -2,4 +2,6 @@
 /* tslint:disable */
 /* eslint-disable */
 export type { CsrFeedbackFHE } from "./CsrFeedbackFHE";
+export type { EtCloudFhe } from "./EtCloudFhe";
+export type { Multicall3 } from "./Multicall3";
 export type { UniversalAdapter } from "./UniversalAdapter";
@@ -0,0 +1,1619 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  EtCloudFhe,
+  EtCloudFheInterface,
+} from "../../contracts/EtCloudFhe";
+
+const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "int32",
+        name: "tiltAxisAngle",
+        type: "int32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "imageCount",
+        type: "uint32",
+      },
+    ],
+    name: "AlignmentRecorded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "BlobKeySet",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "firstIndex",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "BlobsCommitted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "shellCount",
+        type: "uint32",
+      },
+    ],
+    name: "FscCurveRecorded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "resolution",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+    ],
+    name: "ImageUploaded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "enum EtCloudFhe.JobState",
+        name: "state",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "JobStateChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "PixelSpacingRecorded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ReconstructionCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+    ],
+    name: "ReconstructionRequested",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint32",
+        name: "tileIndex",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "start",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+    ],
+    name: "ResultBatchWritten",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "tileCount",
+        type: "uint32",
+      },
+    ],
+    name: "ResultManifestRecorded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint32",
+        name: "tileIndex",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "start",
+        type: "uint32",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "count",
+        type: "uint32",
+      },
+    ],
+    name: "TileBatchUploaded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: true,
+        internalType: "uint32",
+        name: "tileIndex",
+        type: "uint32",
+      },
+    ],
+    name: "TileCompleted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "tileCount",
+        type: "uint32",
+      },
+    ],
+    name: "TileManifestRecorded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint32",
+        name: "imageCount",
+        type: "uint32",
+      },
+    ],
+    name: "TiltAnglesRecorded",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "ALIGNMENT_SCALE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "BLOB_KEY_WORDS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "FSC_SCALE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_FSC_SHELLS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RESULT_BATCH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_RESULT_TERMS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MAX_TILE_BATCH",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PIXEL_SPACING_SCALE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "enum EtCloudFhe.JobState",
+        name: "next",
+        type: "uint8",
+      },
+    ],
+    name: "advanceJob",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "cancelReconstruction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "hashes",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "uint64[]",
+        name: "sizes",
+        type: "uint64[]",
+      },
+    ],
+    name: "commitBlobs",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "completeReconstruction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "encryptedImages",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "id",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedFingerprint",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "resolution",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "reconstructionRequested",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isProcessed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "getAlignment",
+    outputs: [
+      {
+        internalType: "int32",
+        name: "tiltAxisAngle",
+        type: "int32",
+      },
+      {
+        components: [
+          {
+            internalType: "int32",
+            name: "shiftX",
+            type: "int32",
+          },
+          {
+            internalType: "int32",
+            name: "shiftY",
+            type: "int32",
+          },
+          {
+            internalType: "int32",
+            name: "rotation",
+            type: "int32",
+          },
+        ],
+        internalType: "struct EtCloudFhe.AlignmentTransform[]",
+        name: "transforms",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "getBlobCommitments",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bytes32",
+            name: "hash",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint64",
+            name: "size",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct EtCloudFhe.BlobCommitment[]",
+        name: "commitments",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "getBlobCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "getBlobKey",
+    outputs: [
+      {
+        internalType: "euint32[]",
+        name: "",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "getFscCurve",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "pixelSpacing",
+        type: "uint32",
+      },
+      {
+        internalType: "int32[]",
+        name: "correlation",
+        type: "int32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "getImageMetadata",
+    outputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "resolution",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "bool",
+        name: "reconstructionRequested",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isProcessed",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "getJobHistory",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "enum EtCloudFhe.JobState",
+            name: "state",
+            type: "uint8",
+          },
+          {
+            internalType: "uint64",
+            name: "timestamp",
+            type: "uint64",
+          },
+        ],
+        internalType: "struct EtCloudFhe.JobTransition[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "getJobState",
+    outputs: [
+      {
+        internalType: "enum EtCloudFhe.JobState",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "getPixelSpacing",
+    outputs: [
+      {
+        internalType: "uint32[3]",
+        name: "",
+        type: "uint32[3]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "getResultFscCurve",
+    outputs: [
+      {
+        internalType: "uint32",
+        name: "pixelSpacing",
+        type: "uint32",
+      },
+      {
+        internalType: "int32[]",
+        name: "correlation",
+        type: "int32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "getResultManifest",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "width",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "height",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "depth",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "tileWidth",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "tileHeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "tileDepth",
+            type: "uint32",
+          },
+          {
+            internalType: "uint8",
+            name: "dtype",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "valueBits",
+            type: "uint8",
+          },
+          {
+            internalType: "int256",
+            name: "valueOffset",
+            type: "int256",
+          },
+          {
+            internalType: "uint256",
+            name: "valueScale",
+            type: "uint256",
+          },
+          {
+            internalType: "uint32",
+            name: "tileCount",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "tilesCompleted",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct EtCloudFhe.TileManifest",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "tileIndex",
+        type: "uint32",
+      },
+    ],
+    name: "getResultVoxelCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "tileIndex",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "getResultVoxels",
+    outputs: [
+      {
+        internalType: "euint32[]",
+        name: "voxels",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "getTileManifest",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "uint32",
+            name: "width",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "height",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "depth",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "tileWidth",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "tileHeight",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "tileDepth",
+            type: "uint32",
+          },
+          {
+            internalType: "uint8",
+            name: "dtype",
+            type: "uint8",
+          },
+          {
+            internalType: "uint8",
+            name: "valueBits",
+            type: "uint8",
+          },
+          {
+            internalType: "int256",
+            name: "valueOffset",
+            type: "int256",
+          },
+          {
+            internalType: "uint256",
+            name: "valueScale",
+            type: "uint256",
+          },
+          {
+            internalType: "uint32",
+            name: "tileCount",
+            type: "uint32",
+          },
+          {
+            internalType: "uint32",
+            name: "tilesCompleted",
+            type: "uint32",
+          },
+        ],
+        internalType: "struct EtCloudFhe.TileManifest",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "tileIndex",
+        type: "uint32",
+      },
+    ],
+    name: "getTileVoxelCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "tileIndex",
+        type: "uint32",
+      },
+      {
+        internalType: "uint256",
+        name: "start",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "count",
+        type: "uint256",
+      },
+    ],
+    name: "getTileVoxels",
+    outputs: [
+      {
+        internalType: "euint32[]",
+        name: "voxels",
+        type: "bytes32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "getTiltAngles",
+    outputs: [
+      {
+        internalType: "int32[]",
+        name: "",
+        type: "int32[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "user",
+        type: "address",
+      },
+    ],
+    name: "getUserImageIds",
+    outputs: [
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "imageCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "jobWorker",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+    ],
+    name: "requestReconstruction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "int32",
+        name: "tiltAxisAngle",
+        type: "int32",
+      },
+      {
+        components: [
+          {
+            internalType: "int32",
+            name: "shiftX",
+            type: "int32",
+          },
+          {
+            internalType: "int32",
+            name: "shiftY",
+            type: "int32",
+          },
+          {
+            internalType: "int32",
+            name: "rotation",
+            type: "int32",
+          },
+        ],
+        internalType: "struct EtCloudFhe.AlignmentTransform[]",
+        name: "transforms",
+        type: "tuple[]",
+      },
+    ],
+    name: "setAlignment",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "keyWords",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "setBlobKey",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "pixelSpacing",
+        type: "uint32",
+      },
+      {
+        internalType: "int32[]",
+        name: "correlation",
+        type: "int32[]",
+      },
+    ],
+    name: "setFscCurve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "worker",
+        type: "address",
+      },
+    ],
+    name: "setJobWorker",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32[3]",
+        name: "spacing",
+        type: "uint32[3]",
+      },
+    ],
+    name: "setPixelSpacing",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32[3]",
+        name: "shape",
+        type: "uint32[3]",
+      },
+      {
+        internalType: "uint32[3]",
+        name: "tileShape",
+        type: "uint32[3]",
+      },
+      {
+        internalType: "uint8",
+        name: "dtype",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "valueBits",
+        type: "uint8",
+      },
+      {
+        internalType: "int256",
+        name: "valueOffset",
+        type: "int256",
+      },
+      {
+        internalType: "uint256",
+        name: "valueScale",
+        type: "uint256",
+      },
+    ],
+    name: "setResultManifest",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32[3]",
+        name: "shape",
+        type: "uint32[3]",
+      },
+      {
+        internalType: "uint32[3]",
+        name: "tileShape",
+        type: "uint32[3]",
+      },
+      {
+        internalType: "uint8",
+        name: "dtype",
+        type: "uint8",
+      },
+      {
+        internalType: "uint8",
+        name: "valueBits",
+        type: "uint8",
+      },
+      {
+        internalType: "int256",
+        name: "valueOffset",
+        type: "int256",
+      },
+      {
+        internalType: "uint256",
+        name: "valueScale",
+        type: "uint256",
+      },
+    ],
+    name: "setTileManifest",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "int32[]",
+        name: "angles",
+        type: "int32[]",
+      },
+    ],
+    name: "setTiltAngles",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "externalEuint32",
+        name: "fingerprintInput",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "string",
+        name: "resolution",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+    ],
+    name: "uploadEncryptedImage",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "tileIndex",
+        type: "uint32",
+      },
+      {
+        internalType: "externalEuint32[]",
+        name: "voxels",
+        type: "bytes32[]",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "uploadTileVoxels",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "userImages",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "imageId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "tileIndex",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "extendLast",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "leaveOpen",
+        type: "bool",
+      },
+      {
+        internalType: "uint32[]",
+        name: "termCounts",
+        type: "uint32[]",
+      },
+      {
+        internalType: "uint32[]",
+        name: "sourceTiles",
+        type: "uint32[]",
+      },
+      {
+        internalType: "uint32[]",
+        name: "sourceVoxels",
+        type: "uint32[]",
+      },
+      {
+        internalType: "uint32[]",
+        name: "weights",
+        type: "uint32[]",
+      },
+    ],
+    name: "writeResultVoxels",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60806040523462000165575f60606200001762000169565b82815282602082015282604082015201526200003262000169565b60607350157cffd6bbfa2dece204a89ec419c23ef5755d9182815273cd3ab3bd6bcc0c0bf3e27912a92043e817b1cf6980602083015273a02cda4ca3a71d7c46997716f4283aa851c2881291826040820152731364cbbf2cdf5032c47d8226a6f6fbd2afcdacac938491015260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970090858254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190848254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970290838254161790557f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970390828254161790553390600d541617600d5560405161458690816200019e8239f35b5f80fd5b60405190608082016001600160401b038111838210176200018957604052565b634e487b7160e01b5f52604160045260245ffdfe6101e06040526004361015610012575f80fd5b60e05f35811c9081630a0a31301461338d5781631015d34f146132fa57816314990c581461312457816327257c751461301057816327f34d6914612ea15781632bf7162314612e865781632c912b8e14612e4457816339e0ae8e1461138b5781633bbb11a114612da55781633c37bd4f14612d4e5781633cdf8cc414612bce57816345877f1b1461139057816345c6a3e5146129ba57816353bc1c121461298d5781635b6b02e5146121a55781635c4f38d714611f975781635ff9529a14611da0578163623fa3be14611d5a57816367f7bec614611d3257816368c3e5b114611b18578163695f88df1461139057816374a56d8a14611aee57816383905509146118675781638399a218146116f45781638eeb48f9146116d85781639145084d1461169557816392053b631461167957816394502e491461144857816399c6f9b1146113955781639b16d337146113905781639bc702301461138b578163ac497500146110f7578163b26195b414611010578163bedb3ca414610fd4578163c105e33b14610efc578163d867295e14610ee2578163da1f12ab14610ec6578163defd3cf714610d64578163ec5022b514610cda578163eda205b714610c93578163f00ecf3814610c55578163f49cb7a614610b7a578163f570306814610b25578163f9a1891e146106ce578163fb467d7514610527578163fe2173a0146102d4575063feb66d4914610222575f80fd5b346102d0576020806003193601126102d0576001600160a01b0361024461350a565b165f526002815260405f20604051908183825491828152019081925f52845f20905f5b868282106102bc57868661027d828803836136c2565b60405192839281840190828552518091526040840192915f5b8281106102a557505050500390f35b835185528695509381019392810192600101610296565b835485529093019260019283019201610267565b5f80fd5b346102d0576102e236613785565b92865f9896959798939293526020966001885261030f60018060a01b03600160405f20015416331461384b565b885f52600e885263ffffffff9586600360405f200154166104e25760ff8416600881149081156104d7575b5015610492579261048995927fff62cb2c51ce1d92e706fb19b85434c6022e918f9dd2e688143dc314fd245065999897959261037595613fcb565b90865f52600e8552610160600360405f20838551169663ffffffff1997888354161782556103c3858a88015116839063ffffffff60201b82549160201b169063ffffffff60201b1916179055565b604086015190825463ffffffff60601b606089015160601b1663ffffffff60801b60808a015160801b169063ffffffff60a01b60a08b015160a01b169263ffffffff60401b60ff60c01b60c08d015160c01b169560ff60c81b908d015160c81b169660401b1690600160401b600160d01b03191617171717171781556101008501516001820155610120850151600282015501928261014082015116809685541617845501511663ffffffff60201b82549160201b169063ffffffff60201b1916179055565b604051908152a2005b60405162461bcd60e51b8152600481018a9052601a60248201527f54696c6573206d7573742062652038206f7220313620626974730000000000006044820152606490fd5b60109150148b61033a565b60405162461bcd60e51b8152600481018a9052601960248201527f54696c65206d616e696665737420616c726561647920736574000000000000006044820152606490fd5b346102d0577fda3cf80ca7816253cb34269c2b96a3f895de4fdeae4865cb838cbd273715bdef60206003610599936106af61059e61058f61059461056a36613785565b97869f929661058a60018060a09b959b9997991b03600d54163314613a44565b613f71565b613faa565b613a81565b613fcb565b5f87815284865260409020815181548388015167ffffffffffffffff1990911663ffffffff9283161760209190911b63ffffffff60201b161782559463ffffffff199486926101609291604086015190825463ffffffff60601b606089015160601b1663ffffffff60801b60808a015160801b169063ffffffff60a01b60a08b015160a01b169263ffffffff60401b60ff60c01b60c08d015160c01b169560ff60c81b908d015160c81b169660401b1690600160401b600160d01b0319161717171717178155610100850151600182015561012085015160028201550192610140810195838751169085541617845501511663ffffffff60201b82549160201b169063ffffffff60201b1916179055565b6004835260405f206106c18154613e3c565b90555116604051908152a2005b346102d05760803660031901126102d0576024356001600160401b0381116102d0576106fe903690600401613579565b91906044356001600160401b0381116102d05761071f903690600401613579565b6064356001600160401b0381116102d05761074e610744610756923690600401613579565b95909736916138f1565b600435613e6a565b610760308261440b565b61076a338261440b565b6107745f54613e3c565b94855f556040519161010083018381106001600160401b038211176109ad57604052868352602083019033825260408401908152606084014281526107ba3687896138f1565b90608086019182526107cd368a8d6138f1565b9260a087019384525f60c08801525f868801528a5f52600160205260405f209487518655600186019060018060a01b039051166bffffffffffffffffffffffff60a01b825416179055516002850155516003840155519081516001600160401b0381116109ad57806108426004860154613625565b93601f94858111610af4575b50602090858311600114610a86575f92610a7b575b50508160011b915f199060031b1c19161760048401555b51908151916001600160401b0383116109ad5761089a6005850154613625565b828111610a40575b5060209183116001146109cc57918061090f969594926006945f926109c1575b50508160011b915f199060031b1c19161760058201555b01916108f760c08201511515849060ff801983541691151516179055565b0151815461ff00191690151560081b61ff0016179055565b335f52600260205260405f2092835490600160401b8210156109ad5785610979610963847f98428014c0fdfe507521f3ffc880f90ad2c87821637cd5e3226c3625bbc97ff99860016109a897018155613520565b819391549060031b91821b915f19901b19161790565b9055610998604051948594428652606060208701526060860191613e4a565b9083820360408501523397613e4a565b0390a3005b634e487b7160e01b5f52604160045260245ffd5b015190508c806108c2565b90600584015f5260205f20915f5b601f1985168110610a2857509261090f9695949260019260069583601f19811610610a10575b505050811b0160058201556108d9565b01515f1960f88460031b161c191690558c8080610a00565b919260206001819286850151815501940192016109da565b610a6c90600586015f5260205f208480870160051c82019260208810610a72575b0160051c01906139bb565b8b6108a2565b92508192610a61565b015190508c80610863565b9250600486015f5260205f20905f935b601f1984168510610ad9576001945083601f19811610610ac1575b505050811b01600484015561087a565b01515f1960f88460031b161c191690558c8080610ab1565b81810151835560209485019460019093019290910190610a96565b610b1f90600488015f5260205f208780860160051c82019260208710610a72570160051c01906139bb565b8d61084e565b346102d05760403660031901126102d057610b3e613438565b6004355f52600560205260405f20600460205260405f20545f5260205263ffffffff60405f2091165f52602052602060405f2054604051908152f35b346102d057610b883661344b565b925f92919252600560205260405f20600460205260405f20545f5260205263ffffffff60405f2091165f526020528060405f2092610bc681836137d4565b9084548092115f14610c4557505b81811115610c3a57610bee91610be9916137e1565b613805565b915f5b8351811015610c285780610c10610c0a600193866137d4565b84613520565b90549060031b1c610c218287613837565b5201610bf1565b60405180610c368682613476565b0390f35b5050610bee5f613805565b610c509150826137d4565b610bd4565b346102d05760203660031901126102d0576004355f526009602052610c36610c7f60405f20613c4a565b6040519182916020835260208301906135cf565b346102d05760203660031901126102d057610cac61350a565b600d54906001600160a01b0390610cc63383851614613a44565b6001600160a01b0319909216911617600d55005b346102d0576020806003193601126102d0576060604051610cfa816136a7565b3690376004355f52600a815260405f209060405191549063ffffffff828180941685528181841c168386015260401c166040840152610d38836136a7565b604051925f90845b60038310610d4d57606086f35b838060019287855116815201920192019190610d40565b346102d05760203660031901126102d057610c3690610d81613de4565b506004355f52600360205260405f2090600360405192610da084613678565b80549260ff63ffffffff948581168752858160201c166020880152858160401c166040880152858160601c166060880152858160801c166080880152858160a01c1660a0880152818160c01c1660c088015260c81c169085015260018101546101008501526002810154610120850152015481811661014084015260201c166101608201526040519182918291909161018081019263ffffffff8082511683528060208301511660208401528060408301511660408401528060608301511660608401528060808301511660808401528060a08301511660a084015260ff60c08301511660c084015260ff60e08301511660e084015261010080830151908401526101208083015190840152610140818184015116908401526101608092015116910152565b346102d0575f3660031901126102d05760206040516127118152f35b346102d0575f3660031901126102d0576020604051818152f35b346102d05760803660031901126102d057600435366084116102d057805f5260016020906001602052610f3f60018060a01b03600160405f20015416331461384b565b610f54610f4e61058f85613f71565b1561395c565b825f52600a60205260405f20906024905f935f905b60038210610f9c5750505050557f10669e5eefc5bbab1ada6ef1146168e01926eb3220c8130efeb314ae35e22f775f80a2005b909181610fc98597610fae8497613b88565b908660021b60031b9163ffffffff809116831b921b19161790565b960193920190610f69565b346102d05760203660031901126102d057610c3690610ff1613de4565b506004355f52600e60205260405f2090600360405192610da084613678565b346102d0576020806003193601126102d0576004355f526007815260405f2090815461103b816137ee565b9061104960405192836136c2565b80825282820180945f52835f205f915b8383106110b9576040805187815286518189018190528992820190895f5b8281106110845784840385f35b9091928260406001926001600160401b03838a516110a38482516135c2565b0151168382015201960191019492919094611077565b60018681926040516110ca8161365d565b6001600160401b0386546110e160ff821684613dd8565b60081c1683820152815201920192019190611059565b346102d05760403660031901126102d057600435602480359060088210156102d05761112e60018060a01b03600d54163314613a44565b600282145f811561137f575b811561135a575b811561134a575b5015611306576111608261115b85613f71565b614360565b156112c957825f52600760205260405f206040519061117e8261365d565b6111888483613dd8565b60208201906001600160401b0342168252805490600160401b8210156112b657906111b891600182018155613520565b9290926112a457519060088210156112915768ffffffffffffffff0060ff84549316918260ff1985161785555160081b169168ffffffffffffffffff191617179055825f52600160205260405f20905f60068414159283611282575b600661122e910193849060ff801983541691151516179055565b61126f5750805461ff0019166005831460081b61ff00161790555f8051602061455a83398151915290604090611266825180926135c2565b426020820152a2005b634e487b7160e01b5f9081526021600452fd5b600785141593505f9150611214565b83634e487b7160e01b5f5260216004525ffd5b83634e487b7160e01b5f525f6004525ffd5b84634e487b7160e01b5f5260416004525ffd5b60649060166040519162461bcd60e51b8352602060048401528201527524b73b30b634b2103537b1103a3930b739b4ba34b7b760511b6044820152fd5b60649060176040519162461bcd60e51b8352602060048401528201527f4e6f74206120776f726b6572207472616e736974696f6e0000000000000000006044820152fd5b905061126f576006821484611148565b80915061136b576004831490611141565b50634e487b7160e01b5f9081526021600452fd5b5050600382145f61113a565b6134b1565b6135a6565b346102d05760203660031901126102d0576004355f52600160205260405f2090815460018060a01b036001840154169160ff61142f6002860154956114216003820154956113e5600484016136e3565b9060066113f4600586016136e3565b940154976040519a8b9a610100938c5260208c015260408b015260608a01528060808a01528801906134cc565b9086820360a08801526134cc565b92818116151560c086015260081c161515908301520390f35b346102d05760803660031901126102d057600435611464613438565b906001600160401b036044358181116102d057611485903690600401613549565b90916064359081116102d05761149f903690600401613579565b90845f5260019260016020526114c560018060a01b03600160405f20015416331461384b565b855f52600e60205260405f2091600383019463ffffffff966114fa88808954169b6114f18d1515613889565b169a8b10613abf565b8315158061166e575b9288928b95926115138c96613b0b565b855f52600f60205260405f20875f5260205261154e60405f20985486611543818360801c16828460601c166139a8565b9160a01c16906139a8565b988854936115678b61156088886137d4565b1115613b4c565b5f5b8681106116155750506040805194871663ffffffff9081168652959096169094166020840152507f6d12ca19e1790084653caddbab7b5a8f88db80e0641d43520b95673deaf8703693925050a354146115be57005b6115d06115ef92825460201c16613b99565b63ffffffff60201b82549160201b169063ffffffff60201b1916179055565b7f053845a634204d136588c65033e622ff4674daa8ea6ce59f2299b7b3c2acad2e5f80a3005b9194975092955084975061165e6116446116328385988a966138e1565b3561163e3688886138f1565b90613e6a565b61164e308261440b565b611658338261440b565b8a613936565b01928b95928b95928e9895611569565b506040841115611503565b346102d0575f3660031901126102d05760205f54604051908152f35b346102d05760203660031901126102d0576004355f52600b60205260405f206116c8600163ffffffff8354169201613c4a565b90610c3660405192839283613605565b346102d0575f3660031901126102d05760206040516104008152f35b346102d0576020806003193601126102d05760043590815f526001815261172b60018060a01b03600160405f20015416331461384b565b61173c61173783613f71565b614349565b1561182a57815f526007815260405f20604051916117598361365d565b60078352808301916001600160401b03421683528054600160401b8110156109ad5761178a91600182018155613520565b9390936118175751926008841015611803575f8051602061455a8339815191529360409368ffffffffffffffff0060ff84549316918260ff1985161785555160081b169168ffffffffffffffffff191617179055835f52600181526006825f200161ffff198154169055815190600782524290820152a2005b634e487b7160e01b5f52602160045260245ffd5b634e487b7160e01b5f525f60045260245ffd5b6064906040519062461bcd60e51b82526004820152601660248201527524b73b30b634b2103537b1103a3930b739b4ba34b7b760511b6044820152fd5b346102d05760603660031901126102d0576024358060030b81036102d0576001600160401b0380604435116102d0573660236044350112156102d05760443560040135116102d057366024606060443560040135026044350101116102d0576004355f5260016020526118ea60018060a01b03600160405f20015416331461384b565b6118fb610f4e61058f600435613f71565b6004355f52600e60205263ffffffff60405f2061191f826003830154161515613889565b5460401c166044356004013503611aaa576004355f52600860205260405f2063ffffffff198154168263ffffffff1617815560018101545f600183015580611a83575b505f5b6044356004013581106119b857826040519060030b815263ffffffff604435600401351660208201527f0f0f6d1353526e71afe4fd73f56c1334481ffdf9a38141c7c628400c94cef53a604060043592a2005b6001820154600160401b8110156109ad578060016119df9201600185015560018401613520565b919091611817576001916119fc6024606084026044350101613a36565b81548163ffffffff1663ffffffff19821617835563ffffffff611a2760446060870281350101613a36565b60201b921663ffffffff60201b838116826001600160401b0319851617178555611a5a6064606088026044350101613a36565b60401b63ffffffff60401b169316916bffffffffffffffffffffffff1916171717905501611965565b600182015f5260205f20908101905b818110611a9f5750611962565b5f8155600101611a92565b606460405162461bcd60e51b815260206004820152602060248201527f4f6e65207472616e73666f726d2070657220696d6167652072657175697265646044820152fd5b346102d05760203660031901126102d0576004355f526010602052602060405f2054604051908152f35b346102d05760603660031901126102d057600435611b34613438565b906001600160401b036044358181116102d057611b55903690600401613549565b9093835f52600194602093868552611b7c60018060a01b038860405f20015416331461384b565b611b8b610f4e61058f88613f71565b600291600285101580611d26575b15611ceb57865f52600b86528760405f2063ffffffff80961663ffffffff19825416178155019185116109ad57611bd085836139d1565b905f52845f208460031c91885f5b848110611c9e575050600719861686039081611c24575b887f647ea1d827b9aeebef87bd31a2457cf62db79c65dec0cca47b016312b49fc92089898960405191168152a2005b905f945f905b828210611c6657505050507f647ea1d827b9aeebef87bd31a2457cf62db79c65dec0cca47b016312b49fc9209697500155849386808080611bf5565b9091929589611c938d92611c798a613a36565b9086861b60031b9163ffffffff809116831b921b19161790565b970193920190611c2a565b5f805b8a60088210611cb857505081850155018990611bde565b611ce28693611cc8879498613a36565b90888c1b60031b9163ffffffff809116831b921b19161790565b92019401611ca1565b60405162461bcd60e51b8152600481018790526013602482015272125b9d985b1a59081cda195b1b0818dbdd5b9d606a1b6044820152606490fd5b50610400851115611b99565b346102d0575f3660031901126102d057600d546040516001600160a01b039091168152602090f35b346102d05760203660031901126102d0576004355f52600c60205260405f20600460205260405f20545f5260205260405f206116c8600163ffffffff8354169201613c4a565b346102d0576020806003193601126102d05760043590611dcb60018060a01b03600d54163314613a44565b815f5260038152600360405f20015463ffffffff90818116828115159283611f89575b50505015611f5057825f52600b825260405f20600c835260405f206004845260405f20545f52835260405f2090808203611f29575b505050611e37611e3283613f71565b614315565b1561182a57815f526007815260405f2090604051611e548161365d565b60058152818101926001600160401b03421684528054600160401b8110156109ad57611e8591600182018155613520565b91909161181757516008811015611803577f425526dd76066902e1ace4dc15eec2d194c949fb607a32d4bb60ec665b541f219368ffffffffffffffff0060ff84549316918260ff1985161785555160081b169168ffffffffffffffffff191617179055825f5260018152600660405f200161010161ffff19825416179055825f8051602061455a83398151915260408051600581524285820152a2604051428152a2005b600181611f48948293541663ffffffff19855416178455019101613bc2565b828080611e23565b60405162461bcd60e51b8152600481018390526011602482015270526573756c7420696e636f6d706c65746560781b6044820152606490fd5b851c16149050848281611dee565b346102d05760603660031901126102d0576024356001600160401b0381116102d057611fc7903690600401613549565b6044356001600160401b0381116102d057611fe6903690600401613549565b6004355f52600160205261200a60018060a01b03600160405f20015416331461384b565b8215158061219c575b15612161576004355f52601060205260405f208054945f5b85811061206957868660405191825260208201527f7e6efa0109a009a1bf7bfcbb226444876d63ad7feda611e353476c4261c1540f604060043592a2005b6120748187846138e1565b35151580612142575b156121105761208d8187846138e1565b35906001600160401b036120aa6120a583888a6138e1565b613bae565b604051936120b78561365d565b84521660208301528354600160401b8110156109ad578060016120dd92018655856138c8565b929092611817576001600160401b036020600180958451815501920151166001600160401b03198254161790550161202b565b60405162461bcd60e51b815260206004820152600a60248201526922b6b83a3c90313637b160b11b6044820152606490fd5b506001600160401b036121596120a58387896138e1565b16151561207d565b60405162461bcd60e51b8152602060048201526013602482015272496e76616c696420636f6d6d69746d656e747360681b6044820152606490fd5b50808314612013565b346102d0576101003660031901126102d0576121bf613438565b610160526044351515604435036102d0576064351515606435036102d0576001600160401b036084358181116102d0576121fd903690600401613549565b6101805260c05260a4358181116102d05761221c903690600401613549565b6101205260e05260c4358181116102d05761223b903690600401613549565b909160e4359081116102d057612255903690600401613549565b906080529161226f60018060a01b03600d54163314613a44565b61228061059461058f600435613f71565b6004355f52600360205260405f209263ffffffff6003850154168015612953576122b49063ffffffff610160511610613abf565b61018051151580612945575b6122c990613b0b565b82610120511480612939575b8061292b575b156128f6576004355f52600460205260405f205461014052600560205260405f20610140515f5260205260405f2063ffffffff61016051165f5260205260405f206101c05261233e845463ffffffff611543818360801c16828460601c166139a8565b926101c051546004355f52600660205260405f20610140515f5260205260405f2063ffffffff61016051165f5260205260ff60405f20541615156044351515146044355f146128c3576040516123938161365d565b6012815271139bc81d9bde195b081d1bc8195e1d195b9960721b6020820152905b1561289b57505f6101a0526044351561289257805f1981011161287e575f19016101a0525b6123ed84611560610180516101a0516137d4565b6004355f908152600160208190526040822001546001600160a01b031660a0526101008190525b61018051811061254d578585610120516101005103612519576004355f52600660205260405f20610140515f5260205260405f2063ffffffff61016051165f5260205261247260643560405f209060ff801983541691151516179055565b6040805161016051610180516101a05163ffffffff908116845290811660208401521691600435917f670c2d45307dcedca326ed6818a29efcd074a78f38fb96f9d88302625a71c62c9190a36101c05154148061250f575b6124d057005b8060036124eb63ffffffff8261250d95015460201c16613b99565b91019063ffffffff60201b82549160201b169063ffffffff60201b1916179055565b005b50606435156124ca565b60405162461bcd60e51b815260206004820152600c60248201526b556e75736564207465726d7360a01b6044820152606490fd5b60443580612876575b80156128695761256c6101a0516101c051613520565b90549060031b1c5b9061259f63ffffffff612595612590866101805160c0516138e1565b613b88565b16610100516137d4565b8061010051106125f8575090600192916125b9308361440b565b6125c560a0518361440b565b156125e6576125dd6109636101a0516101c051613520565b90555b01612414565b6125f3906101c051613936565b6125e0565b916004355f52600f60205260405f2063ffffffff612622612590610100516101205160e0516138e1565b165f5260205260405f2061263d61259061010051888b6138e1565b63ffffffff825491161015612824576126679061266161259061010051898c6138e1565b90613520565b90549060031b1c600163ffffffff612688612590610100518b6080516138e1565b160361275e575b80821561274e575b1561273c575b602090606460018060a01b035f8051602061453a8339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af1908115612731575f916126ff575b5091600161010051016101005261259f565b90506020813d602011612729575b8161271a602093836136c2565b810103126102d05751896126ed565b3d915061270d565b6040513d5f823e3d90fd5b506020612747614485565b905061269d565b9150612758614485565b91612697565b602063ffffffff91612779612590610100518b6080516138e1565b908015612812575b5f8051602061453a83398151915254604051630afe14ad60e31b81526004810192909252919093166024840152600160f81b6044840152829060649082905f906001600160a01b03165af1908115612731575f916127e0575b5061268f565b90506020813d60201161280a575b816127fb602093836136c2565b810103126102d057518a6127da565b3d91506127ee565b50606461281d614485565b9050612781565b60405162461bcd60e51b815260206004820152601960248201527f536f7572636520766f78656c206f7574206f662072616e6765000000000000006044820152606490fd5b612871614485565b612574565b508015612556565b634e487b7160e01b5f52601160045260245ffd5b6101a0526123d9565b60405162461bcd60e51b8152602060048201529081906128bf9060248301906134cc565b0390fd5b6040516128cf8161365d565b60148152732630b9ba103b37bc32b6103632b33a1037b832b760611b6020820152906123b4565b60405162461bcd60e51b815260206004820152600d60248201526c496e76616c6964207465726d7360981b6044820152606490fd5b5060206101205111156122db565b508061012051146122d5565b5061018051604010156122c0565b60405162461bcd60e51b8152602060048201526012602482015271139bc81c995cdd5b1d081b585b9a59995cdd60721b6044820152606490fd5b346102d05760203660031901126102d05760206129ab600435613f71565b6129b860405180926135c2565bf35b346102d05760403660031901126102d0576001600160401b036004356024358281116102d0576129ee903690600401613549565b825f9492945260019360209260018452612a1860018060a01b03600160405f20015416331461384b565b612a27610f4e61058f87613f71565b845f52600e845260405f209163ffffffff83612a4b82600381970154161515613889565b5460401c168403612b8957855f526009855260405f209184116109ad57612a7284836139d1565b905f52835f208360031c90875f5b838110612b3b5750506007198516850380612ac5575b877f35c07dc0bc9916e5b7773da069419325b1e326f6e85a75aebf0085906789239688888860405191168152a2005b925f935f5b818110612b04575050507f35c07dc0bc9916e5b7773da069419325b1e326f6e85a75aebf0085906789239696975001558493868080612a96565b90919488612b318c92612b1689613a36565b908560021b60031b9163ffffffff809116831b921b19161790565b9601929101612aca565b5f805b8960088210612b5557505081840155018890612a80565b612b808893612b6587949a613a36565b908a60021b60031b9163ffffffff809116831b921b19161790565b92019601612b3e565b60405162461bcd60e51b815260048101869052601c60248201527f4f6e6520616e676c652070657220696d616765207265717569726564000000006044820152606490fd5b346102d05760603660031901126102d0576004356001600160401b036024358181116102d057612c02903690600401613549565b916044359081116102d057612c1b903690600401613579565b9290845f526001936020916001602052612c4560018060a01b03600160405f20015416331461384b565b865f52601193601160205260405f2054612d125760088103612cd8575f5b818110612c9057887eadc0f2660f6908fecda7ba6cd5237374183650e8bbb377f3133280dd0f7e545f80a2005b80612cd2612caf612ca38b94868c6138e1565b3561163e3689896138f1565b612cb9308261440b565b612cc3338261440b565b8b5f5288885260405f20613936565b01612c63565b60405162461bcd60e51b8152602060048201526012602482015271092dcecc2d8d2c840d6caf240d8cadccee8d60731b6044820152606490fd5b60405162461bcd60e51b8152602060048201526014602482015273109b1bd8881ad95e48185b1c9958591e481cd95d60621b6044820152606490fd5b346102d05760403660031901126102d057612d6761350a565b6001600160a01b03165f908152600260205260409020805460243591908210156102d057602091612d9791613520565b90546040519160031b1c8152f35b346102d05760203660031901126102d0576004355f52600160205260405f2060018060a01b0360018201541660038201549160ff612e2a600683015492612e1c612dfd6005612df6600485016136e3565b93016136e3565b916040519788978852602088015260c0604088015260c08701906134cc565b9085820360608701526134cc565b918181161515608085015260081c16151560a08301520390f35b346102d05760403660031901126102d057612e5d613438565b6004355f52600f60205263ffffffff60405f2091165f52602052602060405f2054604051908152f35b346102d0575f3660031901126102d057602060405160088152f35b346102d05760603660031901126102d057602435604435906004355f5260206010815260405f2092612ed381846137d4565b9084548092115f1461300057505b8280821115612ff757612ef3916137e1565b925b612f17612f01856137ee565b94612f0f60405196876136c2565b8086526137ee565b601f1901825f5b828110612fd5575050505f5b8451811015612f875780612f49612f43600193876137d4565b846138c8565b506001600160401b038360405192612f608461365d565b8054845201541685820152612f758288613837565b52612f808187613837565b5001612f2a565b60408051848152865181860181905287860192820190865f5b828110612fad5784840385f35b8551805185528201516001600160401b03168483015294810194604090930192600101612fa0565b604051612fe18161365d565b5f81525f83820152828289010152018390612f1e565b50505f92612ef5565b61300b9150836137d4565b612ee1565b346102d0576020806003193601126102d0576004355f526008815260405f20908154916003600180920193845493613047856137ee565b9461305560405196876136c2565b80865281860180975f52825f205f915b8383106130cf5750505050604051946040860192840b8652604082870152518092526060926060860196935f915b8483106130a05787890388f35b85518051820b8a5280850151820b8a860152604090810151820b908a0152978101979483019491860191613093565b60409997999694959651606081018181106001600160401b038211176109ad576040908152835480880b835280891c880b89840152811c870b9082015281529698969395949391870191908701908401613065565b346102d0576020806003193601126102d05760043590815f5260019081815261315c60018060a01b038360405f20015416331461384b565b825f52600e8152600360405f20015463ffffffff8082169161317f831515613889565b831c16036132b65761319083613f71565b600881101590816118035780159182156132a9575b8215613298575b50501561182a57825f526007815260405f20604051926131cb8461365d565b808452828401916001600160401b03421683528054600160401b8110156109ad576131fa918382018155613520565b949094611817575192600884101561180357845f8051602061455a8339815191529460409468ffffffffffffffff0060ff8a99549316918260ff1985161785555160081b169168ffffffffffffffffff191617179055845f528181526006835f20018261ffff1982541617905582519182524290820152a27f85dd4f2a30708502674ea13092f9f569291b37592e81c8e2d78f1871cd9f4d9f5f80a2005b9091506118035760071484806131ac565b506006811491505f6131a5565b6064906040519062461bcd60e51b82526004820152601860248201527f54696c6573206e6f742066756c6c792075706c6f6164656400000000000000006044820152fd5b346102d0576020806003193601126102d057600435805f526001906001835261333360018060a01b03600160405f20015416331461384b565b5f526011825260405f209160405191828285549182815201945f52825f20925f905b82821061337857610c368661336c818a03826136c2565b60405191829182613476565b84548752958601959383019390830190613355565b346102d05761339b3661344b565b925f92919252600f60205263ffffffff60405f2091165f526020528060405f20926133c681836137d4565b9084548092115f1461342857505b8181111561341d576133e991610be9916137e1565b915f5b8351811015610c285780613405610c0a600193866137d4565b90549060031b1c6134168287613837565b52016133ec565b50506133e95f613805565b6134339150826137d4565b6133d4565b6024359063ffffffff821682036102d057565b60809060031901126102d0576004359060243563ffffffff811681036102d057906044359060643590565b60209060206040818301928281528551809452019301915f5b82811061349d575050505090565b83518552938101939281019260010161348f565b346102d0575f3660031901126102d057602060405160408152f35b91908251928382525f5b8481106134f6575050825f602080949584010152601f8019910116010190565b6020818301810151848301820152016134d6565b600435906001600160a01b03821682036102d057565b8054821015613535575f5260205f2001905f90565b634e487b7160e01b5f52603260045260245ffd5b9181601f840112156102d0578235916001600160401b0383116102d0576020808501948460051b0101116102d057565b9181601f840112156102d0578235916001600160401b0383116102d057602083818601950101116102d057565b346102d0575f3660031901126102d05760206040516103e88152f35b9060088210156118035752565b9081518082526020808093019301915f5b8281106135ee575050505090565b835160030b855293810193928101926001016135e0565b60409063ffffffff613622949316815281602082015201906135cf565b90565b90600182811c92168015613653575b602083101461363f57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691613634565b604081019081106001600160401b038211176109ad57604052565b61018081019081106001600160401b038211176109ad57604052565b6001600160401b0381116109ad57604052565b606081019081106001600160401b038211176109ad57604052565b90601f801991011681019081106001600160401b038211176109ad57604052565b9060405191825f82546136f581613625565b908184526020946001916001811690815f146137635750600114613725575b505050613723925003836136c2565b565b5f90815285812095935091905b81831061374b57505061372393508201015f8080613714565b85548884018501529485019487945091830191613732565b9250505061372394925060ff191682840152151560051b8201015f8080613714565b6101606003198201126102d05760043591816084116102d05760249160e4116102d05760849060e43560ff811681036102d057906101043560ff811681036102d0579061012435906101443590565b9190820180921161287e57565b9190820391821161287e57565b6001600160401b0381116109ad5760051b60200190565b9061380f826137ee565b61381c60405191826136c2565b828152809261382d601f19916137ee565b0190602036910137565b80518210156135355760209160051b010190565b1561385257565b60405162461bcd60e51b815260206004820152600f60248201526e2737ba1034b6b0b3b29037bbb732b960891b6044820152606490fd5b1561389057565b60405162461bcd60e51b815260206004820152601060248201526f139bc81d1a5b19481b585b9a59995cdd60821b6044820152606490fd5b8054821015613535575f5260205f209060011b01905f90565b91908110156135355760051b0190565b9291926001600160401b0382116109ad576040519161391a601f8201601f1916602001846136c2565b8294818452818301116102d0578281602093845f960137010152565b805490600160401b8210156109ad578161096391600161395894018155613520565b9055565b1561396357565b60405162461bcd60e51b815260206004820152601a60248201527f5265636f6e737472756374696f6e20696e2070726f67726573730000000000006044820152606490fd5b8181029291811591840414171561287e57565b8181106139c6575050565b5f81556001016139bb565b90600160401b81116109ad5781548183558082106139ee57505050565b613723925f52600760205f2091601c82850160031c84019460021b1680613a1c575b500160031c01906139bb565b5f19908186019182549160200360031b1c1690555f613a10565b358060030b81036102d05790565b15613a4b57565b60405162461bcd60e51b815260206004820152600e60248201526d2737ba103537b1103bb7b935b2b960911b6044820152606490fd5b15613a8857565b60405162461bcd60e51b815260206004820152600f60248201526e4a6f62206e6f742072756e6e696e6760881b6044820152606490fd5b15613ac657565b60405162461bcd60e51b815260206004820152601760248201527f54696c6520696e646578206f7574206f662072616e67650000000000000000006044820152606490fd5b15613b1257565b60405162461bcd60e51b8152602060048201526012602482015271496e76616c69642062617463682073697a6560701b6044820152606490fd5b15613b5357565b60405162461bcd60e51b815260206004820152600d60248201526c54696c65206f766572666c6f7760981b6044820152606490fd5b3563ffffffff811681036102d05790565b63ffffffff80911690811461287e5760010190565b356001600160401b03811681036102d05790565b90808214613c46578054906001600160401b0382116109ad57613be582846139d1565b5f5260205f20915f5260205f20918160031c918154915f5b848110613c315750506007198116808203613c1a575b5050505050565b5f19910360051b1b19169101555f80808080613c13565b60019182018054878301959095559101613bfd565b5050565b906040916040518093825492838352602091828401915f52825f20945f915b816007840110613d6a575061372395549184828210613d57575b828210613d42575b828210613d2c575b828210613d16575b828210613d00575b828210613cea575b828210613cd4575b5010613cc4575b50905003836136c2565b60e01d60030b815201805f613cba565b600191948460c01c60030b815201930184613cb3565b600191948460a01c60030b815201930184613cab565b600191948460801c60030b815201930184613ca3565b600191948460601c60030b815201930184613c9b565b600191948460401c60030b815201930184613c93565b6001919484821c60030b815201930184613c8b565b600191948460030b815201930184613c83565b8654600381810b865281871c810b8688015281831c810b86840152606082811c820b90870152608082811c820b9087015260a082811c820b9087015260c082811c820b9087015260e091821d900b908501526001909601958895506101009093019260089290920191613c69565b60088210156118035752565b60405190613df182613678565b5f610160838281528260208201528260408201528260608201528260808201528260a08201528260c08201528260e08201528261010082015282610120820152826101408201520152565b5f19811461287e5760010190565b908060209392818452848401375f828201840152601f01601f1916010190565b6020613eba9260018060a01b0392835f8051602061453a8339815191525416905f60405180978195829463196d0b9b60e01b845260048401523360248401526080604484015260848301906134cc565b6004606483015203925af1918215612731575f92613f3d575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b156102d057604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af1801561273157613f34575090565b61362290613694565b9091506020813d602011613f69575b81613f59602093836136c2565b810103126102d05751905f613ed3565b3d9150613f4c565b5f52600760205260405f2080549081155f14613f8d5750505f90565b5f19820191821161287e5760ff91613fa491613520565b50541690565b60088110156118035760018110159081613fc2575090565b60049150111590565b939194929094613fd9613de4565b5063ffffffff613fe886613b88565b161515806142fb575b806142e1575b156142ae5763ffffffff61400a87613b88565b16151580614294575b8061427a575b1561424857600860ff831614801561423b575b801561422e575b156141f35783156141b85761406161404a86613b88565b63ffffffff806140598a613b88565b169116614506565b95602086019661409161407389613b88565b9161408b602085019363ffffffff8061405987613b88565b906139a8565b9060408801926140bb6140a385613b88565b9361408b604084019563ffffffff8061405989613b88565b9863ffffffff8a11614182576140d090613b88565b996140da90613b88565b936140e490613b88565b906140ee90613b88565b916140f890613b88565b9261410290613b88565b936040519a6141108c613678565b63ffffffff168b5263ffffffff1660208b015263ffffffff1660408a015263ffffffff16606089015263ffffffff16608088015263ffffffff1660a087015260ff1660c086015260ff1660e085015261010084015261012083015263ffffffff1661014082015261016081015f905290565b60405162461bcd60e51b815260206004820152600e60248201526d546f6f206d616e792074696c657360901b6044820152606490fd5b60405162461bcd60e51b8152602060048201526013602482015272496e76616c69642076616c7565207363616c6560681b6044820152606490fd5b60405162461bcd60e51b8152602060048201526013602482015272092dcecc2d8d2c840ecc2d8eaca40eed2c8e8d606b1b6044820152606490fd5b50602060ff831614614033565b50601060ff83161461402c565b60405162461bcd60e51b815260206004820152600a602482015269456d7074792074696c6560b01b6044820152606490fd5b5063ffffffff61428c60408801613b88565b161515614019565b5063ffffffff6142a660208801613b88565b161515614013565b60405162461bcd60e51b815260206004820152600b60248201526a456d70747920737461636b60a81b6044820152606490fd5b5063ffffffff6142f360408701613b88565b161515613ff7565b5063ffffffff61430d60208701613b88565b161515613ff1565b61431e81613faa565b156143445760088110156118035760ff600191160160ff811161287e5760ff1660051490565b505f90565b61435290613faa565b1561435c57600190565b5f90565b600882101561180357600182146143d05761437a81613faa565b156143ca575f6006831480156143be575b6143b6576118035760088110156118035760ff600191160160ff811161287e5760ff80911691161490565b505050600190565b50505f6007831461438b565b50505f90565b60088110159150816118035780159182156143fe575b82156143f157505090565b9091506118035760071490565b506006811491505f6143e6565b7f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649700546001600160a01b031691823b156102d057604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290604490829084905af180156127315761447c5750565b61372390613694565b5f8051602061453a83398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af1908115612731575f916144d7575090565b90506020813d6020116144fe575b816144f2602093836136c2565b810103126102d0575190565b3d91506144e5565b81614510916137d4565b5f19810190811161287e578115614525570490565b634e487b7160e01b5f52601260045260245ffdfe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497012f2af3ff0331a9722352b262afd70b89e2d6a2ce34afc413c79e895ce449ea12a164736f6c6343000818000a";
+
+type EtCloudFheConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: EtCloudFheConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class EtCloudFhe__factory extends ContractFactory {
+  constructor(...args: EtCloudFheConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      EtCloudFhe & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): EtCloudFhe__factory {
+    return super.connect(runner) as EtCloudFhe__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): EtCloudFheInterface {
+    return new Interface(_abi) as EtCloudFheInterface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): EtCloudFhe {
+    return new Contract(address, _abi, runner) as unknown as EtCloudFhe;
+  }
+}
@@ -0,0 +1,125 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+import {
+  Contract,
+  ContractFactory,
+  ContractTransactionResponse,
+  Interface,
+} from "ethers";
+import type { Signer, ContractDeployTransaction, ContractRunner } from "ethers";
+import type { NonPayableOverrides } from "../../common";
+import type {
+  Multicall3,
+  Multicall3Interface,
+} from "../../contracts/Multicall3";
+
+const _abi = [
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "target",
+            type: "address",
+          },
+          {
+            internalType: "bool",
+            name: "allowFailure",
+            type: "bool",
+          },
+          {
+            internalType: "bytes",
+            name: "callData",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Multicall3.Call3[]",
+        name: "calls",
+        type: "tuple[]",
+      },
+    ],
+    name: "aggregate3",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "success",
+            type: "bool",
+          },
+          {
+            internalType: "bytes",
+            name: "returnData",
+            type: "bytes",
+          },
+        ],
+        internalType: "struct Multicall3.Result[]",
+        name: "returnData",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getBlockNumber",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "blockNumber",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+] as const;
+
+const _bytecode =
+  "0x60808060405234610016576103ba908161001b8239f35b5f80fdfe608060408181526004916004361015610016575f80fd5b5f3560e01c90816342cbb15c146102fb57506382ad56cb14610036575f80fd5b6020806003193601126102ac5767ffffffffffffffff906004358281116102ac57366023820112156102ac578060040135928084116102ac5760249036828660051b850101116102ac5761009661009186949597989661036d565b610347565b948386526100a38461036d565b601f19959086015f5b8181106102cc5750503681900360821901905f5b86811061016a578a8a8a8a83519280840191818552835180935285850182878560051b8801019501965f925b8584106100f95787870388f35b909192939495603f1988820301845285808a51805115158452015191848282015282519283868301525f5b848110610155575050600192829185601f6060935f858286010152011601019a0194019401929795949391906100ec565b81810184015183820160600152899301610124565b858160059c9b999a9c1b83010135838112156102ac578201868101356001600160a01b03811681036102ac5760649081830135604219843603018112156102ac5783019089820135908982116102ac5760448093019082360382136102ac578f515f9384938491839181908337810182815203925af13d156102c2573d8981116102b05790816102058f8f96959490601f8892011601610347565b9081525f81953d92013e5b8181159586610298575b50501561025957505090610242838e60019594610235610313565b941585528d850152610385565b5261024d818d610385565b500199979698996100c0565b7f4d756c746963616c6c333a2063616c6c206661696c656400000000000000000088918f8c8f601792519562461bcd60e51b8752860152840152820152fd5b0135905080151581036102ac57815f61021a565b5f80fd5b8a60418a634e487b7160e01b5f52525ffd5b9190606092610210565b98898982809a9b9d9c6102e09a969a610313565b925f84526060838501520101520199979698999591956100ac565b346102ac575f3660031901126102ac57602090438152f35b604051906040820182811067ffffffffffffffff82111761033357604052565b634e487b7160e01b5f52604160045260245ffd5b6040519190601f01601f1916820167ffffffffffffffff81118382101761033357604052565b67ffffffffffffffff81116103335760051b60200190565b80518210156103995760209160051b010190565b634e487b7160e01b5f52603260045260245ffdfea164736f6c6343000818000a";
+
+type Multicall3ConstructorParams =
+  | [signer?: Signer]
+  | ConstructorParameters<typeof ContractFactory>;
+
+const isSuperArgs = (
+  xs: Multicall3ConstructorParams
+): xs is ConstructorParameters<typeof ContractFactory> => xs.length > 1;
+
+export class Multicall3__factory extends ContractFactory {
+  constructor(...args: Multicall3ConstructorParams) {
+    if (isSuperArgs(args)) {
+      super(...args);
+    } else {
+      super(_abi, _bytecode, args[0]);
+    }
+  }
+
+  override getDeployTransaction(
+    overrides?: NonPayableOverrides & { from?: string }
+  ): Promise<ContractDeployTransaction> {
+    return super.getDeployTransaction(overrides || {});
+  }
+  override deploy(overrides?: NonPayableOverrides & { from?: string }) {
+    return super.deploy(overrides || {}) as Promise<
+      Multicall3 & {
+        deploymentTransaction(): ContractTransactionResponse;
+      }
+    >;
+  }
+  override connect(runner: ContractRunner | null): Multicall3__factory {
+    return super.connect(runner) as Multicall3__factory;
+  }
+
+  static readonly bytecode = _bytecode;
+  static readonly abi = _abi;
+  static createInterface(): Multicall3Interface {
+    return new Interface(_abi) as Multicall3Interface;
+  }
+  static connect(address: string, runner?: ContractRunner | null): Multicall3 {
+    return new Contract(address, _abi, runner) as unknown as Multicall3;
+  }
+}
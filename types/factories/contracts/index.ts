@@ -2,4 +2,6 @@
 /* tslint:disable */
 /* eslint-disable */
 export { CsrFeedbackFHE__factory } from "./CsrFeedbackFHE__factory";
+export { EtCloudFhe__factory } from "./EtCloudFhe__factory";
+export { Multicall3__factory } from "./Multicall3__factory";
 export { UniversalAdapter__factory } from "./UniversalAdapter__factory";
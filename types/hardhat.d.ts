@@ -49,6 +49,14 @@ declare module "hardhat/types/runtime" {
       name: "CsrFeedbackFHE",
       signerOrOptions?: ethers.Signer | FactoryOptions
     ): Promise<Contracts.CsrFeedbackFHE__factory>;
+    getContractFactory(
+      name: "EtCloudFhe",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.EtCloudFhe__factory>;
+    getContractFactory(
+      name: "Multicall3",
+      signerOrOptions?: ethers.Signer | FactoryOptions
+    ): Promise<Contracts.Multicall3__factory>;
     getContractFactory(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | FactoryOptions
@@ -99,6 +107,16 @@ declare module "hardhat/types/runtime" {
       address: string | ethers.Addressable,
       signer?: ethers.Signer
     ): Promise<Contracts.CsrFeedbackFHE>;
+    getContractAt(
+      name: "EtCloudFhe",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.EtCloudFhe>;
+    getContractAt(
+      name: "Multicall3",
+      address: string | ethers.Addressable,
+      signer?: ethers.Signer
+    ): Promise<Contracts.Multicall3>;
     getContractAt(
       name: "UniversalAdapter",
       address: string | ethers.Addressable,
@@ -141,6 +159,14 @@ declare module "hardhat/types/runtime" {
       name: "CsrFeedbackFHE",
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.CsrFeedbackFHE>;
+    deployContract(
+      name: "EtCloudFhe",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.EtCloudFhe>;
+    deployContract(
+      name: "Multicall3",
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.Multicall3>;
     deployContract(
       name: "UniversalAdapter",
       signerOrOptions?: ethers.Signer | DeployContractOptions
@@ -191,6 +217,16 @@ declare module "hardhat/types/runtime" {
       args: any[],
       signerOrOptions?: ethers.Signer | DeployContractOptions
     ): Promise<Contracts.CsrFeedbackFHE>;
+    deployContract(
+      name: "EtCloudFhe",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.EtCloudFhe>;
+    deployContract(
+      name: "Multicall3",
+      args: any[],
+      signerOrOptions?: ethers.Signer | DeployContractOptions
+    ): Promise<Contracts.Multicall3>;
     deployContract(
       name: "UniversalAdapter",
       args: any[],
@@ -24,5 +24,9 @@ export type { IInputVerifier } from "./@fhevm/solidity/lib/Impl.sol/IInputVerifi
 export { IInputVerifier__factory } from "./factories/@fhevm/solidity/lib/Impl.sol/IInputVerifier__factory";
 export type { CsrFeedbackFHE } from "./contracts/CsrFeedbackFHE";
 export { CsrFeedbackFHE__factory } from "./factories/contracts/CsrFeedbackFHE__factory";
+export type { EtCloudFhe } from "./contracts/EtCloudFhe";
+export { EtCloudFhe__factory } from "./factories/contracts/EtCloudFhe__factory";
+export type { Multicall3 } from "./contracts/Multicall3";
+export { Multicall3__factory } from "./factories/contracts/Multicall3__factory";
 export type { UniversalAdapter } from "./contracts/UniversalAdapter";
 export { UniversalAdapter__factory } from "./factories/contracts/UniversalAdapter__factory";